@@ -0,0 +1,120 @@
+import { GlobalFonts, Path2D, createCanvas, loadImage } from '@napi-rs/canvas'
+import type { Canvas, Image } from '@napi-rs/canvas'
+import { DEFAULT_AUTO_WIDTH, EXPORT_MATTE, renderComposition, resolveSettings } from '../src/core'
+import type { Annotation, CreateSurface, RenderSource, RenderSurface, Settings } from '../src/core'
+import { UI_FONT, loadFontSources } from '../src/lib/fonts'
+
+export type ImageInput = string | URL | Buffer | Uint8Array
+
+export type BeautifyFormat = 'png' | 'jpeg' | 'webp'
+
+export interface BeautifyOptions {
+  /** Device pixels per canvas pixel. Defaults to 2. */
+  scale?: number
+  format?: BeautifyFormat
+  /** 0–1, only used by the lossy formats. Defaults to 0.92. */
+  quality?: number
+  /** Leaves out the canvas background so only the frame, shadow, text, and watermark are painted. */
+  transparent?: boolean
+  /** Canvas width when the size is "auto"; fixed sizes use their own. */
+  width?: number
+  /** Window title; defaults to the frame title in the settings, else "Screenshot". */
+  title?: string
+  annotations?: Annotation[]
+  /** Wallpaper for "image" backgrounds. */
+  wallpaper?: ImageInput
+  onProgress?: (progress: number) => void
+}
+
+/** The renderer draws with the standard 2D API; @napi-rs/canvas implements it, with its own types. */
+const createNodeSurface: CreateSurface = (width, height) => {
+  const canvas = createCanvas(Math.max(1, Math.ceil(width)), Math.max(1, Math.ceil(height)))
+  return { canvas, context: canvas.getContext('2d') } as unknown as RenderSurface
+}
+
+const toRenderSource = (image: Image): RenderSource => ({
+  image: image as unknown as CanvasImageSource,
+  width: image.width,
+  height: image.height,
+})
+
+const registeredFonts = new Set<string>()
+let warnedOffline = false
+
+/**
+ * Fetches the UI and headline fonts from Google Fonts once per process. Offline renders
+ * still work; text just falls back to the system's fonts.
+ */
+const registerFonts = async (settings: Settings, text: string) => {
+  try {
+    const sources = await loadFontSources([UI_FONT, settings.textFont], text)
+    sources.forEach(({ family, weight, style, unicodeRange, data }) => {
+      const key = [family, weight, style, unicodeRange].join('|')
+      if (registeredFonts.has(key)) return
+      registeredFonts.add(key)
+      GlobalFonts.register(Buffer.from(data), family)
+    })
+  } catch (error) {
+    if (warnedOffline) return
+    warnedOffline = true
+    console.warn(`Could not fetch fonts; text uses system fonts instead. ${String(error)}`)
+  }
+}
+
+/**
+ * Renders `image` with `settings` (partial settings are filled in from the defaults) and
+ * returns the encoded file. Runs in Node without a browser.
+ */
+export const beautify = async (
+  image: ImageInput,
+  settings: Partial<Settings> = {},
+  options: BeautifyOptions = {},
+) => {
+  // The frame chrome draws its lock icon with Path2D, which Node doesn't provide.
+  globalThis.Path2D ??= Path2D as unknown as typeof globalThis.Path2D
+  const resolved = resolveSettings(settings).settings
+  const { format = 'png', annotations = [] } = options
+  const title = options.title ?? (resolved.frameTitle.trim() || 'Screenshot')
+  const [screenshot, wallpaper, watermark] = await Promise.all([
+    loadImage(image),
+    options.wallpaper && resolved.backgroundType === 'image' ? loadImage(options.wallpaper) : null,
+    resolved.watermarkLogo ? loadImage(resolved.watermarkLogo) : null,
+  ])
+  await registerFonts(
+    resolved,
+    [
+      resolved.headline,
+      resolved.caption,
+      title,
+      resolved.browserUrl,
+      resolved.watermarkText,
+      '0123456789',
+      ...annotations.map((annotation) => (annotation.type === 'text' ? annotation.text : '')),
+    ].join(''),
+  )
+
+  const source = toRenderSource(screenshot)
+  const { surface } = await renderComposition(
+    {
+      settings: resolved,
+      screenshot: source,
+      annotations,
+      backdrop:
+        resolved.backgroundType === 'screenshot' ? source : wallpaper ? toRenderSource(wallpaper) : null,
+      title,
+      autoWidth: options.width ?? DEFAULT_AUTO_WIDTH,
+      arrangement: null,
+      watermark: watermark ? toRenderSource(watermark) : null,
+      motion: null,
+    },
+    {
+      scale: options.scale ?? 2,
+      transparent: (options.transparent ?? false) && format !== 'jpeg',
+      matte: format === 'jpeg' ? EXPORT_MATTE : undefined,
+      createSurface: createNodeSurface,
+      onProgress: options.onProgress,
+    },
+  )
+  const canvas = surface.canvas as unknown as Canvas
+  return format === 'png' ? canvas.encode('png') : canvas.encode(format, Math.round((options.quality ?? 0.92) * 100))
+}
@@ -0,0 +1,172 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { glob, isDynamicPattern } from 'tinyglobby'
+import { backgroundPresets, getBackgroundPreset, readSettingsFile } from '../src/core'
+import type { Settings } from '../src/core'
+import { beautify } from './beautify'
+import type { BeautifyFormat } from './beautify'
+
+const USAGE = `Usage: ssbeautify render <inputs...> [options]
+       ssbeautify presets
+
+Renders screenshots with the same styling as the app. Inputs are files or globs.
+
+Options:
+  -p, --preset <id>        Background preset (see \`ssbeautify presets\`)
+  -s, --settings <file>    Settings JSON, an app settings export, or a preset pack
+      --style <name>       Style to use from a preset pack (default: its first)
+      --scale <n>          Pixel scale (default: 2)
+  -f, --format <format>    png, jpeg, or webp (default: from --output, else png)
+  -q, --quality <0-100>    Quality for jpeg and webp (default: 92)
+      --transparent        Leave out the canvas background
+      --width <px>         Canvas width for the "auto" size
+  -o, --output <path>      Output file for one input, otherwise a directory (default: .)
+  -h, --help               Show this help`
+
+const FORMAT_EXTENSIONS: Record<BeautifyFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' }
+
+/** Mistakes in the command line itself, reported with the usage hint. */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+const fail = (message: string) => console.error(`ssbeautify: ${message}`)
+
+const parseNumber = (value: string | undefined, name: string, min: number, max: number) => {
+  if (value === undefined) return undefined
+  const number = Number(value)
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new UsageError(`--${name} must be a number from ${min} to ${max}.`)
+  }
+  return number
+}
+
+const parseFormat = (value: string | undefined, output: string | undefined): BeautifyFormat => {
+  const format = (value ?? (path.extname(output ?? '').slice(1) || 'png')).toLowerCase()
+  if (format === 'png' || format === 'webp') return format
+  if (format === 'jpg' || format === 'jpeg') return 'jpeg'
+  throw new UsageError(`Unsupported format “${format}”. Use png, jpeg, or webp.`)
+}
+
+/** Globs are expanded; plain paths are kept even when missing, so the error names them. */
+const expandInputs = async (patterns: string[]) => {
+  const files: string[] = []
+  for (const pattern of patterns) {
+    if (!isDynamicPattern(pattern)) {
+      files.push(pattern)
+      continue
+    }
+    const matches = await glob(pattern, { onlyFiles: true, expandDirectories: false })
+    if (matches.length === 0) throw new UsageError(`No files match “${pattern}”.`)
+    files.push(...matches.sort())
+  }
+  return [...new Set(files)]
+}
+
+const isDirectory = (target: string) =>
+  stat(target).then(
+    (stats) => stats.isDirectory(),
+    () => false,
+  )
+
+const loadSettings = async (file: string | undefined, style: string | undefined, preset: string | undefined) => {
+  let settings: Partial<Settings> = {}
+  if (file) {
+    const result = readSettingsFile(await readFile(file, 'utf8'), style)
+    if (result.invalidKeys.length > 0) {
+      fail(`Ignored invalid settings in ${file}: ${result.invalidKeys.join(', ')}`)
+    }
+    settings = result.settings
+  } else if (style) {
+    throw new UsageError('--style needs a preset pack passed with --settings.')
+  }
+  if (preset) {
+    const background = getBackgroundPreset(preset)
+    if (!background) throw new UsageError(`Unknown preset “${preset}”. Run \`ssbeautify presets\` to list them.`)
+    settings = { ...settings, ...background.settings }
+  }
+  return settings
+}
+
+const render = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      preset: { type: 'string', short: 'p' },
+      settings: { type: 'string', short: 's' },
+      style: { type: 'string' },
+      scale: { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      quality: { type: 'string', short: 'q' },
+      transparent: { type: 'boolean' },
+      width: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+    },
+  })
+  if (positionals.length === 0) throw new UsageError('No input files.')
+
+  const settings = await loadSettings(values.settings, values.style, values.preset)
+  const format = parseFormat(values.format, values.output)
+  const scale = parseNumber(values.scale, 'scale', 0.1, 8) ?? 2
+  const quality = (parseNumber(values.quality, 'quality', 0, 100) ?? 92) / 100
+  const width = parseNumber(values.width, 'width', 64, 16384)
+  const inputs = await expandInputs(positionals)
+
+  const output = values.output ?? '.'
+  const toDirectory = inputs.length > 1 || !path.extname(output) || (await isDirectory(output))
+  if (toDirectory) await mkdir(output, { recursive: true })
+
+  let failures = 0
+  for (const input of inputs) {
+    const name = path.parse(input).name || 'Screenshot'
+    const target = toDirectory ? path.join(output, `${name}-${scale}x.${FORMAT_EXTENSIONS[format]}`) : output
+    try {
+      const file = await beautify(await readFile(input), settings, {
+        scale,
+        format,
+        quality,
+        transparent: values.transparent,
+        width,
+        title: settings.frameTitle?.trim() || name,
+      })
+      await writeFile(target, file)
+      console.log(`${input} → ${target}`)
+    } catch (error) {
+      failures += 1
+      fail(`${input}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  return failures === 0 ? 0 : 1
+}
+
+const listPresets = () => {
+  const width = Math.max(...backgroundPresets.map((preset) => preset.id.length))
+  backgroundPresets.forEach((preset) => console.log(`${preset.id.padEnd(width)}  ${preset.label}`))
+  return 0
+}
+
+const main = async (argv: string[]) => {
+  const [command, ...args] = argv
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE)
+    return 0
+  }
+  try {
+    if (command === 'render') return await render(args)
+    if (command === 'presets') return listPresets()
+    throw new UsageError(`Unknown command “${command}”.`)
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error))
+    if (error instanceof UsageError || (error instanceof TypeError && 'code' in error)) {
+      console.error('Run `ssbeautify --help` for usage.')
+    }
+    return 1
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2))
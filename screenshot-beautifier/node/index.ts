@@ -0,0 +1,5 @@
+/** The Node entry point: `beautify()` plus the framework-free styling model it renders with. */
+
+export { beautify } from './beautify'
+export type { BeautifyFormat, BeautifyOptions, ImageInput } from './beautify'
+export * from '../src/core'
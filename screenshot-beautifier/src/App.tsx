@@ -1,279 +1,398 @@
-import { useMemo, useRef, useState } from 'react'
-import type { ChangeEvent, DragEvent, CSSProperties, ReactNode } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { ChangeEvent, DragEvent } from 'react'
 import clsx from 'clsx'
-import { toPng } from 'html-to-image'
-
-type BackgroundType = 'gradient' | 'solid'
-
-interface Settings {
-  borderRadius: number
-  padding: number
-  dropShadow: number
-  backgroundType: BackgroundType
-  gradientFrom: string
-  gradientTo: string
-  gradientAngle: number
-  backgroundColor: string
-  showWindowChrome: boolean
-  windowAccent: string
-  noise: number
-  vignette: number
-}
-
-const backgroundModes: { id: BackgroundType; label: string; description: string }[] = [
-  {
-    id: 'gradient',
-    label: 'Gradient',
-    description: 'Soft two-tone glow for hero shots.',
-  },
-  {
-    id: 'solid',
-    label: 'Solid',
-    description: 'Minimal backdrop for focused visuals.',
-  },
-]
-
-const gradientPresets = [
-  { id: 'aurora', label: 'Aurora', from: '#60a5fa', to: '#a855f7', angle: 130 },
-  { id: 'sunset', label: 'Sunset', from: '#fb7185', to: '#f97316', angle: 140 },
-  { id: 'mint', label: 'Mint', from: '#22d3ee', to: '#34d399', angle: 125 },
-  { id: 'midnight', label: 'Midnight', from: '#1d4ed8', to: '#0f172a', angle: 150 },
-]
-
-const solidPresets = [
-  { id: 'obsidian', label: 'Obsidian', color: '#0f172a' },
-  { id: 'slate', label: 'Slate', color: '#1f2937' },
-  { id: 'ocean', label: 'Ocean', color: '#082f49' },
-  { id: 'ice', label: 'Ice', color: '#e0f2fe' },
-]
+import {
+  canReadClipboard,
+  canWriteImageToClipboard,
+  fetchImageFile,
+  getClipboardImageFile,
+  getClipboardImageUrl,
+  isEditableTarget,
+  readClipboardImage,
+  writeImageToClipboard,
+} from './lib/clipboard'
+import {
+  buildExportFileName,
+  createExportTimestamp,
+  createZipBlob,
+  downloadBlob,
+  exportFormats,
+  getExportFormat,
+  renderExportBlob,
+  renderPngBlob,
+  renderThumbnail,
+} from './lib/exporter'
+import type { ExportFormat, ExportJob } from './lib/exporter'
+import { buildAnimationFileName, getSupportedAnimationFormats, renderAnimation } from './lib/animationExport'
+import type { AnimationOptions } from './lib/animationExport'
+import { AnimationPanel } from './components/AnimationPanel'
+import type { Size } from './lib/canvasSize'
+import { useElementSize } from './hooks/useElementSize'
+import { useHistory } from './hooks/useHistory'
+import { SectionCard, SegmentedControl, SliderControl, ToggleControl } from './components/controls'
+import { PresetLibrary } from './components/PresetLibrary'
+import { usePresetLibrary } from './hooks/usePresetLibrary'
+import { PresetPackError } from './lib/presetLibrary'
+import { buildShareUrl, readSettingsFromLocation } from './lib/shareLink'
+import { createQueuedImage, toFriendlyName } from './lib/images'
+import {
+  ACCEPTED_IMAGE_TYPES,
+  DOWNSCALE_PIXELS,
+  IMAGE_BYTES_MAX,
+  ImageInputError,
+  formatBytes,
+  prepareImageFile,
+} from './lib/imageInput'
+import { Toasts } from './components/Toasts'
+import { useToasts } from './hooks/useToasts'
+import type { QueuedImage } from './lib/images'
+import { ImageQueue } from './components/ImageQueue'
+import { DeviceFrame } from './components/DeviceFrame'
+import { AnnotationLayer } from './components/AnnotationLayer'
+import { AnnotationPanel } from './components/AnnotationPanel'
+import { DEFAULT_ANNOTATION_STYLE } from './lib/annotations'
+import type { Annotation, AnnotationStyle, AnnotationTool } from './lib/annotations'
+import { CropOverlay } from './components/CropOverlay'
+import { RedactedImage } from './components/RedactedImage'
+import { RedactionLayer } from './components/RedactionLayer'
+import { RedactionPanel } from './components/RedactionPanel'
+import { countUnconfirmed } from './lib/redaction'
+import type { Redaction, RedactionMode } from './lib/redaction'
+import { PlacementPanel } from './components/PlacementPanel'
+import { ScreensPanel } from './components/ScreensPanel'
+import { StitchPanel } from './components/StitchPanel'
+import { stitchImages } from './lib/stitch'
+import type { StitchLayout } from './lib/stitch'
+import { ArrangedScreens } from './components/ArrangedScreens'
+import { DEFAULT_ARRANGEMENT, isArranged } from './lib/arrangements'
+import { CommandPalette } from './components/CommandPalette'
+import { Keys, ShortcutHelp } from './components/ShortcutHelp'
+import { collectSettingCommands } from './lib/commandPalette'
+import type { PaletteCommand } from './lib/commandPalette'
+import {
+  blocksShortcuts,
+  cycleIndex,
+  findShortcut,
+  formatCombo,
+  getShortcut,
+  getShortcutHint,
+} from './lib/shortcuts'
+import type { ShortcutId } from './lib/shortcuts'
+import { backgroundPresets, findBackgroundPresetIndex } from './core/styles'
+import type { Arrangement } from './lib/arrangements'
+import { CanvasText } from './components/CanvasText'
+import { TextPanel } from './components/TextPanel'
+import { WatermarkPanel } from './components/WatermarkPanel'
+import { WatermarkLayer } from './components/WatermarkLayer'
+import { WATERMARK_LOGO_SIDE, hasWatermark, keepWatermark } from './lib/watermark'
+import { loadTextFont } from './lib/fonts'
+import { getPaletteSuggestions, matchSettingsToPalette } from './lib/palette'
+import { BackgroundPanel } from './components/BackgroundPanel'
+import { ShadowPanel } from './components/ShadowPanel'
+import { FramePanel } from './components/FramePanel'
+import { CanvasPanel } from './components/CanvasPanel'
+import { LayoutPanel } from './components/LayoutPanel'
+import { EffectsPanel } from './components/EffectsPanel'
+import { EffectLayers } from './components/EffectLayers'
+import { CanvasBackdrop } from './components/CanvasBackdrop'
+import { getBackdropImageStyle } from './lib/backgrounds'
+import type { Wallpaper } from './lib/backgrounds'
+import {
+  FULL_CROP,
+  createSizerDataUrl,
+  getCropAspectRatio,
+  getCropRect,
+  getCroppedSize,
+  getFrameAlignAxes,
+  getFrameTransform,
+  getImagePlaneStyle,
+  toCropSettings,
+} from './lib/placement'
+import { getFrameDefinition } from './lib/frames'
+import type { StylePreset } from './lib/presetLibrary'
+import { getBoxShadowCss, getPlateShadows } from './lib/atmosphere'
+import {
+  AUTO_COMPOSITION_MAX_WIDTH,
+  AUTO_VIEWPORT_MAX_HEIGHT,
+  CANVAS_GUTTER,
+  PLATE_RADIUS_OFFSET,
+  WINDOW_SIZER_WIDTH,
+  computeCompositionLayout,
+  getFittedImageSize,
+  getTextGap,
+  hasCanvasText,
+  isTextBeside,
+} from './lib/renderLayout'
+import { DEFAULT_SETTINGS, areSettingsEqual, getCanvasBackground } from './settings'
+import type { Settings } from './settings'
 
 const exportScaleOptions = [1, 2, 3] as const
 
-interface SectionCardProps {
-  title: string
-  description?: string
-  action?: ReactNode
-  children: ReactNode
-}
-
-const SectionCard = ({ title, description, action, children }: SectionCardProps) => (
-  <section className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-[0_24px_60px_-40px_rgba(15,23,42,0.9)] backdrop-blur-xl">
-    <header className="mb-5 flex items-start justify-between gap-4">
-      <div className="space-y-1">
-        <h2 className="text-base font-semibold text-white">{title}</h2>
-        {description ? <p className="text-sm text-slate-400">{description}</p> : null}
-      </div>
-      {action ? <div>{action}</div> : null}
-    </header>
-    <div className="space-y-4">{children}</div>
-  </section>
-)
-
-interface SliderControlProps {
-  label: string
-  value: number
-  min: number
-  max: number
-  step?: number
-  onChange: (value: number) => void
-  helper?: string
-  suffix?: string
-}
+const PREVIEW_MAX_HEIGHT = 680
 
-const SliderControl = ({
-  label,
-  value,
-  min,
-  max,
-  step = 1,
-  onChange,
-  helper,
-  suffix,
-}: SliderControlProps) => (
-  <label className="block space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
-    <div className="flex items-center justify-between gap-3 text-sm font-medium text-slate-200">
-      <span>{label}</span>
-      <span className="text-xs font-semibold text-slate-400">
-        {Math.round(value)}
-        {suffix}
-      </span>
-    </div>
-    <input
-      type="range"
-      min={min}
-      max={max}
-      step={step}
-      value={value}
-      onChange={(event) => onChange(Number(event.target.value))}
-      className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-600 accent-primary-400"
-    />
-    {helper ? <p className="text-xs text-slate-400">{helper}</p> : null}
-  </label>
-)
-
-interface ColorControlProps {
-  label: string
-  value: string
-  onChange: (value: string) => void
-  helper?: string
-}
+/** One toast per batch: the first few messages, then a count of the rest. */
+const TOAST_MESSAGES_MAX = 3
 
-const ColorControl = ({ label, value, onChange, helper }: ColorControlProps) => (
-  <label className="flex items-center justify-between gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
-    <div className="space-y-1">
-      <span className="block text-sm font-medium text-slate-200">{label}</span>
-      {helper ? <span className="block text-xs text-slate-400">{helper}</span> : null}
-    </div>
-    <input
-      type="color"
-      value={value}
-      onChange={(event) => onChange(event.target.value)}
-      className="h-10 w-14 cursor-pointer rounded-md border border-white/20 bg-transparent p-0"
-    />
-  </label>
-)
-
-interface ToggleControlProps {
-  label: string
-  description?: string
-  checked: boolean
-  onChange: (checked: boolean) => void
-}
+const summarizeMessages = (messages: string[]) =>
+  [
+    ...messages.slice(0, TOAST_MESSAGES_MAX),
+    ...(messages.length > TOAST_MESSAGES_MAX ? [`…and ${messages.length - TOAST_MESSAGES_MAX} more.`] : []),
+  ].join('\n')
 
-const ToggleControl = ({ label, description, checked, onChange }: ToggleControlProps) => (
-  <label className="flex items-center justify-between gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
-    <div className="space-y-1">
-      <span className="block text-sm font-medium text-slate-200">{label}</span>
-      {description ? <span className="block text-xs text-slate-400">{description}</span> : null}
-    </div>
-    <button
-      type="button"
-      role="switch"
-      aria-checked={checked}
-      onClick={() => onChange(!checked)}
-      className={clsx(
-        'relative flex h-6 w-11 items-center rounded-full border transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-300',
-        checked
-          ? 'border-primary-300 bg-primary-500/80'
-          : 'border-white/15 bg-slate-700/60',
-      )}
-    >
-      <span
-        className={clsx(
-          'inline-block h-5 w-5 translate-x-0.5 rounded-full bg-white shadow transition',
-          checked && 'translate-x-[22px]',
-        )}
-      />
-    </button>
-  </label>
-)
-
-interface SegmentedControlOption<T extends string> {
-  id: T
-  label: string
-  description: string
-}
-
-interface SegmentedControlProps<T extends string> {
-  options: SegmentedControlOption<T>[]
-  value: T
-  onChange: (value: T) => void
-}
-
-function SegmentedControl<T extends string>({ options, value, onChange }: SegmentedControlProps<T>) {
-  return (
-    <div className="grid grid-cols-2 gap-3">
-      {options.map((option) => (
-        <button
-          key={option.id}
-          type="button"
-          onClick={() => onChange(option.id)}
-          className={clsx(
-            'rounded-2xl border p-4 text-left transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400',
-            value === option.id
-              ? 'border-primary-400/75 bg-primary-400/10 text-white shadow-glow-xl'
-              : 'border-white/10 bg-white/5 text-slate-300 hover:border-white/20 hover:bg-white/10',
-          )}
-        >
-          <span className="block text-sm font-semibold">{option.label}</span>
-          <span className="mt-1 block text-xs text-slate-400">{option.description}</span>
-        </button>
-      ))}
-    </div>
-  )
+/**
+ * Everything undo/redo walks through: the image queue, the shared styling, the wallpaper,
+ * and how several screenshots are arranged on the canvas.
+ */
+interface EditorSnapshot {
+  images: QueuedImage[]
+  settings: Settings
+  wallpaper: Wallpaper | null
+  arrangement: Arrangement
 }
 
-interface PresetSwatchProps {
-  label: string
-  active: boolean
-  style: CSSProperties
-  onClick: () => void
-}
+const createInitialSnapshot = (): EditorSnapshot => ({
+  images: [],
+  settings: readSettingsFromLocation() ?? DEFAULT_SETTINGS,
+  wallpaper: null,
+  arrangement: DEFAULT_ARRANGEMENT,
+})
 
-const PresetSwatch = ({ label, active, style, onClick }: PresetSwatchProps) => (
-  <button
-    type="button"
-    onClick={onClick}
-    className={clsx(
-      'group flex flex-col gap-3 rounded-2xl border p-4 text-left transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400',
-      active
-        ? 'border-primary-400/75 bg-primary-400/10 text-white shadow-glow-xl'
-        : 'border-white/10 bg-white/5 text-slate-300 hover:border-white/20 hover:bg-white/10',
-    )}
-  >
-    <span className="block h-16 w-full rounded-xl border border-white/5" style={style} />
-    <span className="text-xs font-semibold uppercase tracking-widest text-white/80">
-      {label}
-    </span>
-  </button>
-)
-
-const DEFAULT_SETTINGS: Settings = {
-  borderRadius: 36,
-  padding: 72,
-  dropShadow: 65,
-  backgroundType: 'gradient',
-  gradientFrom: '#60a5fa',
-  gradientTo: '#a855f7',
-  gradientAngle: 135,
-  backgroundColor: '#0f172a',
-  showWindowChrome: true,
-  windowAccent: '#22d3ee',
-  noise: 12,
-  vignette: 40,
+/** Re-matches the style `imageId` renders with to its colors when "Match screenshot" is on. */
+const matchSnapshotToImage = (snapshot: EditorSnapshot, imageId: string): EditorSnapshot => {
+  const image = snapshot.images.find((candidate) => candidate.id === imageId)
+  if (!image) return snapshot
+  if (image.overrides) {
+    if (!image.overrides.matchScreenshot) return snapshot
+    const overrides = matchSettingsToPalette(image.overrides, image.palette)
+    return overrides === image.overrides
+      ? snapshot
+      : {
+          ...snapshot,
+          images: snapshot.images.map((candidate) =>
+            candidate.id === imageId ? { ...candidate, overrides } : candidate,
+          ),
+        }
+  }
+  if (!snapshot.settings.matchScreenshot) return snapshot
+  const settings = matchSettingsToPalette(snapshot.settings, image.palette)
+  return settings === snapshot.settings ? snapshot : { ...snapshot, settings }
 }
 
 function App() {
-  const [imageDataUrl, setImageDataUrl] = useState<string | null>(null)
-  const [imageName, setImageName] = useState('Screenshot')
-  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  const history = useHistory(createInitialSnapshot)
+  const { set: setSnapshot, undo, redo } = history
+  const { images, wallpaper, arrangement } = history.present
+  const [activeImageId, setActiveImageId] = useState<string | null>(null)
+  /** `done` counts finished images plus the share of the current one already rendered. */
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null)
+  const batchCancelledRef = useRef(false)
+  const animationAbortRef = useRef<AbortController | null>(null)
+  const [annotationTool, setAnnotationTool] = useState<AnnotationTool>('select')
+  const [annotationStyle, setAnnotationStyle] = useState<AnnotationStyle>(DEFAULT_ANNOTATION_STYLE)
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null)
+  /** The image whose crop is being edited; the preview shows it uncropped with handles. */
+  const [croppingImageId, setCroppingImageId] = useState<string | null>(null)
+  const [redactingImageId, setRedactingImageId] = useState<string | null>(null)
+  const [redactionMode, setRedactionMode] = useState<RedactionMode>('pixelate')
+  const [selectedRedactionId, setSelectedRedactionId] = useState<string | null>(null)
+  const [textBlockSize, setTextBlockSize] = useState<Size>({ width: 0, height: 0 })
+
+  // The active id lives outside history, so fall back to the newest image after an undo.
+  const activeImage =
+    images.find((image) => image.id === activeImageId) ?? images[images.length - 1] ?? null
+  // Arranged screens share one canvas, so they render with the shared style, not custom ones.
+  const arranged = isArranged(arrangement) && activeImage !== null
+  const settings = (!arranged && activeImage?.overrides) || history.present.settings
+  const imageDataUrl = activeImage?.dataUrl ?? null
+  const imageName = activeImage?.name ?? 'Screenshot'
+  const activeImageKey = activeImage?.id ?? null
+  const selectedAnnotation =
+    activeImage?.annotations.find((annotation) => annotation.id === selectedAnnotationId) ?? null
   const [isDragging, setIsDragging] = useState(false)
-  const [isExporting, setIsExporting] = useState(false)
+  /** 0–1 while the current image is rendering for export, else null. */
+  const [exportProgress, setExportProgress] = useState<number | null>(null)
+  const isExporting = exportProgress !== null
   const [exportScale, setExportScale] = useState<1 | 2 | 3>(2)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('png')
+  const [exportQuality, setExportQuality] = useState(92)
+  const [transparentExport, setTransparentExport] = useState(false)
+  const [animationFormatOptions] = useState(getSupportedAnimationFormats)
+  const [animationOptions, setAnimationOptions] = useState<AnimationOptions>(() => ({
+    kind: 'float-in',
+    format: animationFormatOptions[0].id,
+    duration: 4,
+    fps: 30,
+    loop: true,
+    bounce: false,
+  }))
+  /** 0–1 while an animation is rendering and encoding, else null. */
+  const [animationProgress, setAnimationProgress] = useState<number | null>(null)
+  const [isCopying, setIsCopying] = useState(false)
+  const [copiedTarget, setCopiedTarget] = useState<'image' | 'link' | null>(null)
+  const [isSavingPreset, setIsSavingPreset] = useState(false)
+  const { toasts, notify, dismiss: dismissToast } = useToasts()
+  const presetLibrary = usePresetLibrary(notify)
+  /** Scales captures past `DOWNSCALE_PIXELS` down as they are added. */
+  const [downscaleImages, setDownscaleImages] = useState(true)
+  /** The open command palette's commands, gathered when it opens; null while closed. */
+  const [paletteCommands, setPaletteCommands] = useState<PaletteCommand[] | null>(null)
+  const [isHelpOpen, setIsHelpOpen] = useState(false)
+  const asideRef = useRef<HTMLElement | null>(null)
 
   const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const uploadAction = { label: 'Upload', run: () => fileInputRef.current?.click() }
   const previewRef = useRef<HTMLDivElement | null>(null)
+  const previewViewportRef = useRef<HTMLDivElement | null>(null)
+  const previewViewportSize = useElementSize(previewViewportRef)
 
-  const updateSetting = <K extends keyof Settings>(key: K, value: Settings[K]) => {
-    setSettings((previous) => ({ ...previous, [key]: value }))
+  /**
+   * Routes edits to the active image's custom style when it has one and is shown on its own,
+   * else to the shared style.
+   */
+  const setSettings = (update: Settings | ((previous: Settings) => Settings), coalesceKey?: string) => {
+    const apply = (previous: Settings) => (typeof update === 'function' ? update(previous) : update)
+    const targetId = !arranged && activeImage?.overrides ? activeImage.id : null
+    setSnapshot(
+      (previous) =>
+        targetId
+          ? {
+              ...previous,
+              images: previous.images.map((image) =>
+                image.id === targetId && image.overrides
+                  ? { ...image, overrides: apply(image.overrides) }
+                  : image,
+              ),
+            }
+          : { ...previous, settings: apply(previous.settings) },
+      { coalesceKey },
+    )
   }
 
-  const readFile = (file: File) => {
-    if (!file.type.startsWith('image/')) return
+  const updateSettings = (patch: Partial<Settings>, coalesceKey?: string) => {
+    setSettings((previous) => ({ ...previous, ...patch }), coalesceKey)
+  }
 
-    const reader = new FileReader()
-    reader.onload = () => {
-      setImageDataUrl(reader.result as string)
-      const friendlyName = file.name.replace(/\.[^/.]+$/, '')
-      setImageName(friendlyName || 'Screenshot')
-    }
-    reader.readAsDataURL(file)
+  const selectImage = (id: string) => {
+    setActiveImageId(id)
+    setSnapshot((previous) => matchSnapshotToImage(previous, id))
   }
 
+  const toggleMatchScreenshot = (matchScreenshot: boolean) => {
+    setSettings((previous) => {
+      const next = { ...previous, matchScreenshot }
+      return matchScreenshot && activeImage ? matchSettingsToPalette(next, activeImage.palette) : next
+    })
+  }
+
+  const addImages = useCallback(
+    (added: QueuedImage[]) => {
+      if (added.length === 0) return
+      setSnapshot((previous) =>
+        matchSnapshotToImage({ ...previous, images: [...previous.images, ...added] }, added[0].id),
+      )
+      setActiveImageId(added[0].id)
+    },
+    [setSnapshot],
+  )
+
+  /** Checks and decodes every file, queues the ones that open, and reports the rest. */
+  const readFiles = useCallback(
+    async (files: File[]) => {
+      const results = await Promise.allSettled(
+        files.map(async (file) => {
+          const prepared = await prepareImageFile(file, { downscale: downscaleImages })
+          return { image: await createQueuedImage(prepared.dataUrl, file.name), notices: prepared.notices }
+        }),
+      )
+      addImages(results.flatMap((result) => (result.status === 'fulfilled' ? [result.value.image] : [])))
+
+      const notices = results.flatMap((result) => (result.status === 'fulfilled' ? result.value.notices : []))
+      if (notices.length > 0) notify({ tone: 'info', message: summarizeMessages(notices) })
+      const failures = results.flatMap((result, index) => {
+        if (result.status === 'fulfilled') return []
+        console.error(`“${files[index].name}” could not be opened`, result.reason)
+        return [
+          result.reason instanceof ImageInputError
+            ? result.reason.message
+            : `“${files[index].name}” could not be opened. Please try again.`,
+        ]
+      })
+      if (failures.length > 0) {
+        notify({
+          tone: 'error',
+          message: summarizeMessages(failures),
+          action: { label: 'Choose files', run: () => fileInputRef.current?.click() },
+        })
+      }
+    },
+    [addImages, downscaleImages, notify],
+  )
+
+  const readFile = useCallback((file: File) => readFiles([file]), [readFiles])
+
+  const readImageUrl = useCallback(
+    async (url: string) => {
+      let file: File
+      try {
+        file = await fetchImageFile(url)
+      } catch (error) {
+        console.error('Pasted image could not be loaded', error)
+        notify({
+          tone: 'error',
+          message:
+            'That image link could not be loaded. The host may block cross-origin requests — ' +
+            'try copying the image itself instead.',
+        })
+        return
+      }
+      await readFile(file)
+    },
+    [notify, readFile],
+  )
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target) || !event.clipboardData) return
+
+      const file = getClipboardImageFile(event.clipboardData)
+      if (file) {
+        event.preventDefault()
+        void readFile(file)
+        return
+      }
+      const url = getClipboardImageUrl(event.clipboardData)
+      if (url) {
+        event.preventDefault()
+        void readImageUrl(url)
+      }
+    }
+
+    window.addEventListener('paste', handlePaste)
+    return () => window.removeEventListener('paste', handlePaste)
+  }, [readFile, readImageUrl])
+
+  useEffect(() => {
+    if (copiedTarget === null) return
+    const timeout = window.setTimeout(() => setCopiedTarget(null), 2000)
+    return () => window.clearTimeout(timeout)
+  }, [copiedTarget])
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = readSettingsFromLocation()
+      if (shared) {
+        setSnapshot((previous) => ({ ...previous, settings: shared }))
+      }
+    }
+
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [setSnapshot])
+
   const handleFileInputChange = (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      readFile(file)
+    const files = Array.from(event.target.files ?? [])
+    if (files.length > 0) {
+      void readFiles(files)
     }
     event.target.value = ''
   }
@@ -281,9 +400,9 @@ function App() {
   const handleDrop = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault()
     setIsDragging(false)
-    const file = event.dataTransfer.files?.[0]
-    if (file) {
-      readFile(file)
+    const files = Array.from(event.dataTransfer.files ?? [])
+    if (files.length > 0) {
+      void readFiles(files)
     }
   }
 
@@ -299,78 +418,678 @@ function App() {
   }
 
   const handleClearImage = () => {
-    setImageDataUrl(null)
-    setImageName('Screenshot')
+    setSnapshot((previous) => ({ ...previous, images: [] }))
+    setActiveImageId(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
   }
 
+  const removeImage = (id: string) => {
+    setSnapshot((previous) => ({
+      ...previous,
+      images: previous.images.filter((image) => image.id !== id),
+    }))
+  }
+
+  const updateAnnotations = useCallback(
+    (annotations: Annotation[], coalesceKey?: string) => {
+      if (!activeImageKey) return
+      setSnapshot(
+        (previous) => ({
+          ...previous,
+          images: previous.images.map((image) =>
+            image.id === activeImageKey ? { ...image, annotations } : image,
+          ),
+        }),
+        { coalesceKey },
+      )
+    },
+    [activeImageKey, setSnapshot],
+  )
+
+  const updateRedactions = useCallback(
+    (redactions: Redaction[], coalesceKey?: string) => {
+      if (!activeImageKey) return
+      setSnapshot(
+        (previous) => ({
+          ...previous,
+          images: previous.images.map((image) =>
+            image.id === activeImageKey ? { ...image, redactions } : image,
+          ),
+        }),
+        { coalesceKey },
+      )
+    },
+    [activeImageKey, setSnapshot],
+  )
+
+  const updateSelectedAnnotation = (update: (annotation: Annotation) => Annotation, coalesceKey: string) => {
+    if (!activeImage || !selectedAnnotation) return
+    updateAnnotations(
+      activeImage.annotations.map((annotation) =>
+        annotation.id === selectedAnnotation.id ? update(annotation) : annotation,
+      ),
+      `${coalesceKey}-${selectedAnnotation.id}`,
+    )
+  }
+
+  const handleAnnotationStyleChange = (style: AnnotationStyle) => {
+    setAnnotationStyle(style)
+    updateSelectedAnnotation((annotation) => ({ ...annotation, style }), 'annotation-style')
+  }
+
+  const handleAnnotationTextChange = (text: string) => {
+    updateSelectedAnnotation(
+      (annotation) => (annotation.type === 'text' ? { ...annotation, text } : annotation),
+      'annotation-text',
+    )
+  }
+
+  const deleteSelectedAnnotation = () => {
+    if (!activeImage || !selectedAnnotation) return
+    updateAnnotations(activeImage.annotations.filter((annotation) => annotation.id !== selectedAnnotation.id))
+    setSelectedAnnotationId(null)
+  }
+
+  const toggleImageOverride = (enabled: boolean) => {
+    if (!activeImage) return
+    const targetId = activeImage.id
+    setSnapshot((previous) => ({
+      ...previous,
+      images: previous.images.map((image) =>
+        image.id === targetId
+          ? { ...image, overrides: enabled ? { ...previous.settings } : null }
+          : image,
+      ),
+    }))
+  }
+
+  const uploadWallpaper = async (file: File) => {
+    try {
+      const { dataUrl, notices } = await prepareImageFile(file, { downscale: downscaleImages })
+      setSnapshot((previous) => ({ ...previous, wallpaper: { name: toFriendlyName(file.name), dataUrl } }))
+      if (notices.length > 0) notify({ tone: 'info', message: summarizeMessages(notices) })
+    } catch (error) {
+      console.error('Wallpaper could not be decoded', error)
+      notify({
+        tone: 'error',
+        message:
+          error instanceof ImageInputError
+            ? error.message
+            : `“${file.name}” could not be opened. Please try again.`,
+      })
+    }
+  }
+
+  const removeWallpaper = () => {
+    setSnapshot((previous) => ({ ...previous, wallpaper: null }))
+  }
+
+  const uploadWatermarkLogo = async (file: File) => {
+    try {
+      const { dataUrl, notices } = await prepareImageFile(file, {
+        downscale: false,
+        maxSide: WATERMARK_LOGO_SIDE,
+      })
+      updateSettings({ watermarkLogo: dataUrl })
+      if (notices.length > 0) notify({ tone: 'info', message: summarizeMessages(notices) })
+    } catch (error) {
+      console.error('Watermark logo could not be decoded', error)
+      notify({
+        tone: 'error',
+        message:
+          error instanceof ImageInputError
+            ? error.message
+            : `“${file.name}” could not be opened. Please try again.`,
+      })
+    }
+  }
+
+  const stitchCaptures = async (layout: StitchLayout, name: string) => {
+    try {
+      addImages([await createQueuedImage(stitchImages(layout), `${name}-stitched.png`)])
+      if (layout.scale < 1) {
+        notify({
+          tone: 'info',
+          message:
+            `The stitched image was scaled to ${Math.round(layout.scale * 100)}% ` +
+            'to stay within what browsers can draw.',
+        })
+      }
+    } catch (error) {
+      console.error('Captures could not be stitched', error)
+      notify({
+        tone: 'error',
+        message: 'The captures could not be stitched. Please try again.',
+        action: { label: 'Retry', run: () => void stitchCaptures(layout, name) },
+      })
+    }
+  }
+
+  /** Branding is set up once, so resetting the styling keeps the watermark. */
   const resetSettings = () => {
-    setSettings({ ...DEFAULT_SETTINGS })
+    setSettings((previous) => keepWatermark(DEFAULT_SETTINGS, previous))
+  }
+
+  /** The photo behind "image" and "screenshot" backgrounds for an image with these settings. */
+  const getBackdropUrl = (imageSettings: Settings, image: QueuedImage | null) =>
+    imageSettings.backgroundType === 'image'
+      ? (wallpaper?.dataUrl ?? null)
+      : imageSettings.backgroundType === 'screenshot'
+        ? (image?.dataUrl ?? null)
+        : null
+
+  /** Everything the renderer needs for `image`, styled the way the preview shows it. */
+  const buildExportJob = (image: QueuedImage): ExportJob => {
+    const imageSettings = image.overrides ?? history.present.settings
+    return {
+      settings: imageSettings,
+      image,
+      backdropUrl: getBackdropUrl(imageSettings, image),
+      title: imageSettings.frameTitle.trim() || image.name,
+      // Auto-sized canvases span the preview column, so exports follow its current width.
+      autoWidth: Math.round(previewViewportSize.width) || AUTO_COMPOSITION_MAX_WIDTH,
+    }
+  }
+
+  /** Each arranged screen with the image it shows; a slot whose image is gone shows the active one. */
+  const arrangedScreens = useMemo(
+    () =>
+      arranged
+        ? arrangement.slots.map((slot) => ({
+            slot,
+            image: images.find((image) => image.id === slot.imageId) ?? activeImage,
+          }))
+        : null,
+    [arranged, arrangement.slots, images, activeImage],
+  )
+
+  /** What the preview shows: the arranged screens when there are several, else the active image. */
+  const buildActiveJob = (image: QueuedImage): ExportJob => {
+    if (!arrangedScreens) return buildExportJob(image)
+    const [first] = arrangedScreens
+    const shared = history.present.settings
+    const getTitle = (screen: QueuedImage) => shared.frameTitle.trim() || screen.name
+    return {
+      ...buildExportJob(first.image),
+      settings: shared,
+      backdropUrl: getBackdropUrl(shared, first.image),
+      title: getTitle(first.image),
+      arrangement: {
+        id: arrangement.id,
+        spacing: arrangement.spacing,
+        align: arrangement.align,
+        overlap: arrangement.overlap,
+        split: arrangement.split,
+        screens: arrangedScreens.map((screen) => ({
+          image: screen.image,
+          frameType: screen.slot.frameType,
+          title: getTitle(screen.image),
+        })),
+      },
+    }
+  }
+
+  const updateArrangement = (update: (previous: Arrangement) => Arrangement, coalesceKey?: string) => {
+    setSnapshot((previous) => ({ ...previous, arrangement: update(previous.arrangement) }), { coalesceKey })
+  }
+
+  /** Asks before anything leaves the app while some redaction regions are still unreviewed. */
+  const confirmRedactions = (targets: QueuedImage[]) => {
+    const unconfirmed = targets.reduce((total, image) => total + countUnconfirmed(image.redactions), 0)
+    return (
+      unconfirmed === 0 ||
+      window.confirm(
+        `${unconfirmed} redaction region${unconfirmed === 1 ? ' has' : 's have'} not been confirmed. ` +
+          'Check that they cover everything sensitive, then continue?',
+      )
+    )
   }
 
   const handleExport = async () => {
-    if (!previewRef.current || !imageDataUrl) {
-      window.alert('Upload a screenshot before exporting.')
+    if (!activeImage) {
+      notify({ tone: 'warning', message: 'Upload a screenshot before exporting.', action: uploadAction })
       return
     }
+    if (!confirmRedactions(arrangedScreens?.map((screen) => screen.image) ?? [activeImage])) return
     try {
-      setIsExporting(true)
-      const dataUrl = await toPng(previewRef.current, {
-        cacheBust: true,
-        pixelRatio: exportScale,
-      })
-      const safeName = imageName
-        .toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/(^-|-$)/g, '')
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-      const link = document.createElement('a')
-      link.download = `${safeName || 'screenshot'}-${exportScale}x-${timestamp}.png`
-      link.href = dataUrl
-      link.click()
+      setExportProgress(0)
+      const blob = await renderExportBlob(
+        buildActiveJob(activeImage),
+        {
+          format: exportFormat,
+          scale: exportScale,
+          quality: exportQuality / 100,
+          transparent: transparentExport,
+        },
+        setExportProgress,
+      )
+      const name = arrangedScreens ? `${arrangedScreens[0].image.name}-${arrangement.id}` : imageName
+      downloadBlob(blob, buildExportFileName(name, { format: exportFormat, scale: exportScale }))
     } catch (error) {
       console.error('Export failed', error)
-      window.alert('Export failed. Please try again or lower the export size.')
+      notify({
+        tone: 'error',
+        message:
+          error instanceof Error && error.message.startsWith('This browser')
+            ? `${error.message}. Pick another format and try again.`
+            : 'Export failed. Large canvases at 3× can run out of memory; try a lower scale, or retry.',
+        action: { label: 'Retry', run: () => void handleExport() },
+      })
     } finally {
-      setIsExporting(false)
+      setExportProgress(null)
+    }
+  }
+
+  const handleExportAll = async () => {
+    if (images.length === 0 || !confirmRedactions(images)) return
+    const options = {
+      format: exportFormat,
+      scale: exportScale,
+      quality: exportQuality / 100,
+      transparent: transparentExport,
+    }
+    const timestamp = createExportTimestamp()
+    const files: { name: string; bytes: Uint8Array }[] = []
+    batchCancelledRef.current = false
+
+    try {
+      setBatchProgress({ done: 0, total: images.length })
+      for (const image of images) {
+        if (batchCancelledRef.current) return
+        const finished = files.length
+        const blob = await renderExportBlob(buildExportJob(image), options, (progress) =>
+          setBatchProgress({ done: finished + progress, total: images.length }),
+        )
+        if (batchCancelledRef.current) return
+        files.push({
+          name: buildExportFileName(image.name, { ...options, timestamp }),
+          bytes: new Uint8Array(await blob.arrayBuffer()),
+        })
+        setBatchProgress({ done: files.length, total: images.length })
+      }
+
+      downloadBlob(createZipBlob(files), `canvas-studio-batch-${exportScale}x-${timestamp}.zip`)
+    } catch (error) {
+      console.error('Batch export failed', error)
+      notify({
+        tone: 'error',
+        message: `Export all stopped after ${files.length} of ${images.length} images.`,
+        action: { label: 'Retry', run: () => void handleExportAll() },
+      })
+    } finally {
+      setBatchProgress(null)
+    }
+  }
+
+  const cancelExportAll = () => {
+    batchCancelledRef.current = true
+  }
+
+  const handleExportAnimation = async () => {
+    if (!activeImage) {
+      notify({ tone: 'warning', message: 'Upload a screenshot before exporting.', action: uploadAction })
+      return
+    }
+    if (!confirmRedactions(arrangedScreens?.map((screen) => screen.image) ?? [activeImage])) return
+    const controller = new AbortController()
+    animationAbortRef.current = controller
+    try {
+      setAnimationProgress(0)
+      const blob = await renderAnimation(
+        buildActiveJob(activeImage),
+        animationOptions,
+        setAnimationProgress,
+        controller.signal,
+      )
+      const name = arrangedScreens ? `${arrangedScreens[0].image.name}-${arrangement.id}` : imageName
+      downloadBlob(blob, buildAnimationFileName(name, animationOptions))
+    } catch (error) {
+      if (controller.signal.aborted) return
+      console.error('Animation export failed', error)
+      notify({
+        tone: 'error',
+        message:
+          error instanceof Error && error.message.startsWith('This browser')
+            ? `${error.message}. Pick another format and try again.`
+            : 'The animation could not be exported. Try a shorter duration or a lower frame rate, or retry.',
+        action: { label: 'Retry', run: () => void handleExportAnimation() },
+      })
+    } finally {
+      animationAbortRef.current = null
+      setAnimationProgress(null)
+    }
+  }
+
+  const cancelAnimation = () => {
+    animationAbortRef.current?.abort()
+  }
+
+  const handleCopy = async () => {
+    if (!activeImage) {
+      notify({ tone: 'warning', message: 'Upload a screenshot before copying.', action: uploadAction })
+      return
+    }
+    if (!canWriteImageToClipboard()) {
+      notify({
+        tone: 'error',
+        message: 'This browser cannot copy images to the clipboard.',
+        action: { label: 'Export instead', run: () => void handleExport() },
+      })
+      return
+    }
+    if (!confirmRedactions(arrangedScreens?.map((screen) => screen.image) ?? [activeImage])) return
+    try {
+      setIsCopying(true)
+      await writeImageToClipboard(
+        renderPngBlob(buildActiveJob(activeImage), { scale: exportScale, transparent: transparentExport }),
+      )
+      setCopiedTarget('image')
+    } catch (error) {
+      console.error('Copy failed', error)
+      notify({
+        tone: 'error',
+        message: 'Copy failed. The page may have lost focus while rendering.',
+        action: { label: 'Retry', run: () => void handleCopy() },
+      })
+    } finally {
+      setIsCopying(false)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(settings))
+      setCopiedTarget('link')
+    } catch (error) {
+      console.error('Copy link failed', error)
+      notify({
+        tone: 'error',
+        message: 'The link could not be copied. Check your browser clipboard permissions.',
+      })
+    }
+  }
+
+  const handleSavePreset = async (name: string) => {
+    let thumbnail: string | null = null
+    try {
+      setIsSavingPreset(true)
+      if (activeImage) {
+        thumbnail = await renderThumbnail(buildActiveJob(activeImage))
+      }
+    } catch (error) {
+      console.error('Preset thumbnail failed', error)
+    } finally {
+      setIsSavingPreset(false)
+    }
+    presetLibrary.savePreset(name, settings, thumbnail)
+  }
+
+  const applyPreset = (preset: StylePreset) => {
+    setSettings((previous) => keepWatermark(preset.settings, previous))
+  }
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const count = presetLibrary.importPresetPack(await file.text())
+      if (count > 0) {
+        notify({ tone: 'success', message: `Imported ${count} style${count === 1 ? '' : 's'}.` })
+      }
+    } catch (error) {
+      console.error('Preset import failed', error)
+      notify({
+        tone: 'error',
+        message:
+          error instanceof PresetPackError
+            ? error.message
+            : 'The preset file could not be read. Please try again.',
+      })
     }
   }
 
-  const canvasBackground = useMemo(() => {
-    if (settings.backgroundType === 'solid') {
-      return settings.backgroundColor
+  const handleExportPresets = () => {
+    const blob = new Blob([presetLibrary.exportPresetPack()], { type: 'application/json' })
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    downloadBlob(blob, `canvas-studio-presets-${timestamp}.json`)
+  }
+
+  const pasteFromClipboard = async () => {
+    try {
+      const pasted = await readClipboardImage()
+      if (typeof pasted === 'string') await readImageUrl(pasted)
+      else if (pasted) await readFile(pasted)
+      else notify({ tone: 'info', message: 'The clipboard has no image or image link to paste.' })
+    } catch (error) {
+      console.error('Clipboard read failed', error)
+      notify({
+        tone: 'error',
+        message:
+          'The clipboard could not be read. Check your browser clipboard permissions, ' +
+          `or press ${getShortcutHint('paste')}.`,
+      })
     }
-    return `linear-gradient(${settings.gradientAngle}deg, ${settings.gradientFrom}, ${settings.gradientTo})`
-  }, [settings.backgroundType, settings.backgroundColor, settings.gradientAngle, settings.gradientFrom, settings.gradientTo])
+  }
+
+  const cycleBackgroundPreset = (step: -1 | 1) => {
+    const index = cycleIndex(findBackgroundPresetIndex(settings), step, backgroundPresets.length)
+    updateSettings(backgroundPresets[index].settings)
+  }
+
+  const cycleSavedStyle = (step: -1 | 1) => {
+    const { presets } = presetLibrary
+    if (presets.length === 0) return
+    const current = presets.findIndex((preset) =>
+      areSettingsEqual(keepWatermark(preset.settings, settings), settings),
+    )
+    applyPreset(presets[cycleIndex(current, step, presets.length)])
+  }
 
-  const dropShadowCss = useMemo(() => {
-    if (settings.dropShadow <= 1) {
-      return 'none'
+  const isOverlayOpen = paletteCommands !== null || isHelpOpen
+
+  /** What each shortcut does; returning false leaves the key to the browser. */
+  const shortcutActions: Partial<Record<ShortcutId, () => boolean | void>> = isOverlayOpen
+    ? {}
+    : {
+        upload: () => fileInputRef.current?.click(),
+        export: () => {
+          if (!isExporting && batchProgress === null) void handleExport()
+        },
+        // Copying selected text wins over copying the image.
+        copy: () => {
+          if (!activeImage || window.getSelection()?.isCollapsed === false) return false
+          if (!isCopying && batchProgress === null) void handleCopy()
+        },
+        clear: handleClearImage,
+        reset: resetSettings,
+        undo,
+        redo,
+        'previous-background': () => cycleBackgroundPreset(-1),
+        'next-background': () => cycleBackgroundPreset(1),
+        'previous-style': () => cycleSavedStyle(-1),
+        'next-style': () => cycleSavedStyle(1),
+        palette: () => openPalette(),
+        help: () => setIsHelpOpen(true),
+      }
+  const shortcutActionsRef = useRef(shortcutActions)
+  useEffect(() => {
+    shortcutActionsRef.current = shortcutActions
+  })
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || blocksShortcuts(event.target)) return
+      const shortcut = findShortcut(event)
+      const action = shortcut ? shortcutActionsRef.current[shortcut.id] : undefined
+      if (!action || action() === false) return
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  /** Gathers the palette's commands: actions, every control on screen, and all presets. */
+  const openPalette = () => {
+    const action = (id: ShortcutId, run: () => void): PaletteCommand => {
+      const shortcut = getShortcut(id)
+      return {
+        id: `action-${id}`,
+        label: shortcut?.label ?? id,
+        group: 'Actions',
+        keys: shortcut ? formatCombo(shortcut.combos[0]) : undefined,
+        run,
+      }
     }
-    const intensity = settings.dropShadow / 100
-    const blur = 40 + intensity * 140
-    const spread = -40 - intensity * 25
-    const offsetY = 24 + intensity * 48
-    const opacity = Math.min(0.25 + intensity * 0.4, 0.6)
-    return `0 ${Math.round(offsetY)}px ${Math.round(blur)}px ${Math.round(spread)}px rgba(8, 15, 35, ${opacity})`
-  }, [settings.dropShadow])
-
-  const noiseOpacity = useMemo(() => Math.min(settings.noise / 100 * 0.35, 0.3), [settings.noise])
-  const vignetteOpacity = useMemo(
-    () => Math.min(settings.vignette / 100 * 0.9, 0.85),
-    [settings.vignette],
+    setPaletteCommands([
+      action('upload', () => fileInputRef.current?.click()),
+      ...(canReadClipboard() ? [action('paste', () => void pasteFromClipboard())] : []),
+      ...(activeImage
+        ? [action('export', () => void handleExport()), action('copy', () => void handleCopy())]
+        : []),
+      ...(images.length > 1
+        ? [
+            {
+              id: 'action-export-all',
+              label: 'Export all',
+              group: 'Actions' as const,
+              run: () => void handleExportAll(),
+            },
+          ]
+        : []),
+      { id: 'action-copy-link', label: 'Copy link', group: 'Actions', run: () => void handleCopyLink() },
+      action('reset', resetSettings),
+      ...(images.length > 0 ? [action('clear', handleClearImage)] : []),
+      action('help', () => setIsHelpOpen(true)),
+      ...(asideRef.current ? collectSettingCommands(asideRef.current) : []),
+      ...backgroundPresets.map((preset) => ({
+        id: `background-${preset.id}`,
+        label: preset.label,
+        group: 'Backgrounds' as const,
+        detail: preset.settings.backgroundType === 'solid' ? 'Solid' : 'Gradient',
+        run: () => updateSettings(preset.settings),
+      })),
+      ...presetLibrary.presets.map((preset) => ({
+        id: `style-${preset.id}`,
+        label: preset.name,
+        group: 'Saved styles' as const,
+        run: () => applyPreset(preset),
+      })),
+    ])
+  }
+
+  const closePalette = useCallback(() => setPaletteCommands(null), [])
+  const closeHelp = useCallback(() => setIsHelpOpen(false), [])
+
+  const canvasBackground = useMemo(() => getCanvasBackground(settings), [settings])
+  // The screenshot backdrop is drawn from the image itself so its redactions apply.
+  const backdropSource =
+    settings.backgroundType === 'screenshot' ? activeImage : getBackdropUrl(settings, activeImage)
+
+  const showCanvasText = hasCanvasText(settings)
+  const textBeside = isTextBeside(settings)
+  const textGap = getTextGap(settings)
+
+  useEffect(() => {
+    if (!showCanvasText) return
+    loadTextFont(settings.textFont).catch((error) => {
+      console.warn('Could not load the headline font', error)
+    })
+  }, [showCanvasText, settings.textFont])
+
+  const dropShadowCss = getBoxShadowCss(getPlateShadows(settings))
+
+  const fixedCanvas = useMemo<Size | null>(
+    () =>
+      settings.canvasSize === 'auto'
+        ? null
+        : { width: settings.canvasWidth, height: settings.canvasHeight },
+    [settings.canvasSize, settings.canvasWidth, settings.canvasHeight],
+  )
+
+  const previewScale = useMemo(() => {
+    if (!fixedCanvas || previewViewportSize.width === 0) return 1
+    return Math.min(
+      previewViewportSize.width / fixedCanvas.width,
+      PREVIEW_MAX_HEIGHT / fixedCanvas.height,
+      1,
+    )
+  }, [fixedCanvas, previewViewportSize.width])
+
+  const previewFrame = getFrameDefinition(settings.frameType)
+
+  const isEditingCrop = !arranged && croppingImageId !== null && croppingImageId === activeImage?.id
+  const isRedacting = !arranged && redactingImageId !== null && redactingImageId === activeImage?.id
+  // While the crop editor is open the whole, unzoomed image is shown flat so handles track the pointer.
+  const placementSettings = isEditingCrop
+    ? { ...settings, zoom: 100, panX: 0, panY: 0, tiltX: 0, tiltY: 0, tiltZ: 0 }
+    : settings
+  const displayCrop = isEditingCrop ? FULL_CROP : getCropRect(settings)
+  const croppedSize = useMemo(
+    () =>
+      activeImage
+        ? getCroppedSize(activeImage, isEditingCrop ? FULL_CROP : getCropRect(settings))
+        : null,
+    [isEditingCrop, activeImage, settings],
+  )
+  const imagePlaneStyle = getImagePlaneStyle(placementSettings, displayCrop)
+  const frameTransform = getFrameTransform(placementSettings, CANVAS_GUTTER)
+  const frameAlignAxes = getFrameAlignAxes(settings.frameAlign)
+
+  const fittedImageSize = useMemo(
+    () =>
+      fixedCanvas
+        ? getFittedImageSize(settings, fixedCanvas, croppedSize, showCanvasText ? textBlockSize : null)
+        : null,
+    [croppedSize, fixedCanvas, settings, showCanvasText, textBlockSize],
+  )
+
+  // Sized like the cropped image so replaced-element rules fit the viewport without JS.
+  const sizerDataUrl = useMemo(() => {
+    if (!croppedSize) return null
+    const upscale =
+      previewFrame.kind === 'window' ? Math.max(1, WINDOW_SIZER_WIDTH / croppedSize.width) : 1
+    return createSizerDataUrl({
+      width: Math.round(croppedSize.width * upscale),
+      height: Math.round(croppedSize.height * upscale),
+    })
+  }, [croppedSize, previewFrame.kind])
+
+  const arrangementLayout = useMemo(
+    () =>
+      arrangedScreens
+        ? computeCompositionLayout(
+            settings,
+            arrangedScreens[0].image,
+            Math.round(previewViewportSize.width) || AUTO_COMPOSITION_MAX_WIDTH,
+            showCanvasText ? textBlockSize : null,
+            {
+              id: arrangement.id,
+              spacing: arrangement.spacing,
+              align: arrangement.align,
+              overlap: arrangement.overlap,
+              slots: arrangedScreens.map(({ slot, image }) => ({ image, frameType: slot.frameType })),
+            },
+          )
+        : null,
+    [arrangedScreens, arrangement, settings, previewViewportSize.width, showCanvasText, textBlockSize],
+  )
+
+  const paletteSuggestions = useMemo(
+    () => (activeImage ? getPaletteSuggestions(activeImage.palette, settings) : null),
+    [activeImage, settings],
   )
 
   const showPlaceholder = !imageDataUrl
+  const activeExportFormat = getExportFormat(exportFormat)
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-950 via-slate-950 to-slate-950/90 text-slate-100">
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/png,image/jpeg,image/webp,image/svg+xml"
+        accept={ACCEPTED_IMAGE_TYPES}
+        multiple
         className="hidden"
         onChange={handleFileInputChange}
       />
@@ -391,9 +1110,56 @@ function App() {
             </div>
           </div>
           <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-1 rounded-full border border-white/10 p-1 backdrop-blur-md">
+              <button
+                type="button"
+                onClick={undo}
+                disabled={!history.canUndo}
+                title={`Undo (${getShortcutHint('undo')})`}
+                className="rounded-full px-4 py-1.5 text-sm font-semibold text-white/70 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                Undo
+              </button>
+              <button
+                type="button"
+                onClick={redo}
+                disabled={!history.canRedo}
+                title={`Redo (${getShortcutHint('redo')})`}
+                className="rounded-full px-4 py-1.5 text-sm font-semibold text-white/70 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                Redo
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={openPalette}
+              title="Search settings, presets, and actions"
+              className="inline-flex items-center justify-center gap-2 rounded-full border border-white/10 px-4 py-2 text-sm font-semibold text-white/70 backdrop-blur-md transition hover:border-white/30 hover:text-white"
+            >
+              Search
+              <Keys keys={formatCombo('mod+k')} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsHelpOpen(true)}
+              title={`Keyboard shortcuts (${getShortcutHint('help')})`}
+              aria-label="Keyboard shortcuts"
+              className="inline-flex h-10 w-10 items-center justify-center rounded-full border border-white/10 text-sm font-semibold text-white/70 backdrop-blur-md transition hover:border-white/30 hover:text-white"
+            >
+              ?
+            </button>
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              title="Copies a link with the current styling. Your screenshot stays on this device."
+              className="inline-flex items-center justify-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-white/70 backdrop-blur-md transition hover:border-white/30 hover:text-white"
+            >
+              {copiedTarget === 'link' ? 'Link copied' : 'Copy link'}
+            </button>
             <button
               type="button"
               onClick={() => fileInputRef.current?.click()}
+              title={`Upload screenshots (${getShortcutHint('upload')})`}
               className="inline-flex items-center justify-center gap-2 rounded-full border border-primary-400/50 bg-primary-400/15 px-5 py-2.5 text-sm font-semibold text-white shadow-[0_10px_30px_-18px_rgba(14,165,233,0.8)] backdrop-blur-md transition hover:-translate-y-0.5 hover:border-primary-300 hover:bg-primary-400/25 hover:shadow-[0_14px_40px_-18px_rgba(14,165,233,0.8)]"
             >
               Upload Screenshot
@@ -402,6 +1168,7 @@ function App() {
               type="button"
               onClick={handleClearImage}
               disabled={!imageDataUrl}
+              title={`Clear all screenshots (${getShortcutHint('clear')})`}
               className="inline-flex items-center justify-center gap-2 rounded-full border border-white/10 px-5 py-2.5 text-sm font-semibold text-white/70 backdrop-blur-md transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
             >
               Clear
@@ -411,149 +1178,263 @@ function App() {
 
         <main className="grid gap-8 lg:gap-12 xl:grid-cols-[minmax(0,1.5fr)_minmax(0,1fr)]">
           <section className="flex flex-col gap-6">
-            <div
-              ref={previewRef}
-              role="button"
-              tabIndex={showPlaceholder ? 0 : -1}
-              onKeyDown={(event) => {
-                if (!showPlaceholder) return
-                if (event.key === 'Enter' || event.key === ' ') {
-                  event.preventDefault()
-                  fileInputRef.current?.click()
-                }
-              }}
-              onClick={() => {
-                if (showPlaceholder) {
-                  fileInputRef.current?.click()
-                }
-              }}
-              onDrop={handleDrop}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              className={clsx(
-                'group relative flex min-h-[520px] flex-col justify-center overflow-hidden rounded-[40px] border bg-slate-950/70 p-8 transition-all duration-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-400/70',
-                isDragging
-                  ? 'border-primary-400/70 ring-4 ring-primary-400/40'
-                  : 'border-white/10 ring-0',
-                showPlaceholder ? 'cursor-pointer' : 'cursor-default',
-              )}
-              style={{ background: canvasBackground }}
-            >
-              <div
-                className="pointer-events-none absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-white/10"
-                aria-hidden="true"
-              />
+            <div ref={previewViewportRef} className="w-full">
               <div
-                className="pointer-events-none absolute inset-0 bg-noise-soft"
-                style={{ opacity: noiseOpacity }}
-                aria-hidden="true"
-              />
-              <div
-                className="pointer-events-none absolute inset-0"
-                style={{
-                  background:
-                    'radial-gradient(circle at 50% 50%, transparent 0%, rgba(5, 8, 21, 0.7) 90%)',
-                  opacity: vignetteOpacity,
-                }}
-                aria-hidden="true"
-              />
-
-              <div className="relative z-10 mx-auto flex w-full max-w-3xl justify-center">
-                {imageDataUrl ? (
+                className={clsx(fixedCanvas && 'relative mx-auto')}
+                style={
+                  fixedCanvas
+                    ? {
+                        width: fixedCanvas.width * previewScale,
+                        height: fixedCanvas.height * previewScale,
+                      }
+                    : undefined
+                }
+              >
+                <div
+                  className={clsx(fixedCanvas && 'absolute left-0 top-0 origin-top-left')}
+                  style={
+                    fixedCanvas
+                      ? {
+                          width: fixedCanvas.width,
+                          height: fixedCanvas.height,
+                          transform: `scale(${previewScale})`,
+                        }
+                      : undefined
+                  }
+                >
                   <div
-                    className="relative w-full overflow-visible border border-white/10 bg-white/5 backdrop-blur-3xl transition-all duration-500"
-                    style={{
-                      padding: `${settings.padding}px`,
-                      borderRadius: `${settings.borderRadius + 36}px`,
-                      boxShadow: dropShadowCss,
+                    ref={previewRef}
+                    role="button"
+                    tabIndex={showPlaceholder ? 0 : -1}
+                    onKeyDown={(event) => {
+                      if (!showPlaceholder) return
+                      if (event.key === 'Enter' || event.key === ' ') {
+                        event.preventDefault()
+                        fileInputRef.current?.click()
+                      }
                     }}
+                    onClick={() => {
+                      if (showPlaceholder) {
+                        fileInputRef.current?.click()
+                      }
+                    }}
+                    onDrop={handleDrop}
+                    onDragOver={handleDragOver}
+                    onDragLeave={handleDragLeave}
+                    className={clsx(
+                      'group relative isolate flex flex-col justify-center overflow-hidden border bg-slate-950/70 p-8 transition-all duration-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary-400/70',
+                      fixedCanvas ? 'h-full w-full' : 'min-h-[520px] rounded-[40px]',
+                      isDragging
+                        ? 'border-primary-400/70 ring-4 ring-primary-400/40'
+                        : 'border-white/10 ring-0',
+                      showPlaceholder ? 'cursor-pointer' : 'cursor-default',
+                    )}
+                    style={{ background: canvasBackground }}
                   >
+                    {backdropSource ? (
+                      <CanvasBackdrop source={backdropSource} {...getBackdropImageStyle(settings)} />
+                    ) : null}
+                    <div
+                      className="pointer-events-none absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-white/10"
+                      aria-hidden="true"
+                    />
+                    <EffectLayers effects={settings.effects} target="backdrop" />
+                    <EffectLayers effects={settings.effects} target="overlay" className="z-20" />
+                    {imageDataUrl && hasWatermark(settings) ? <WatermarkLayer settings={settings} /> : null}
+
                     <div
                       className={clsx(
-                        'relative overflow-hidden border border-white/10 bg-slate-950/75',
-                        settings.showWindowChrome ? 'pt-14' : '',
+                        'relative z-10 flex w-full justify-center',
+                        fixedCanvas ? 'h-full' : 'mx-auto max-w-3xl',
+                        frameAlignAxes.y < 0 ? 'items-start' : frameAlignAxes.y > 0 ? 'items-end' : 'items-center',
                       )}
-                      style={{
-                        borderRadius: `${settings.borderRadius}px`,
-                      }}
                     >
-                      {settings.showWindowChrome ? (
-                        <div className="absolute inset-x-0 top-0 flex h-12 items-center justify-between border-b border-white/10 bg-white/10 px-6 backdrop-blur-xl">
-                          <div className="flex items-center gap-2">
-                            {['#ff5f56', '#ffbd2e', '#27c93f'].map((color) => (
-                              <span
-                                key={color}
-                                className="h-3.5 w-3.5 rounded-full border border-white/20"
-                                style={{ backgroundColor: color }}
+                      {imageDataUrl ? (
+                        <div
+                          className={clsx(
+                            'flex w-full',
+                            {
+                              above: 'flex-col',
+                              below: 'flex-col-reverse',
+                              left: 'flex-row items-center',
+                              right: 'flex-row-reverse items-center',
+                            }[settings.textPlacement],
+                            textBeside
+                              ? frameAlignAxes.x < 0
+                                ? 'justify-start'
+                                : frameAlignAxes.x > 0
+                                  ? 'justify-end'
+                                  : 'justify-center'
+                              : frameAlignAxes.x < 0
+                                ? 'items-start'
+                                : frameAlignAxes.x > 0
+                                  ? 'items-end'
+                                  : 'items-center',
+                          )}
+                          style={showCanvasText ? { gap: `${textGap}px` } : undefined}
+                        >
+                          {showCanvasText ? (
+                            <CanvasText settings={settings} onSizeChange={setTextBlockSize} />
+                          ) : null}
+                          <div
+                            className={clsx(
+                              'relative overflow-visible border border-white/10 bg-white/5 backdrop-blur-3xl transition-all duration-500',
+                              !fixedCanvas &&
+                                !arrangedScreens &&
+                                previewFrame.kind === 'window' &&
+                                (showCanvasText && textBeside ? 'min-w-0 flex-1' : 'w-full'),
+                            )}
+                            style={{
+                              padding: `${settings.padding}px`,
+                              borderRadius: `${settings.borderRadius + PLATE_RADIUS_OFFSET}px`,
+                              boxShadow: dropShadowCss,
+                              transform: frameTransform,
+                            }}
+                          >
+                            {arrangedScreens && arrangementLayout ? (
+                              <ArrangedScreens
+                                settings={settings}
+                                arrangement={arrangement}
+                                screens={arrangedScreens}
+                                layout={arrangementLayout}
+                                activeImageId={activeImage?.id ?? null}
+                                onSelectImage={setActiveImageId}
+                                renderAnnotations={(image) => (
+                                  <AnnotationLayer
+                                    image={image}
+                                    annotations={image.annotations}
+                                    tool={annotationTool}
+                                    style={annotationStyle}
+                                    selectedId={image.id === activeImage?.id ? selectedAnnotationId : null}
+                                    interactive={image.id === activeImage?.id}
+                                    onChange={updateAnnotations}
+                                    onSelect={setSelectedAnnotationId}
+                                    onToolChange={setAnnotationTool}
+                                  />
+                                )}
                               />
-                            ))}
-                          </div>
-                          <span className="text-sm font-medium text-slate-200">{imageName}</span>
-                          <div className="flex items-center gap-1.5">
-                            <span
-                              className="h-2 w-8 rounded-full"
-                              style={{ backgroundColor: settings.windowAccent }}
-                            />
-                            <span
-                              className="h-2 w-2 rounded-full"
-                              style={{ backgroundColor: settings.windowAccent, opacity: 0.75 }}
+                            ) : (
+                              <DeviceFrame
+                                settings={settings}
+                                title={settings.frameTitle.trim() || imageName}
+                              >
+                                <div
+                                  className="relative max-w-full overflow-hidden"
+                                  style={fittedImageSize ?? undefined}
+                                >
+                                  {!fittedImageSize && sizerDataUrl ? (
+                                    <img
+                                      src={sizerDataUrl}
+                                      alt=""
+                                      aria-hidden="true"
+                                      className="block max-w-full"
+                                      style={{ maxHeight: AUTO_VIEWPORT_MAX_HEIGHT }}
+                                    />
+                                  ) : null}
+                                  <div className="absolute" style={imagePlaneStyle}>
+                                    {activeImage ? (
+                                      <>
+                                        <RedactedImage
+                                          image={activeImage}
+                                          className="absolute inset-0 block h-full w-full"
+                                        />
+                                        <AnnotationLayer
+                                          image={activeImage}
+                                          annotations={activeImage.annotations}
+                                          tool={annotationTool}
+                                          style={annotationStyle}
+                                          selectedId={selectedAnnotationId}
+                                          interactive={!isEditingCrop && !isRedacting}
+                                          onChange={updateAnnotations}
+                                          onSelect={setSelectedAnnotationId}
+                                          onToolChange={setAnnotationTool}
+                                        />
+                                        <RedactionLayer
+                                          image={activeImage}
+                                          redactions={activeImage.redactions}
+                                          mode={redactionMode}
+                                          selectedId={selectedRedactionId}
+                                          interactive={isRedacting && !isEditingCrop}
+                                          onChange={updateRedactions}
+                                          onSelect={setSelectedRedactionId}
+                                        />
+                                      </>
+                                    ) : null}
+                                  </div>
+                                  {isEditingCrop && activeImage ? (
+                                    <CropOverlay
+                                      image={activeImage}
+                                      crop={getCropRect(settings)}
+                                      ratio={getCropAspectRatio(settings.cropAspect, activeImage)}
+                                      onChange={(crop) => updateSettings(toCropSettings(crop), 'crop')}
+                                    />
+                                  ) : null}
+                                </div>
+                              </DeviceFrame>
+                            )}
+                            <EffectLayers
+                              effects={settings.effects}
+                              target="frame"
+                              className="z-10"
+                              style={{ borderRadius: `${settings.borderRadius + PLATE_RADIUS_OFFSET}px` }}
                             />
                           </div>
                         </div>
-                      ) : null}
-                      <div
-                        className={clsx(
-                          'relative flex w-full items-center justify-center bg-slate-950/40',
-                          settings.showWindowChrome ? 'pt-0' : '',
-                        )}
-                      >
-                        <img
-                          src={imageDataUrl}
-                          alt={imageName}
-                          className="h-full max-h-[65vh] w-full object-contain"
-                        />
-                      </div>
-                    </div>
-                  </div>
-                ) : (
-                  <div
-                    className={clsx(
-                      'flex w-full flex-col items-center justify-center gap-4 rounded-[30px] border-2 border-dashed border-white/20 bg-slate-950/80 px-10 py-16 text-center transition',
-                      isDragging && 'border-primary-300/80 bg-primary-400/10',
-                    )}
-                  >
-                    <span className="rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-white/60">
-                      Drop or Upload
-                    </span>
-                    <div className="space-y-2">
-                      <p className="text-xl font-semibold text-white">
-                        Drag your screenshot here
-                      </p>
-                      <p className="text-sm text-slate-400">
-                        PNG, JPG, WEBP • up to 10MB • We&apos;ll frame it for you
-                      </p>
+                      ) : (
+                        <div
+                          className={clsx(
+                            'flex w-full flex-col items-center justify-center gap-4 rounded-[30px] border-2 border-dashed border-white/20 bg-slate-950/80 px-10 py-16 text-center transition',
+                            isDragging && 'border-primary-300/80 bg-primary-400/10',
+                          )}
+                        >
+                          <span className="rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-white/60">
+                            Drop or Upload
+                          </span>
+                          <div className="space-y-2">
+                            <p className="text-xl font-semibold text-white">
+                              Drag your screenshot here
+                            </p>
+                            <p className="text-sm text-slate-400">
+                              PNG, JPG, WEBP, GIF, SVG • up to {formatBytes(IMAGE_BYTES_MAX)} • Paste with
+                              Ctrl/⌘+V
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            className="inline-flex items-center justify-center gap-2 rounded-full border border-white/15 bg-white/10 px-5 py-2.5 text-sm font-semibold text-white transition hover:border-white/30 hover:bg-white/15"
+                          >
+                            Browse files
+                          </button>
+                        </div>
+                      )}
                     </div>
-                    <button
-                      type="button"
-                      onClick={() => fileInputRef.current?.click()}
-                      className="inline-flex items-center justify-center gap-2 rounded-full border border-white/15 bg-white/10 px-5 py-2.5 text-sm font-semibold text-white transition hover:border-white/30 hover:bg-white/15"
-                    >
-                      Browse files
-                    </button>
                   </div>
-                )}
+                </div>
               </div>
             </div>
+            {images.length > 0 ? (
+              <ImageQueue
+                images={images}
+                activeId={activeImage?.id ?? null}
+                disabled={batchProgress !== null}
+                onSelect={selectImage}
+                onRemove={removeImage}
+                onAdd={() => fileInputRef.current?.click()}
+                onToggleOverride={toggleImageOverride}
+              />
+            ) : null}
             <p className="text-xs text-slate-400">
               Pro tip: Keep padding around your screenshot so shadows and glow have room to breathe
               when you export.
             </p>
           </section>
 
-          <aside className="flex flex-col gap-6">
-            <SectionCard
-              title="Screenshot"
-              description="Upload your capture and toggle the frame chrome."
+          <aside ref={asideRef} className="flex flex-col gap-6">
+            <FramePanel
+              settings={settings}
+              onChange={updateSettings}
+              titlePlaceholder={imageName}
               action={
                 <div className="flex items-center gap-3">
                   {imageDataUrl ? (
@@ -572,162 +1453,140 @@ function App() {
               }
             >
               <ToggleControl
-                label="Window chrome"
-                description="Add a subtle browser bar for presentation shots."
-                checked={settings.showWindowChrome}
-                onChange={(next) => updateSetting('showWindowChrome', next)}
-              />
-              <ColorControl
-                label="Accent"
-                helper="Adjusts the right-side chrome indicator."
-                value={settings.windowAccent}
-                onChange={(color) => updateSetting('windowAccent', color)}
+                label="Downscale huge captures"
+                description={`Scales images over ${DOWNSCALE_PIXELS / 1_000_000} megapixels down when added.`}
+                checked={downscaleImages}
+                onChange={setDownscaleImages}
               />
-            </SectionCard>
+            </FramePanel>
 
-            <SectionCard
-              title="Layout"
-              description="Tweak spacing, corners, and the canvas shadow."
-            >
-              <SliderControl
-                label="Padding"
-                value={settings.padding}
-                min={36}
-                max={140}
-                onChange={(value) => updateSetting('padding', value)}
-                helper="Space between the frame and canvas edge."
-                suffix="px"
-              />
-              <SliderControl
-                label="Corner radius"
-                value={settings.borderRadius}
-                min={0}
-                max={72}
-                onChange={(value) => updateSetting('borderRadius', value)}
-                helper="Higher values create softer, modern frames."
-                suffix="px"
-              />
-              <SliderControl
-                label="Shadow intensity"
-                value={settings.dropShadow}
-                min={0}
-                max={100}
-                onChange={(value) => updateSetting('dropShadow', value)}
-                helper="Adds depth so your screenshot floats off the background."
-              />
-            </SectionCard>
+            <ScreensPanel
+              arrangement={arrangement}
+              images={images}
+              activeImage={activeImage}
+              frameType={settings.frameType}
+              onChange={updateArrangement}
+            />
 
-            <SectionCard
-              title="Background"
-              description="Style the atmosphere behind your frame."
-            >
-              <SegmentedControl
-                options={backgroundModes}
-                value={settings.backgroundType}
-                onChange={(mode) => updateSetting('backgroundType', mode)}
-              />
-              {settings.backgroundType === 'gradient' ? (
-                <>
-                  <div className="grid grid-cols-2 gap-3">
-                    <ColorControl
-                      label="Gradient start"
-                      value={settings.gradientFrom}
-                      onChange={(color) => updateSetting('gradientFrom', color)}
-                    />
-                    <ColorControl
-                      label="Gradient end"
-                      value={settings.gradientTo}
-                      onChange={(color) => updateSetting('gradientTo', color)}
-                    />
-                  </div>
-                  <SliderControl
-                    label="Angle"
-                    value={settings.gradientAngle}
-                    min={0}
-                    max={360}
-                    onChange={(value) => updateSetting('gradientAngle', value)}
-                    helper="Rotates the gradient flow to match your layout."
-                    suffix="°"
-                  />
-                  <div className="grid grid-cols-2 gap-3">
-                    {gradientPresets.map((preset) => (
-                      <PresetSwatch
-                        key={preset.id}
-                        label={preset.label}
-                        active={
-                          settings.gradientFrom === preset.from &&
-                          settings.gradientTo === preset.to &&
-                          settings.backgroundType === 'gradient'
-                        }
-                        style={{
-                          background: `linear-gradient(${preset.angle}deg, ${preset.from}, ${preset.to})`,
-                        }}
-                        onClick={() =>
-                          setSettings((previous) => ({
-                            ...previous,
-                            backgroundType: 'gradient',
-                            gradientFrom: preset.from,
-                            gradientTo: preset.to,
-                            gradientAngle: preset.angle,
-                          }))
-                        }
-                      />
-                    ))}
-                  </div>
-                </>
-              ) : (
-                <>
-                  <ColorControl
-                    label="Backdrop color"
-                    value={settings.backgroundColor}
-                    onChange={(color) => updateSetting('backgroundColor', color)}
-                    helper="Pick any solid hue or a soft neutral."
-                  />
-                  <div className="grid grid-cols-2 gap-3">
-                    {solidPresets.map((preset) => (
-                      <PresetSwatch
-                        key={preset.id}
-                        label={preset.label}
-                        active={
-                          settings.backgroundColor === preset.color &&
-                          settings.backgroundType === 'solid'
-                        }
-                        style={{ background: preset.color }}
-                        onClick={() =>
-                          setSettings((previous) => ({
-                            ...previous,
-                            backgroundType: 'solid',
-                            backgroundColor: preset.color,
-                          }))
-                        }
-                      />
-                    ))}
-                  </div>
-                </>
-              )}
-            </SectionCard>
+            <StitchPanel
+              images={images}
+              disabled={batchProgress !== null}
+              onStitch={(layout, name) => void stitchCaptures(layout, name)}
+            />
 
-            <SectionCard title="Atmosphere" description="Fine-tune texture and glow.">
-              <SliderControl
-                label="Texture"
-                value={settings.noise}
-                min={0}
-                max={100}
-                onChange={(value) => updateSetting('noise', value)}
-                helper="Adds a subtle grain for premium finish."
-              />
-              <SliderControl
-                label="Vignette"
-                value={settings.vignette}
-                min={0}
-                max={100}
-                onChange={(value) => updateSetting('vignette', value)}
-                helper="Darkens the edges so the canvas stays in focus."
-              />
-            </SectionCard>
+            <AnnotationPanel
+              tool={annotationTool}
+              style={annotationStyle}
+              selected={selectedAnnotation}
+              count={activeImage?.annotations.length ?? 0}
+              disabled={!activeImage}
+              onToolChange={(tool) => {
+                setAnnotationTool(tool)
+                if (tool !== 'select') setSelectedAnnotationId(null)
+              }}
+              onStyleChange={handleAnnotationStyleChange}
+              onTextChange={handleAnnotationTextChange}
+              onDelete={deleteSelectedAnnotation}
+              onClear={() => {
+                updateAnnotations([])
+                setSelectedAnnotationId(null)
+              }}
+            />
 
-            <SectionCard title="Export" description="Download a polished PNG ready to share.">
+            <RedactionPanel
+              redactions={activeImage?.redactions ?? []}
+              mode={redactionMode}
+              selectedId={selectedRedactionId}
+              isRedacting={isRedacting}
+              disabled={!activeImage || arranged}
+              onRedactingChange={(redacting) => {
+                setRedactingImageId(redacting ? (activeImage?.id ?? null) : null)
+                if (redacting) setCroppingImageId(null)
+                else setSelectedRedactionId(null)
+              }}
+              onModeChange={setRedactionMode}
+              onSelect={setSelectedRedactionId}
+              onChange={updateRedactions}
+            />
+
+            <PlacementPanel
+              settings={settings}
+              image={arranged ? null : activeImage}
+              isCropping={isEditingCrop}
+              onCroppingChange={(cropping) => {
+                setCroppingImageId(cropping ? (activeImage?.id ?? null) : null)
+                if (cropping) setRedactingImageId(null)
+              }}
+              onChange={updateSettings}
+            />
+
+            <TextPanel settings={settings} onChange={updateSettings} />
+
+            <WatermarkPanel
+              settings={settings}
+              onChange={updateSettings}
+              onLogoUpload={(file) => void uploadWatermarkLogo(file)}
+            />
+
+            <PresetLibrary
+              presets={presetLibrary.presets}
+              settings={settings}
+              isSaving={isSavingPreset}
+              onSave={handleSavePreset}
+              onApply={applyPreset}
+              onRename={presetLibrary.renamePreset}
+              onDelete={presetLibrary.deletePreset}
+              onImport={handleImportPresets}
+              onExport={handleExportPresets}
+            />
+
+            <CanvasPanel settings={settings} onChange={updateSettings} />
+
+            <LayoutPanel settings={settings} onChange={updateSettings} />
+
+            <ShadowPanel settings={settings} onChange={updateSettings} />
+
+            <BackgroundPanel
+              settings={settings}
+              onChange={updateSettings}
+              palette={activeImage?.palette ?? null}
+              suggestions={paletteSuggestions}
+              onMatchScreenshotChange={toggleMatchScreenshot}
+              wallpaper={wallpaper}
+              onWallpaperUpload={(file) => void uploadWallpaper(file)}
+              onWallpaperRemove={removeWallpaper}
+            />
+
+            <EffectsPanel settings={settings} onChange={updateSettings} />
+
+            <SectionCard title="Export" description="Download a polished image ready to share.">
               <div className="space-y-4">
+                <SegmentedControl
+                  options={exportFormats}
+                  value={exportFormat}
+                  onChange={setExportFormat}
+                />
+                {activeExportFormat.lossy ? (
+                  <SliderControl
+                    label="Quality"
+                    value={exportQuality}
+                    min={40}
+                    max={100}
+                    onChange={setExportQuality}
+                    helper="Lower values shrink the file at the cost of fine detail."
+                    suffix="%"
+                  />
+                ) : null}
+                <ToggleControl
+                  label="Transparent background"
+                  description={
+                    activeExportFormat.supportsTransparency
+                      ? 'Keeps the frame and shadow but drops the backdrop and its effects.'
+                      : 'JPEG has no alpha channel, so the backdrop is always included.'
+                  }
+                  checked={transparentExport && activeExportFormat.supportsTransparency}
+                  onChange={setTransparentExport}
+                />
                 <div className="grid grid-cols-3 gap-3">
                   {exportScaleOptions.map((option) => (
                     <button
@@ -745,28 +1604,96 @@ function App() {
                     </button>
                   ))}
                 </div>
-                <button
-                  type="button"
-                  onClick={handleExport}
-                  disabled={!imageDataUrl || isExporting}
-                  className={clsx(
-                    'flex h-12 items-center justify-center rounded-2xl border text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-300',
-                    imageDataUrl
-                      ? 'border-primary-400/60 bg-primary-500/20 text-white shadow-[0_18px_45px_-32px_rgba(14,165,233,0.9)] hover:-translate-y-0.5 hover:border-primary-300 hover:bg-primary-500/30'
-                      : 'border-white/10 bg-white/5 text-white/50',
-                    isExporting && 'cursor-progress',
-                  )}
-                >
-                  {isExporting ? 'Preparing…' : `Export PNG (${exportScale}x)`}
-                </button>
+                <div className="grid grid-cols-[minmax(0,1fr)_auto] gap-3">
+                  <button
+                    type="button"
+                    onClick={handleExport}
+                    disabled={!imageDataUrl || isExporting || batchProgress !== null}
+                    title={`Export (${getShortcutHint('export')})`}
+                    className={clsx(
+                      'flex h-12 items-center justify-center rounded-2xl border text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-300',
+                      imageDataUrl
+                        ? 'border-primary-400/60 bg-primary-500/20 text-white shadow-[0_18px_45px_-32px_rgba(14,165,233,0.9)] hover:-translate-y-0.5 hover:border-primary-300 hover:bg-primary-500/30'
+                        : 'border-white/10 bg-white/5 text-white/50',
+                      isExporting && 'cursor-progress',
+                    )}
+                  >
+                    {exportProgress !== null
+                      ? `Rendering ${Math.round(exportProgress * 100)}%…`
+                      : `Export ${activeExportFormat.label} (${exportScale}x)`}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCopy}
+                    disabled={!imageDataUrl || isCopying || batchProgress !== null}
+                    title={`Copy PNG (${getShortcutHint('copy')})`}
+                    className={clsx(
+                      'flex h-12 items-center justify-center rounded-2xl border px-4 text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-300',
+                      imageDataUrl
+                        ? 'border-white/15 bg-white/10 text-white hover:-translate-y-0.5 hover:border-white/30 hover:bg-white/15'
+                        : 'border-white/10 bg-white/5 text-white/50',
+                      isCopying && 'cursor-progress',
+                    )}
+                  >
+                    {isCopying ? 'Copying…' : copiedTarget === 'image' ? 'Copied!' : 'Copy PNG'}
+                  </button>
+                </div>
+                {images.length > 1 ? (
+                  batchProgress ? (
+                    <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+                      <div className="flex items-center justify-between gap-3 text-sm font-medium text-slate-200">
+                        <span>
+                          Rendering {Math.min(Math.floor(batchProgress.done) + 1, batchProgress.total)} of{' '}
+                          {batchProgress.total}…
+                        </span>
+                        <button
+                          type="button"
+                          onClick={cancelExportAll}
+                          className="text-xs font-semibold text-rose-300/80 transition hover:text-rose-200"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                      <div className="h-2 overflow-hidden rounded-full bg-slate-700/60">
+                        <div
+                          className="h-full rounded-full bg-primary-400 transition-all duration-300"
+                          style={{ width: `${(batchProgress.done / batchProgress.total) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={handleExportAll}
+                      disabled={isExporting}
+                      className="flex h-12 w-full items-center justify-center rounded-2xl border border-white/15 bg-white/10 text-sm font-semibold text-white transition hover:-translate-y-0.5 hover:border-white/30 hover:bg-white/15 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-300"
+                    >
+                      Export all {images.length} as ZIP
+                    </button>
+                  )
+                ) : null}
                 <p className="text-xs text-slate-400">
-                  Use 3x for retina-quality slides, or 1x for quick sharing in docs and chat.
+                  Use 3x for retina-quality slides, or 1x for quick sharing in docs and chat. Copy PNG
+                  puts the render on your clipboard for pasting straight into chat.
                 </p>
               </div>
             </SectionCard>
+
+            <AnimationPanel
+              options={animationOptions}
+              onChange={(patch) => setAnimationOptions((previous) => ({ ...previous, ...patch }))}
+              formats={animationFormatOptions}
+              progress={animationProgress}
+              disabled={!imageDataUrl || isExporting || batchProgress !== null}
+              onExport={() => void handleExportAnimation()}
+              onCancel={cancelAnimation}
+            />
           </aside>
         </main>
       </div>
+      {paletteCommands ? <CommandPalette commands={paletteCommands} onClose={closePalette} /> : null}
+      {isHelpOpen ? <ShortcutHelp onClose={closeHelp} /> : null}
+      <Toasts toasts={toasts} onDismiss={dismissToast} />
     </div>
   )
 }
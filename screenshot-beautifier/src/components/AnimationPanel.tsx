@@ -0,0 +1,115 @@
+import clsx from 'clsx'
+import { ChipGroup, SectionCard, SegmentedControl, SliderControl, ToggleControl } from './controls'
+import { getAnimationFormat } from '../lib/animationExport'
+import type { AnimationFormatOption, AnimationOptions } from '../lib/animationExport'
+import {
+  ANIMATION_DURATION_MAX,
+  ANIMATION_DURATION_MIN,
+  animationFpsOptions,
+  animationKindOptions,
+} from '../lib/animations'
+
+interface AnimationPanelProps {
+  options: AnimationOptions
+  onChange: (patch: Partial<AnimationOptions>) => void
+  /** The formats this browser can produce. */
+  formats: AnimationFormatOption[]
+  /** 0–1 while an animation is rendering, else null. */
+  progress: number | null
+  disabled: boolean
+  onExport: () => void
+  onCancel: () => void
+}
+
+export const AnimationPanel = ({
+  options,
+  onChange,
+  formats,
+  progress,
+  disabled,
+  onExport,
+  onCancel,
+}: AnimationPanelProps) => {
+  const format = getAnimationFormat(options.format)
+
+  return (
+    <SectionCard title="Animate" description="Export a short clip of the frame in motion for social posts.">
+      <SegmentedControl
+        options={animationKindOptions}
+        value={options.kind}
+        onChange={(kind) => onChange({ kind })}
+      />
+      <ChipGroup
+        label="Animation format"
+        options={formats}
+        value={options.format}
+        onChange={(value) => onChange({ format: value })}
+        columns={3}
+      />
+      <SliderControl
+        label="Duration"
+        value={options.duration}
+        min={ANIMATION_DURATION_MIN}
+        max={ANIMATION_DURATION_MAX}
+        onChange={(duration) => onChange({ duration })}
+        suffix="s"
+      />
+      <ChipGroup
+        label="Frame rate"
+        options={animationFpsOptions.map((fps) => ({ id: fps, label: `${fps} fps` }))}
+        value={options.fps}
+        onChange={(fps) => onChange({ fps })}
+      />
+      <ToggleControl
+        label="Loop"
+        description="GIFs repeat from the first frame forever. Off plays them once."
+        checked={options.loop}
+        onChange={(loop) => onChange({ loop })}
+      />
+      <ToggleControl
+        label="Play in reverse too"
+        description="Plays forward, then back to the start, so the motion unwinds instead of cutting."
+        checked={options.bounce}
+        onChange={(bounce) => onChange({ bounce })}
+      />
+      {progress !== null ? (
+        <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+          <div className="flex items-center justify-between gap-3 text-sm font-medium text-slate-200">
+            <span>Encoding {format.label} {Math.round(progress * 100)}%…</span>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="text-xs font-semibold text-rose-300/80 transition hover:text-rose-200"
+            >
+              Cancel
+            </button>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-slate-700/60">
+            <div
+              className="h-full rounded-full bg-primary-400 transition-all duration-300"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={disabled}
+          className={clsx(
+            'flex h-12 w-full items-center justify-center rounded-2xl border text-sm font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-300',
+            disabled
+              ? 'border-white/10 bg-white/5 text-white/50'
+              : 'border-white/15 bg-white/10 text-white hover:-translate-y-0.5 hover:border-white/30 hover:bg-white/15',
+          )}
+        >
+          Export {format.label}
+        </button>
+      )}
+      <p className="text-xs text-slate-400">
+        Frames render at up to {format.maxSide}px on the longer side. Videos record in real time after
+        rendering, so keep this tab in front until they finish.
+      </p>
+    </SectionCard>
+  )
+}
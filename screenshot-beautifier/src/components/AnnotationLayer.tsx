@@ -0,0 +1,415 @@
+import { useEffect, useRef, useState } from 'react'
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import clsx from 'clsx'
+import {
+  getAnnotationBox,
+  getAnnotationUnit,
+  getFontFamily,
+  getNextStepNumber,
+  hitTestAnnotations,
+  isMeaningfulAnnotation,
+  moveAnnotation,
+  normalizeBox,
+  resizeAnnotation,
+} from '../lib/annotations'
+import type {
+  Annotation,
+  AnnotationHandle,
+  AnnotationStyle,
+  AnnotationTool,
+  Box,
+  Point,
+} from '../lib/annotations'
+import { createId } from '../lib/id'
+import { isEditableTarget } from '../lib/clipboard'
+import type { Size } from '../lib/canvasSize'
+
+interface AnnotationLayerProps {
+  image: Size
+  annotations: Annotation[]
+  tool: AnnotationTool
+  style: AnnotationStyle
+  selectedId: string | null
+  /**
+   * False while the crop editor is open or on a screen other than the active one; hides
+   * selection and ignores pointer input.
+   */
+  interactive: boolean
+  onChange: (annotations: Annotation[], coalesceKey?: string) => void
+  onSelect: (id: string | null) => void
+  onToolChange: (tool: AnnotationTool) => void
+}
+
+type Gesture =
+  | { kind: 'draw'; origin: Point }
+  | { kind: 'move'; origin: Point; initial: Annotation }
+  | { kind: 'resize'; handle: AnnotationHandle; initial: Annotation; box: Box }
+
+const AnnotationShape = ({ annotation, unit }: { annotation: Annotation; unit: number }) => {
+  const { color, strokeWidth, fontSize, fontWeight, font } = annotation.style
+  const stroke = strokeWidth * unit
+
+  switch (annotation.type) {
+    case 'arrow': {
+      const { start, end } = annotation
+      const angle = Math.atan2(end.y - start.y, end.x - start.x)
+      const head = stroke * 4
+      const spread = Math.PI / 7
+      const left = {
+        x: end.x - head * Math.cos(angle - spread),
+        y: end.y - head * Math.sin(angle - spread),
+      }
+      const right = {
+        x: end.x - head * Math.cos(angle + spread),
+        y: end.y - head * Math.sin(angle + spread),
+      }
+      // Stop the shaft short of the tip so the round cap doesn't poke through the head.
+      const shaftEnd = {
+        x: end.x - head * 0.6 * Math.cos(angle),
+        y: end.y - head * 0.6 * Math.sin(angle),
+      }
+      return (
+        <g>
+          <line
+            x1={start.x}
+            y1={start.y}
+            x2={shaftEnd.x}
+            y2={shaftEnd.y}
+            stroke={color}
+            strokeWidth={stroke}
+            strokeLinecap="round"
+          />
+          <polygon
+            points={`${end.x},${end.y} ${left.x},${left.y} ${right.x},${right.y}`}
+            fill={color}
+            stroke={color}
+            strokeWidth={stroke * 0.5}
+            strokeLinejoin="round"
+          />
+        </g>
+      )
+    }
+    case 'rectangle': {
+      const box = normalizeBox(annotation.box)
+      return (
+        <rect
+          {...box}
+          rx={stroke * 1.5}
+          fill="none"
+          stroke={color}
+          strokeWidth={stroke}
+        />
+      )
+    }
+    case 'ellipse': {
+      const box = normalizeBox(annotation.box)
+      return (
+        <ellipse
+          cx={box.x + box.width / 2}
+          cy={box.y + box.height / 2}
+          rx={box.width / 2}
+          ry={box.height / 2}
+          fill="none"
+          stroke={color}
+          strokeWidth={stroke}
+        />
+      )
+    }
+    case 'highlighter':
+      return (
+        <polyline
+          points={annotation.points.map((point) => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={stroke * 4}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          opacity={0.4}
+          style={{ mixBlendMode: 'multiply' }}
+        />
+      )
+    case 'step': {
+      const radius = fontSize * unit * 0.9
+      return (
+        <g>
+          <circle
+            cx={annotation.position.x}
+            cy={annotation.position.y}
+            r={radius}
+            fill={color}
+            stroke="#ffffff"
+            strokeWidth={radius * 0.12}
+          />
+          <text
+            x={annotation.position.x}
+            y={annotation.position.y}
+            fill="#ffffff"
+            fontSize={fontSize * unit}
+            fontWeight={700}
+            fontFamily={getFontFamily(font)}
+            textAnchor="middle"
+            dominantBaseline="central"
+          >
+            {annotation.number}
+          </text>
+        </g>
+      )
+    }
+    case 'text':
+      return (
+        <text
+          x={annotation.position.x}
+          y={annotation.position.y}
+          fill={color}
+          fontSize={fontSize * unit}
+          fontWeight={fontWeight}
+          fontFamily={getFontFamily(font)}
+          stroke="rgba(2, 6, 23, 0.45)"
+          strokeWidth={fontSize * unit * 0.08}
+          paintOrder="stroke"
+          style={{ whiteSpace: 'pre' }}
+        >
+          {annotation.text}
+        </text>
+      )
+  }
+}
+
+export const AnnotationLayer = ({
+  image,
+  annotations,
+  tool,
+  style,
+  selectedId,
+  interactive,
+  onChange,
+  onSelect,
+  onToolChange,
+}: AnnotationLayerProps) => {
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const gestureRef = useRef<Gesture | null>(null)
+  const [draft, setDraft] = useState<Annotation | null>(null)
+  const unit = getAnnotationUnit(image)
+  const selected = interactive ? annotations.find((annotation) => annotation.id === selectedId) : undefined
+
+  useEffect(() => {
+    if (!interactive || !selectedId) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault()
+        onChange(annotations.filter((annotation) => annotation.id !== selectedId))
+        onSelect(null)
+      } else if (event.key === 'Escape') {
+        onSelect(null)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [annotations, interactive, onChange, onSelect, selectedId])
+
+  const toImagePoint = (event: ReactPointerEvent): Point => {
+    const matrix = svgRef.current?.getScreenCTM()
+    if (!matrix) return { x: 0, y: 0 }
+    // The screen CTM already folds in the viewBox fit and any CSS scale on the preview.
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse())
+    return {
+      x: Math.min(Math.max(point.x, 0), image.width),
+      y: Math.min(Math.max(point.y, 0), image.height),
+    }
+  }
+
+  const replace = (next: Annotation, coalesceKey: string) => {
+    onChange(
+      annotations.map((annotation) => (annotation.id === next.id ? next : annotation)),
+      coalesceKey,
+    )
+  }
+
+  const handlePointerDown = (event: ReactPointerEvent<SVGSVGElement>) => {
+    if (!interactive || event.button !== 0) return
+    event.preventDefault()
+    event.stopPropagation()
+    const point = toImagePoint(event)
+    const annotationStyle = { ...style }
+
+    if (tool === 'select') {
+      const hit = hitTestAnnotations(annotations, point, unit)
+      onSelect(hit?.id ?? null)
+      if (hit) {
+        gestureRef.current = { kind: 'move', origin: point, initial: hit }
+        event.currentTarget.setPointerCapture(event.pointerId)
+      }
+      return
+    }
+
+    if (tool === 'step' || tool === 'text') {
+      const created: Annotation =
+        tool === 'step'
+          ? { id: createId(), type: 'step', style: annotationStyle, position: point, number: getNextStepNumber(annotations) }
+          : { id: createId(), type: 'text', style: annotationStyle, position: point, text: 'Label' }
+      onChange([...annotations, created])
+      onSelect(created.id)
+      if (tool === 'text') onToolChange('select')
+      return
+    }
+
+    const id = createId()
+    setDraft(
+      tool === 'arrow'
+        ? { id, type: 'arrow', style: annotationStyle, start: point, end: point }
+        : tool === 'highlighter'
+          ? { id, type: 'highlighter', style: annotationStyle, points: [point] }
+          : { id, type: tool, style: annotationStyle, box: { x: point.x, y: point.y, width: 0, height: 0 } },
+    )
+    gestureRef.current = { kind: 'draw', origin: point }
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const handleHandlePointerDown = (event: ReactPointerEvent, handle: AnnotationHandle) => {
+    if (!selected) return
+    event.preventDefault()
+    event.stopPropagation()
+    gestureRef.current = { kind: 'resize', handle, initial: selected, box: getAnnotationBox(selected, unit) }
+    svgRef.current?.setPointerCapture(event.pointerId)
+  }
+
+  const handlePointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const gesture = gestureRef.current
+    if (!gesture) return
+    const point = toImagePoint(event)
+
+    if (gesture.kind === 'draw') {
+      setDraft((current) => {
+        if (!current) return current
+        switch (current.type) {
+          case 'arrow':
+            return { ...current, end: point }
+          case 'highlighter':
+            return { ...current, points: [...current.points, point] }
+          case 'rectangle':
+          case 'ellipse':
+            return {
+              ...current,
+              box: {
+                x: gesture.origin.x,
+                y: gesture.origin.y,
+                width: point.x - gesture.origin.x,
+                height: point.y - gesture.origin.y,
+              },
+            }
+          default:
+            return current
+        }
+      })
+      return
+    }
+
+    if (gesture.kind === 'move') {
+      replace(
+        moveAnnotation(gesture.initial, point.x - gesture.origin.x, point.y - gesture.origin.y),
+        `annotation-move-${gesture.initial.id}`,
+      )
+      return
+    }
+
+    const { initial, box, handle } = gesture
+    if (initial.type === 'arrow' && handle !== 'corner') {
+      replace({ ...initial, [handle]: point }, `annotation-resize-${initial.id}`)
+      return
+    }
+    const next = normalizeBox({
+      x: box.x,
+      y: box.y,
+      width: Math.max(point.x - box.x, unit * 4),
+      height: Math.max(point.y - box.y, unit * 4),
+    })
+    replace(resizeAnnotation(initial, box, next), `annotation-resize-${initial.id}`)
+  }
+
+  const handlePointerUp = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const gesture = gestureRef.current
+    gestureRef.current = null
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
+    if (gesture?.kind !== 'draw' || !draft) return
+
+    const committed =
+      draft.type === 'rectangle' || draft.type === 'ellipse'
+        ? { ...draft, box: normalizeBox(draft.box) }
+        : draft
+    setDraft(null)
+    if (isMeaningfulAnnotation(committed, unit)) {
+      onChange([...annotations, committed])
+      onSelect(committed.id)
+    }
+  }
+
+  const selectionBox = selected ? getAnnotationBox(selected, unit) : null
+  const handleSize = 10 * unit
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${image.width} ${image.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={clsx(
+        'absolute inset-0 h-full w-full touch-none',
+        !interactive && 'pointer-events-none',
+        interactive && (tool === 'select' ? 'cursor-default' : 'cursor-crosshair'),
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={(event) => event.stopPropagation()}
+    >
+      {annotations.map((annotation) => (
+        <AnnotationShape key={annotation.id} annotation={annotation} unit={unit} />
+      ))}
+      {draft ? <AnnotationShape annotation={draft} unit={unit} /> : null}
+      {selected && selectionBox ? (
+        <g>
+          <rect
+            x={selectionBox.x - 6 * unit}
+            y={selectionBox.y - 6 * unit}
+            width={selectionBox.width + 12 * unit}
+            height={selectionBox.height + 12 * unit}
+            fill="none"
+            stroke="#38bdf8"
+            strokeWidth={2 * unit}
+            strokeDasharray={`${6 * unit} ${4 * unit}`}
+            pointerEvents="none"
+          />
+          {(selected.type === 'arrow'
+            ? [
+                { handle: 'start' as const, point: selected.start },
+                { handle: 'end' as const, point: selected.end },
+              ]
+            : [
+                {
+                  handle: 'corner' as const,
+                  point: { x: selectionBox.x + selectionBox.width, y: selectionBox.y + selectionBox.height },
+                },
+              ]
+          ).map(({ handle, point }) => (
+            <rect
+              key={handle}
+              x={point.x - handleSize / 2}
+              y={point.y - handleSize / 2}
+              width={handleSize}
+              height={handleSize}
+              rx={handleSize / 4}
+              fill="#ffffff"
+              stroke="#0ea5e9"
+              strokeWidth={2 * unit}
+              className={handle === 'corner' ? 'cursor-nwse-resize' : 'cursor-move'}
+              onPointerDown={(event) => handleHandlePointerDown(event, handle)}
+            />
+          ))}
+        </g>
+      ) : null}
+    </svg>
+  )
+}
@@ -0,0 +1,139 @@
+import clsx from 'clsx'
+import {
+  ColorControl,
+  SectionCard,
+  SegmentedControl,
+  SliderControl,
+  TextControl,
+  ToggleControl,
+} from './controls'
+import { annotationFonts, annotationTools } from '../lib/annotations'
+import type { Annotation, AnnotationStyle, AnnotationTool } from '../lib/annotations'
+
+interface AnnotationPanelProps {
+  tool: AnnotationTool
+  style: AnnotationStyle
+  selected: Annotation | null
+  count: number
+  disabled: boolean
+  onToolChange: (tool: AnnotationTool) => void
+  onStyleChange: (style: AnnotationStyle) => void
+  onTextChange: (text: string) => void
+  onDelete: () => void
+  onClear: () => void
+}
+
+export const AnnotationPanel = ({
+  tool,
+  style,
+  selected,
+  count,
+  disabled,
+  onToolChange,
+  onStyleChange,
+  onTextChange,
+  onDelete,
+  onClear,
+}: AnnotationPanelProps) => {
+  const activeTool = annotationTools.find((option) => option.id === tool) ?? annotationTools[0]
+  // Style controls edit the selected mark when there is one, otherwise the next mark drawn.
+  const editedStyle = selected?.style ?? style
+  const showsText = selected ? selected.type === 'text' || selected.type === 'step' : tool === 'text' || tool === 'step'
+  const showsStroke = selected
+    ? selected.type !== 'text' && selected.type !== 'step'
+    : tool !== 'text' && tool !== 'step' && tool !== 'select'
+
+  const updateStyle = <K extends keyof AnnotationStyle>(key: K, value: AnnotationStyle[K]) => {
+    onStyleChange({ ...editedStyle, [key]: value })
+  }
+
+  return (
+    <SectionCard
+      title="Annotate"
+      description="Point things out before you frame them."
+      action={
+        count > 0 ? (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+          >
+            Clear all
+          </button>
+        ) : null
+      }
+    >
+      <div className="grid grid-cols-4 gap-2">
+        {annotationTools.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => onToolChange(option.id)}
+            disabled={disabled}
+            className={clsx(
+              'rounded-xl border px-2 py-2 text-xs font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400 disabled:cursor-not-allowed disabled:opacity-40',
+              tool === option.id
+                ? 'border-primary-400/75 bg-primary-400/10 text-white shadow-glow-xl'
+                : 'border-white/10 bg-white/5 text-slate-300 hover:border-white/20 hover:bg-white/10',
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400">
+        {disabled ? 'Upload a screenshot to start annotating.' : activeTool.hint}
+      </p>
+
+      <ColorControl
+        label="Color"
+        value={editedStyle.color}
+        onChange={(color) => updateStyle('color', color)}
+      />
+      {showsStroke ? (
+        <SliderControl
+          label="Stroke"
+          value={editedStyle.strokeWidth}
+          min={2}
+          max={24}
+          onChange={(value) => updateStyle('strokeWidth', value)}
+          helper="Highlighter strokes are drawn four times wider."
+        />
+      ) : null}
+      {showsText ? (
+        <>
+          <SliderControl
+            label="Font size"
+            value={editedStyle.fontSize}
+            min={12}
+            max={120}
+            onChange={(value) => updateStyle('fontSize', value)}
+          />
+          <SegmentedControl
+            options={annotationFonts}
+            value={editedStyle.font}
+            onChange={(font) => updateStyle('font', font)}
+          />
+          <ToggleControl
+            label="Bold"
+            checked={editedStyle.fontWeight >= 600}
+            onChange={(bold) => updateStyle('fontWeight', bold ? 600 : 400)}
+          />
+        </>
+      ) : null}
+
+      {selected?.type === 'text' ? (
+        <TextControl label="Label text" value={selected.text} maxLength={120} onChange={onTextChange} />
+      ) : null}
+      {selected ? (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="w-full rounded-2xl border border-rose-300/30 bg-rose-400/10 py-2.5 text-sm font-semibold text-rose-100 transition hover:border-rose-300/60 hover:bg-rose-400/20"
+        >
+          Delete selected mark
+        </button>
+      ) : null}
+    </SectionCard>
+  )
+}
@@ -0,0 +1,107 @@
+import type { ReactNode } from 'react'
+import { DeviceFrame } from './DeviceFrame'
+import { RedactedImage } from './RedactedImage'
+import { getCoverPlane } from '../lib/arrangements'
+import type { Arrangement, ArrangementSlot } from '../lib/arrangements'
+import { getDropShadowFilterCss, getScreenShadows } from '../lib/atmosphere'
+import type { QueuedImage } from '../lib/images'
+import type { CompositionLayout } from '../lib/renderLayout'
+import type { Settings } from '../settings'
+
+interface ArrangedScreensProps {
+  settings: Settings
+  arrangement: Arrangement
+  /** The slots in paint order, each with the image it shows. */
+  screens: { slot: ArrangementSlot; image: QueuedImage }[]
+  layout: CompositionLayout
+  activeImageId: string | null
+  /** The annotation layer for a screen's image, placed over the screenshot. */
+  renderAnnotations: (image: QueuedImage) => ReactNode
+  onSelectImage: (id: string) => void
+}
+
+const toPercent = (fraction: number) => `${fraction * 100}%`
+
+/**
+ * The screens of a multi-screenshot arrangement, absolutely placed from the same layout
+ * the renderer draws, so the preview and the export line up exactly.
+ */
+export const ArrangedScreens = ({
+  settings,
+  arrangement,
+  screens,
+  layout,
+  activeImageId,
+  renderAnnotations,
+  onSelectImage,
+}: ArrangedScreensProps) => {
+  const { frame: box } = layout
+  const filter = getDropShadowFilterCss(getScreenShadows(settings))
+  const after = arrangement.id === 'before-after' ? screens[1] : null
+
+  return (
+    <div className="relative" style={{ width: box.width, height: box.height }}>
+      {layout.screens?.map(({ frame, viewport }, index) => {
+        const { slot, image } = screens[index]
+        const plane = after ? getCoverPlane(after.image, viewport) : null
+        return (
+          <div
+            key={slot.id}
+            className="absolute"
+            style={{ left: frame.x - box.x, top: frame.y - box.y, width: frame.width, filter }}
+            onPointerDownCapture={() => {
+              if (image.id !== activeImageId) onSelectImage(image.id)
+            }}
+          >
+            <DeviceFrame
+              settings={{ ...settings, frameType: slot.frameType }}
+              title={settings.frameTitle.trim() || image.name}
+            >
+              <div className="relative overflow-hidden" style={{ width: viewport.width, height: viewport.height }}>
+                <div className="absolute inset-0">
+                  <RedactedImage image={image} className="absolute inset-0 block h-full w-full" />
+                  {renderAnnotations(image)}
+                </div>
+                {after && plane ? (
+                  <>
+                    <div
+                      className="absolute inset-0"
+                      style={{ clipPath: `inset(0 0 0 ${arrangement.split}%)` }}
+                      onPointerDownCapture={(event) => {
+                        event.stopPropagation()
+                        if (after.image.id !== activeImageId) onSelectImage(after.image.id)
+                      }}
+                    >
+                      <div
+                        className="absolute"
+                        style={{
+                          left: toPercent(plane.x),
+                          top: toPercent(plane.y),
+                          width: toPercent(plane.width),
+                          height: toPercent(plane.height),
+                        }}
+                      >
+                        <RedactedImage image={after.image} className="absolute inset-0 block h-full w-full" />
+                        {renderAnnotations(after.image)}
+                      </div>
+                    </div>
+                    <div
+                      className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white/90"
+                      style={{ left: `${arrangement.split}%` }}
+                      aria-hidden="true"
+                    >
+                      <span className="absolute left-1/2 top-1/2 flex h-7 w-7 -translate-x-1/2 -translate-y-1/2 items-center justify-center gap-1 rounded-full bg-white/90">
+                        <span className="h-3 w-0.5 bg-slate-900/60" />
+                        <span className="h-3 w-0.5 bg-slate-900/60" />
+                      </span>
+                    </div>
+                  </>
+                ) : null}
+              </div>
+            </DeviceFrame>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,368 @@
+import { useRef } from 'react'
+import type { ChangeEvent, ReactNode } from 'react'
+import {
+  ChipGroup,
+  ColorControl,
+  PresetSwatch,
+  SectionCard,
+  SegmentedControl,
+  SliderControl,
+  ToggleControl,
+} from './controls'
+import { GradientEditor } from './GradientEditor'
+import {
+  areGradientStopsEqual,
+  getGradientBackground,
+  getGradientPresetSettings,
+  gradientPresets,
+  patternKindOptions,
+  solidPresets,
+} from '../lib/backgrounds'
+import type { Wallpaper } from '../lib/backgrounds'
+import { ACCEPTED_IMAGE_TYPES } from '../lib/imageInput'
+import type { PaletteSuggestions } from '../lib/palette'
+import type { BackgroundType, Settings } from '../settings'
+
+interface BackgroundPanelProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+  /** Colors of the active screenshot, or null when none is loaded. */
+  palette: string[] | null
+  suggestions: PaletteSuggestions | null
+  onMatchScreenshotChange: (matchScreenshot: boolean) => void
+  wallpaper: Wallpaper | null
+  onWallpaperUpload: (file: File) => void
+  onWallpaperRemove: () => void
+}
+
+const backgroundModes: { id: BackgroundType; label: string; description: string }[] = [
+  {
+    id: 'gradient',
+    label: 'Gradient',
+    description: 'Multi-stop linear, radial, conic, or mesh.',
+  },
+  {
+    id: 'solid',
+    label: 'Solid',
+    description: 'Minimal backdrop for focused visuals.',
+  },
+  {
+    id: 'pattern',
+    label: 'Pattern',
+    description: 'Dots, grid, or waves over a base color.',
+  },
+  {
+    id: 'image',
+    label: 'Wallpaper',
+    description: 'Your own photo, blurred or dimmed.',
+  },
+  {
+    id: 'screenshot',
+    label: 'Blurred screenshot',
+    description: 'A soft copy of the capture itself.',
+  },
+]
+
+const SuggestionHeading = () => (
+  <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">From screenshot</p>
+)
+
+export const BackgroundPanel = ({
+  settings,
+  onChange,
+  palette,
+  suggestions,
+  onMatchScreenshotChange,
+  wallpaper,
+  onWallpaperUpload,
+  onWallpaperRemove,
+}: BackgroundPanelProps) => {
+  const wallpaperInputRef = useRef<HTMLInputElement | null>(null)
+
+  const handleWallpaperChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onWallpaperUpload(file)
+    }
+    event.target.value = ''
+  }
+
+  const renderGradientEditor = () => (
+    <>
+      <GradientEditor settings={settings} onChange={onChange} />
+      <div className="grid grid-cols-2 gap-3">
+        {gradientPresets.map((preset) => (
+          <PresetSwatch
+            key={preset.id}
+            label={preset.label}
+            active={
+              settings.gradientType === preset.type &&
+              areGradientStopsEqual(settings.gradientStops, preset.stops)
+            }
+            style={{ background: getGradientBackground(getGradientPresetSettings(preset)) }}
+            onClick={() => onChange(getGradientPresetSettings(preset))}
+          />
+        ))}
+      </div>
+      {suggestions ? (
+        <div className="space-y-2">
+          <SuggestionHeading />
+          <div className="grid grid-cols-2 gap-3">
+            {suggestions.gradients.map((suggestion) => (
+              <PresetSwatch
+                key={suggestion.id}
+                label={suggestion.label}
+                active={areGradientStopsEqual(settings.gradientStops, suggestion.stops)}
+                style={{
+                  background: getGradientBackground({
+                    ...settings,
+                    gradientStops: suggestion.stops,
+                    gradientAngle: suggestion.angle,
+                  }),
+                }}
+                onClick={() =>
+                  onChange({
+                    gradientStops: suggestion.stops,
+                    gradientAngle: suggestion.angle,
+                    windowAccent: suggestions.accent,
+                  })
+                }
+              />
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </>
+  )
+
+  const renderSolidEditor = () => (
+    <>
+      <ColorControl
+        label="Backdrop color"
+        value={settings.backgroundColor}
+        onChange={(color) => onChange({ backgroundColor: color }, 'backgroundColor')}
+        helper="Pick any solid hue or a soft neutral."
+      />
+      <div className="grid grid-cols-2 gap-3">
+        {solidPresets.map((preset) => (
+          <PresetSwatch
+            key={preset.id}
+            label={preset.label}
+            active={settings.backgroundColor === preset.color}
+            style={{ background: preset.color }}
+            onClick={() => onChange({ backgroundColor: preset.color })}
+          />
+        ))}
+      </div>
+      {suggestions ? (
+        <div className="space-y-2">
+          <SuggestionHeading />
+          <div className="grid grid-cols-2 gap-3">
+            {suggestions.solids.map((suggestion) => (
+              <PresetSwatch
+                key={suggestion.id}
+                label={suggestion.label}
+                active={settings.backgroundColor === suggestion.color}
+                style={{ background: suggestion.color }}
+                onClick={() =>
+                  onChange({ backgroundColor: suggestion.color, windowAccent: suggestions.accent })
+                }
+              />
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </>
+  )
+
+  const renderPatternEditor = () => (
+    <>
+      <ChipGroup
+        label="Pattern"
+        options={patternKindOptions}
+        value={settings.patternType}
+        onChange={(patternType) => onChange({ patternType })}
+        columns={3}
+      />
+      <div className="grid grid-cols-2 gap-3">
+        <ColorControl
+          label="Pattern"
+          value={settings.patternColor}
+          onChange={(color) => onChange({ patternColor: color }, 'patternColor')}
+        />
+        <ColorControl
+          label="Base"
+          value={settings.backgroundColor}
+          onChange={(color) => onChange({ backgroundColor: color }, 'backgroundColor')}
+        />
+      </div>
+      <SliderControl
+        label="Scale"
+        value={settings.patternScale}
+        min={8}
+        max={96}
+        onChange={(value) => onChange({ patternScale: value }, 'patternScale')}
+        helper="Size of one repeat of the pattern."
+        suffix="px"
+      />
+      <SliderControl
+        label="Opacity"
+        value={settings.patternOpacity}
+        min={5}
+        max={100}
+        onChange={(value) => onChange({ patternOpacity: value }, 'patternOpacity')}
+        suffix="%"
+      />
+    </>
+  )
+
+  const renderWallpaperEditor = () => (
+    <>
+      <input
+        ref={wallpaperInputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES}
+        className="hidden"
+        onChange={handleWallpaperChange}
+      />
+      <div className="flex items-center gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
+        {wallpaper ? (
+          <img
+            src={wallpaper.dataUrl}
+            alt=""
+            className="h-14 w-20 shrink-0 rounded-lg border border-white/10 object-cover"
+          />
+        ) : (
+          <span className="h-14 w-20 shrink-0 rounded-lg border border-dashed border-white/20" />
+        )}
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="truncate text-sm font-medium text-slate-200">
+            {wallpaper ? wallpaper.name : 'No wallpaper yet'}
+          </p>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => wallpaperInputRef.current?.click()}
+              className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+            >
+              {wallpaper ? 'Replace' : 'Upload image'}
+            </button>
+            {wallpaper ? (
+              <button
+                type="button"
+                onClick={onWallpaperRemove}
+                className="text-xs font-semibold text-slate-400 transition hover:text-white"
+              >
+                Remove
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-slate-400">
+        Wallpapers stay on this device: shared links and saved styles fall back to the base color.
+      </p>
+      <SliderControl
+        label="Blur"
+        value={settings.wallpaperBlur}
+        min={0}
+        max={40}
+        onChange={(value) => onChange({ wallpaperBlur: value }, 'wallpaperBlur')}
+        suffix="px"
+      />
+      <SliderControl
+        label="Brightness"
+        value={settings.wallpaperBrightness}
+        min={20}
+        max={160}
+        onChange={(value) => onChange({ wallpaperBrightness: value }, 'wallpaperBrightness')}
+        suffix="%"
+      />
+      <SliderControl
+        label="Scale"
+        value={settings.wallpaperScale}
+        min={100}
+        max={300}
+        onChange={(value) => onChange({ wallpaperScale: value }, 'wallpaperScale')}
+        suffix="%"
+      />
+      <ColorControl
+        label="Base color"
+        value={settings.backgroundColor}
+        onChange={(color) => onChange({ backgroundColor: color }, 'backgroundColor')}
+        helper="Shown until a wallpaper is uploaded."
+      />
+    </>
+  )
+
+  const renderScreenshotEditor = () => (
+    <>
+      <SliderControl
+        label="Blur"
+        value={settings.screenshotBlur}
+        min={0}
+        max={96}
+        onChange={(value) => onChange({ screenshotBlur: value }, 'screenshotBlur')}
+        helper="Heavy blur turns the capture into a soft wash of its own colors."
+        suffix="px"
+      />
+      <SliderControl
+        label="Brightness"
+        value={settings.screenshotBrightness}
+        min={20}
+        max={160}
+        onChange={(value) => onChange({ screenshotBrightness: value }, 'screenshotBrightness')}
+        suffix="%"
+      />
+      <SliderControl
+        label="Scale"
+        value={settings.screenshotScale}
+        min={100}
+        max={300}
+        onChange={(value) => onChange({ screenshotScale: value }, 'screenshotScale')}
+        suffix="%"
+      />
+    </>
+  )
+
+  const editors: Record<BackgroundType, () => ReactNode> = {
+    gradient: renderGradientEditor,
+    solid: renderSolidEditor,
+    pattern: renderPatternEditor,
+    image: renderWallpaperEditor,
+    screenshot: renderScreenshotEditor,
+  }
+
+  return (
+    <SectionCard title="Background" description="Style the atmosphere behind your frame.">
+      <SegmentedControl
+        options={backgroundModes}
+        value={settings.backgroundType}
+        onChange={(backgroundType) => onChange({ backgroundType })}
+      />
+      {editors[settings.backgroundType]()}
+      <ToggleControl
+        label="Match screenshot"
+        description={
+          palette && palette.length === 0
+            ? 'The colors of this image could not be read.'
+            : 'Re-derives the backdrop and accent from each screenshot as you switch or add images.'
+        }
+        checked={settings.matchScreenshot}
+        onChange={onMatchScreenshotChange}
+      />
+      {palette && palette.length > 0 ? (
+        <div className="flex items-center gap-2" role="group" aria-label="Screenshot palette">
+          {palette.map((color) => (
+            <span
+              key={color}
+              title={color}
+              className="h-5 w-5 rounded-full border border-white/20"
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+      ) : null}
+    </SectionCard>
+  )
+}
@@ -0,0 +1,36 @@
+import type { CSSProperties } from 'react'
+import { RedactedImage } from './RedactedImage'
+import type { QueuedImage } from '../lib/images'
+
+interface CanvasBackdropProps {
+  /** A wallpaper URL, or the screenshot itself, which is drawn with its redactions. */
+  source: string | QueuedImage
+  /** Blur in pixels; brightness and scale in percent. */
+  blur: number
+  brightness: number
+  scale: number
+}
+
+/**
+ * A photo filling the canvas behind the frame. It overhangs the edges by twice the blur
+ * radius so the blur never fades into the base color along the border.
+ */
+export const CanvasBackdrop = ({ source, blur, brightness, scale }: CanvasBackdropProps) => {
+  const className = 'absolute max-w-none object-cover'
+  const style: CSSProperties = {
+    inset: `${-blur * 2}px`,
+    width: `calc(100% + ${blur * 4}px)`,
+    height: `calc(100% + ${blur * 4}px)`,
+    filter: `blur(${blur}px) brightness(${brightness}%)`,
+    transform: `scale(${scale / 100})`,
+  }
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden="true">
+      {typeof source === 'string' ? (
+        <img src={source} alt="" className={className} style={style} />
+      ) : (
+        <RedactedImage image={source} className={className} style={style} />
+      )}
+    </div>
+  )
+}
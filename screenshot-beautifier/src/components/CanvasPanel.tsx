@@ -0,0 +1,66 @@
+import { NumberControl, SectionCard, SegmentedControl } from './controls'
+import { CANVAS_DIMENSION_MAX, CANVAS_DIMENSION_MIN, canvasSizePresets, clampCanvasDimension } from '../lib/canvasSize'
+import type { CanvasSizeId } from '../lib/canvasSize'
+import type { Settings } from '../settings'
+
+interface CanvasPanelProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+}
+
+export const CanvasPanel = ({ settings, onChange }: CanvasPanelProps) => {
+  const fixedCanvas =
+    settings.canvasSize === 'auto' ? null : { width: settings.canvasWidth, height: settings.canvasHeight }
+
+  // Presets bring their own size; "custom" keeps the last one so it can be adjusted from there.
+  const selectSize = (id: CanvasSizeId) => {
+    const preset = canvasSizePresets.find((option) => option.id === id)
+    onChange({
+      canvasSize: id,
+      canvasWidth: preset?.size?.width ?? settings.canvasWidth,
+      canvasHeight: preset?.size?.height ?? settings.canvasHeight,
+    })
+  }
+
+  return (
+    <SectionCard
+      title="Canvas"
+      description="Lock the export to a fixed size for social and docs targets."
+      action={
+        fixedCanvas ? (
+          <span className="text-xs font-medium text-slate-400">
+            {fixedCanvas.width} × {fixedCanvas.height}px
+          </span>
+        ) : null
+      }
+    >
+      <SegmentedControl options={canvasSizePresets} value={settings.canvasSize} onChange={selectSize} />
+      {settings.canvasSize === 'custom' ? (
+        <div className="grid grid-cols-2 gap-3">
+          <NumberControl
+            label="Width"
+            value={settings.canvasWidth}
+            min={CANVAS_DIMENSION_MIN}
+            max={CANVAS_DIMENSION_MAX}
+            onChange={(value) => onChange({ canvasWidth: clampCanvasDimension(value) }, 'canvasWidth')}
+            suffix="px"
+          />
+          <NumberControl
+            label="Height"
+            value={settings.canvasHeight}
+            min={CANVAS_DIMENSION_MIN}
+            max={CANVAS_DIMENSION_MAX}
+            onChange={(value) => onChange({ canvasHeight: clampCanvasDimension(value) }, 'canvasHeight')}
+            suffix="px"
+          />
+        </div>
+      ) : null}
+      {fixedCanvas ? (
+        <p className="text-xs text-slate-400">
+          The preview scales to fit your screen; exports come out at exactly{' '}
+          {fixedCanvas.width} × {fixedCanvas.height}px per 1x of export scale.
+        </p>
+      ) : null}
+    </SectionCard>
+  )
+}
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from 'react'
+import { useElementSize } from '../hooks/useElementSize'
+import { getFontStack } from '../lib/fonts'
+import type { Size } from '../lib/canvasSize'
+import type { Settings } from '../settings'
+
+interface CanvasTextProps {
+  settings: Settings
+  /** Reports the laid-out size so fixed canvases can shrink the screenshot to make room. */
+  onSizeChange: (size: Size) => void
+}
+
+export const CanvasText = ({ settings, onSizeChange }: CanvasTextProps) => {
+  const ref = useRef<HTMLDivElement | null>(null)
+  const size = useElementSize(ref)
+  const headline = settings.headline.trim()
+  const caption = settings.caption.trim()
+
+  useEffect(() => {
+    onSizeChange(size)
+  }, [onSizeChange, size])
+
+  return (
+    <div
+      ref={ref}
+      className="relative z-10 shrink-0"
+      style={{
+        maxWidth: `${settings.textMaxWidth}%`,
+        textAlign: settings.textAlign,
+        fontFamily: getFontStack(settings.textFont),
+      }}
+    >
+      {headline ? (
+        <h2
+          className="whitespace-pre-line break-words"
+          style={{
+            fontSize: `${settings.headlineSize}px`,
+            fontWeight: settings.headlineWeight,
+            color: settings.headlineColor,
+            lineHeight: 1.1,
+            letterSpacing: '-0.02em',
+          }}
+        >
+          {headline}
+        </h2>
+      ) : null}
+      {caption ? (
+        <p
+          className="whitespace-pre-line break-words"
+          style={{
+            marginTop: headline ? `${Math.round(settings.captionSize * 0.6)}px` : undefined,
+            fontSize: `${settings.captionSize}px`,
+            fontWeight: settings.captionWeight,
+            color: settings.captionColor,
+            lineHeight: 1.4,
+          }}
+        >
+          {caption}
+        </p>
+      ) : null}
+    </div>
+  )
+}
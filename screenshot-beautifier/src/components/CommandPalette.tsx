@@ -0,0 +1,107 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import clsx from 'clsx'
+import { searchCommands } from '../lib/commandPalette'
+import type { PaletteCommand } from '../lib/commandPalette'
+import { matchesCombo } from '../lib/shortcuts'
+import { Keys } from './ShortcutHelp'
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[]
+  onClose: () => void
+}
+
+export const CommandPalette = ({ commands, onClose }: CommandPaletteProps) => {
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listRef = useRef<HTMLUListElement | null>(null)
+  const results = useMemo(() => searchCommands(commands, query), [commands, query])
+  const active = Math.min(activeIndex, results.length - 1)
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' })
+  }, [active])
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return
+    onClose()
+    command.run()
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-slate-950/70 px-4 pt-[12vh] backdrop-blur-sm"
+      onPointerDown={(event) => {
+        if (event.target === event.currentTarget) onClose()
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-xl overflow-hidden rounded-3xl border border-white/10 bg-slate-900/95 shadow-[0_24px_60px_-20px_rgba(15,23,42,0.9)]"
+      >
+        <input
+          autoFocus
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={results[active] ? `command-${results[active].id}` : undefined}
+          value={query}
+          placeholder="Search settings, presets, and actions…"
+          onChange={(event) => {
+            setQuery(event.target.value)
+            setActiveIndex(0)
+          }}
+          onKeyDown={(event) => {
+            const native = event.nativeEvent
+            if (event.key === 'Escape' || matchesCombo(native, 'mod+k')) {
+              event.preventDefault()
+              onClose()
+            } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+              event.preventDefault()
+              const step = event.key === 'ArrowDown' ? 1 : -1
+              setActiveIndex((active + step + results.length) % Math.max(results.length, 1))
+            } else if (event.key === 'Enter') {
+              event.preventDefault()
+              run(results[active])
+            }
+          }}
+          className="w-full border-0 border-b border-white/10 bg-transparent px-5 py-4 text-base text-white placeholder:text-slate-500 focus:border-white/10 focus:ring-0"
+        />
+        <ul id="command-palette-results" ref={listRef} role="listbox" className="max-h-[50vh] overflow-y-auto p-2">
+          {results.length === 0 ? (
+            <li className="px-3 py-6 text-center text-sm text-slate-400">Nothing matches “{query}”.</li>
+          ) : (
+            results.map((command, index) => (
+              <li
+                key={command.id}
+                id={`command-${command.id}`}
+                data-index={index}
+                role="option"
+                aria-selected={index === active}
+                onPointerMove={() => setActiveIndex(index)}
+                onClick={() => run(command)}
+                className={clsx(
+                  'flex cursor-pointer items-center justify-between gap-3 rounded-xl px-3 py-2.5 text-sm',
+                  index === active ? 'bg-primary-400/15 text-white' : 'text-slate-300',
+                )}
+              >
+                <span className="min-w-0 truncate">
+                  {command.label}
+                  {command.detail ? <span className="ml-2 text-xs text-slate-500">{command.detail}</span> : null}
+                </span>
+                <span className="flex shrink-0 items-center gap-2">
+                  {command.keys ? <Keys keys={command.keys} /> : null}
+                  <span className="text-[10px] font-semibold uppercase tracking-[0.2em] text-slate-500">
+                    {command.group}
+                  </span>
+                </span>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  )
+}
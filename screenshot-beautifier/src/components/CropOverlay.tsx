@@ -0,0 +1,102 @@
+import { useRef } from 'react'
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import clsx from 'clsx'
+import { dragCrop } from '../lib/placement'
+import type { CropHandle, CropRect } from '../lib/placement'
+import type { Size } from '../lib/canvasSize'
+
+interface CropOverlayProps {
+  image: Size
+  crop: CropRect
+  /** Locked width ÷ height in pixels, or null for a free crop. */
+  ratio: number | null
+  onChange: (crop: CropRect) => void
+}
+
+interface CropGesture {
+  handle: CropHandle
+  start: CropRect
+  origin: { x: number; y: number }
+  bounds: DOMRect
+}
+
+const cornerHandles: { handle: CropHandle; className: string }[] = [
+  // Inset inside the corners so they stay grabbable when the crop touches the image edge.
+  { handle: 'top-left', className: 'left-0 top-0 cursor-nwse-resize' },
+  { handle: 'top-right', className: 'right-0 top-0 cursor-nesw-resize' },
+  { handle: 'bottom-left', className: 'bottom-0 left-0 cursor-nesw-resize' },
+  { handle: 'bottom-right', className: 'bottom-0 right-0 cursor-nwse-resize' },
+]
+
+/** Drag-to-crop handles drawn over the uncropped screenshot while the crop tool is open. */
+export const CropOverlay = ({ image, crop, ratio, onChange }: CropOverlayProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const gestureRef = useRef<CropGesture | null>(null)
+
+  const handlePointerDown = (event: ReactPointerEvent<HTMLElement>, handle: CropHandle) => {
+    if (event.button !== 0 || !containerRef.current) return
+    event.preventDefault()
+    event.stopPropagation()
+    gestureRef.current = {
+      handle,
+      start: crop,
+      origin: { x: event.clientX, y: event.clientY },
+      // Measured on screen, so the preview's CSS scale cancels out of the drag deltas.
+      bounds: containerRef.current.getBoundingClientRect(),
+    }
+    containerRef.current.setPointerCapture(event.pointerId)
+  }
+
+  const handlePointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current
+    if (!gesture) return
+    const dx = (event.clientX - gesture.origin.x) / gesture.bounds.width
+    const dy = (event.clientY - gesture.origin.y) / gesture.bounds.height
+    onChange(dragCrop(gesture.start, gesture.handle, dx, dy, ratio, image))
+  }
+
+  const handlePointerUp = (event: ReactPointerEvent<HTMLDivElement>) => {
+    gestureRef.current = null
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-0 touch-none overflow-hidden"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <div
+        className="absolute cursor-move border-2 border-white shadow-[0_0_0_9999px_rgba(2,6,23,0.65)]"
+        style={{
+          left: `${crop.x * 100}%`,
+          top: `${crop.y * 100}%`,
+          width: `${crop.width * 100}%`,
+          height: `${crop.height * 100}%`,
+        }}
+        onPointerDown={(event) => handlePointerDown(event, 'move')}
+      >
+        {/* Rule-of-thirds guides. */}
+        <span className="pointer-events-none absolute inset-y-0 left-1/3 w-px bg-white/40" />
+        <span className="pointer-events-none absolute inset-y-0 left-2/3 w-px bg-white/40" />
+        <span className="pointer-events-none absolute inset-x-0 top-1/3 h-px bg-white/40" />
+        <span className="pointer-events-none absolute inset-x-0 top-2/3 h-px bg-white/40" />
+        {cornerHandles.map(({ handle, className }) => (
+          <span
+            key={handle}
+            className={clsx(
+              'absolute h-4 w-4 rounded-sm border-2 border-primary-400 bg-white',
+              className,
+            )}
+            onPointerDown={(event) => handlePointerDown(event, handle)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
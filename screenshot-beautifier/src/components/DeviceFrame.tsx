@@ -0,0 +1,328 @@
+import clsx from 'clsx'
+import type { ReactNode } from 'react'
+import { isFrameDark } from '../lib/frames'
+import type { Settings } from '../settings'
+
+interface DeviceFrameProps {
+  settings: Settings
+  /** Text shown in title bars and the active browser tab. */
+  title: string
+  children: ReactNode
+}
+
+interface FrameRendererProps {
+  settings: Settings
+  title: string
+  dark: boolean
+  children: ReactNode
+}
+
+const TrafficLights = () => (
+  <div className="flex items-center gap-2">
+    {['#ff5f56', '#ffbd2e', '#27c93f'].map((color) => (
+      <span
+        key={color}
+        className="h-3.5 w-3.5 rounded-full border border-white/20"
+        style={{ backgroundColor: color }}
+      />
+    ))}
+  </div>
+)
+
+const MacWindow = ({ settings, title, dark, children }: FrameRendererProps) => (
+  <div
+    className={clsx(
+      'relative overflow-hidden border pt-14',
+      dark ? 'border-white/10 bg-slate-950/75' : 'border-black/10 bg-white/90',
+    )}
+    style={{ borderRadius: `${settings.borderRadius}px` }}
+  >
+    <div
+      className={clsx(
+        'absolute inset-x-0 top-0 flex h-12 items-center justify-between border-b px-6 backdrop-blur-xl',
+        dark ? 'border-white/10 bg-white/10' : 'border-black/10 bg-slate-100/90',
+      )}
+    >
+      <TrafficLights />
+      <span className={clsx('text-sm font-medium', dark ? 'text-slate-200' : 'text-slate-600')}>
+        {title}
+      </span>
+      <div className="flex items-center gap-1.5">
+        <span className="h-2 w-8 rounded-full" style={{ backgroundColor: settings.windowAccent }} />
+        <span
+          className="h-2 w-2 rounded-full"
+          style={{ backgroundColor: settings.windowAccent, opacity: 0.75 }}
+        />
+      </div>
+    </div>
+    <div
+      className={clsx(
+        'relative flex w-full items-center justify-center',
+        dark ? 'bg-slate-950/40' : 'bg-white/60',
+      )}
+    >
+      {children}
+    </div>
+  </div>
+)
+
+const WindowsWindow = ({ settings, title, dark, children }: FrameRendererProps) => (
+  <div
+    className={clsx(
+      'relative overflow-hidden border pt-10',
+      dark ? 'border-white/10 bg-[#202020]' : 'border-black/10 bg-[#f3f3f3]',
+    )}
+    style={{ borderRadius: `${settings.borderRadius}px` }}
+  >
+    <div
+      className={clsx(
+        'absolute inset-x-0 top-0 flex h-10 items-center justify-between pl-4 text-xs',
+        dark ? 'text-[#f3f3f3]' : 'text-[#1f1f1f]',
+      )}
+    >
+      <div className="flex items-center gap-3">
+        <span className="grid h-4 w-4 grid-cols-2 gap-px" aria-hidden="true">
+          {['#f25022', '#7fba00', '#00a4ef', '#ffb900'].map((color) => (
+            <span key={color} style={{ backgroundColor: color }} />
+          ))}
+        </span>
+        <span className="font-medium">{title}</span>
+      </div>
+      <div className="flex h-full items-stretch" aria-hidden="true">
+        {['—', '▢', '✕'].map((glyph) => (
+          <span key={glyph} className="flex w-11 items-center justify-center text-[11px] opacity-80">
+            {glyph}
+          </span>
+        ))}
+      </div>
+    </div>
+    <div
+      className={clsx(
+        'relative flex w-full items-center justify-center',
+        dark ? 'bg-[#191919]' : 'bg-white',
+      )}
+    >
+      {children}
+    </div>
+  </div>
+)
+
+const BrowserWindow = ({ settings, title, dark, children }: FrameRendererProps) => {
+  const tabs = [title, ...Array.from({ length: settings.browserTabCount - 1 }, () => 'New Tab')]
+  return (
+    <div
+      className={clsx(
+        'relative overflow-hidden border pt-[84px]',
+        dark ? 'border-white/10 bg-[#202124]' : 'border-black/10 bg-[#dee1e6]',
+      )}
+      style={{ borderRadius: `${settings.borderRadius}px` }}
+    >
+      <div className="absolute inset-x-0 top-0 flex h-10 items-end gap-4 px-4">
+        <div className="flex h-full items-center">
+          <TrafficLights />
+        </div>
+        <div className="flex min-w-0 flex-1 items-end gap-1">
+          {tabs.map((tab, index) => (
+            <span
+              key={index}
+              className={clsx(
+                'flex h-8 min-w-0 max-w-[200px] flex-1 items-center gap-2 rounded-t-lg px-3 text-xs',
+                index === 0
+                  ? dark
+                    ? 'bg-[#35363a] text-[#e8eaed]'
+                    : 'bg-white text-slate-800'
+                  : dark
+                    ? 'text-[#9aa0a6]'
+                    : 'text-slate-500',
+              )}
+            >
+              <span
+                className="h-3 w-3 shrink-0 rounded-full"
+                style={{
+                  backgroundColor: index === 0 ? settings.windowAccent : 'currentColor',
+                  opacity: index === 0 ? 1 : 0.4,
+                }}
+              />
+              <span className="truncate">{tab}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+      <div
+        className={clsx(
+          'absolute inset-x-0 top-10 flex h-11 items-center gap-3 px-4 text-sm',
+          dark ? 'bg-[#35363a] text-[#9aa0a6]' : 'bg-white text-slate-500',
+        )}
+      >
+        <span aria-hidden="true">←</span>
+        <span aria-hidden="true">→</span>
+        <span aria-hidden="true">↻</span>
+        <span
+          className={clsx(
+            'flex h-7 min-w-0 flex-1 items-center gap-2 rounded-full px-3 text-xs',
+            dark ? 'bg-[#202124] text-[#e8eaed]' : 'bg-[#f1f3f4] text-slate-700',
+          )}
+        >
+          <svg viewBox="0 0 16 16" className="h-3 w-3 shrink-0 fill-current opacity-70" aria-hidden="true">
+            <path d="M4 7V5a4 4 0 1 1 8 0v2h1v8H3V7h1Zm2 0h4V5a2 2 0 1 0-4 0v2Z" />
+          </svg>
+          <span className="truncate">{settings.browserUrl}</span>
+        </span>
+      </div>
+      <div
+        className={clsx(
+          'relative flex w-full items-center justify-center',
+          dark ? 'bg-[#202124]' : 'bg-white',
+        )}
+      >
+        {children}
+      </div>
+    </div>
+  )
+}
+
+const PlainFrame = ({ settings, children }: FrameRendererProps) => (
+  <div
+    className="relative overflow-hidden border border-white/10 bg-slate-950/75"
+    style={{ borderRadius: `${settings.borderRadius}px` }}
+  >
+    <div className="relative flex w-full items-center justify-center bg-slate-950/40">{children}</div>
+  </div>
+)
+
+const SideButtons = ({ dark }: { dark: boolean }) => (
+  <>
+    <span
+      className={clsx(
+        'absolute -left-[6px] top-[18%] h-[8%] w-[4px] rounded-l',
+        dark ? 'bg-zinc-700' : 'bg-zinc-300',
+      )}
+      aria-hidden="true"
+    />
+    <span
+      className={clsx(
+        'absolute -right-[6px] top-[24%] h-[12%] w-[4px] rounded-r',
+        dark ? 'bg-zinc-700' : 'bg-zinc-300',
+      )}
+      aria-hidden="true"
+    />
+  </>
+)
+
+const PhoneFrame = ({ settings, dark, children }: FrameRendererProps) => (
+  <div
+    className={clsx(
+      'relative rounded-[54px] border-[3px] bg-black p-[11px]',
+      dark ? 'border-zinc-700' : 'border-zinc-300',
+    )}
+  >
+    <SideButtons dark={dark} />
+    <div className="relative overflow-hidden rounded-[40px] bg-black">
+      {children}
+      {settings.deviceNotch ? (
+        <span
+          className="pointer-events-none absolute left-1/2 top-[1.5%] aspect-[3.4/1] w-[30%] max-w-[126px] -translate-x-1/2 rounded-full bg-black"
+          aria-hidden="true"
+        />
+      ) : null}
+    </div>
+  </div>
+)
+
+const AndroidFrame = ({ settings, dark, children }: FrameRendererProps) => (
+  <div
+    className={clsx(
+      'relative rounded-[36px] border-[2px] bg-black p-[8px]',
+      dark ? 'border-zinc-700' : 'border-zinc-300',
+    )}
+  >
+    <SideButtons dark={dark} />
+    <div className="relative overflow-hidden rounded-[28px] bg-black">
+      {children}
+      {settings.deviceNotch ? (
+        <span
+          className="pointer-events-none absolute left-1/2 top-[1.6%] aspect-square w-[4%] max-w-[18px] -translate-x-1/2 rounded-full bg-black ring-1 ring-white/10"
+          aria-hidden="true"
+        />
+      ) : null}
+    </div>
+  </div>
+)
+
+const TabletFrame = ({ dark, children }: FrameRendererProps) => (
+  <div
+    className={clsx(
+      'relative rounded-[36px] border-[2px] p-[20px]',
+      dark ? 'border-zinc-700 bg-[#0a0a0a]' : 'border-zinc-300 bg-zinc-100',
+    )}
+  >
+    <span
+      className={clsx(
+        'absolute left-1/2 top-[8px] h-1.5 w-1.5 -translate-x-1/2 rounded-full',
+        dark ? 'bg-zinc-800' : 'bg-zinc-300',
+      )}
+      aria-hidden="true"
+    />
+    <div className="relative overflow-hidden rounded-[16px] bg-black">{children}</div>
+  </div>
+)
+
+const LaptopFrame = ({ settings, dark, children }: FrameRendererProps) => (
+  <div className="relative flex flex-col items-center px-[56px]">
+    <div
+      className={clsx(
+        'relative rounded-t-[18px] border-[2px] bg-black px-[16px] pb-[16px] pt-[24px]',
+        dark ? 'border-zinc-700' : 'border-zinc-300',
+      )}
+    >
+      {settings.deviceNotch ? (
+        <span
+          className="absolute left-1/2 top-[9px] h-1.5 w-1.5 -translate-x-1/2 rounded-full bg-zinc-800 ring-1 ring-zinc-700"
+          aria-hidden="true"
+        />
+      ) : null}
+      <div className="relative overflow-hidden rounded-[4px] bg-black">{children}</div>
+    </div>
+    <div
+      className={clsx(
+        '-mx-[56px] h-[22px] self-stretch rounded-b-[20px] rounded-t-[4px]',
+        dark
+          ? 'bg-gradient-to-b from-zinc-600 to-zinc-900'
+          : 'bg-gradient-to-b from-zinc-200 to-zinc-400',
+      )}
+    >
+      <span
+        className={clsx(
+          'mx-auto block h-[6px] w-[16%] rounded-b-lg',
+          dark ? 'bg-zinc-900/70' : 'bg-zinc-400/70',
+        )}
+        aria-hidden="true"
+      />
+    </div>
+  </div>
+)
+
+export const DeviceFrame = ({ settings, title, children }: DeviceFrameProps) => {
+  const dark = isFrameDark(settings.frameType, settings.frameAppearance)
+  const props = { settings, title, dark, children }
+
+  switch (settings.frameType) {
+    case 'macos-light':
+    case 'macos-dark':
+      return <MacWindow {...props} />
+    case 'windows-11':
+      return <WindowsWindow {...props} />
+    case 'browser':
+      return <BrowserWindow {...props} />
+    case 'iphone':
+      return <PhoneFrame {...props} />
+    case 'android':
+      return <AndroidFrame {...props} />
+    case 'ipad':
+      return <TabletFrame {...props} />
+    case 'laptop':
+      return <LaptopFrame {...props} />
+    default:
+      return <PlainFrame {...props} />
+  }
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react'
+import type { CSSProperties } from 'react'
+import clsx from 'clsx'
+import { useElementSize } from '../hooks/useElementSize'
+import { getEffectDefinition } from '../lib/effects'
+import type { EffectLayer, EffectTarget } from '../lib/effects'
+import { createDocumentSurface } from '../lib/renderSurface'
+
+interface EffectLayersProps {
+  effects: EffectLayer[]
+  target: EffectTarget
+  className?: string
+  style?: CSSProperties
+}
+
+interface EffectCanvasProps {
+  effect: EffectLayer
+  className?: string
+  style?: CSSProperties
+}
+
+/**
+ * One effect on its own canvas, painted by the exporter's painter. The canvas's CSS blend
+ * mode stands in for the composite operation the renderer paints the effect with.
+ */
+const EffectCanvas = ({ effect, className, style }: EffectCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const size = useElementSize(canvasRef)
+  const definition = getEffectDefinition(effect.type)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * ratio)
+    canvas.height = Math.round(size.height * ratio)
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, size.width, size.height)
+    context.save()
+    definition.paint(
+      { context, scale: ratio, createSurface: createDocumentSurface },
+      { x: 0, y: 0, ...size },
+      effect.params,
+    )
+    context.restore()
+  }, [definition, effect.params, size])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={clsx('pointer-events-none absolute inset-0 h-full w-full', className)}
+      style={{ ...style, mixBlendMode: definition.blend }}
+      aria-hidden="true"
+    />
+  )
+}
+
+/** The enabled effects painting on `target`, stacked in the preview in their paint order. */
+export const EffectLayers = ({ effects, target, className, style }: EffectLayersProps) => (
+  <>
+    {effects.map((effect, index) =>
+      effect.enabled && getEffectDefinition(effect.type).target === target ? (
+        <EffectCanvas key={`${index}-${effect.type}`} effect={effect} className={className} style={style} />
+      ) : null,
+    )}
+  </>
+)
@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import clsx from 'clsx'
+import { ColorControl, SectionCard, SliderControl, ToggleControl } from './controls'
+import { EFFECTS_MAX, effectDefinitions, effectTargetLabels, getEffectDefinition, insertEffect } from '../lib/effects'
+import type { EffectLayer, EffectParam, EffectType, EffectValue } from '../lib/effects'
+import type { Settings } from '../settings'
+
+interface EffectsPanelProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+}
+
+const iconButtonClassName =
+  'flex h-7 w-7 items-center justify-center rounded-lg border border-white/10 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-30 disabled:hover:border-white/10'
+
+interface EffectParamControlProps {
+  param: EffectParam
+  value: EffectValue
+  onChange: (value: EffectValue) => void
+}
+
+/** The control each kind of parameter is edited with. */
+const EffectParamControl = ({ param, value, onChange }: EffectParamControlProps) => {
+  if (param.kind === 'slider') {
+    return (
+      <SliderControl
+        label={param.label}
+        value={typeof value === 'number' ? value : param.default}
+        min={param.min}
+        max={param.max}
+        step={param.step}
+        onChange={onChange}
+        helper={param.helper}
+        suffix={param.suffix}
+      />
+    )
+  }
+  if (param.kind === 'color') {
+    return (
+      <ColorControl
+        label={param.label}
+        value={typeof value === 'string' ? value : param.default}
+        onChange={onChange}
+        helper={param.helper}
+      />
+    )
+  }
+  return (
+    <ToggleControl
+      label={param.label}
+      description={param.description}
+      checked={typeof value === 'boolean' ? value : param.default}
+      onChange={onChange}
+    />
+  )
+}
+
+export const EffectsPanel = ({ settings, onChange }: EffectsPanelProps) => {
+  const { effects } = settings
+  const [isPicking, setIsPicking] = useState(false)
+  const isFull = effects.length >= EFFECTS_MAX
+
+  const updateEffect = (index: number, patch: Partial<EffectLayer>, coalesceKey?: string) => {
+    onChange(
+      { effects: effects.map((effect, current) => (current === index ? { ...effect, ...patch } : effect)) },
+      coalesceKey,
+    )
+  }
+
+  const updateParam = (index: number, id: string, value: EffectValue) => {
+    updateEffect(index, { params: { ...effects[index].params, [id]: value } }, `effect-${id}-${index}`)
+  }
+
+  const move = (index: number, step: -1 | 1) => {
+    const target = index + step
+    if (target < 0 || target >= effects.length) return
+    const next = [...effects]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange({ effects: next })
+  }
+
+  const add = (type: EffectType) => {
+    onChange({ effects: insertEffect(effects, type) })
+    setIsPicking(false)
+  }
+
+  return (
+    <SectionCard
+      title="Effects"
+      description="Finish the canvas with grain, light, and texture."
+      action={
+        <button
+          type="button"
+          onClick={() => setIsPicking((open) => !open)}
+          disabled={isFull}
+          className="text-xs font-semibold text-primary-200 transition hover:text-primary-100 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          {isPicking ? 'Close' : 'Add effect'}
+        </button>
+      }
+    >
+      {isPicking && !isFull ? (
+        <div className="grid grid-cols-2 gap-3">
+          {effectDefinitions.map((definition) => (
+            <button
+              key={definition.type}
+              type="button"
+              data-palette-label={definition.label}
+              onClick={() => add(definition.type)}
+              className="rounded-2xl border border-white/10 bg-white/5 p-4 text-left text-slate-300 transition hover:border-white/20 hover:bg-white/10 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400"
+            >
+              <span className="block text-sm font-semibold">{definition.label}</span>
+              <span className="mt-1 block text-xs text-slate-400">{definition.description}</span>
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {effects.map((effect, index) => {
+        const definition = getEffectDefinition(effect.type)
+        return (
+          <div
+            key={index}
+            className={clsx(
+              'space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl',
+              !effect.enabled && 'opacity-60',
+            )}
+          >
+            <div className="flex items-center gap-2 text-sm font-medium text-slate-200">
+              <span className="min-w-0 flex-1 truncate">{definition.label}</span>
+              <span className="rounded-full border border-white/10 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.15em] text-white/50">
+                {effectTargetLabels[definition.target]}
+              </span>
+              <button
+                type="button"
+                onClick={() => updateEffect(index, { enabled: !effect.enabled })}
+                className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-400 transition hover:bg-white/10 hover:text-white"
+              >
+                {effect.enabled ? 'Hide' : 'Show'}
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${definition.label} down the stack`}
+                title="Paint earlier"
+                className={iconButtonClassName}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === effects.length - 1}
+                aria-label={`Move ${definition.label} up the stack`}
+                title="Paint later"
+                className={iconButtonClassName}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange({ effects: effects.filter((_, current) => current !== index) })}
+                aria-label={`Remove ${definition.label}`}
+                className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-400 transition hover:bg-white/10 hover:text-white"
+              >
+                ✕
+              </button>
+            </div>
+            {effect.enabled
+              ? definition.params.map((param) => (
+                  <EffectParamControl
+                    key={param.id}
+                    param={param}
+                    value={effect.params[param.id]}
+                    onChange={(value) => updateParam(index, param.id, value)}
+                  />
+                ))
+              : null}
+          </div>
+        )
+      })}
+
+      {effects.length === 0 ? (
+        <p className="text-xs text-slate-400">No effects. Add one to texture or light the canvas.</p>
+      ) : (
+        <p className="text-xs text-slate-400">
+          Backdrop effects paint behind the frame, frame effects on its glass, and overlays over
+          everything but the watermark. Lower effects in the list paint over higher ones on the same layer.
+        </p>
+      )}
+    </SectionCard>
+  )
+}
@@ -0,0 +1,98 @@
+import type { ReactNode } from 'react'
+import {
+  ColorControl,
+  SectionCard,
+  SegmentedControl,
+  SliderControl,
+  TextControl,
+  ToggleControl,
+} from './controls'
+import { BROWSER_TAB_COUNT_MAX, frameAppearanceOptions, frameDefinitions, getFrameDefinition } from '../lib/frames'
+import type { Settings } from '../settings'
+
+interface FramePanelProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+  /** Shown in an empty title field: the name the frame falls back to. */
+  titlePlaceholder: string
+  action?: ReactNode
+  /** Extra controls after the frame's own. */
+  children?: ReactNode
+}
+
+export const FramePanel = ({ settings, onChange, titlePlaceholder, action, children }: FramePanelProps) => {
+  const frame = getFrameDefinition(settings.frameType)
+
+  return (
+    <SectionCard title="Screenshot" description="Pick a window or device frame for your capture." action={action}>
+      <SegmentedControl
+        options={frameDefinitions}
+        value={settings.frameType}
+        onChange={(frameType) => onChange({ frameType }, 'frameType')}
+      />
+      {frame.options.title ? (
+        <TextControl
+          label={settings.frameType === 'browser' ? 'Tab title' : 'Window title'}
+          value={settings.frameTitle}
+          placeholder={titlePlaceholder}
+          maxLength={80}
+          onChange={(value) => onChange({ frameTitle: value }, 'frameTitle')}
+          helper="Leave empty to use the file name."
+        />
+      ) : null}
+      {frame.options.url ? (
+        <TextControl
+          label="Address bar"
+          value={settings.browserUrl}
+          placeholder="https://example.com"
+          maxLength={200}
+          onChange={(value) => onChange({ browserUrl: value }, 'browserUrl')}
+        />
+      ) : null}
+      {frame.options.tabs ? (
+        <SliderControl
+          label="Tabs"
+          value={settings.browserTabCount}
+          min={1}
+          max={BROWSER_TAB_COUNT_MAX}
+          onChange={(value) => onChange({ browserTabCount: value }, 'browserTabCount')}
+          helper="Extra background tabs make the browser feel lived-in."
+        />
+      ) : null}
+      {frame.options.appearance ? (
+        <SegmentedControl
+          options={frameAppearanceOptions}
+          value={settings.frameAppearance}
+          onChange={(appearance) => onChange({ frameAppearance: appearance }, 'frameAppearance')}
+        />
+      ) : null}
+      {frame.options.notch ? (
+        <ToggleControl
+          label={settings.frameType === 'laptop' ? 'Webcam' : 'Camera cutout'}
+          description={
+            settings.frameType === 'iphone'
+              ? 'Shows the Dynamic Island over the top of the screen.'
+              : settings.frameType === 'android'
+                ? 'Shows a punch-hole camera over the status bar.'
+                : 'Shows the camera dot in the display bezel.'
+          }
+          checked={settings.deviceNotch}
+          onChange={(next) => onChange({ deviceNotch: next }, 'deviceNotch')}
+        />
+      ) : null}
+      {frame.options.accent ? (
+        <ColorControl
+          label="Accent"
+          helper={
+            settings.frameType === 'browser'
+              ? 'Colors the active tab icon.'
+              : 'Adjusts the right-side chrome indicator.'
+          }
+          value={settings.windowAccent}
+          onChange={(color) => onChange({ windowAccent: color }, 'windowAccent')}
+        />
+      ) : null}
+      {children}
+    </SectionCard>
+  )
+}
@@ -0,0 +1,149 @@
+import { ChipGroup, SliderControl } from './controls'
+import {
+  GRADIENT_STOPS_MAX,
+  GRADIENT_STOPS_MIN,
+  getGradientStripBackground,
+  gradientKindOptions,
+  insertGradientStop,
+} from '../lib/backgrounds'
+import type { GradientStop } from '../lib/backgrounds'
+import type { Settings } from '../settings'
+
+interface GradientEditorProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+}
+
+export const GradientEditor = ({ settings, onChange }: GradientEditorProps) => {
+  const { gradientType, gradientStops } = settings
+  const isMesh = gradientType === 'mesh'
+  const hasCenter = gradientType === 'radial' || gradientType === 'conic'
+
+  const updateStop = (index: number, patch: Partial<GradientStop>, coalesceKey: string) => {
+    const stops = gradientStops.map((stop, current) => (current === index ? { ...stop, ...patch } : stop))
+    onChange({ gradientStops: stops }, `${coalesceKey}-${index}`)
+  }
+
+  return (
+    <>
+      <ChipGroup
+        label="Gradient style"
+        options={gradientKindOptions}
+        value={gradientType}
+        onChange={(kind) => onChange({ gradientType: kind })}
+      />
+
+      <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
+        <div className="flex items-center justify-between gap-3 text-sm font-medium text-slate-200">
+          <span>Color stops</span>
+          <button
+            type="button"
+            onClick={() => onChange({ gradientStops: insertGradientStop(gradientStops) })}
+            disabled={gradientStops.length >= GRADIENT_STOPS_MAX}
+            className="text-xs font-semibold text-primary-200 transition hover:text-primary-100 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Add stop
+          </button>
+        </div>
+        <div
+          className="relative h-8 rounded-xl border border-white/10"
+          style={{ background: getGradientStripBackground(gradientStops) }}
+          aria-hidden="true"
+        >
+          {isMesh
+            ? null
+            : gradientStops.map((stop, index) => (
+                <span
+                  key={index}
+                  className="absolute top-1/2 h-5 w-5 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow"
+                  style={{ left: `${stop.position}%`, backgroundColor: stop.color }}
+                />
+              ))}
+        </div>
+        <ul className="space-y-2">
+          {gradientStops.map((stop, index) => (
+            <li key={index} className="flex items-center gap-3">
+              <input
+                type="color"
+                value={stop.color}
+                aria-label={`Stop ${index + 1} color`}
+                onChange={(event) => updateStop(index, { color: event.target.value }, 'gradientStopColor')}
+                className="h-8 w-10 shrink-0 cursor-pointer rounded-md border border-white/20 bg-transparent p-0"
+              />
+              {isMesh ? (
+                <span className="flex-1 text-xs text-slate-400">{stop.color}</span>
+              ) : (
+                <>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={stop.position}
+                    aria-label={`Stop ${index + 1} position`}
+                    onChange={(event) =>
+                      updateStop(index, { position: Number(event.target.value) }, 'gradientStopPosition')
+                    }
+                    className="h-2 flex-1 cursor-pointer appearance-none rounded-full bg-slate-600 accent-primary-400"
+                  />
+                  <span className="w-9 text-right text-xs font-semibold text-slate-400">{stop.position}%</span>
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() =>
+                  onChange({ gradientStops: gradientStops.filter((_, current) => current !== index) })
+                }
+                disabled={gradientStops.length <= GRADIENT_STOPS_MIN}
+                aria-label={`Remove stop ${index + 1}`}
+                className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-400 transition hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-30 disabled:hover:bg-transparent"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+        {isMesh ? (
+          <p className="text-xs text-slate-400">
+            Mesh spreads each color around the canvas and blends them over the first one.
+          </p>
+        ) : null}
+      </div>
+
+      {gradientType === 'radial' ? null : (
+        <SliderControl
+          label="Angle"
+          value={settings.gradientAngle}
+          min={0}
+          max={360}
+          onChange={(value) => onChange({ gradientAngle: value }, 'gradientAngle')}
+          helper={
+            isMesh
+              ? 'Rotates where each color blooms.'
+              : 'Rotates the gradient flow to match your layout.'
+          }
+          suffix="°"
+        />
+      )}
+      {hasCenter ? (
+        <div className="grid grid-cols-2 gap-3">
+          <SliderControl
+            label="Center X"
+            value={settings.gradientCenterX}
+            min={0}
+            max={100}
+            onChange={(value) => onChange({ gradientCenterX: value }, 'gradientCenterX')}
+            suffix="%"
+          />
+          <SliderControl
+            label="Center Y"
+            value={settings.gradientCenterY}
+            min={0}
+            max={100}
+            onChange={(value) => onChange({ gradientCenterY: value }, 'gradientCenterY')}
+            suffix="%"
+          />
+        </div>
+      ) : null}
+    </>
+  )
+}
@@ -0,0 +1,96 @@
+import clsx from 'clsx'
+import { ToggleControl } from './controls'
+import type { QueuedImage } from '../lib/images'
+
+interface ImageQueueProps {
+  images: QueuedImage[]
+  activeId: string | null
+  disabled?: boolean
+  onSelect: (id: string) => void
+  onRemove: (id: string) => void
+  onAdd: () => void
+  onToggleOverride: (enabled: boolean) => void
+}
+
+export const ImageQueue = ({
+  images,
+  activeId,
+  disabled = false,
+  onSelect,
+  onRemove,
+  onAdd,
+  onToggleOverride,
+}: ImageQueueProps) => {
+  const activeImage = images.find((image) => image.id === activeId) ?? null
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-white/10 bg-slate-900/60 p-5 backdrop-blur-xl">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <h2 className="text-sm font-semibold text-white">
+            Queue <span className="text-slate-400">· {images.length}</span>
+          </h2>
+          <p className="text-xs text-slate-400">
+            Every image shares your styling unless you give it a custom style.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onAdd}
+          disabled={disabled}
+          className="shrink-0 text-xs font-semibold text-primary-200 transition hover:text-primary-100 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Add images
+        </button>
+      </div>
+
+      <ul className="flex gap-3 overflow-x-auto pb-1">
+        {images.map((image, index) => (
+          <li key={image.id} className="group relative shrink-0">
+            <button
+              type="button"
+              onClick={() => onSelect(image.id)}
+              disabled={disabled}
+              title={image.name}
+              className={clsx(
+                'block h-16 w-24 overflow-hidden rounded-xl border bg-slate-950/60 transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400',
+                image.id === activeId
+                  ? 'border-primary-400/80 ring-2 ring-primary-400/40'
+                  : 'border-white/10 opacity-70 hover:border-white/30 hover:opacity-100',
+              )}
+            >
+              <img src={image.dataUrl} alt={`${index + 1}. ${image.name}`} className="h-full w-full object-cover" />
+            </button>
+            {image.overrides ? (
+              <span className="pointer-events-none absolute bottom-1 left-1 rounded-full bg-slate-950/80 px-1.5 text-[10px] font-semibold uppercase tracking-wider text-primary-200">
+                Custom
+              </span>
+            ) : null}
+            <button
+              type="button"
+              onClick={() => onRemove(image.id)}
+              disabled={disabled}
+              aria-label={`Remove ${image.name}`}
+              className="absolute -right-1.5 -top-1.5 hidden h-5 w-5 items-center justify-center rounded-full border border-white/20 bg-slate-900 text-xs text-white/80 transition hover:text-white group-hover:flex group-focus-within:flex"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {activeImage ? (
+        <ToggleControl
+          label="Custom style for this image"
+          description={
+            activeImage.overrides
+              ? 'Edits only change this image. Turn off to follow the shared style again.'
+              : 'Edits currently apply to every image in the queue.'
+          }
+          checked={activeImage.overrides !== null}
+          onChange={onToggleOverride}
+        />
+      ) : null}
+    </div>
+  )
+}
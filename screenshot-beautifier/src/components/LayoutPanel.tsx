@@ -0,0 +1,30 @@
+import { SectionCard, SliderControl } from './controls'
+import type { Settings } from '../settings'
+
+interface LayoutPanelProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+}
+
+export const LayoutPanel = ({ settings, onChange }: LayoutPanelProps) => (
+  <SectionCard title="Layout" description="Tweak spacing and corners.">
+    <SliderControl
+      label="Padding"
+      value={settings.padding}
+      min={36}
+      max={140}
+      onChange={(value) => onChange({ padding: value }, 'padding')}
+      helper="Space between the frame and canvas edge."
+      suffix="px"
+    />
+    <SliderControl
+      label="Corner radius"
+      value={settings.borderRadius}
+      min={0}
+      max={72}
+      onChange={(value) => onChange({ borderRadius: value }, 'borderRadius')}
+      helper="Higher values create softer, modern frames."
+      suffix="px"
+    />
+  </SectionCard>
+)
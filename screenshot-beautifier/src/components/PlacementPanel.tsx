@@ -0,0 +1,229 @@
+import clsx from 'clsx'
+import { SectionCard, SliderControl } from './controls'
+import {
+  FRAME_BLEED_MAX,
+  FULL_CROP,
+  TILT_MAX,
+  ZOOM_MAX,
+  ZOOM_MIN,
+  cropAspectOptions,
+  fitCropToAspect,
+  frameAlignOptions,
+  getCropAspectRatio,
+  getCropRect,
+  isFullCrop,
+  tiltPresets,
+  toCropSettings,
+} from '../lib/placement'
+import type { CropAspect } from '../lib/placement'
+import type { Size } from '../lib/canvasSize'
+import type { Settings } from '../settings'
+
+interface PlacementPanelProps {
+  settings: Settings
+  /** The active screenshot; crop controls are disabled until one is loaded. */
+  image: Size | null
+  isCropping: boolean
+  /** Omitted where the preview has no crop overlay, which hides the crop button. */
+  onCroppingChange?: (cropping: boolean) => void
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+}
+
+const chipClassName = (active: boolean) =>
+  clsx(
+    'rounded-xl border px-2 py-2 text-xs font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400 disabled:cursor-not-allowed disabled:opacity-40',
+    active
+      ? 'border-primary-400/75 bg-primary-400/10 text-white shadow-glow-xl'
+      : 'border-white/10 bg-white/5 text-slate-300 hover:border-white/20 hover:bg-white/10',
+  )
+
+export const PlacementPanel = ({
+  settings,
+  image,
+  isCropping,
+  onCroppingChange,
+  onChange,
+}: PlacementPanelProps) => {
+  const crop = getCropRect(settings)
+  const isTilted = settings.tiltX !== 0 || settings.tiltY !== 0 || settings.tiltZ !== 0
+
+  const selectAspect = (aspect: CropAspect) => {
+    const ratio = image ? getCropAspectRatio(aspect, image) : null
+    onChange({
+      cropAspect: aspect,
+      ...(image && ratio !== null ? toCropSettings(fitCropToAspect(crop, ratio, image)) : {}),
+    })
+  }
+
+  return (
+    <>
+      <SectionCard
+        title="Crop & zoom"
+        description="Trim to the part that matters, then zoom in on it."
+        action={
+          !isFullCrop(crop) || settings.zoom !== ZOOM_MIN ? (
+            <button
+              type="button"
+              onClick={() => {
+                onChange({ ...toCropSettings(FULL_CROP), zoom: ZOOM_MIN, panX: 0, panY: 0 })
+              }}
+              className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+            >
+              Reset
+            </button>
+          ) : null
+        }
+      >
+        {onCroppingChange ? (
+          <button
+            type="button"
+            onClick={() => onCroppingChange(!isCropping)}
+            disabled={!image}
+            className={clsx(
+              'w-full rounded-2xl border py-2.5 text-sm font-semibold transition disabled:cursor-not-allowed disabled:opacity-40',
+              isCropping
+                ? 'border-primary-300/60 bg-primary-400/20 text-white hover:bg-primary-400/30'
+                : 'border-white/10 bg-white/5 text-slate-200 hover:border-white/20 hover:bg-white/10',
+            )}
+          >
+            {isCropping ? 'Done cropping' : 'Crop screenshot'}
+          </button>
+        ) : null}
+        <div className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">Aspect lock</p>
+          <div className="grid grid-cols-3 gap-2">
+            {cropAspectOptions.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => selectAspect(option.id)}
+                disabled={!image}
+                className={chipClassName(settings.cropAspect === option.id)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <SliderControl
+          label="Zoom"
+          value={settings.zoom}
+          min={ZOOM_MIN}
+          max={ZOOM_MAX}
+          onChange={(value) => onChange({ zoom: value }, 'zoom')}
+          helper="Magnifies the crop without changing the frame's shape."
+          suffix="%"
+        />
+        {settings.zoom > ZOOM_MIN ? (
+          <>
+            <SliderControl
+              label="Pan horizontally"
+              value={settings.panX}
+              min={-100}
+              max={100}
+              onChange={(value) => onChange({ panX: value }, 'panX')}
+            />
+            <SliderControl
+              label="Pan vertically"
+              value={settings.panY}
+              min={-100}
+              max={100}
+              onChange={(value) => onChange({ panY: value }, 'panY')}
+            />
+          </>
+        ) : null}
+      </SectionCard>
+
+      <SectionCard
+        title="Position & tilt"
+        description="Anchor the frame to an edge or angle it in 3D."
+        action={
+          isTilted ? (
+            <button
+              type="button"
+              onClick={() => onChange(tiltPresets[0].tilt)}
+              className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+            >
+              Flatten
+            </button>
+          ) : null
+        }
+      >
+        <div className="flex items-start gap-4">
+          <div className="grid w-24 shrink-0 grid-cols-3 gap-1.5" role="radiogroup" aria-label="Frame alignment">
+            {frameAlignOptions.map((align) => (
+              <button
+                key={align}
+                type="button"
+                role="radio"
+                aria-checked={settings.frameAlign === align}
+                aria-label={align.replace('-', ' ')}
+                title={align.replace('-', ' ')}
+                onClick={() => onChange({ frameAlign: align })}
+                className={clsx(
+                  'aspect-square rounded-md border transition',
+                  settings.frameAlign === align
+                    ? 'border-primary-400 bg-primary-400/60'
+                    : 'border-white/10 bg-white/5 hover:border-white/30',
+                )}
+              />
+            ))}
+          </div>
+          <p className="text-xs text-slate-400">
+            Pick the edge or corner the frame hugs. Add bleed to push it off that edge for a cropped,
+            editorial look—fixed canvas sizes show it best.
+          </p>
+        </div>
+        <SliderControl
+          label="Bleed"
+          value={settings.frameBleed}
+          min={0}
+          max={FRAME_BLEED_MAX}
+          onChange={(value) => onChange({ frameBleed: value }, 'frameBleed')}
+          helper={settings.frameAlign === 'center' ? 'Align the frame to an edge to use bleed.' : undefined}
+          suffix="%"
+        />
+        <div className="grid grid-cols-3 gap-2">
+          {tiltPresets.map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => onChange(preset.tilt)}
+              className={chipClassName(
+                settings.tiltX === preset.tilt.tiltX &&
+                  settings.tiltY === preset.tilt.tiltY &&
+                  settings.tiltZ === preset.tilt.tiltZ,
+              )}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <SliderControl
+          label="Tilt (rotate X)"
+          value={settings.tiltX}
+          min={-TILT_MAX}
+          max={TILT_MAX}
+          onChange={(value) => onChange({ tiltX: value }, 'tiltX')}
+          suffix="°"
+        />
+        <SliderControl
+          label="Turn (rotate Y)"
+          value={settings.tiltY}
+          min={-TILT_MAX}
+          max={TILT_MAX}
+          onChange={(value) => onChange({ tiltY: value }, 'tiltY')}
+          suffix="°"
+        />
+        <SliderControl
+          label="Rotate (rotate Z)"
+          value={settings.tiltZ}
+          min={-TILT_MAX}
+          max={TILT_MAX}
+          onChange={(value) => onChange({ tiltZ: value }, 'tiltZ')}
+          suffix="°"
+        />
+      </SectionCard>
+    </>
+  )
+}
@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react'
+import type { ChangeEvent, FormEvent } from 'react'
+import clsx from 'clsx'
+import { SectionCard } from './controls'
+import { areSettingsEqual, getCanvasBackground } from '../settings'
+import type { Settings } from '../settings'
+import type { StylePreset } from '../lib/presetLibrary'
+import { keepWatermark } from '../lib/watermark'
+
+interface PresetLibraryProps {
+  presets: StylePreset[]
+  settings: Settings
+  isSaving: boolean
+  onSave: (name: string) => void
+  onApply: (preset: StylePreset) => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onImport: (file: File) => void
+  onExport: () => void
+}
+
+const headerButtonClassName =
+  'text-xs font-semibold text-primary-200 transition hover:text-primary-100 disabled:cursor-not-allowed disabled:opacity-40'
+
+export const PresetLibrary = ({
+  presets,
+  settings,
+  isSaving,
+  onSave,
+  onApply,
+  onRename,
+  onDelete,
+  onImport,
+  onExport,
+}: PresetLibraryProps) => {
+  const [draftName, setDraftName] = useState('')
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null)
+  const importInputRef = useRef<HTMLInputElement | null>(null)
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    onSave(draftName)
+    setDraftName('')
+  }
+
+  const handleImportChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onImport(file)
+    }
+    event.target.value = ''
+  }
+
+  const commitRename = () => {
+    if (editing) {
+      onRename(editing.id, editing.name)
+    }
+    setEditing(null)
+  }
+
+  return (
+    <SectionCard
+      title="Saved styles"
+      description="Keep your house style one click away and share it with the team."
+      action={
+        <div className="flex items-center gap-3">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportChange}
+          />
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            className={headerButtonClassName}
+          >
+            Import
+          </button>
+          <button
+            type="button"
+            onClick={onExport}
+            disabled={presets.length === 0}
+            className={headerButtonClassName}
+          >
+            Export
+          </button>
+        </div>
+      }
+    >
+      <form onSubmit={handleSave} className="flex gap-3">
+        <input
+          type="text"
+          value={draftName}
+          onChange={(event) => setDraftName(event.target.value)}
+          placeholder="Name this style"
+          aria-label="Preset name"
+          className="min-w-0 flex-1 rounded-2xl border border-white/10 bg-white/5 px-4 py-2.5 text-sm text-white placeholder:text-slate-500 focus:border-primary-400 focus:ring-primary-400"
+        />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className={clsx(
+            'rounded-2xl border border-primary-400/60 bg-primary-500/20 px-4 text-sm font-semibold text-white transition hover:border-primary-300 hover:bg-primary-500/30',
+            isSaving && 'cursor-progress opacity-60',
+          )}
+        >
+          {isSaving ? 'Saving…' : 'Save'}
+        </button>
+      </form>
+
+      {presets.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          Saved styles capture every setting—background, layout, chrome, and atmosphere.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 gap-3">
+          {presets.map((preset) => {
+            const active = areSettingsEqual(keepWatermark(preset.settings, settings), settings)
+            const isEditing = editing?.id === preset.id
+            return (
+              <li
+                key={preset.id}
+                className={clsx(
+                  'flex flex-col gap-3 rounded-2xl border p-3 transition',
+                  active
+                    ? 'border-primary-400/75 bg-primary-400/10 shadow-glow-xl'
+                    : 'border-white/10 bg-white/5 hover:border-white/20',
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => onApply(preset)}
+                  className="block h-20 w-full overflow-hidden rounded-xl border border-white/5 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400"
+                  style={{ background: getCanvasBackground(preset.settings) }}
+                  aria-label={`Apply ${preset.name}`}
+                >
+                  {preset.thumbnail ? (
+                    <img src={preset.thumbnail} alt="" className="h-full w-full object-cover" />
+                  ) : null}
+                </button>
+                {isEditing ? (
+                  <input
+                    type="text"
+                    autoFocus
+                    value={editing.name}
+                    onChange={(event) => setEditing({ id: preset.id, name: event.target.value })}
+                    onBlur={commitRename}
+                    onKeyDown={(event) => {
+                      if (event.key === 'Enter') commitRename()
+                      if (event.key === 'Escape') setEditing(null)
+                    }}
+                    aria-label="Rename preset"
+                    className="rounded-lg border border-white/15 bg-slate-950/60 px-2 py-1 text-xs text-white focus:border-primary-400 focus:ring-primary-400"
+                  />
+                ) : (
+                  <span className="truncate text-xs font-semibold uppercase tracking-widest text-white/80">
+                    {preset.name}
+                  </span>
+                )}
+                <div className="flex items-center justify-between gap-2 text-xs font-semibold">
+                  <button
+                    type="button"
+                    onClick={() => setEditing({ id: preset.id, name: preset.name })}
+                    className="text-slate-400 transition hover:text-white"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (window.confirm(`Delete the “${preset.name}” style?`)) {
+                        onDelete(preset.id)
+                      }
+                    }}
+                    className="text-rose-300/80 transition hover:text-rose-200"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </SectionCard>
+  )
+}
@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from 'react'
+import type { CSSProperties } from 'react'
+import { decodeImage } from '../lib/images'
+import type { QueuedImage } from '../lib/images'
+import { redactSource } from '../lib/redaction'
+import { createDocumentSurface } from '../lib/renderSurface'
+
+interface RedactedImageProps {
+  image: QueuedImage
+  className?: string
+  style?: CSSProperties
+}
+
+/**
+ * The screenshot as the frame shows it: a plain `<img>`, or a canvas with the redactions
+ * baked into its pixels by the same code exports use, so the preview never shows more.
+ */
+export const RedactedImage = ({ image, className, style }: RedactedImageProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [decoded, setDecoded] = useState<{ url: string; element: HTMLImageElement } | null>(null)
+  const redacted = image.redactions.length > 0
+  const isDecoded = decoded?.url === image.dataUrl
+
+  useEffect(() => {
+    if (!redacted || isDecoded) return
+    let cancelled = false
+    decodeImage(image.dataUrl).then(
+      (element) => {
+        if (!cancelled) setDecoded({ url: image.dataUrl, element })
+      },
+      (error) => console.warn('Could not decode the screenshot for redaction', error),
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [redacted, isDecoded, image.dataUrl])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || !decoded || !isDecoded) return
+    const { element } = decoded
+    const source = redactSource(
+      { image: element, width: image.width, height: image.height },
+      image.redactions,
+      createDocumentSurface,
+    )
+    canvas.width = element.naturalWidth
+    canvas.height = element.naturalHeight
+    context.drawImage(source.image, 0, 0)
+  }, [decoded, isDecoded, image.width, image.height, image.redactions])
+
+  if (!redacted) return <img src={image.dataUrl} alt={image.name} className={className} style={style} />
+  return <canvas ref={canvasRef} role="img" aria-label={image.name} className={className} style={style} />
+}
@@ -0,0 +1,221 @@
+import { useEffect, useRef, useState } from 'react'
+import type { PointerEvent as ReactPointerEvent } from 'react'
+import clsx from 'clsx'
+import { isEditableTarget } from '../lib/clipboard'
+import { createId } from '../lib/id'
+import { getAnnotationUnit, normalizeBox } from '../lib/annotations'
+import type { Box, Point } from '../lib/annotations'
+import { clampRedactionBox, isMeaningfulRedaction } from '../lib/redaction'
+import type { Redaction, RedactionMode } from '../lib/redaction'
+import type { Size } from '../lib/canvasSize'
+
+interface RedactionLayerProps {
+  image: Size
+  redactions: Redaction[]
+  /** The mode new regions are drawn with. */
+  mode: RedactionMode
+  selectedId: string | null
+  /** True while redacting: regions can be drawn, moved, and resized. */
+  interactive: boolean
+  onChange: (redactions: Redaction[], coalesceKey?: string) => void
+  onSelect: (id: string | null) => void
+}
+
+type Gesture =
+  | { kind: 'draw'; origin: Point }
+  | { kind: 'move'; origin: Point; initial: Redaction }
+  | { kind: 'resize'; initial: Redaction }
+
+const UNCONFIRMED_COLOR = '#fbbf24'
+const SELECTED_COLOR = '#38bdf8'
+
+/**
+ * Outlines redaction regions over the screenshot and edits them. The hiding itself happens
+ * in the pixels underneath; this layer only draws guides, which never reach an export.
+ */
+export const RedactionLayer = ({
+  image,
+  redactions,
+  mode,
+  selectedId,
+  interactive,
+  onChange,
+  onSelect,
+}: RedactionLayerProps) => {
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const gestureRef = useRef<Gesture | null>(null)
+  const [draft, setDraft] = useState<Box | null>(null)
+  const unit = getAnnotationUnit(image)
+  const selected = interactive ? redactions.find((redaction) => redaction.id === selectedId) : undefined
+
+  useEffect(() => {
+    if (!interactive || !selectedId) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault()
+        onChange(redactions.filter((redaction) => redaction.id !== selectedId))
+        onSelect(null)
+      } else if (event.key === 'Escape') {
+        onSelect(null)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [interactive, onChange, onSelect, redactions, selectedId])
+
+  const toImagePoint = (event: ReactPointerEvent): Point => {
+    const matrix = svgRef.current?.getScreenCTM()
+    if (!matrix) return { x: 0, y: 0 }
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse())
+    return {
+      x: Math.min(Math.max(point.x, 0), image.width),
+      y: Math.min(Math.max(point.y, 0), image.height),
+    }
+  }
+
+  // Moving or resizing a region means its pixels changed, so it needs confirming again.
+  const replace = (next: Redaction, coalesceKey: string) => {
+    onChange(
+      redactions.map((redaction) =>
+        redaction.id === next.id ? { ...next, box: clampRedactionBox(next.box, image), confirmed: false } : redaction,
+      ),
+      coalesceKey,
+    )
+  }
+
+  const handlePointerDown = (event: ReactPointerEvent<SVGSVGElement>) => {
+    if (!interactive || event.button !== 0) return
+    event.preventDefault()
+    event.stopPropagation()
+    const point = toImagePoint(event)
+    const hit = [...redactions]
+      .reverse()
+      .find(
+        ({ box }) =>
+          point.x >= box.x && point.x <= box.x + box.width && point.y >= box.y && point.y <= box.y + box.height,
+      )
+    onSelect(hit?.id ?? null)
+    gestureRef.current = hit ? { kind: 'move', origin: point, initial: hit } : { kind: 'draw', origin: point }
+    if (!hit) setDraft({ x: point.x, y: point.y, width: 0, height: 0 })
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const handleHandlePointerDown = (event: ReactPointerEvent) => {
+    if (!selected) return
+    event.preventDefault()
+    event.stopPropagation()
+    gestureRef.current = { kind: 'resize', initial: selected }
+    svgRef.current?.setPointerCapture(event.pointerId)
+  }
+
+  const handlePointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const gesture = gestureRef.current
+    if (!gesture) return
+    const point = toImagePoint(event)
+
+    if (gesture.kind === 'draw') {
+      setDraft({
+        x: gesture.origin.x,
+        y: gesture.origin.y,
+        width: point.x - gesture.origin.x,
+        height: point.y - gesture.origin.y,
+      })
+    } else if (gesture.kind === 'move') {
+      if (point.x === gesture.origin.x && point.y === gesture.origin.y) return
+      const { box } = gesture.initial
+      const x = Math.min(Math.max(box.x + point.x - gesture.origin.x, 0), image.width - box.width)
+      const y = Math.min(Math.max(box.y + point.y - gesture.origin.y, 0), image.height - box.height)
+      replace({ ...gesture.initial, box: { ...box, x, y } }, `redaction-move-${gesture.initial.id}`)
+    } else {
+      const { box } = gesture.initial
+      replace(
+        {
+          ...gesture.initial,
+          box: { ...box, width: Math.max(point.x - box.x, unit * 8), height: Math.max(point.y - box.y, unit * 8) },
+        },
+        `redaction-resize-${gesture.initial.id}`,
+      )
+    }
+  }
+
+  const handlePointerUp = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const gesture = gestureRef.current
+    gestureRef.current = null
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
+    if (gesture?.kind !== 'draw' || !draft) return
+
+    const box = clampRedactionBox(normalizeBox(draft), image)
+    setDraft(null)
+    if (isMeaningfulRedaction(box, image)) {
+      const created: Redaction = { id: createId(), mode, box, confirmed: false }
+      onChange([...redactions, created])
+      onSelect(created.id)
+    }
+  }
+
+  const handleSize = 10 * unit
+  const draftBox = draft ? normalizeBox(draft) : null
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${image.width} ${image.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={clsx(
+        'absolute inset-0 h-full w-full touch-none',
+        interactive ? 'cursor-crosshair' : 'pointer-events-none',
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClick={(event) => event.stopPropagation()}
+    >
+      {redactions.map(({ id, box, confirmed }) =>
+        // Outside redact mode only regions still awaiting review are outlined.
+        interactive || !confirmed ? (
+          <rect
+            key={id}
+            x={box.x}
+            y={box.y}
+            width={box.width}
+            height={box.height}
+            fill="none"
+            stroke={id === selected?.id ? SELECTED_COLOR : confirmed ? '#ffffff' : UNCONFIRMED_COLOR}
+            strokeOpacity={confirmed ? 0.6 : 1}
+            strokeWidth={2 * unit}
+            strokeDasharray={`${6 * unit} ${4 * unit}`}
+            className={interactive ? 'cursor-move' : undefined}
+          />
+        ) : null,
+      )}
+      {draftBox ? (
+        <rect
+          {...draftBox}
+          fill="rgba(15, 23, 42, 0.35)"
+          stroke={SELECTED_COLOR}
+          strokeWidth={2 * unit}
+          strokeDasharray={`${6 * unit} ${4 * unit}`}
+          pointerEvents="none"
+        />
+      ) : null}
+      {selected ? (
+        <rect
+          x={selected.box.x + selected.box.width - handleSize / 2}
+          y={selected.box.y + selected.box.height - handleSize / 2}
+          width={handleSize}
+          height={handleSize}
+          rx={handleSize / 4}
+          fill="#ffffff"
+          stroke="#0ea5e9"
+          strokeWidth={2 * unit}
+          className="cursor-nwse-resize"
+          onPointerDown={handleHandlePointerDown}
+        />
+      ) : null}
+    </svg>
+  )
+}
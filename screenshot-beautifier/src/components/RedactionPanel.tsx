@@ -0,0 +1,131 @@
+import clsx from 'clsx'
+import { SectionCard, SegmentedControl } from './controls'
+import { countUnconfirmed, redactionModes } from '../lib/redaction'
+import type { Redaction, RedactionMode } from '../lib/redaction'
+
+interface RedactionPanelProps {
+  redactions: Redaction[]
+  mode: RedactionMode
+  selectedId: string | null
+  isRedacting: boolean
+  disabled: boolean
+  onRedactingChange: (redacting: boolean) => void
+  onModeChange: (mode: RedactionMode) => void
+  onSelect: (id: string | null) => void
+  onChange: (redactions: Redaction[]) => void
+}
+
+export const RedactionPanel = ({
+  redactions,
+  mode,
+  selectedId,
+  isRedacting,
+  disabled,
+  onRedactingChange,
+  onModeChange,
+  onSelect,
+  onChange,
+}: RedactionPanelProps) => {
+  const unconfirmed = countUnconfirmed(redactions)
+  const selected = redactions.find((redaction) => redaction.id === selectedId) ?? null
+
+  const update = (id: string, patch: Partial<Redaction>) => {
+    onChange(redactions.map((redaction) => (redaction.id === id ? { ...redaction, ...patch } : redaction)))
+  }
+
+  // The mode control restyles the selected region, otherwise it sets the next one drawn.
+  const selectMode = (next: RedactionMode) => {
+    onModeChange(next)
+    if (selected) update(selected.id, { mode: next, confirmed: false })
+  }
+
+  return (
+    <SectionCard
+      title="Redact"
+      description="Hide emails, tokens, and names in the pixels themselves."
+      action={
+        unconfirmed > 0 ? (
+          <button
+            type="button"
+            onClick={() => onChange(redactions.map((redaction) => ({ ...redaction, confirmed: true })))}
+            className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+          >
+            Confirm all
+          </button>
+        ) : null
+      }
+    >
+      <button
+        type="button"
+        onClick={() => onRedactingChange(!isRedacting)}
+        disabled={disabled}
+        className={clsx(
+          'w-full rounded-2xl border py-2.5 text-sm font-semibold transition disabled:cursor-not-allowed disabled:opacity-40',
+          isRedacting
+            ? 'border-primary-300/60 bg-primary-400/20 text-white hover:bg-primary-400/30'
+            : 'border-white/10 bg-white/5 text-slate-200 hover:border-white/20 hover:bg-white/10',
+        )}
+      >
+        {isRedacting ? 'Done redacting' : 'Draw redaction regions'}
+      </button>
+      <SegmentedControl options={redactionModes} value={selected?.mode ?? mode} onChange={selectMode} />
+
+      {redactions.length > 0 ? (
+        <ol className="space-y-2">
+          {redactions.map((redaction, index) => (
+            <li
+              key={redaction.id}
+              className={clsx(
+                'flex items-center gap-3 rounded-2xl border p-3 text-sm',
+                redaction.id === selectedId ? 'border-primary-400/60 bg-primary-400/10' : 'border-white/10 bg-white/5',
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => {
+                  onRedactingChange(true)
+                  onSelect(redaction.id)
+                }}
+                className="min-w-0 flex-1 text-left"
+              >
+                <span className="block font-medium text-slate-200">
+                  Region {index + 1} · {redactionModes.find((option) => option.id === redaction.mode)?.label}
+                </span>
+                <span className="block text-xs text-slate-400">
+                  {Math.round(redaction.box.width)} × {Math.round(redaction.box.height)}px
+                </span>
+              </button>
+              <label className="flex items-center gap-2 text-xs font-semibold text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={redaction.confirmed}
+                  onChange={(event) => update(redaction.id, { confirmed: event.target.checked })}
+                  className="h-4 w-4 rounded border-white/20 bg-slate-900 text-primary-400 focus:ring-primary-400"
+                />
+                {redaction.confirmed ? 'Confirmed' : 'Confirm'}
+              </label>
+              <button
+                type="button"
+                onClick={() => {
+                  onChange(redactions.filter((candidate) => candidate.id !== redaction.id))
+                  if (redaction.id === selectedId) onSelect(null)
+                }}
+                aria-label={`Remove region ${index + 1}`}
+                title="Remove region"
+                className="flex h-7 w-7 items-center justify-center rounded-lg border border-white/10 text-xs text-white/70 transition hover:border-white/30 hover:text-white"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : null}
+
+      <p className="text-xs text-slate-400">
+        Regions replace the screenshot's pixels before it is framed, so exports and copies never
+        contain what they cover. Confirm each region once you have checked it; exporting with
+        unconfirmed regions asks first.
+      </p>
+    </SectionCard>
+  )
+}
@@ -0,0 +1,224 @@
+import clsx from 'clsx'
+import { ChipGroup, SectionCard, SegmentedControl, SliderControl } from './controls'
+import {
+  SLOT_OVERLAP_MAX,
+  SLOT_OVERLAP_MIN,
+  SLOT_SPACING_MAX,
+  addSlot,
+  arrangementOptions,
+  changeArrangement,
+  getArrangementOption,
+  getSlotAlignLabels,
+  moveSlot,
+  removeSlot,
+  updateSlot,
+} from '../lib/arrangements'
+import type { Arrangement, ArrangementId, SlotAlign } from '../lib/arrangements'
+import { frameDefinitions } from '../lib/frames'
+import type { FrameType } from '../lib/frames'
+import type { QueuedImage } from '../lib/images'
+
+interface ScreensPanelProps {
+  arrangement: Arrangement
+  images: QueuedImage[]
+  /** Shown in slots whose image is gone, and used for new screens when the queue runs out. */
+  activeImage: QueuedImage | null
+  /** The frame new screens start with. */
+  frameType: FrameType
+  onChange: (update: (previous: Arrangement) => Arrangement, coalesceKey?: string) => void
+}
+
+const slotAligns: SlotAlign[] = ['start', 'center', 'end']
+
+const selectClassName =
+  'w-full rounded-xl border border-white/15 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-primary-400 focus:ring-primary-400'
+
+const iconButtonClassName =
+  'flex h-7 w-7 items-center justify-center rounded-lg border border-white/10 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-30 disabled:hover:border-white/10'
+
+const getSlotLabel = (id: ArrangementId, index: number) => {
+  if (id === 'before-after') return index === 0 ? 'Before' : 'After'
+  if (id === 'desktop-mobile') return index === 0 ? 'Desktop' : 'Phone'
+  return `Screen ${index + 1}`
+}
+
+export const ScreensPanel = ({ arrangement, images, activeImage, frameType, onChange }: ScreensPanelProps) => {
+  const option = getArrangementOption(arrangement.id)
+  const imageIds = images.map((image) => image.id)
+  const alignLabels = getSlotAlignLabels(arrangement.id)
+  const isSingle = arrangement.id === 'single'
+
+  const selectArrangement = (id: ArrangementId) => {
+    onChange((previous) => changeArrangement(previous, id, imageIds, frameType))
+  }
+
+  const addScreen = () => {
+    onChange((previous) => {
+      const unused = imageIds.find((id) => !previous.slots.some((slot) => slot.imageId === id))
+      return addSlot(previous, unused ?? activeImage?.id ?? null)
+    })
+  }
+
+  return (
+    <SectionCard
+      title="Screens"
+      description="Show two or more screenshots together on one canvas."
+      action={
+        !isSingle && option.maxSlots > option.minSlots ? (
+          <button
+            type="button"
+            onClick={addScreen}
+            disabled={arrangement.slots.length >= option.maxSlots || images.length === 0}
+            className="text-xs font-semibold text-primary-200 transition hover:text-primary-100 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            Add screen
+          </button>
+        ) : null
+      }
+    >
+      <SegmentedControl options={arrangementOptions} value={arrangement.id} onChange={selectArrangement} />
+
+      {isSingle ? null : images.length === 0 ? (
+        <p className="text-xs text-slate-400">Add screenshots to the queue to fill the screens.</p>
+      ) : (
+        <>
+          <ol className="space-y-3">
+            {arrangement.slots.map((slot, index) => {
+              const image = images.find((candidate) => candidate.id === slot.imageId) ?? activeImage
+              // Both halves of a before/after share the first screen's frame.
+              const hasFrame = arrangement.id !== 'before-after' || index === 0
+              return (
+                <li key={slot.id} className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+                  <div className="flex items-center gap-3">
+                    {image ? (
+                      <img
+                        src={image.dataUrl}
+                        alt=""
+                        className="h-10 w-14 shrink-0 rounded-lg border border-white/10 object-cover"
+                      />
+                    ) : null}
+                    <span className="flex-1 text-sm font-medium text-slate-200">
+                      {getSlotLabel(arrangement.id, index)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => onChange((previous) => moveSlot(previous, slot.id, -1))}
+                      disabled={index === 0}
+                      aria-label="Move earlier"
+                      title="Move earlier"
+                      className={iconButtonClassName}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onChange((previous) => moveSlot(previous, slot.id, 1))}
+                      disabled={index === arrangement.slots.length - 1}
+                      aria-label="Move later"
+                      title="Move later"
+                      className={iconButtonClassName}
+                    >
+                      ↓
+                    </button>
+                    {option.maxSlots > option.minSlots ? (
+                      <button
+                        type="button"
+                        onClick={() => onChange((previous) => removeSlot(previous, slot.id))}
+                        disabled={arrangement.slots.length <= option.minSlots}
+                        aria-label="Remove screen"
+                        title="Remove screen"
+                        className={iconButtonClassName}
+                      >
+                        ×
+                      </button>
+                    ) : null}
+                  </div>
+                  <div className={clsx('grid gap-2', hasFrame ? 'grid-cols-2' : 'grid-cols-1')}>
+                    <select
+                      aria-label={`${getSlotLabel(arrangement.id, index)} image`}
+                      value={image?.id ?? ''}
+                      onChange={(event) =>
+                        onChange((previous) => updateSlot(previous, slot.id, { imageId: event.target.value }))
+                      }
+                      className={selectClassName}
+                    >
+                      {images.map((candidate, imageIndex) => (
+                        <option key={candidate.id} value={candidate.id}>
+                          {imageIndex + 1}. {candidate.name}
+                        </option>
+                      ))}
+                    </select>
+                    {hasFrame ? (
+                      <select
+                        aria-label={`${getSlotLabel(arrangement.id, index)} frame`}
+                        value={slot.frameType}
+                        onChange={(event) =>
+                          onChange((previous) =>
+                            updateSlot(previous, slot.id, { frameType: event.target.value as FrameType }),
+                          )
+                        }
+                        className={selectClassName}
+                      >
+                        {frameDefinitions.map((frame) => (
+                          <option key={frame.id} value={frame.id}>
+                            {frame.label}
+                          </option>
+                        ))}
+                      </select>
+                    ) : null}
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+
+          {arrangement.id === 'before-after' ? (
+            <SliderControl
+              label="Divider"
+              value={arrangement.split}
+              min={5}
+              max={95}
+              onChange={(split) => onChange((previous) => ({ ...previous, split }), 'arrangement-split')}
+              helper="Where the after screenshot takes over."
+              suffix="%"
+            />
+          ) : (
+            <ChipGroup
+              label="Alignment"
+              columns={3}
+              options={slotAligns.map((align) => ({ id: align, label: alignLabels[align] }))}
+              value={arrangement.align}
+              onChange={(align) => onChange((previous) => ({ ...previous, align }))}
+            />
+          )}
+          {arrangement.id === 'side-by-side' || arrangement.id === 'stacked' ? (
+            <SliderControl
+              label="Spacing"
+              value={arrangement.spacing}
+              min={0}
+              max={SLOT_SPACING_MAX}
+              onChange={(spacing) => onChange((previous) => ({ ...previous, spacing }), 'arrangement-spacing')}
+              helper="Gap between the screens."
+              suffix="px"
+            />
+          ) : null}
+          {arrangement.id === 'cascade' ? (
+            <SliderControl
+              label="Overlap"
+              value={arrangement.overlap}
+              min={SLOT_OVERLAP_MIN}
+              max={SLOT_OVERLAP_MAX}
+              onChange={(overlap) => onChange((previous) => ({ ...previous, overlap }), 'arrangement-overlap')}
+              helper="How much each screen covers the one before it."
+              suffix="%"
+            />
+          ) : null}
+          <p className="text-xs text-slate-400">
+            Screens share the canvas, padding, shadow, and text. Each shows its whole screenshot with
+            its annotations; crop and zoom apply to single screenshots.
+          </p>
+        </>
+      )}
+    </SectionCard>
+  )
+}
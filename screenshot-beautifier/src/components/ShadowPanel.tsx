@@ -0,0 +1,177 @@
+import { ColorControl, PresetSwatch, SectionCard, SegmentedControl, SliderControl } from './controls'
+import { getBoxShadowCss, getPlateShadows } from '../lib/atmosphere'
+import {
+  GLOW_SIZE_MAX,
+  GLOW_SIZE_MIN,
+  SHADOW_BLUR_MAX,
+  SHADOW_DISTANCE_MAX,
+  SHADOW_LAYERS_MAX,
+  SHADOW_SPREAD_MAX,
+  createShadowLayer,
+  glowSourceOptions,
+  isShadowPresetActive,
+  shadowPresets,
+} from '../lib/shadows'
+import type { ShadowLayer, ShadowSettings } from '../lib/shadows'
+import type { Settings } from '../settings'
+
+interface ShadowPanelProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+}
+
+/** Swatches show each preset on a small card, so its shadows are drawn at a fraction of their size. */
+const SWATCH_SCALE = 0.2
+
+const getSwatchShadow = (settings: Settings, preset: ShadowSettings) =>
+  getBoxShadowCss(
+    getPlateShadows({ ...settings, ...preset }).map((shadow) => ({
+      ...shadow,
+      offsetX: shadow.offsetX * SWATCH_SCALE,
+      offsetY: shadow.offsetY * SWATCH_SCALE,
+      blur: shadow.blur * SWATCH_SCALE,
+      spread: shadow.spread * SWATCH_SCALE,
+    })),
+  )
+
+export const ShadowPanel = ({ settings, onChange }: ShadowPanelProps) => {
+  const { shadowLayers } = settings
+
+  const updateLayer = (index: number, patch: Partial<ShadowLayer>, field: string) => {
+    const layers = shadowLayers.map((layer, current) => (current === index ? { ...layer, ...patch } : layer))
+    onChange({ shadowLayers: layers }, `shadowLayer-${field}-${index}`)
+  }
+
+  return (
+    <SectionCard
+      title="Shadow & glow"
+      description="Stack shadows for depth, or light the frame with a colored glow."
+      action={
+        <button
+          type="button"
+          onClick={() => onChange({ shadowLayers: [...shadowLayers, createShadowLayer()] })}
+          disabled={shadowLayers.length >= SHADOW_LAYERS_MAX}
+          className="text-xs font-semibold text-primary-200 transition hover:text-primary-100 disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          Add layer
+        </button>
+      }
+    >
+      <div className="grid grid-cols-2 gap-3">
+        {shadowPresets.map((preset) => (
+          <PresetSwatch
+            key={preset.id}
+            label={preset.label}
+            active={isShadowPresetActive(settings, preset.settings)}
+            style={{
+              background: 'rgba(241, 245, 249, 0.9)',
+              boxShadow: getSwatchShadow(settings, preset.settings),
+            }}
+            onClick={() => onChange(preset.settings)}
+          />
+        ))}
+      </div>
+
+      {shadowLayers.map((layer, index) => (
+        <div key={index} className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
+          <div className="flex items-center justify-between gap-3 text-sm font-medium text-slate-200">
+            <span>Shadow {index + 1}</span>
+            <button
+              type="button"
+              onClick={() => onChange({ shadowLayers: shadowLayers.filter((_, current) => current !== index) })}
+              aria-label={`Remove shadow ${index + 1}`}
+              className="rounded-lg px-2 py-1 text-xs font-semibold text-slate-400 transition hover:bg-white/10 hover:text-white"
+            >
+              ✕
+            </button>
+          </div>
+          <SliderControl
+            label="Direction"
+            value={layer.angle}
+            min={0}
+            max={360}
+            onChange={(angle) => updateLayer(index, { angle }, 'angle')}
+            helper="0° casts upward, 180° straight down."
+            suffix="°"
+          />
+          <SliderControl
+            label="Distance"
+            value={layer.distance}
+            min={0}
+            max={SHADOW_DISTANCE_MAX}
+            onChange={(distance) => updateLayer(index, { distance }, 'distance')}
+            suffix="px"
+          />
+          <SliderControl
+            label="Blur"
+            value={layer.blur}
+            min={0}
+            max={SHADOW_BLUR_MAX}
+            onChange={(blur) => updateLayer(index, { blur }, 'blur')}
+            suffix="px"
+          />
+          <SliderControl
+            label="Spread"
+            value={layer.spread}
+            min={-SHADOW_SPREAD_MAX}
+            max={SHADOW_SPREAD_MAX}
+            onChange={(spread) => updateLayer(index, { spread }, 'spread')}
+            helper="Negative values tuck the shadow under the frame."
+            suffix="px"
+          />
+          <SliderControl
+            label="Opacity"
+            value={layer.opacity}
+            min={0}
+            max={100}
+            onChange={(opacity) => updateLayer(index, { opacity }, 'opacity')}
+            suffix="%"
+          />
+          <ColorControl
+            label="Shadow color"
+            value={layer.color}
+            onChange={(color) => updateLayer(index, { color }, 'color')}
+          />
+        </div>
+      ))}
+
+      {shadowLayers.length === 0 ? (
+        <p className="text-xs text-slate-400">No shadow layers. Add one, or pick a preset above.</p>
+      ) : null}
+
+      <SliderControl
+        label="Glow strength"
+        value={settings.glowStrength}
+        min={0}
+        max={100}
+        onChange={(value) => onChange({ glowStrength: value }, 'glowStrength')}
+        helper="A colored halo around the frame. 0 turns it off."
+        suffix="%"
+      />
+      {settings.glowStrength > 0 ? (
+        <>
+          <SliderControl
+            label="Glow size"
+            value={settings.glowSize}
+            min={GLOW_SIZE_MIN}
+            max={GLOW_SIZE_MAX}
+            onChange={(value) => onChange({ glowSize: value }, 'glowSize')}
+            suffix="px"
+          />
+          <SegmentedControl
+            options={glowSourceOptions}
+            value={settings.glowSource}
+            onChange={(glowSource) => onChange({ glowSource })}
+          />
+          {settings.glowSource === 'color' ? (
+            <ColorControl
+              label="Glow color"
+              value={settings.glowColor}
+              onChange={(color) => onChange({ glowColor: color }, 'glowColor')}
+            />
+          ) : null}
+        </>
+      ) : null}
+    </SectionCard>
+  )
+}
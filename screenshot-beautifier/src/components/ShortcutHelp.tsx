@@ -0,0 +1,86 @@
+import { useEffect } from 'react'
+import { formatCombo, shortcuts } from '../lib/shortcuts'
+import type { ShortcutGroup } from '../lib/shortcuts'
+
+const groups: ShortcutGroup[] = ['File', 'Edit', 'Style', 'Help']
+
+export const Keys = ({ keys }: { keys: string[] }) => (
+  <span className="flex items-center gap-1">
+    {keys.map((key) => (
+      <kbd
+        key={key}
+        className="min-w-[1.5rem] rounded-md border border-white/15 bg-white/5 px-1.5 py-0.5 text-center font-sans text-[11px] font-semibold text-slate-300"
+      >
+        {key}
+      </kbd>
+    ))}
+  </span>
+)
+
+interface ShortcutHelpProps {
+  onClose: () => void
+}
+
+export const ShortcutHelp = ({ onClose }: ShortcutHelpProps) => {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-slate-950/70 px-4 py-[10vh] backdrop-blur-sm"
+      onPointerDown={(event) => {
+        if (event.target === event.currentTarget) onClose()
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        className="w-full max-w-2xl rounded-3xl border border-white/10 bg-slate-900/95 p-6 shadow-[0_24px_60px_-20px_rgba(15,23,42,0.9)]"
+      >
+        <header className="mb-5 flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <h2 id="shortcut-help-title" className="text-base font-semibold text-white">
+              Keyboard shortcuts
+            </h2>
+            <p className="text-sm text-slate-400">Shortcuts pause while you type in a text or color field.</p>
+          </div>
+          <button
+            type="button"
+            autoFocus
+            onClick={onClose}
+            className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+          >
+            Close
+          </button>
+        </header>
+        <div className="grid gap-6 sm:grid-cols-2">
+          {groups.map((group) => (
+            <section key={group} className="space-y-2">
+              <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">{group}</h3>
+              <ul className="space-y-1.5">
+                {shortcuts
+                  .filter((shortcut) => shortcut.group === group)
+                  .map((shortcut) => (
+                    <li key={shortcut.id} className="flex items-center justify-between gap-3 text-sm text-slate-300">
+                      <span>{shortcut.label}</span>
+                      <span className="flex items-center gap-2">
+                        {shortcut.combos.map((combo) => (
+                          <Keys key={combo} keys={formatCombo(combo)} />
+                        ))}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,316 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import clsx from 'clsx'
+import { ChipGroup, SectionCard, SegmentedControl, SliderControl } from './controls'
+import { decodeImage } from '../lib/images'
+import type { QueuedImage } from '../lib/images'
+import { redactSource } from '../lib/redaction'
+import { createDocumentSurface } from '../lib/renderSurface'
+import type { RenderSource } from '../lib/renderSurface'
+import {
+  STITCH_LENGTH_MAX,
+  STITCH_LENGTH_MIN,
+  detectOverlaps,
+  getOverlapMax,
+  getStitchLayout,
+  getStitchSize,
+  paintStitch,
+  stitchDirectionOptions,
+  stitchEndingOptions,
+} from '../lib/stitch'
+import type { StitchDirection, StitchEnding, StitchLayout } from '../lib/stitch'
+
+interface StitchPanelProps {
+  images: QueuedImage[]
+  disabled: boolean
+  /** Adds the stitched image to the queue; `name` is the first capture's. */
+  onStitch: (layout: StitchLayout, name: string) => void
+}
+
+/** Longest side of the preview, in CSS pixels across the stitch direction. */
+const PREVIEW_CROSS = { vertical: 280, horizontal: 160 }
+
+const iconButtonClassName =
+  'flex h-7 w-7 items-center justify-center rounded-lg border border-white/10 text-xs text-white/70 transition hover:border-white/30 hover:text-white disabled:cursor-not-allowed disabled:opacity-30 disabled:hover:border-white/10'
+
+interface Detection {
+  /** The captures, their redactions, and the direction this detection is for. */
+  key: string
+  sources: RenderSource[]
+  overlaps: (number | null)[]
+}
+
+export const StitchPanel = ({ images, disabled, onStitch }: StitchPanelProps) => {
+  const [order, setOrder] = useState<string[]>([])
+  /** The ticked captures; null ticks every one, until a choice is made or a stitch is done. */
+  const [picked, setPicked] = useState<string[] | null>(null)
+  const [direction, setDirection] = useState<StitchDirection>('vertical')
+  const [ending, setEnding] = useState<StitchEnding>('full')
+  const [maxLength, setMaxLength] = useState(250)
+  const [detection, setDetection] = useState<Detection | null>(null)
+  const [adjusted, setAdjusted] = useState<{ key: string; overlaps: number[] } | null>(null)
+  const previewRef = useRef<HTMLCanvasElement | null>(null)
+
+  // Captures keep the order they were given, with new ones joining at the end.
+  const ordered = [
+    ...order.flatMap((id) => images.filter((image) => image.id === id)),
+    ...images.filter((image) => !order.includes(image.id)),
+  ]
+  const included = ordered.filter((image) => picked?.includes(image.id) ?? true)
+  const selection = [direction, ...included.map((image) => image.id)].join(' ')
+  // Redaction edits rerun detection too, since the captures are compared with their regions baked in.
+  const key = [selection, ...included.map((image) => JSON.stringify(image.redactions))].join(' ')
+  const current = detection?.key === key ? detection : null
+  const overlaps = useMemo(
+    () =>
+      adjusted?.key === selection
+        ? adjusted.overlaps
+        : (current?.overlaps.map((overlap) => overlap ?? 0) ?? []),
+    [adjusted, selection, current],
+  )
+
+  // Detection reads the latest captures but only reruns when the selection, direction, or redactions change.
+  const includedRef = useRef(included)
+  useEffect(() => {
+    includedRef.current = included
+  })
+
+  useEffect(() => {
+    const captures = includedRef.current
+    if (captures.length < 2) return
+    let cancelled = false
+    const detect = async () => {
+      const sources = await Promise.all(
+        captures.map(async ({ dataUrl, width, height, redactions }) => {
+          // The same bake exports use, so nothing a capture hides ends up in the stitched image.
+          const image = await decodeImage(dataUrl)
+          return redactSource({ image, width, height }, redactions, createDocumentSurface)
+        }),
+      )
+      const found = await detectOverlaps(sources, direction)
+      if (!cancelled) setDetection({ key, sources, overlaps: found })
+    }
+    detect().catch((error) => {
+      console.warn('Could not compare the captures', error)
+      // No sources marks the failure, so the panel stops waiting.
+      if (!cancelled) setDetection({ key, sources: [], overlaps: [] })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [key, direction])
+
+  const layout = useMemo(
+    () =>
+      current && current.sources.length > 1
+        ? getStitchLayout(current.sources, { direction, overlaps, ending, maxLength })
+        : null,
+    [current, direction, overlaps, ending, maxLength],
+  )
+
+  useEffect(() => {
+    const canvas = previewRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || !layout) return
+    const scale = PREVIEW_CROSS[layout.direction] / layout.cross
+    const ratio = window.devicePixelRatio || 1
+    const size = getStitchSize(layout, scale)
+    canvas.width = Math.round(size.width * ratio)
+    canvas.height = Math.round(size.height * ratio)
+    canvas.style.width = `${size.width}px`
+    canvas.style.height = `${size.height}px`
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, size.width, size.height)
+    paintStitch(context, layout, scale)
+
+    // Seams are marked so they can be checked while tuning.
+    context.strokeStyle = 'rgba(129, 140, 248, 0.9)'
+    context.setLineDash([4, 3])
+    for (const seam of layout.seams) {
+      const position = Math.round(seam * scale) + 0.5
+      context.beginPath()
+      if (layout.direction === 'vertical') {
+        context.moveTo(0, position)
+        context.lineTo(size.width, position)
+      } else {
+        context.moveTo(position, 0)
+        context.lineTo(position, size.height)
+      }
+      context.stroke()
+    }
+  }, [layout])
+
+  const move = (id: string, step: -1 | 1) => {
+    const ids = ordered.map((image) => image.id)
+    const index = ids.indexOf(id)
+    const target = index + step
+    if (target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    setOrder(ids)
+  }
+
+  const togglePicked = (id: string, checked: boolean) => {
+    setPicked((previous) => {
+      const ids = previous ?? ordered.map((image) => image.id)
+      return checked ? [...ids, id] : ids.filter((candidate) => candidate !== id)
+    })
+  }
+
+  // The result joins the queue unticked, so the next stitch doesn't pick it up by accident.
+  const stitch = () => {
+    if (!layout) return
+    setPicked(included.map((image) => image.id))
+    onStitch(layout, included[0].name)
+  }
+
+  const setOverlap = (seam: number, overlap: number) => {
+    setAdjusted({
+      key: selection,
+      overlaps: overlaps.map((value, index) => (index === seam ? overlap : value)),
+    })
+  }
+
+  return (
+    <SectionCard
+      title="Stitch"
+      description="Join overlapping captures of a scrolling page into one long screenshot."
+      action={
+        adjusted?.key === selection ? (
+          <button
+            type="button"
+            onClick={() => setAdjusted(null)}
+            className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+          >
+            Reset seams
+          </button>
+        ) : null
+      }
+    >
+      {images.length < 2 ? (
+        <p className="text-xs text-slate-400">
+          Add two or more overlapping captures to the queue, in the order they were taken.
+        </p>
+      ) : (
+        <>
+          <ol className="space-y-2">
+            {ordered.map((image, index) => {
+              const isIncluded = picked?.includes(image.id) ?? true
+              return (
+                <li
+                  key={image.id}
+                  className={clsx(
+                    'flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 p-3 text-sm',
+                    !isIncluded && 'opacity-50',
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    checked={isIncluded}
+                    onChange={(event) => togglePicked(image.id, event.target.checked)}
+                    aria-label={`Stitch ${image.name}`}
+                    className="h-4 w-4 rounded border-white/20 bg-slate-900 text-primary-400 focus:ring-primary-400"
+                  />
+                  <img
+                    src={image.dataUrl}
+                    alt=""
+                    className="h-10 w-14 shrink-0 rounded-lg border border-white/10 object-cover"
+                  />
+                  <span className="min-w-0 flex-1 truncate font-medium text-slate-200">{image.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => move(image.id, -1)}
+                    disabled={index === 0}
+                    aria-label="Move earlier"
+                    title="Move earlier"
+                    className={iconButtonClassName}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(image.id, 1)}
+                    disabled={index === ordered.length - 1}
+                    aria-label="Move later"
+                    title="Move later"
+                    className={iconButtonClassName}
+                  >
+                    ↓
+                  </button>
+                </li>
+              )
+            })}
+          </ol>
+
+          <SegmentedControl options={stitchDirectionOptions} value={direction} onChange={setDirection} />
+
+          {included.length < 2 ? (
+            <p className="text-xs text-slate-400">Tick at least two captures to stitch.</p>
+          ) : !current ? (
+            <p className="text-xs text-slate-400">Finding where the captures overlap…</p>
+          ) : current.sources.length === 0 ? (
+            <p className="text-xs text-rose-300/80">These captures could not be read. Try adding them again.</p>
+          ) : (
+            <>
+              {overlaps.map((overlap, seam) => {
+                const pair = `${included[seam].name} and ${included[seam + 1].name}`
+                return (
+                  <SliderControl
+                    key={`${selection}-${seam}`}
+                    label={`Seam ${seam + 1}`}
+                    value={overlap}
+                    min={0}
+                    max={getOverlapMax(current.sources, direction, seam)}
+                    onChange={(value) => setOverlap(seam, value)}
+                    helper={
+                      current.overlaps[seam] === null
+                        ? `No overlap found between ${pair}; set it by eye.`
+                        : `Found a ${current.overlaps[seam]}px overlap between ${pair}.`
+                    }
+                    suffix="px overlap"
+                  />
+                )
+              })}
+              <ChipGroup
+                label="Ending"
+                options={stitchEndingOptions}
+                value={ending}
+                onChange={setEnding}
+                columns={3}
+              />
+              {ending !== 'full' ? (
+                <SliderControl
+                  label="Max length"
+                  value={maxLength}
+                  min={STITCH_LENGTH_MIN}
+                  max={STITCH_LENGTH_MAX}
+                  step={10}
+                  onChange={setMaxLength}
+                  helper={
+                    direction === 'vertical'
+                      ? 'How tall the result may get before it is cut, relative to its width.'
+                      : 'How wide the result may get before it is cut, relative to its height.'
+                  }
+                  suffix="%"
+                />
+              ) : null}
+              <div className="max-h-80 overflow-auto rounded-2xl border border-white/10 bg-slate-950/60 p-3">
+                <canvas ref={previewRef} className="mx-auto block" aria-label="Stitched preview" />
+              </div>
+              <button
+                type="button"
+                onClick={stitch}
+                disabled={disabled || !layout}
+                className="w-full rounded-2xl border border-primary-300/60 bg-primary-400/20 py-2.5 text-sm font-semibold text-white transition hover:bg-primary-400/30 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Stitch {included.length} captures
+              </button>
+            </>
+          )}
+          <p className="text-xs text-slate-400">
+            The stitched image joins the queue and is framed like any other. Redactions are baked in, but
+            annotations stay on the original captures, so add them to the result afterwards.
+          </p>
+        </>
+      )}
+    </SectionCard>
+  )
+}
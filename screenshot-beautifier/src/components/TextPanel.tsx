@@ -0,0 +1,148 @@
+import { ChipGroup, ColorControl, SectionCard, SegmentedControl, SliderControl, TextControl } from './controls'
+import { TEXT_FONT_WEIGHTS, textFonts } from '../lib/fonts'
+import type { Settings, TextAlign, TextPlacement } from '../settings'
+
+interface TextPanelProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+}
+
+const placementOptions: { id: TextPlacement; label: string }[] = [
+  { id: 'above', label: 'Above' },
+  { id: 'below', label: 'Below' },
+  { id: 'left', label: 'Left' },
+  { id: 'right', label: 'Right' },
+]
+
+const alignOptions: { id: TextAlign; label: string }[] = [
+  { id: 'left', label: 'Left' },
+  { id: 'center', label: 'Center' },
+  { id: 'right', label: 'Right' },
+]
+
+const weightLabels: Record<number, string> = {
+  400: 'Regular',
+  500: 'Medium',
+  600: 'Semibold',
+  700: 'Bold',
+}
+
+const weightOptions = TEXT_FONT_WEIGHTS.map((weight) => ({
+  id: weight,
+  label: weightLabels[weight] ?? String(weight),
+}))
+
+export const TextPanel = ({ settings, onChange }: TextPanelProps) => {
+  const hasText = settings.headline.trim() !== '' || settings.caption.trim() !== ''
+
+  return (
+    <SectionCard
+      title="Text"
+      description="Add a headline and caption around the frame."
+      action={
+        hasText ? (
+          <button
+            type="button"
+            onClick={() => onChange({ headline: '', caption: '' })}
+            className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+          >
+            Clear
+          </button>
+        ) : null
+      }
+    >
+      <TextControl
+        label="Headline"
+        value={settings.headline}
+        maxLength={120}
+        placeholder="Ship faster with Canvas Studio"
+        onChange={(value) => onChange({ headline: value }, 'headline')}
+      />
+      <TextControl
+        label="Caption"
+        value={settings.caption}
+        maxLength={240}
+        placeholder="A short line of supporting copy"
+        onChange={(value) => onChange({ caption: value }, 'caption')}
+      />
+
+      {hasText ? (
+        <>
+          <ChipGroup
+            label="Placement"
+            options={placementOptions}
+            value={settings.textPlacement}
+            onChange={(textPlacement) => onChange({ textPlacement })}
+          />
+          <ChipGroup
+            label="Alignment"
+            options={alignOptions}
+            value={settings.textAlign}
+            onChange={(textAlign) => onChange({ textAlign })}
+            columns={3}
+          />
+          <SegmentedControl
+            options={textFonts}
+            value={settings.textFont}
+            onChange={(textFont) => onChange({ textFont })}
+          />
+          <SliderControl
+            label="Headline size"
+            value={settings.headlineSize}
+            min={24}
+            max={160}
+            onChange={(value) => onChange({ headlineSize: value }, 'headlineSize')}
+            suffix="px"
+          />
+          <ChipGroup
+            label="Headline weight"
+            options={weightOptions}
+            value={settings.headlineWeight}
+            onChange={(headlineWeight) => onChange({ headlineWeight })}
+          />
+          <ColorControl
+            label="Headline color"
+            value={settings.headlineColor}
+            onChange={(value) => onChange({ headlineColor: value }, 'headlineColor')}
+          />
+          <SliderControl
+            label="Caption size"
+            value={settings.captionSize}
+            min={12}
+            max={72}
+            onChange={(value) => onChange({ captionSize: value }, 'captionSize')}
+            suffix="px"
+          />
+          <ChipGroup
+            label="Caption weight"
+            options={weightOptions}
+            value={settings.captionWeight}
+            onChange={(captionWeight) => onChange({ captionWeight })}
+          />
+          <ColorControl
+            label="Caption color"
+            value={settings.captionColor}
+            onChange={(value) => onChange({ captionColor: value }, 'captionColor')}
+          />
+          <SliderControl
+            label="Max width"
+            value={settings.textMaxWidth}
+            min={20}
+            max={100}
+            onChange={(value) => onChange({ textMaxWidth: value }, 'textMaxWidth')}
+            helper="Share of the canvas the text may span before wrapping."
+            suffix="%"
+          />
+          <SliderControl
+            label="Gap to frame"
+            value={settings.textGap}
+            min={0}
+            max={160}
+            onChange={(value) => onChange({ textGap: value }, 'textGap')}
+            suffix="px"
+          />
+        </>
+      ) : null}
+    </SectionCard>
+  )
+}
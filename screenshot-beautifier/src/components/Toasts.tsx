@@ -0,0 +1,64 @@
+import clsx from 'clsx'
+import type { Toast, ToastTone } from '../hooks/useToasts'
+
+interface ToastsProps {
+  toasts: Toast[]
+  onDismiss: (id: string) => void
+}
+
+const toneStyles: Record<ToastTone, string> = {
+  info: 'border-white/15 bg-slate-900/95',
+  success: 'border-emerald-400/40 bg-emerald-950/90',
+  warning: 'border-amber-400/40 bg-amber-950/90',
+  error: 'border-rose-400/50 bg-rose-950/90',
+}
+
+const toneIcons: Record<ToastTone, string> = {
+  info: 'ℹ',
+  success: '✓',
+  warning: '!',
+  error: '✕',
+}
+
+/** Non-blocking notices stacked in the corner; errors are announced assertively. */
+export const Toasts = ({ toasts, onDismiss }: ToastsProps) => (
+  <div className="pointer-events-none fixed bottom-6 right-6 z-[60] flex w-full max-w-sm flex-col gap-3">
+    {toasts.map((toast) => (
+      <div
+        key={toast.id}
+        role={toast.tone === 'error' ? 'alert' : 'status'}
+        className={clsx(
+          'pointer-events-auto flex items-start gap-3 rounded-2xl border p-4 text-sm text-slate-100 shadow-[0_24px_60px_-20px_rgba(15,23,42,0.9)] backdrop-blur-xl',
+          toneStyles[toast.tone],
+        )}
+      >
+        <span aria-hidden="true" className="mt-0.5 w-4 shrink-0 text-center text-xs font-bold text-white/70">
+          {toneIcons[toast.tone]}
+        </span>
+        <p className="min-w-0 flex-1 whitespace-pre-line">{toast.message}</p>
+        <div className="flex shrink-0 items-center gap-2">
+          {toast.action ? (
+            <button
+              type="button"
+              onClick={() => {
+                onDismiss(toast.id)
+                toast.action?.run()
+              }}
+              className="rounded-lg border border-white/20 px-2 py-1 text-xs font-semibold text-white transition hover:border-white/40 hover:bg-white/10"
+            >
+              {toast.action.label}
+            </button>
+          ) : null}
+          <button
+            type="button"
+            onClick={() => onDismiss(toast.id)}
+            aria-label="Dismiss"
+            className="text-xs text-white/60 transition hover:text-white"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+    ))}
+  </div>
+)
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react'
+import { useElementSize } from '../hooks/useElementSize'
+import { loadTextFont } from '../lib/fonts'
+import { decodeImage } from '../lib/images'
+import type { RenderSource } from '../lib/renderSurface'
+import { paintWatermark } from '../lib/watermark'
+import type { Settings } from '../settings'
+
+interface WatermarkLayerProps {
+  settings: Settings
+}
+
+/** Paints the watermark over the preview canvas with the exporter's own painter. */
+export const WatermarkLayer = ({ settings }: WatermarkLayerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const size = useElementSize(canvasRef)
+  const [logo, setLogo] = useState<{ url: string; source: RenderSource } | null>(null)
+  const [fontReady, setFontReady] = useState(0)
+  const { watermarkLogo, watermarkText, textFont } = settings
+
+  useEffect(() => {
+    if (!watermarkLogo) return
+    let cancelled = false
+    decodeImage(watermarkLogo)
+      .then((image) => {
+        if (cancelled) return
+        setLogo({
+          url: watermarkLogo,
+          source: { image, width: image.naturalWidth, height: image.naturalHeight },
+        })
+      })
+      .catch((error) => console.warn('Could not decode the watermark logo', error))
+    return () => {
+      cancelled = true
+    }
+  }, [watermarkLogo])
+
+  // Text measured before the font arrives would be laid out in the fallback, so repaint once it has.
+  useEffect(() => {
+    if (!watermarkText.trim()) return
+    let cancelled = false
+    loadTextFont(textFont)
+      .then(() => {
+        if (!cancelled) setFontReady((count) => count + 1)
+      })
+      .catch((error) => console.warn('Could not load the watermark font', error))
+    return () => {
+      cancelled = true
+    }
+  }, [watermarkText, textFont])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) return
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * ratio)
+    canvas.height = Math.round(size.height * ratio)
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, size.width, size.height)
+    paintWatermark(context, settings, size, logo?.url === watermarkLogo ? logo.source : null)
+  }, [settings, size, logo, watermarkLogo, fontReady])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="pointer-events-none absolute inset-0 z-20 h-full w-full"
+      aria-hidden="true"
+    />
+  )
+}
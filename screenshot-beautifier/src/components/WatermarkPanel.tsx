@@ -0,0 +1,183 @@
+import { useRef } from 'react'
+import type { ChangeEvent } from 'react'
+import { ChipGroup, ColorControl, SectionCard, SliderControl, TextControl } from './controls'
+import { ACCEPTED_IMAGE_TYPES } from '../lib/imageInput'
+import {
+  WATERMARK_MARGIN_MAX,
+  WATERMARK_OPACITY_MIN,
+  WATERMARK_SIZE_MAX,
+  WATERMARK_SIZE_MIN,
+  WATERMARK_TEXT_MAX_LENGTH,
+  WATERMARK_TEXT_SIZE_MAX,
+  WATERMARK_TEXT_SIZE_MIN,
+  hasWatermark,
+  watermarkPositionOptions,
+} from '../lib/watermark'
+import type { Settings } from '../settings'
+
+interface WatermarkPanelProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>, coalesceKey?: string) => void
+  onLogoUpload: (file: File) => void
+}
+
+export const WatermarkPanel = ({ settings, onChange, onLogoUpload }: WatermarkPanelProps) => {
+  const logoInputRef = useRef<HTMLInputElement | null>(null)
+  const hasLogo = settings.watermarkLogo !== ''
+  const tiled = settings.watermarkPosition === 'tiled'
+
+  const handleLogoChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onLogoUpload(file)
+    }
+    event.target.value = ''
+  }
+
+  return (
+    <SectionCard
+      title="Watermark"
+      description="Stamp your logo or a credit line on every export."
+      action={
+        hasWatermark(settings) ? (
+          <button
+            type="button"
+            onClick={() => onChange({ watermarkLogo: '', watermarkText: '' })}
+            className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+          >
+            Remove
+          </button>
+        ) : null
+      }
+    >
+      <input
+        ref={logoInputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES}
+        className="hidden"
+        onChange={handleLogoChange}
+      />
+      <div className="flex items-center gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
+        {hasLogo ? (
+          <img
+            src={settings.watermarkLogo}
+            alt=""
+            className="h-14 w-20 shrink-0 rounded-lg border border-white/10 bg-slate-900/60 object-contain p-2"
+          />
+        ) : (
+          <span className="h-14 w-20 shrink-0 rounded-lg border border-dashed border-white/20" />
+        )}
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="truncate text-sm font-medium text-slate-200">{hasLogo ? 'Logo' : 'No logo yet'}</p>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => logoInputRef.current?.click()}
+              className="text-xs font-semibold text-primary-200 transition hover:text-primary-100"
+            >
+              {hasLogo ? 'Replace' : 'Upload logo'}
+            </button>
+            {hasLogo ? (
+              <button
+                type="button"
+                onClick={() => onChange({ watermarkLogo: '' })}
+                className="text-xs font-semibold text-slate-400 transition hover:text-white"
+              >
+                Remove
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+      <TextControl
+        label="Credit text"
+        value={settings.watermarkText}
+        placeholder="© Your Company"
+        maxLength={WATERMARK_TEXT_MAX_LENGTH}
+        onChange={(value) => onChange({ watermarkText: value }, 'watermarkText')}
+        helper="Shown beside the logo, or on its own."
+      />
+      {hasWatermark(settings) ? (
+        <>
+          <ChipGroup
+            label="Position"
+            options={watermarkPositionOptions}
+            value={settings.watermarkPosition}
+            onChange={(watermarkPosition) => onChange({ watermarkPosition })}
+            columns={3}
+          />
+          {settings.watermarkPosition === 'custom' ? (
+            <>
+              <SliderControl
+                label="Horizontal position"
+                value={settings.watermarkX}
+                min={0}
+                max={100}
+                onChange={(value) => onChange({ watermarkX: value }, 'watermarkX')}
+                suffix="%"
+              />
+              <SliderControl
+                label="Vertical position"
+                value={settings.watermarkY}
+                min={0}
+                max={100}
+                onChange={(value) => onChange({ watermarkY: value }, 'watermarkY')}
+                suffix="%"
+              />
+            </>
+          ) : null}
+          {hasLogo ? (
+            <SliderControl
+              label="Logo size"
+              value={settings.watermarkSize}
+              min={WATERMARK_SIZE_MIN}
+              max={WATERMARK_SIZE_MAX}
+              onChange={(value) => onChange({ watermarkSize: value }, 'watermarkSize')}
+              suffix="px"
+            />
+          ) : null}
+          {settings.watermarkText.trim() ? (
+            <SliderControl
+              label="Text size"
+              value={settings.watermarkTextSize}
+              min={WATERMARK_TEXT_SIZE_MIN}
+              max={WATERMARK_TEXT_SIZE_MAX}
+              onChange={(value) => onChange({ watermarkTextSize: value }, 'watermarkTextSize')}
+              suffix="px"
+            />
+          ) : null}
+          <SliderControl
+            label="Watermark opacity"
+            value={settings.watermarkOpacity}
+            min={WATERMARK_OPACITY_MIN}
+            max={100}
+            onChange={(value) => onChange({ watermarkOpacity: value }, 'watermarkOpacity')}
+            suffix="%"
+          />
+          {settings.watermarkPosition !== 'custom' ? (
+            <SliderControl
+              label={tiled ? 'Tile spacing' : 'Margin'}
+              value={settings.watermarkMargin}
+              min={0}
+              max={WATERMARK_MARGIN_MAX}
+              onChange={(value) => onChange({ watermarkMargin: value }, 'watermarkMargin')}
+              helper={tiled ? 'Space between repeated marks.' : 'Distance from the canvas edges.'}
+              suffix="px"
+            />
+          ) : null}
+          {settings.watermarkText.trim() ? (
+            <ColorControl
+              label="Text color"
+              value={settings.watermarkColor}
+              onChange={(color) => onChange({ watermarkColor: color }, 'watermarkColor')}
+            />
+          ) : null}
+        </>
+      ) : null}
+      <p className="text-xs text-slate-400">
+        The watermark survives “Reset styling” and is saved with your styles. Shared links carry the
+        text but not the logo.
+      </p>
+    </SectionCard>
+  )
+}
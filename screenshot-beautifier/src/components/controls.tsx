@@ -0,0 +1,310 @@
+import { useState } from 'react'
+import type { CSSProperties, ReactNode } from 'react'
+import clsx from 'clsx'
+import { getNudgeDirection, nudgeValue } from '../lib/shortcuts'
+
+interface SectionCardProps {
+  title: string
+  description?: string
+  action?: ReactNode
+  children: ReactNode
+}
+
+export const SectionCard = ({ title, description, action, children }: SectionCardProps) => (
+  <section
+    data-palette-section={title}
+    className="rounded-3xl border border-white/10 bg-slate-900/60 p-6 shadow-[0_24px_60px_-40px_rgba(15,23,42,0.9)] backdrop-blur-xl"
+  >
+    <header className="mb-5 flex items-start justify-between gap-4">
+      <div className="space-y-1">
+        <h2 className="text-base font-semibold text-white">{title}</h2>
+        {description ? <p className="text-sm text-slate-400">{description}</p> : null}
+      </div>
+      {action ? <div>{action}</div> : null}
+    </header>
+    <div className="space-y-4">{children}</div>
+  </section>
+)
+
+interface SliderControlProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  step?: number
+  onChange: (value: number) => void
+  helper?: string
+  suffix?: string
+}
+
+export const SliderControl = ({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  onChange,
+  helper,
+  suffix,
+}: SliderControlProps) => (
+  <label data-palette-label={label} className="block space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
+    <div className="flex items-center justify-between gap-3 text-sm font-medium text-slate-200">
+      <span>{label}</span>
+      <span className="text-xs font-semibold text-slate-400">
+        {Math.round(value)}
+        {suffix}
+      </span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+      onKeyDown={(event) => {
+        // Plain arrows step natively; Shift makes them coarse.
+        const direction = getNudgeDirection(event.key)
+        if (!direction || !event.shiftKey || event.altKey || event.metaKey || event.ctrlKey) return
+        event.preventDefault()
+        onChange(nudgeValue(value, { min, max, step }, direction, true))
+      }}
+      className="h-2 w-full cursor-pointer appearance-none rounded-full bg-slate-600 accent-primary-400"
+    />
+    {helper ? <p className="text-xs text-slate-400">{helper}</p> : null}
+  </label>
+)
+
+interface NumberControlProps {
+  label: string
+  value: number
+  min: number
+  max: number
+  onChange: (value: number) => void
+  suffix?: string
+}
+
+export const NumberControl = ({ label, value, min, max, onChange, suffix }: NumberControlProps) => {
+  // Keep the raw text while typing so intermediate values aren't clamped mid-keystroke.
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== '') {
+      onChange(Number(draft))
+    }
+    setDraft(null)
+  }
+
+  return (
+    <label
+      data-palette-label={label}
+      className="block space-y-2 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl"
+    >
+      <span className="block text-sm font-medium text-slate-200">{label}</span>
+      <span className="flex items-center gap-2">
+        <input
+          type="number"
+          min={min}
+          max={max}
+          value={draft ?? value}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.currentTarget.blur()
+            }
+          }}
+          className="w-full rounded-xl border border-white/15 bg-slate-950/60 px-3 py-2 text-sm text-white focus:border-primary-400 focus:ring-primary-400"
+        />
+        {suffix ? <span className="text-xs font-semibold text-slate-400">{suffix}</span> : null}
+      </span>
+    </label>
+  )
+}
+
+interface TextControlProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+  maxLength?: number
+  helper?: string
+}
+
+export const TextControl = ({ label, value, onChange, placeholder, maxLength, helper }: TextControlProps) => (
+  <label data-palette-label={label} className="block space-y-2 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
+    <span className="block text-sm font-medium text-slate-200">{label}</span>
+    <input
+      type="text"
+      value={value}
+      placeholder={placeholder}
+      maxLength={maxLength}
+      onChange={(event) => onChange(event.target.value)}
+      className="w-full rounded-xl border border-white/15 bg-slate-950/60 px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-primary-400 focus:ring-primary-400"
+    />
+    {helper ? <p className="text-xs text-slate-400">{helper}</p> : null}
+  </label>
+)
+
+interface ColorControlProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  helper?: string
+}
+
+export const ColorControl = ({ label, value, onChange, helper }: ColorControlProps) => (
+  <label data-palette-label={label} className="flex items-center justify-between gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
+    <div className="space-y-1">
+      <span className="block text-sm font-medium text-slate-200">{label}</span>
+      {helper ? <span className="block text-xs text-slate-400">{helper}</span> : null}
+    </div>
+    <input
+      type="color"
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      className="h-10 w-14 cursor-pointer rounded-md border border-white/20 bg-transparent p-0"
+    />
+  </label>
+)
+
+interface ToggleControlProps {
+  label: string
+  description?: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+}
+
+export const ToggleControl = ({ label, description, checked, onChange }: ToggleControlProps) => (
+  <label data-palette-label={label} className="flex items-center justify-between gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-xl">
+    <div className="space-y-1">
+      <span className="block text-sm font-medium text-slate-200">{label}</span>
+      {description ? <span className="block text-xs text-slate-400">{description}</span> : null}
+    </div>
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      onClick={() => onChange(!checked)}
+      className={clsx(
+        'relative flex h-6 w-11 items-center rounded-full border transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-300',
+        checked
+          ? 'border-primary-300 bg-primary-500/80'
+          : 'border-white/15 bg-slate-700/60',
+      )}
+    >
+      <span
+        className={clsx(
+          'inline-block h-5 w-5 translate-x-0.5 rounded-full bg-white shadow transition',
+          checked && 'translate-x-[22px]',
+        )}
+      />
+    </button>
+  </label>
+)
+
+export interface SegmentedControlOption<T extends string> {
+  id: T
+  label: string
+  description: string
+}
+
+interface SegmentedControlProps<T extends string> {
+  options: SegmentedControlOption<T>[]
+  value: T
+  onChange: (value: T) => void
+}
+
+export function SegmentedControl<T extends string>({ options, value, onChange }: SegmentedControlProps<T>) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {options.map((option) => (
+        <button
+          key={option.id}
+          type="button"
+          data-palette-label={option.label}
+          onClick={() => onChange(option.id)}
+          className={clsx(
+            'rounded-2xl border p-4 text-left transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400',
+            value === option.id
+              ? 'border-primary-400/75 bg-primary-400/10 text-white shadow-glow-xl'
+              : 'border-white/10 bg-white/5 text-slate-300 hover:border-white/20 hover:bg-white/10',
+          )}
+        >
+          <span className="block text-sm font-semibold">{option.label}</span>
+          <span className="mt-1 block text-xs text-slate-400">{option.description}</span>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+interface ChipGroupProps<T extends string | number> {
+  label: string
+  options: { id: T; label: string }[]
+  value: T
+  onChange: (value: T) => void
+  columns?: 2 | 3 | 4
+}
+
+/** A compact single-choice row for short options that don't need descriptions. */
+export function ChipGroup<T extends string | number>({
+  label,
+  options,
+  value,
+  onChange,
+  columns = 4,
+}: ChipGroupProps<T>) {
+  return (
+    <div data-palette-label={label} className="space-y-2">
+      <p className="text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">{label}</p>
+      <div
+        className={clsx(
+          'grid gap-2',
+          columns === 2 ? 'grid-cols-2' : columns === 3 ? 'grid-cols-3' : 'grid-cols-4',
+        )}
+      >
+        {options.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => onChange(option.id)}
+            className={clsx(
+              'rounded-xl border px-2 py-2 text-xs font-semibold transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400',
+              value === option.id
+                ? 'border-primary-400/75 bg-primary-400/10 text-white shadow-glow-xl'
+                : 'border-white/10 bg-white/5 text-slate-300 hover:border-white/20 hover:bg-white/10',
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface PresetSwatchProps {
+  label: string
+  active: boolean
+  style: CSSProperties
+  onClick: () => void
+}
+
+export const PresetSwatch = ({ label, active, style, onClick }: PresetSwatchProps) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={clsx(
+      'group flex flex-col gap-3 rounded-2xl border p-4 text-left transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-primary-400',
+      active
+        ? 'border-primary-400/75 bg-primary-400/10 text-white shadow-glow-xl'
+        : 'border-white/10 bg-white/5 text-slate-300 hover:border-white/20 hover:bg-white/10',
+    )}
+  >
+    <span className="block h-16 w-full rounded-xl border border-white/5" style={style} />
+    <span className="text-xs font-semibold uppercase tracking-widest text-white/80">
+      {label}
+    </span>
+  </button>
+)
@@ -0,0 +1,67 @@
+/**
+ * The framework-free core: the styling model, its presets and math, and the canvas
+ * renderer. Nothing here depends on React or a document, so the app, the Node API, and
+ * the CLI all style and draw compositions the same way.
+ */
+
+export {
+  DEFAULT_SETTINGS,
+  SETTINGS_VERSION,
+  areSettingsEqual,
+  migrateSettings,
+  sanitizeSettings,
+} from '../settings'
+export type { BackgroundType, Settings, TextAlign, TextPlacement } from '../settings'
+export {
+  backgroundPresets,
+  findBackgroundPresetIndex,
+  getBackgroundPreset,
+  readSettingsFile,
+  resolveSettings,
+  StyleFileError,
+} from './styles'
+export type { BackgroundPreset } from './styles'
+export { gradientPresets, solidPresets } from '../lib/backgrounds'
+export type { GradientKind, GradientStop, PatternKind } from '../lib/backgrounds'
+export { frameDefinitions } from '../lib/frames'
+export type { FrameAppearance, FrameType } from '../lib/frames'
+export { canvasSizePresets } from '../lib/canvasSize'
+export { textFonts } from '../lib/fonts'
+export type { FontSource, TextFont } from '../lib/fonts'
+export type { Annotation, AnnotationStyle } from '../lib/annotations'
+export { getBoxShadowCss, getPlateShadows } from '../lib/atmosphere'
+export type { DropShadow } from '../lib/atmosphere'
+export {
+  EFFECTS_MAX,
+  createEffect,
+  effectDefinitions,
+  getEffectDefinition,
+  getNoiseOpacity,
+  getVignetteOpacity,
+  insertEffect,
+  paintEffects,
+} from '../lib/effects'
+export type {
+  EffectBlend,
+  EffectDefinition,
+  EffectLayer,
+  EffectParam,
+  EffectTarget,
+  EffectType,
+  EffectValue,
+} from '../lib/effects'
+export { shadowPresets } from '../lib/shadows'
+export type { GlowSource, ShadowLayer, ShadowSettings } from '../lib/shadows'
+export { hasWatermark, paintWatermark, watermarkPositionOptions } from '../lib/watermark'
+export type { WatermarkPosition, WatermarkSettings } from '../lib/watermark'
+export { DEFAULT_AUTO_WIDTH, computeCompositionLayout } from '../lib/renderLayout'
+export type { CompositionLayout } from '../lib/renderLayout'
+export {
+  EXPORT_MATTE,
+  MAX_RENDER_PIXELS,
+  MAX_RENDER_SIDE,
+  getRenderScale,
+  renderComposition,
+} from '../lib/renderer'
+export type { PlateMotion, RenderOptions, RenderResult, RenderScene } from '../lib/renderer'
+export type { CreateSurface, RenderSource, RenderSurface } from '../lib/renderSurface'
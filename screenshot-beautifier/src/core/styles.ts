@@ -0,0 +1,87 @@
+import { getGradientPresetSettings, gradientPresets, solidPresets } from '../lib/backgrounds'
+import { PRESET_PACK_FORMAT, normalizePresetName, readPresetPack } from '../lib/presetLibrary'
+import { DEFAULT_SETTINGS, isRecord, sanitizeSettings } from '../settings'
+import type { Settings } from '../settings'
+
+/** A named backdrop from the Background panel, as the settings it applies. */
+export interface BackgroundPreset {
+  id: string
+  label: string
+  settings: Partial<Settings>
+}
+
+export const backgroundPresets: BackgroundPreset[] = [
+  ...gradientPresets.map((preset) => ({
+    id: preset.id,
+    label: preset.label,
+    settings: { backgroundType: 'gradient' as const, ...getGradientPresetSettings(preset) },
+  })),
+  ...solidPresets.map((preset) => ({
+    id: preset.id,
+    label: preset.label,
+    settings: { backgroundType: 'solid' as const, backgroundColor: preset.color },
+  })),
+]
+
+export class StyleFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StyleFileError'
+  }
+}
+
+export const getBackgroundPreset = (id: string) =>
+  backgroundPresets.find((preset) => preset.id === id.trim().toLowerCase()) ?? null
+
+/** Which background preset `settings` currently shows, or -1 for a custom backdrop. */
+export const findBackgroundPresetIndex = (settings: Settings) =>
+  backgroundPresets.findIndex((preset) =>
+    Object.entries(preset.settings).every(
+      ([key, value]) => JSON.stringify(settings[key as keyof Settings]) === JSON.stringify(value),
+    ),
+  )
+
+/**
+ * Fills in and validates settings from outside the app, the same way shared links and
+ * preset packs are read: unknown keys are dropped and invalid ones fall back to the defaults.
+ */
+export const resolveSettings = (settings: Partial<Settings> = {}) =>
+  sanitizeSettings({ ...DEFAULT_SETTINGS, ...settings })
+
+/**
+ * Reads a settings JSON file: a bare settings object, `{ version, settings }`, or a preset
+ * pack exported from the Saved styles library, in which case `styleName` picks the style
+ * (the first one when omitted). Older versions are migrated like any other import.
+ */
+export const readSettingsFile = (text: string, styleName?: string) => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new StyleFileError('The settings file is not valid JSON.')
+  }
+  if (!isRecord(parsed)) {
+    throw new StyleFileError('The settings file must contain a JSON object.')
+  }
+
+  if (parsed.format === PRESET_PACK_FORMAT) {
+    const styles = readPresetPack(parsed)
+    const wanted = styleName ? normalizePresetName(styleName).toLowerCase() : null
+    const style = wanted ? styles.find((preset) => preset.name.toLowerCase() === wanted) : styles[0]
+    if (!style) {
+      throw new StyleFileError(
+        styles.length > 0
+          ? `No style named “${styleName}”. The pack has: ${styles.map((preset) => preset.name).join(', ')}.`
+          : 'The preset pack has no styles.',
+      )
+    }
+    return { settings: style.settings, invalidKeys: [] as (keyof Settings)[] }
+  }
+  if (styleName) {
+    throw new StyleFileError('Only preset packs contain named styles.')
+  }
+  if (typeof parsed.version === 'number' && isRecord(parsed.settings)) {
+    return sanitizeSettings(parsed.settings, parsed.version)
+  }
+  return sanitizeSettings(parsed)
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+import type { RefObject } from 'react'
+import type { Size } from '../lib/canvasSize'
+
+export const useElementSize = (ref: RefObject<HTMLElement | null>) => {
+  const [size, setSize] = useState<Size>({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const element = ref.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      setSize((previous) =>
+        previous.width === width && previous.height === height ? previous : { width, height },
+      )
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref])
+
+  return size
+}
@@ -0,0 +1,87 @@
+import { useCallback, useState } from 'react'
+
+interface HistoryState<T> {
+  past: T[]
+  present: T
+  future: T[]
+  lastKey: string | null
+  lastAt: number
+}
+
+export interface HistoryUpdateOptions {
+  /**
+   * Consecutive updates sharing a key within `COALESCE_WINDOW_MS` collapse into one
+   * step, so a slider drag undoes in one go instead of pixel by pixel.
+   */
+  coalesceKey?: string
+}
+
+const HISTORY_LIMIT = 100
+const COALESCE_WINDOW_MS = 600
+
+export const useHistory = <T>(initial: () => T) => {
+  const [state, setState] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: initial(),
+    future: [],
+    lastKey: null,
+    lastAt: 0,
+  }))
+
+  const set = useCallback((update: T | ((previous: T) => T), options: HistoryUpdateOptions = {}) => {
+    const now = Date.now()
+    setState((previous) => {
+      const next =
+        typeof update === 'function' ? (update as (value: T) => T)(previous.present) : update
+      if (Object.is(next, previous.present)) return previous
+
+      const coalesce =
+        options.coalesceKey !== undefined &&
+        options.coalesceKey === previous.lastKey &&
+        now - previous.lastAt < COALESCE_WINDOW_MS
+
+      return {
+        past: coalesce ? previous.past : [...previous.past, previous.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastKey: options.coalesceKey ?? null,
+        lastAt: now,
+      }
+    })
+  }, [])
+
+  const undo = useCallback(() => {
+    setState((previous) => {
+      if (previous.past.length === 0) return previous
+      return {
+        past: previous.past.slice(0, -1),
+        present: previous.past[previous.past.length - 1],
+        future: [previous.present, ...previous.future],
+        lastKey: null,
+        lastAt: 0,
+      }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setState((previous) => {
+      if (previous.future.length === 0) return previous
+      return {
+        past: [...previous.past, previous.present],
+        present: previous.future[0],
+        future: previous.future.slice(1),
+        lastKey: null,
+        lastAt: 0,
+      }
+    })
+  }, [])
+
+  return {
+    present: state.present,
+    set,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  }
+}
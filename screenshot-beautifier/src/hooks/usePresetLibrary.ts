@@ -0,0 +1,62 @@
+import { useState } from 'react'
+import { createId } from '../lib/id'
+import {
+  loadStoredPresets,
+  normalizePresetName,
+  parsePresetPack,
+  serializePresetPack,
+  storePresets,
+} from '../lib/presetLibrary'
+import type { StylePreset } from '../lib/presetLibrary'
+import type { Settings } from '../settings'
+import type { Notify } from './useToasts'
+
+export const usePresetLibrary = (notify: Notify) => {
+  const [presets, setPresets] = useState<StylePreset[]>(loadStoredPresets)
+
+  const commit = (next: StylePreset[]) => {
+    if (!storePresets(next)) {
+      notify({
+        tone: 'error',
+        message: 'Presets could not be saved. Browser storage may be full — delete a few presets and try again.',
+      })
+      return false
+    }
+    setPresets(next)
+    return true
+  }
+
+  const savePreset = (name: string, settings: Settings, thumbnail: string | null) =>
+    commit([
+      ...presets,
+      {
+        id: createId(),
+        name: normalizePresetName(name) || `Style ${presets.length + 1}`,
+        settings: { ...settings },
+        thumbnail,
+        createdAt: new Date().toISOString(),
+      },
+    ])
+
+  const renamePreset = (id: string, name: string) => {
+    const nextName = normalizePresetName(name)
+    if (!nextName) return false
+    return commit(presets.map((preset) => (preset.id === id ? { ...preset, name: nextName } : preset)))
+  }
+
+  const deletePreset = (id: string) => commit(presets.filter((preset) => preset.id !== id))
+
+  /** Appends every preset from a pack, re-keying any that collide with existing ids. */
+  const importPresetPack = (text: string) => {
+    const imported = parsePresetPack(text)
+    const knownIds = new Set(presets.map((preset) => preset.id))
+    const merged = imported.map((preset) =>
+      knownIds.has(preset.id) ? { ...preset, id: createId() } : preset,
+    )
+    return commit([...presets, ...merged]) ? merged.length : 0
+  }
+
+  const exportPresetPack = () => serializePresetPack(presets)
+
+  return { presets, savePreset, renamePreset, deletePreset, importPresetPack, exportPresetPack }
+}
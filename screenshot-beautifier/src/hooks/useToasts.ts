@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createId } from '../lib/id'
+
+export type ToastTone = 'info' | 'success' | 'warning' | 'error'
+
+export interface ToastAction {
+  label: string
+  run: () => void
+}
+
+export interface Toast {
+  id: string
+  tone: ToastTone
+  message: string
+  action?: ToastAction
+}
+
+export type Notify = (toast: Omit<Toast, 'id'>) => void
+
+/** Errors stay up longer, and toasts that offer an action wait until they are dismissed. */
+const TOAST_DURATION_MS: Record<ToastTone, number> = {
+  info: 5000,
+  success: 4000,
+  warning: 8000,
+  error: 10000,
+}
+const TOASTS_MAX = 4
+
+export const useToasts = () => {
+  const [toasts, setToasts] = useState<Toast[]>([])
+  const timersRef = useRef(new Map<string, number>())
+
+  const dismiss = useCallback((id: string) => {
+    window.clearTimeout(timersRef.current.get(id))
+    timersRef.current.delete(id)
+    setToasts((previous) => previous.filter((toast) => toast.id !== id))
+  }, [])
+
+  const notify = useCallback<Notify>(
+    (toast) => {
+      const id = createId()
+      setToasts((previous) => [...previous, { ...toast, id }].slice(-TOASTS_MAX))
+      if (!toast.action) {
+        timersRef.current.set(
+          id,
+          window.setTimeout(() => dismiss(id), TOAST_DURATION_MS[toast.tone]),
+        )
+      }
+    },
+    [dismiss],
+  )
+
+  useEffect(() => {
+    const timers = timersRef.current
+    return () => timers.forEach((timer) => window.clearTimeout(timer))
+  }, [])
+
+  return { toasts, notify, dismiss }
+}
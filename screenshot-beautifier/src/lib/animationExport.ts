@@ -0,0 +1,231 @@
+import { getAnimationFrame, getAnimationTimeline } from './animations'
+import type { AnimationKind } from './animations'
+import { createExportTimestamp, toSafeFileName } from './exporter'
+import type { ExportJob } from './exporter'
+import { createGifBlob, encodeGifFrame, getGifDelays } from './gif'
+import { renderImage } from './renderClient'
+import { EXPORT_MATTE } from './renderer'
+import { yieldToEventLoop } from './renderSurface'
+
+export type AnimationFormat = 'webm' | 'mp4' | 'gif'
+
+export interface AnimationOptions {
+  kind: AnimationKind
+  format: AnimationFormat
+  /** Seconds. */
+  duration: number
+  fps: number
+  /** GIFs repeat forever from the first frame; otherwise they play once and stop. */
+  loop: boolean
+  /** Plays forward then back, so the clip ends where it started. */
+  bounce: boolean
+}
+
+export interface AnimationFormatOption {
+  id: AnimationFormat
+  label: string
+  description: string
+  extension: string
+  /** Longest side of the output; GIFs stay small because every frame is stored in full. */
+  maxSide: number
+}
+
+export const animationFormats: AnimationFormatOption[] = [
+  {
+    id: 'webm',
+    label: 'WebM',
+    description: 'Sharp, small video for the web.',
+    extension: 'webm',
+    maxSide: 1920,
+  },
+  {
+    id: 'mp4',
+    label: 'MP4',
+    description: 'Video that plays everywhere.',
+    extension: 'mp4',
+    maxSide: 1920,
+  },
+  {
+    id: 'gif',
+    label: 'GIF',
+    description: 'Autoplays in chat and READMEs.',
+    extension: 'gif',
+    maxSide: 800,
+  },
+]
+
+/** Candidates per format, best first; which ones MediaRecorder can produce depends on the browser. */
+const videoMimeTypes: Record<Exclude<AnimationFormat, 'gif'>, string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4'],
+}
+
+const VIDEO_BITS_PER_SECOND = 8_000_000
+/** Share of the progress bar spent rendering frames; videos then record in real time. */
+const RENDER_SHARE = 0.75
+
+const getVideoMimeType = (format: AnimationFormat) =>
+  format === 'gif' || typeof MediaRecorder === 'undefined'
+    ? null
+    : (videoMimeTypes[format].find((type) => MediaRecorder.isTypeSupported(type)) ?? null)
+
+/** The formats this browser can export; GIF is encoded here, so it always works. */
+export const getSupportedAnimationFormats = () =>
+  animationFormats.filter((format) => format.id === 'gif' || getVideoMimeType(format.id) !== null)
+
+export const getAnimationFormat = (format: AnimationFormat) =>
+  animationFormats.find((option) => option.id === format) ?? animationFormats[0]
+
+/** Fits the rendered size within `maxSide`; video encoders want even dimensions. */
+const getOutputSize = (width: number, height: number, maxSide: number, even: boolean) => {
+  const ratio = Math.min(maxSide / Math.max(width, height), 1)
+  const round = (value: number) =>
+    even ? Math.max(Math.round(value / 2) * 2, 2) : Math.max(Math.round(value), 1)
+  return { width: round(width * ratio), height: round(height * ratio) }
+}
+
+const createOutputCanvas = (size: { width: number; height: number }) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) throw new Error('This browser could not create a canvas for the animation')
+  context.imageSmoothingQuality = 'high'
+  return { canvas, context }
+}
+
+const drawFrame = async (context: CanvasRenderingContext2D, frame: Blob) => {
+  const bitmap = await createImageBitmap(frame)
+  context.drawImage(bitmap, 0, 0, context.canvas.width, context.canvas.height)
+  bitmap.close()
+}
+
+const wait = (milliseconds: number) => new Promise<void>((resolve) => setTimeout(resolve, milliseconds))
+
+/**
+ * MediaRecorder timestamps frames by the wall clock, so the rendered frames are replayed
+ * onto a captured canvas at the real frame rate. Each frame is decoded while the previous
+ * one is on screen.
+ */
+const recordVideo = async (
+  frames: Blob[],
+  size: { width: number; height: number },
+  { fps, mimeType }: { fps: number; mimeType: string },
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal,
+) => {
+  const { canvas, context } = createOutputCanvas(size)
+  const stream = canvas.captureStream(0)
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[]
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data)
+  }
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve()
+  })
+
+  const interval = 1000 / fps
+  try {
+    await drawFrame(context, frames[0])
+    recorder.start()
+    const start = performance.now()
+    for (let index = 0; index < frames.length; index += 1) {
+      signal?.throwIfAborted()
+      if (index > 0) {
+        const next = drawFrame(context, frames[index])
+        await wait(start + index * interval - performance.now())
+        await next
+      }
+      track.requestFrame()
+      onProgress((index + 1) / frames.length)
+    }
+    // The last frame needs a frame's worth of time on screen too.
+    await wait(start + frames.length * interval - performance.now())
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop()
+    await stopped
+    stream.getTracks().forEach((streamTrack) => streamTrack.stop())
+  }
+  return new Blob(chunks, { type: mimeType.split(';')[0] })
+}
+
+/**
+ * Renders `job` as an animation: every frame goes through the still renderer with that
+ * moment's style, then is encoded as a GIF here or recorded to video with MediaRecorder.
+ * `onProgress` runs from 0 to 1; aborting `signal` stops between frames.
+ */
+export const renderAnimation = async (
+  job: ExportJob,
+  options: AnimationOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal,
+) => {
+  const format = getAnimationFormat(options.format)
+  const mimeType = getVideoMimeType(format.id)
+  if (format.id !== 'gif' && !mimeType) {
+    throw new Error(`This browser cannot record ${format.label} video`)
+  }
+
+  const { progress, order } = getAnimationTimeline(options)
+  const canvasWidth = job.settings.canvasSize === 'auto' ? job.autoWidth : job.settings.canvasWidth
+  const scale = Math.min(format.maxSide / Math.max(canvasWidth, 1), 1)
+  const renderShare = format.id === 'gif' ? 1 : RENDER_SHARE
+  const frames: Blob[] = []
+  let output: ReturnType<typeof createOutputCanvas> | null = null
+  const gifFrames: Uint8Array<ArrayBuffer>[] = []
+
+  for (const [index, value] of progress.entries()) {
+    signal?.throwIfAborted()
+    const frame = getAnimationFrame(options.kind, job.settings, value, job.image)
+    const rendered = await renderImage({
+      ...job,
+      settings: frame.settings,
+      motion: frame.motion,
+      scale,
+      transparent: false,
+      matte: EXPORT_MATTE,
+      type: 'image/jpeg',
+      quality: 0.95,
+    })
+    output ??= createOutputCanvas(
+      getOutputSize(rendered.width, rendered.height, format.maxSide, format.id !== 'gif'),
+    )
+    if (format.id === 'gif') {
+      await drawFrame(output.context, rendered.blob)
+      const { width, height } = output.canvas
+      gifFrames.push(encodeGifFrame(output.context.getImageData(0, 0, width, height)))
+    } else {
+      frames.push(rendered.blob)
+    }
+    onProgress?.(((index + 1) / progress.length) * renderShare)
+    await yieldToEventLoop()
+  }
+  if (!output) throw new Error('The animation has no frames')
+  const size = { width: output.canvas.width, height: output.canvas.height }
+
+  if (format.id === 'gif' || !mimeType) {
+    const delays = getGifDelays(order.length, options.fps)
+    const ordered = order.map((frameIndex, position) => ({
+      bytes: gifFrames[frameIndex],
+      delay: delays[position],
+    }))
+    return createGifBlob(size, ordered, options.loop)
+  }
+  return recordVideo(
+    order.map((frameIndex) => frames[frameIndex]),
+    size,
+    { fps: options.fps, mimeType },
+    (recorded) => onProgress?.(renderShare + recorded * (1 - renderShare)),
+    signal,
+  )
+}
+
+export const buildAnimationFileName = (
+  imageName: string,
+  options: Pick<AnimationOptions, 'kind' | 'format'>,
+) => {
+  const { extension } = getAnimationFormat(options.format)
+  return `${toSafeFileName(imageName)}-${options.kind}-${createExportTimestamp()}.${extension}`
+}
@@ -0,0 +1,141 @@
+import type { Size } from './canvasSize'
+import { CROP_SIZE_MIN, TILT_MAX, ZOOM_MAX, getCropRect } from './placement'
+import type { PlateMotion } from './renderer'
+import type { Settings } from '../settings'
+
+/**
+ * Animations are the style changing over time: each frame is the settings at that moment,
+ * plus a plate motion for what settings can't express, drawn by the still renderer.
+ */
+
+export type AnimationKind = 'float-in' | 'ken-burns' | 'tilt-in' | 'scroll'
+
+export interface AnimationFrame {
+  settings: Settings
+  motion: PlateMotion | null
+}
+
+export const animationKindOptions: { id: AnimationKind; label: string; description: string }[] = [
+  { id: 'float-in', label: 'Float in', description: 'The frame rises into place as its shadow spreads.' },
+  { id: 'ken-burns', label: 'Ken Burns', description: 'A slow zoom and drift across the screenshot.' },
+  { id: 'tilt-in', label: 'Tilt in', description: 'The frame swings from an angle into your tilt.' },
+  { id: 'scroll', label: 'Scroll', description: 'Scrolls a tall capture through a fixed-height frame.' },
+]
+
+export const ANIMATION_DURATION_MIN = 2
+export const ANIMATION_DURATION_MAX = 12
+export const animationFpsOptions = [10, 15, 24, 30] as const
+
+/** The end of each animation holds still for the rest of the timeline, so it lands before looping. */
+const MOTION_SHARE = 0.75
+const FLOAT_DISTANCE = 160
+const KEN_BURNS_ZOOM = 1.35
+const KEN_BURNS_PAN = 60
+const TILT_START = { tiltX: 24, tiltY: -32, tiltZ: 6 }
+/** Width to height of the window a tall capture scrolls through. */
+const SCROLL_ASPECT = 16 / 10
+const SCROLL_PAUSE = 0.12
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1)
+const lerp = (from: number, to: number, amount: number) => from + (to - from) * amount
+const easeOutCubic = (t: number) => 1 - (1 - t) ** 3
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2)
+
+type Animate = (settings: Settings, progress: number, image: Size) => AnimationFrame
+
+/** The frame lifts toward the viewer, so its shadows start tight and grow as it lands. */
+const floatIn: Animate = (settings, progress) => {
+  const eased = easeOutCubic(clamp01(progress / MOTION_SHARE))
+  return {
+    settings: {
+      ...settings,
+      shadowLayers: settings.shadowLayers.map((layer) => ({
+        ...layer,
+        distance: layer.distance * lerp(0.3, 1, eased),
+        blur: layer.blur * lerp(0.5, 1, eased),
+      })),
+    },
+    motion: { offsetY: (1 - eased) * FLOAT_DISTANCE, opacity: clamp01(eased * 1.6) },
+  }
+}
+
+/** Zooms past the style's own zoom while the pan drifts from one corner toward the other. */
+const kenBurns: Animate = (settings, progress) => {
+  const eased = easeInOutCubic(clamp01(progress / MOTION_SHARE))
+  return {
+    settings: {
+      ...settings,
+      zoom: lerp(settings.zoom, Math.min(settings.zoom * KEN_BURNS_ZOOM, ZOOM_MAX), eased),
+      panX: lerp(-KEN_BURNS_PAN, KEN_BURNS_PAN, eased),
+      panY: lerp(-KEN_BURNS_PAN / 2, KEN_BURNS_PAN / 2, eased),
+    },
+    motion: null,
+  }
+}
+
+const tiltIn: Animate = (settings, progress) => {
+  const eased = easeOutCubic(clamp01(progress / MOTION_SHARE))
+  const tilt = (key: keyof typeof TILT_START) =>
+    Math.max(Math.min(lerp(TILT_START[key], settings[key], eased), TILT_MAX), -TILT_MAX)
+  return {
+    settings: { ...settings, tiltX: tilt('tiltX'), tiltY: tilt('tiltY'), tiltZ: tilt('tiltZ') },
+    motion: { offsetY: 0, opacity: clamp01(eased * 2) },
+  }
+}
+
+/**
+ * Crops a window as wide as the style's crop and `SCROLL_ASPECT` tall, then slides it from
+ * the top of the crop to the bottom, pausing at both ends. Captures that already fit hold still.
+ */
+const scroll: Animate = (settings, progress, image) => {
+  const crop = getCropRect(settings)
+  const windowHeight = Math.max(
+    Math.min((crop.width * image.width) / SCROLL_ASPECT / Math.max(image.height, 1), crop.height),
+    CROP_SIZE_MIN,
+  )
+  const eased = easeInOutCubic(clamp01((progress - SCROLL_PAUSE) / (MOTION_SHARE - SCROLL_PAUSE)))
+  return {
+    settings: {
+      ...settings,
+      cropAspect: 'free',
+      cropHeight: windowHeight,
+      cropY: crop.y + (crop.height - windowHeight) * eased,
+    },
+    motion: null,
+  }
+}
+
+const animations: Record<AnimationKind, Animate> = {
+  'float-in': floatIn,
+  'ken-burns': kenBurns,
+  'tilt-in': tiltIn,
+  scroll,
+}
+
+/** The style and plate motion at `progress` (0–1) through the animation. */
+export const getAnimationFrame = (kind: AnimationKind, settings: Settings, progress: number, image: Size) =>
+  animations[kind](settings, clamp01(progress), image)
+
+/**
+ * The progress of each distinct frame to render, and the order they play in. Bouncing
+ * animations play forward then back over the frames already rendered, showing each turning
+ * point once; a looping bounce stops short of the first frame, since the repeat starts there.
+ */
+export const getAnimationTimeline = ({
+  duration,
+  fps,
+  loop,
+  bounce,
+}: {
+  duration: number
+  fps: number
+  loop: boolean
+  bounce: boolean
+}) => {
+  const total = Math.max(Math.round(duration * fps), 2)
+  const count = bounce ? Math.ceil(total / 2) + 1 : total
+  const progress = Array.from({ length: count }, (_, index) => index / (count - 1))
+  const forward = progress.map((_, index) => index)
+  if (!bounce) return { progress, order: forward }
+  return { progress, order: [...forward, ...forward.slice(loop ? 1 : 0, -1).reverse()] }
+}
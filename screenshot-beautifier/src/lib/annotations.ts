@@ -0,0 +1,207 @@
+import type { Size } from './canvasSize'
+
+export type AnnotationTool =
+  | 'select'
+  | 'arrow'
+  | 'rectangle'
+  | 'ellipse'
+  | 'highlighter'
+  | 'step'
+  | 'text'
+
+export type AnnotationFont = 'sans' | 'serif' | 'mono'
+
+/**
+ * Stroke and font sizes are measured in annotation units: 1/1000 of the image's long
+ * edge. That keeps marks the same visual weight on a 800px capture and a 4K one.
+ */
+export interface AnnotationStyle {
+  color: string
+  strokeWidth: number
+  fontSize: number
+  fontWeight: number
+  font: AnnotationFont
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface AnnotationBase {
+  id: string
+  style: AnnotationStyle
+}
+
+export type Annotation =
+  | (AnnotationBase & { type: 'arrow'; start: Point; end: Point })
+  | (AnnotationBase & { type: 'rectangle' | 'ellipse'; box: Box })
+  | (AnnotationBase & { type: 'highlighter'; points: Point[] })
+  | (AnnotationBase & { type: 'step'; position: Point; number: number })
+  | (AnnotationBase & { type: 'text'; position: Point; text: string })
+
+export type AnnotationHandle = 'start' | 'end' | 'corner'
+
+export const annotationTools: { id: AnnotationTool; label: string; hint: string }[] = [
+  { id: 'select', label: 'Select', hint: 'Move, resize, or delete marks.' },
+  { id: 'arrow', label: 'Arrow', hint: 'Drag from tail to tip.' },
+  { id: 'rectangle', label: 'Box', hint: 'Drag to outline an area.' },
+  { id: 'ellipse', label: 'Ellipse', hint: 'Drag to circle an area.' },
+  { id: 'highlighter', label: 'Highlight', hint: 'Paint over text to emphasize it.' },
+  { id: 'step', label: 'Step', hint: 'Click to drop numbered badges in order.' },
+  { id: 'text', label: 'Text', hint: 'Click to place a label, then edit it in the panel.' },
+]
+
+export const annotationFonts: { id: AnnotationFont; label: string; description: string; family: string }[] = [
+  { id: 'sans', label: 'Sans', description: 'Inter, clean UI labels.', family: 'Inter, ui-sans-serif, system-ui' },
+  { id: 'serif', label: 'Serif', description: 'Editorial callouts.', family: 'ui-serif, Georgia, serif' },
+  { id: 'mono', label: 'Mono', description: 'Code and values.', family: 'ui-monospace, SFMono-Regular, monospace' },
+]
+
+export const DEFAULT_ANNOTATION_STYLE: AnnotationStyle = {
+  color: '#f43f5e',
+  strokeWidth: 6,
+  fontSize: 32,
+  fontWeight: 600,
+  font: 'sans',
+}
+
+export const getAnnotationUnit = (image: Size) => Math.max(image.width, image.height) / 1000
+
+export const getFontFamily = (font: AnnotationFont) =>
+  annotationFonts.find((option) => option.id === font)?.family ?? annotationFonts[0].family
+
+export const normalizeBox = (box: Box): Box => ({
+  x: Math.min(box.x, box.x + box.width),
+  y: Math.min(box.y, box.y + box.height),
+  width: Math.abs(box.width),
+  height: Math.abs(box.height),
+})
+
+const boxFromPoints = (points: Point[]): Box => {
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+/** Rough text metrics; good enough for selection outlines without measuring the DOM. */
+export const estimateTextBox = (text: string, position: Point, fontSize: number): Box => ({
+  x: position.x,
+  y: position.y - fontSize,
+  width: Math.max(text.length, 1) * fontSize * 0.58,
+  height: fontSize * 1.25,
+})
+
+export const getAnnotationBox = (annotation: Annotation, unit: number): Box => {
+  switch (annotation.type) {
+    case 'arrow':
+      return boxFromPoints([annotation.start, annotation.end])
+    case 'rectangle':
+    case 'ellipse':
+      return normalizeBox(annotation.box)
+    case 'highlighter':
+      return boxFromPoints(annotation.points)
+    case 'step': {
+      const radius = annotation.style.fontSize * unit * 0.9
+      return {
+        x: annotation.position.x - radius,
+        y: annotation.position.y - radius,
+        width: radius * 2,
+        height: radius * 2,
+      }
+    }
+    case 'text':
+      return estimateTextBox(annotation.text, annotation.position, annotation.style.fontSize * unit)
+  }
+}
+
+const translate = (point: Point, dx: number, dy: number): Point => ({ x: point.x + dx, y: point.y + dy })
+
+export const moveAnnotation = (annotation: Annotation, dx: number, dy: number): Annotation => {
+  switch (annotation.type) {
+    case 'arrow':
+      return { ...annotation, start: translate(annotation.start, dx, dy), end: translate(annotation.end, dx, dy) }
+    case 'rectangle':
+    case 'ellipse':
+      return { ...annotation, box: { ...annotation.box, x: annotation.box.x + dx, y: annotation.box.y + dy } }
+    case 'highlighter':
+      return { ...annotation, points: annotation.points.map((point) => translate(point, dx, dy)) }
+    case 'step':
+    case 'text':
+      return { ...annotation, position: translate(annotation.position, dx, dy) }
+  }
+}
+
+/** Stretches a mark so that its bounding box `from` becomes `to`. */
+export const resizeAnnotation = (annotation: Annotation, from: Box, to: Box): Annotation => {
+  const scaleX = from.width > 0 ? to.width / from.width : 1
+  const scaleY = from.height > 0 ? to.height / from.height : 1
+  const map = (point: Point): Point => ({
+    x: to.x + (point.x - from.x) * scaleX,
+    y: to.y + (point.y - from.y) * scaleY,
+  })
+
+  switch (annotation.type) {
+    case 'arrow':
+      return { ...annotation, start: map(annotation.start), end: map(annotation.end) }
+    case 'rectangle':
+    case 'ellipse':
+      return { ...annotation, box: to }
+    case 'highlighter':
+      return { ...annotation, points: annotation.points.map(map) }
+    case 'step':
+    case 'text': {
+      // Labels keep their proportions, so scale the font by the larger stretch.
+      const scale = Math.max(scaleX, scaleY)
+      return {
+        ...annotation,
+        position: map(annotation.position),
+        style: { ...annotation.style, fontSize: Math.max(8, Math.round(annotation.style.fontSize * scale)) },
+      }
+    }
+  }
+}
+
+export const hitTestAnnotations = (annotations: Annotation[], point: Point, unit: number) => {
+  const tolerance = 8 * unit
+  for (let index = annotations.length - 1; index >= 0; index -= 1) {
+    const box = getAnnotationBox(annotations[index], unit)
+    if (
+      point.x >= box.x - tolerance &&
+      point.x <= box.x + box.width + tolerance &&
+      point.y >= box.y - tolerance &&
+      point.y <= box.y + box.height + tolerance
+    ) {
+      return annotations[index]
+    }
+  }
+  return null
+}
+
+export const getNextStepNumber = (annotations: Annotation[]) =>
+  annotations.reduce((highest, annotation) => (annotation.type === 'step' ? Math.max(highest, annotation.number) : highest), 0) + 1
+
+/** Drops marks that were clicked rather than dragged, which would be invisible. */
+export const isMeaningfulAnnotation = (annotation: Annotation, unit: number) => {
+  const minimum = 4 * unit
+  switch (annotation.type) {
+    case 'arrow':
+      return Math.hypot(annotation.end.x - annotation.start.x, annotation.end.y - annotation.start.y) > minimum
+    case 'rectangle':
+    case 'ellipse':
+      return Math.abs(annotation.box.width) > minimum && Math.abs(annotation.box.height) > minimum
+    case 'highlighter':
+      return annotation.points.length > 1
+    default:
+      return true
+  }
+}
@@ -0,0 +1,333 @@
+import type { Size } from './canvasSize'
+import { getFrameDefinition } from './frames'
+import type { FrameType } from './frames'
+import { createId } from './id'
+import type { Rect } from './renderLayout'
+
+export type ArrangementId =
+  | 'single'
+  | 'side-by-side'
+  | 'stacked'
+  | 'cascade'
+  | 'before-after'
+  | 'desktop-mobile'
+
+export type SlotAlign = 'start' | 'center' | 'end'
+
+/** One screen of a composition: which queued image it shows, in which frame. */
+export interface ArrangementSlot {
+  id: string
+  /** A queued image; a slot whose image was removed falls back to the active one. */
+  imageId: string | null
+  frameType: FrameType
+}
+
+/** How several screenshots share one canvas. Editor state, so it never ends up in shared links. */
+export interface Arrangement {
+  id: ArrangementId
+  slots: ArrangementSlot[]
+  /** Gap between screens in side-by-side and stacked layouts, in pixels. */
+  spacing: number
+  /** Cross-axis alignment; in a cascade it sets which way the screens step. */
+  align: SlotAlign
+  /** How much each cascaded screen covers the one before it, in percent of its width. */
+  overlap: number
+  /** Where the before/after divider sits, in percent of the screen's width. */
+  split: number
+}
+
+/** The geometry of an arrangement: its settings and each slot's image size and frame. */
+export interface ArrangementInput extends Pick<Arrangement, 'id' | 'spacing' | 'align' | 'overlap'> {
+  slots: { image: Size; frameType: FrameType }[]
+}
+
+/** One framed screen, in the same terms as the single-frame layout. */
+export interface ScreenLayout {
+  frame: Rect
+  /** The frame's screen or window body. */
+  content: Rect
+  viewport: Rect
+}
+
+export const arrangementOptions: {
+  id: ArrangementId
+  label: string
+  description: string
+  minSlots: number
+  maxSlots: number
+}[] = [
+  { id: 'single', label: 'Single', description: 'One screenshot.', minSlots: 1, maxSlots: 1 },
+  { id: 'side-by-side', label: 'Side by side', description: 'Screens in a row.', minSlots: 2, maxSlots: 4 },
+  { id: 'stacked', label: 'Stacked', description: 'Screens in a column.', minSlots: 2, maxSlots: 4 },
+  { id: 'cascade', label: 'Cascade', description: 'Overlapping, fanned out.', minSlots: 2, maxSlots: 4 },
+  {
+    id: 'before-after',
+    label: 'Before / after',
+    description: 'One frame, split down the middle.',
+    minSlots: 2,
+    maxSlots: 2,
+  },
+  {
+    id: 'desktop-mobile',
+    label: 'Desktop + mobile',
+    description: 'A phone over a window.',
+    minSlots: 2,
+    maxSlots: 2,
+  },
+]
+
+export const SLOT_SPACING_MAX = 160
+export const SLOT_OVERLAP_MIN = 10
+export const SLOT_OVERLAP_MAX = 80
+
+export const DEFAULT_ARRANGEMENT: Arrangement = {
+  id: 'single',
+  slots: [],
+  spacing: 48,
+  align: 'center',
+  overlap: 35,
+  split: 50,
+}
+
+/** How far each cascaded screen steps up or down, as a share of the screen height. */
+const CASCADE_STEP = 0.12
+/** The phone's height next to the desktop frame's, and how much of it hangs past the desktop. */
+const MOBILE_HEIGHT_RATIO = 0.78
+const MOBILE_DROP = 0.08
+/** Largest screen size the fit search considers, in pixels. */
+const SIZE_SEARCH_MAX = 16384
+
+export const getArrangementOption = (id: ArrangementId) =>
+  arrangementOptions.find((option) => option.id === id) ?? arrangementOptions[0]
+
+export const isArranged = (arrangement: Arrangement) =>
+  arrangement.id !== 'single' && arrangement.slots.length > 0
+
+/** The labels the alignment control shows, which depend on the direction screens run in. */
+export const getSlotAlignLabels = (id: ArrangementId): Record<SlotAlign, string> => {
+  switch (id) {
+    case 'stacked':
+      return { start: 'Left', center: 'Center', end: 'Right' }
+    case 'cascade':
+      return { start: 'Rising', center: 'Level', end: 'Falling' }
+    case 'desktop-mobile':
+      return { start: 'Phone left', center: 'Phone center', end: 'Phone right' }
+    default:
+      return { start: 'Top', center: 'Middle', end: 'Bottom' }
+  }
+}
+
+/**
+ * Switches to `id`, keeping the slots that fit and filling the rest with the queue's next
+ * unused images (cycling when there are fewer images than slots).
+ */
+export const changeArrangement = (
+  arrangement: Arrangement,
+  id: ArrangementId,
+  imageIds: string[],
+  frameType: FrameType,
+): Arrangement => {
+  const { minSlots, maxSlots } = getArrangementOption(id)
+  if (id === 'single') return { ...arrangement, id }
+
+  const slots = arrangement.slots.slice(0, maxSlots)
+  const unused = imageIds.filter((imageId) => !slots.some((slot) => slot.imageId === imageId))
+  while (slots.length < minSlots) {
+    const imageId = unused.shift() ?? imageIds[slots.length % Math.max(imageIds.length, 1)] ?? null
+    slots.push({ id: createId(), imageId, frameType })
+  }
+  if (id === 'desktop-mobile') {
+    const [desktop, mobile] = slots
+    if (getFrameDefinition(desktop.frameType).kind !== 'window') {
+      slots[0] = { ...desktop, frameType: 'browser' }
+    }
+    if (getFrameDefinition(mobile.frameType).kind !== 'device') {
+      slots[1] = { ...mobile, frameType: 'iphone' }
+    }
+  }
+  return { ...arrangement, id, slots }
+}
+
+export const addSlot = (arrangement: Arrangement, imageId: string | null): Arrangement => {
+  const last = arrangement.slots[arrangement.slots.length - 1]
+  if (arrangement.slots.length >= getArrangementOption(arrangement.id).maxSlots) return arrangement
+  return {
+    ...arrangement,
+    slots: [...arrangement.slots, { id: createId(), imageId, frameType: last?.frameType ?? 'macos-dark' }],
+  }
+}
+
+export const removeSlot = (arrangement: Arrangement, slotId: string): Arrangement =>
+  arrangement.slots.length <= getArrangementOption(arrangement.id).minSlots
+    ? arrangement
+    : { ...arrangement, slots: arrangement.slots.filter((slot) => slot.id !== slotId) }
+
+/** Moves a slot one place earlier or later, swapping it with its neighbour. */
+export const moveSlot = (arrangement: Arrangement, slotId: string, step: -1 | 1): Arrangement => {
+  const from = arrangement.slots.findIndex((slot) => slot.id === slotId)
+  const to = from + step
+  if (from < 0 || to < 0 || to >= arrangement.slots.length) return arrangement
+  const slots = [...arrangement.slots]
+  ;[slots[from], slots[to]] = [slots[to], slots[from]]
+  return { ...arrangement, slots }
+}
+
+export const updateSlot = (
+  arrangement: Arrangement,
+  slotId: string,
+  patch: Partial<Omit<ArrangementSlot, 'id'>>,
+): Arrangement => ({
+  ...arrangement,
+  slots: arrangement.slots.map((slot) => (slot.id === slotId ? { ...slot, ...patch } : slot)),
+})
+
+/**
+ * Where `image` sits when it covers `box` like `object-fit: cover`, in fractions of the
+ * box. The "after" screenshot is drawn this way so both halves share one frame.
+ */
+export const getCoverPlane = (image: Size, box: Size): Rect => {
+  const scale = Math.max(box.width / image.width, box.height / image.height)
+  const width = (image.width * scale) / box.width
+  const height = (image.height * scale) / box.height
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height }
+}
+
+const alignWithin = (align: SlotAlign, free: number) =>
+  align === 'start' ? 0 : align === 'end' ? free : free / 2
+
+const placeScreen = (frameType: FrameType, viewport: Size, x: number, y: number): ScreenLayout => {
+  const { insets } = getFrameDefinition(frameType)
+  const frame = {
+    x,
+    y,
+    width: viewport.width + insets.left + insets.right,
+    height: viewport.height + insets.top + insets.bottom,
+  }
+  const content = { x: x + insets.left, y: y + insets.top, ...viewport }
+  return { frame, content, viewport: content }
+}
+
+const byHeight = (image: Size, height: number) => ({ width: (height * image.width) / image.height, height })
+
+const byWidth = (image: Size, width: number) => ({ width, height: (width * image.height) / image.width })
+
+/**
+ * Lays the screens out for one screen `size`: the shared viewport height, or width when
+ * stacked. Positions may be negative; `arrangeScreens` moves them to the origin.
+ */
+const placeScreens = (input: ArrangementInput, size: number): ScreenLayout[] => {
+  const { slots, spacing, align } = input
+  switch (input.id) {
+    case 'side-by-side': {
+      let x = 0
+      const screens = slots.map((slot) => {
+        const screen = placeScreen(slot.frameType, byHeight(slot.image, size), x, 0)
+        x += screen.frame.width + spacing
+        return screen
+      })
+      const height = Math.max(...screens.map((screen) => screen.frame.height))
+      return screens.map((screen, index) =>
+        placeScreen(
+          slots[index].frameType,
+          screen.viewport,
+          screen.frame.x,
+          alignWithin(align, height - screen.frame.height),
+        ),
+      )
+    }
+    case 'stacked': {
+      let y = 0
+      const screens = slots.map((slot) => {
+        const screen = placeScreen(slot.frameType, byWidth(slot.image, size), 0, y)
+        y += screen.frame.height + spacing
+        return screen
+      })
+      const width = Math.max(...screens.map((screen) => screen.frame.width))
+      return screens.map((screen, index) =>
+        placeScreen(
+          slots[index].frameType,
+          screen.viewport,
+          alignWithin(align, width - screen.frame.width),
+          screen.frame.y,
+        ),
+      )
+    }
+    case 'cascade': {
+      const direction = align === 'start' ? -1 : align === 'end' ? 1 : 0
+      let x = 0
+      return slots.map((slot, index) => {
+        const y = index * direction * size * CASCADE_STEP
+        const screen = placeScreen(slot.frameType, byHeight(slot.image, size), x, y)
+        x += screen.frame.width * (1 - input.overlap / 100)
+        return screen
+      })
+    }
+    case 'desktop-mobile': {
+      const [desktopSlot, mobileSlot] = slots
+      const desktop = placeScreen(desktopSlot.frameType, byHeight(desktopSlot.image, size), 0, 0)
+      const { insets } = getFrameDefinition(mobileSlot.frameType)
+      const mobileHeight = Math.max(
+        desktop.frame.height * MOBILE_HEIGHT_RATIO - insets.top - insets.bottom,
+        1,
+      )
+      const mobileViewport = byHeight(mobileSlot.image, mobileHeight)
+      const mobileWidth = mobileViewport.width + insets.left + insets.right
+      const mobileFrameHeight = mobileHeight + insets.top + insets.bottom
+      return [
+        desktop,
+        placeScreen(
+          mobileSlot.frameType,
+          mobileViewport,
+          alignWithin(align, desktop.frame.width) - mobileWidth / 2,
+          desktop.frame.height * (1 + MOBILE_DROP) - mobileFrameHeight,
+        ),
+      ]
+    }
+    default: {
+      // Single and before/after show one frame, sized by the first screenshot.
+      const [slot] = slots
+      return [placeScreen(slot.frameType, byHeight(slot.image, size), 0, 0)]
+    }
+  }
+}
+
+const getBounds = (screens: ScreenLayout[]) => {
+  const left = Math.min(...screens.map(({ frame }) => frame.x))
+  const top = Math.min(...screens.map(({ frame }) => frame.y))
+  const right = Math.max(...screens.map(({ frame }) => frame.x + frame.width))
+  const bottom = Math.max(...screens.map(({ frame }) => frame.y + frame.height))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+const shiftScreen = ({ frame, content, viewport }: ScreenLayout, dx: number, dy: number): ScreenLayout => ({
+  frame: { ...frame, x: frame.x + dx, y: frame.y + dy },
+  content: { ...content, x: content.x + dx, y: content.y + dy },
+  viewport: { ...viewport, x: viewport.x + dx, y: viewport.y + dy },
+})
+
+/**
+ * Sizes the screens as large as fits in `bounds` and returns them relative to the
+ * arrangement's top-left corner, in paint order. Frame chrome and spacing keep their pixel
+ * size; only the screenshots scale, so the largest fit is found by bisection.
+ */
+export const arrangeScreens = (input: ArrangementInput, bounds: Size) => {
+  const fits = (size: number) => {
+    const box = getBounds(placeScreens(input, size))
+    return box.width <= bounds.width && box.height <= bounds.height
+  }
+  let low = 1
+  let high = SIZE_SEARCH_MAX
+  if (fits(high)) low = high
+  for (let step = 0; step < 32 && high - low > 0.01; step += 1) {
+    const middle = (low + high) / 2
+    if (fits(middle)) low = middle
+    else high = middle
+  }
+
+  const screens = placeScreens(input, low)
+  const box = getBounds(screens)
+  return {
+    size: { width: box.width, height: box.height },
+    screens: screens.map((screen) => shiftScreen(screen, -box.x, -box.y)),
+  }
+}
@@ -0,0 +1,112 @@
+import { hexToRgb } from './color'
+import type { ShadowLayer } from './shadows'
+import type { Settings } from '../settings'
+
+/**
+ * A CSS-style box shadow in logical pixels; the preview and the renderer both draw from
+ * lists of these, topmost first as CSS stacks them.
+ */
+export interface DropShadow {
+  offsetX: number
+  offsetY: number
+  blur: number
+  spread: number
+  color: string
+  /** 0–1. */
+  opacity: number
+}
+
+const roundOffset = (value: number) => Math.round(value * 10) / 10
+
+/** Offsets along a compass direction: 0° points up, 90° right. */
+const toOffset = (angle: number, distance: number) => {
+  const radians = (angle * Math.PI) / 180
+  return {
+    offsetX: roundOffset(Math.sin(radians) * distance),
+    offsetY: roundOffset(-Math.cos(radians) * distance),
+  }
+}
+
+const fromLayer = (layer: ShadowLayer): DropShadow => ({
+  ...toOffset(layer.angle, layer.distance),
+  blur: layer.blur,
+  spread: layer.spread,
+  color: layer.color,
+  opacity: layer.opacity / 100,
+})
+
+/**
+ * The outer glow as shadows without offsets. Following the gradient, each stop glows from
+ * the side of the frame it sits on, along the gradient's angle; radial, conic, and mesh
+ * gradients have no single axis, so their stops are spread evenly around the frame.
+ */
+const getGlowShadows = (settings: Settings): DropShadow[] => {
+  const { glowStrength, glowSize } = settings
+  if (glowStrength <= 0) return []
+  const base = { blur: glowSize, spread: Math.round(glowSize / 8), opacity: glowStrength / 100 }
+  if (settings.glowSource === 'color') return [{ ...base, offsetX: 0, offsetY: 0, color: settings.glowColor }]
+
+  const stops = settings.gradientStops
+  const reach = glowSize / 2
+  return stops.map((stop, index): DropShadow => {
+    const offset =
+      settings.gradientType === 'linear'
+        ? toOffset(settings.gradientAngle, ((stop.position - 50) / 50) * reach)
+        : toOffset((index / stops.length) * 360, reach)
+    return { ...base, ...offset, color: stop.color }
+  })
+}
+
+/** Everything the plate casts: the shadow layers over the glow. */
+export const getPlateShadows = (settings: Settings): DropShadow[] => [
+  ...settings.shadowLayers.map(fromLayer),
+  ...getGlowShadows(settings),
+]
+
+/** Each screen of an arrangement casts a tighter shadow than the plate, so overlaps read clearly. */
+export const getScreenShadows = (settings: Settings): DropShadow[] =>
+  settings.shadowLayers.map((layer) => ({
+    ...fromLayer({ ...layer, distance: layer.distance / 3 }),
+    blur: Math.round(layer.blur / 4),
+    spread: 0,
+  }))
+
+/** How far past its box a list of shadows can paint. */
+export const getShadowReach = (shadows: DropShadow[]) =>
+  Math.max(
+    0,
+    ...shadows.map(
+      (shadow) =>
+        shadow.blur + Math.max(Math.abs(shadow.offsetX), Math.abs(shadow.offsetY)) + Math.max(shadow.spread, 0),
+    ),
+  )
+
+export const getShadowColor = (shadow: DropShadow) => {
+  const { r, g, b } = hexToRgb(shadow.color)
+  return `rgba(${r}, ${g}, ${b}, ${shadow.opacity})`
+}
+
+export const getBoxShadowCss = (shadows: DropShadow[]) =>
+  shadows.length > 0
+    ? shadows
+        .map(
+          (shadow) =>
+            `${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur}px ${shadow.spread}px ${getShadowColor(shadow)}`,
+        )
+        .join(', ')
+    : 'none'
+
+/**
+ * Follows the frame's shape instead of its box. The blur is a standard deviation, so it is
+ * half the canvas `shadowBlur`. Chained filters each shadow everything before them, which
+ * the renderer reproduces by applying them one after another.
+ */
+export const getDropShadowFilterCss = (shadows: DropShadow[]) =>
+  shadows.length > 0
+    ? shadows
+        .map(
+          (shadow) =>
+            `drop-shadow(${shadow.offsetX}px ${shadow.offsetY}px ${shadow.blur / 2}px ${getShadowColor(shadow)})`,
+        )
+        .join(' ')
+    : undefined
@@ -0,0 +1,221 @@
+import { hexToRgb, rgbToHex } from './color'
+import type { Settings } from '../settings'
+
+export type GradientKind = 'linear' | 'radial' | 'conic' | 'mesh'
+
+export type PatternKind = 'dots' | 'grid' | 'waves'
+
+export interface GradientStop {
+  color: string
+  /** Percent along the gradient, 0–100. Mesh gradients place stops around the canvas instead. */
+  position: number
+}
+
+/** An uploaded backdrop photo. It stays on this device, like the screenshots themselves. */
+export interface Wallpaper {
+  name: string
+  dataUrl: string
+}
+
+type GradientSettings = Pick<
+  Settings,
+  'gradientType' | 'gradientStops' | 'gradientAngle' | 'gradientCenterX' | 'gradientCenterY'
+>
+
+export const GRADIENT_STOPS_MIN = 2
+export const GRADIENT_STOPS_MAX = 8
+
+export const gradientKindOptions: { id: GradientKind; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'radial', label: 'Radial' },
+  { id: 'conic', label: 'Conic' },
+  { id: 'mesh', label: 'Mesh' },
+]
+
+export const patternKindOptions: { id: PatternKind; label: string }[] = [
+  { id: 'dots', label: 'Dots' },
+  { id: 'grid', label: 'Grid' },
+  { id: 'waves', label: 'Waves' },
+]
+
+export const createTwoStopGradient = (from: string, to: string): GradientStop[] => [
+  { color: from, position: 0 },
+  { color: to, position: 100 },
+]
+
+export const gradientPresets: {
+  id: string
+  label: string
+  type: GradientKind
+  stops: GradientStop[]
+  angle: number
+}[] = [
+  {
+    id: 'aurora',
+    label: 'Aurora',
+    type: 'linear',
+    stops: createTwoStopGradient('#60a5fa', '#a855f7'),
+    angle: 130,
+  },
+  {
+    id: 'sunset',
+    label: 'Sunset',
+    type: 'linear',
+    stops: createTwoStopGradient('#fb7185', '#f97316'),
+    angle: 140,
+  },
+  {
+    id: 'mint',
+    label: 'Mint',
+    type: 'linear',
+    stops: createTwoStopGradient('#22d3ee', '#34d399'),
+    angle: 125,
+  },
+  {
+    id: 'midnight',
+    label: 'Midnight',
+    type: 'linear',
+    stops: createTwoStopGradient('#1d4ed8', '#0f172a'),
+    angle: 150,
+  },
+  {
+    id: 'prism',
+    label: 'Prism',
+    type: 'conic',
+    stops: [
+      { color: '#f472b6', position: 0 },
+      { color: '#818cf8', position: 35 },
+      { color: '#22d3ee', position: 70 },
+      { color: '#f472b6', position: 100 },
+    ],
+    angle: 200,
+  },
+  {
+    id: 'nebula',
+    label: 'Nebula',
+    type: 'mesh',
+    stops: [
+      { color: '#4f46e5', position: 0 },
+      { color: '#ec4899', position: 33 },
+      { color: '#06b6d4', position: 66 },
+      { color: '#0f172a', position: 100 },
+    ],
+    angle: 45,
+  },
+]
+
+export type GradientPreset = (typeof gradientPresets)[number]
+
+/** The gradient fields a preset sets; it also recenters radial and conic gradients. */
+export const getGradientPresetSettings = (preset: GradientPreset): GradientSettings => ({
+  gradientType: preset.type,
+  gradientStops: preset.stops,
+  gradientAngle: preset.angle,
+  gradientCenterX: 50,
+  gradientCenterY: 50,
+})
+
+export const solidPresets = [
+  { id: 'obsidian', label: 'Obsidian', color: '#0f172a' },
+  { id: 'slate', label: 'Slate', color: '#1f2937' },
+  { id: 'ocean', label: 'Ocean', color: '#082f49' },
+  { id: 'ice', label: 'Ice', color: '#e0f2fe' },
+]
+
+export const areGradientStopsEqual = (a: GradientStop[], b: GradientStop[]) =>
+  a.length === b.length &&
+  a.every((stop, index) => stop.color === b[index].color && stop.position === b[index].position)
+
+const sortStops = (stops: GradientStop[]) => [...stops].sort((a, b) => a.position - b.position)
+
+const formatStops = (stops: GradientStop[]) =>
+  sortStops(stops)
+    .map((stop) => `${stop.color} ${stop.position}%`)
+    .join(', ')
+
+/**
+ * Mesh gradients have no CSS primitive, so each color becomes a soft radial blob spaced
+ * evenly around an ellipse, rotated by the angle, over the first color as a base.
+ */
+const getMeshBackground = ({ gradientStops, gradientAngle }: GradientSettings) => {
+  const blobs = gradientStops.map((stop, index) => {
+    const angle = ((gradientAngle + (index * 360) / gradientStops.length) * Math.PI) / 180
+    const x = Math.round(50 + Math.cos(angle) * 38)
+    const y = Math.round(50 + Math.sin(angle) * 38)
+    return `radial-gradient(circle at ${x}% ${y}%, ${stop.color} 0%, transparent 65%)`
+  })
+  return [...blobs, gradientStops[0].color].join(', ')
+}
+
+export const getGradientBackground = (settings: GradientSettings) => {
+  const { gradientType, gradientStops, gradientAngle, gradientCenterX, gradientCenterY } = settings
+  switch (gradientType) {
+    case 'radial':
+      return `radial-gradient(circle farthest-corner at ${gradientCenterX}% ${gradientCenterY}%, ${formatStops(gradientStops)})`
+    case 'conic':
+      return `conic-gradient(from ${gradientAngle}deg at ${gradientCenterX}% ${gradientCenterY}%, ${formatStops(gradientStops)})`
+    case 'mesh':
+      return getMeshBackground(settings)
+    default:
+      return `linear-gradient(${gradientAngle}deg, ${formatStops(gradientStops)})`
+  }
+}
+
+/** Left-to-right strip of the stops, used by the editor's stop track whatever the kind. */
+export const getGradientStripBackground = (stops: GradientStop[]) =>
+  `linear-gradient(90deg, ${formatStops(stops)})`
+
+/**
+ * Adds a stop in the middle of the widest gap, colored halfway between its neighbours.
+ * Returns `stops` unchanged once the limit is reached.
+ */
+export const insertGradientStop = (stops: GradientStop[]) => {
+  if (stops.length >= GRADIENT_STOPS_MAX) return stops
+  const sorted = sortStops(stops)
+  let gapIndex = 0
+  for (let index = 1; index < sorted.length - 1; index += 1) {
+    const gap = sorted[index + 1].position - sorted[index].position
+    if (gap > sorted[gapIndex + 1].position - sorted[gapIndex].position) gapIndex = index
+  }
+  const [before, after] = [sorted[gapIndex], sorted[gapIndex + 1]]
+  const [a, b] = [hexToRgb(before.color), hexToRgb(after.color)]
+  return [
+    ...stops,
+    {
+      color: rgbToHex({ r: (a.r + b.r) / 2, g: (a.g + b.g) / 2, b: (a.b + b.b) / 2 }),
+      position: Math.round((before.position + after.position) / 2),
+    },
+  ]
+}
+
+/** A seamless SVG tile; the tile is the pattern's scale, so every kind repeats cleanly. */
+const getPatternTile = ({ patternType, patternColor, patternScale, patternOpacity }: Settings) => {
+  const size = patternScale
+  const stroke = Math.max(1, Math.round(size / 28))
+  const paint = `fill="none" stroke="${patternColor}" stroke-opacity="${patternOpacity / 100}" stroke-width="${stroke}"`
+  const shape =
+    patternType === 'grid'
+      ? `<path d="M0 0.5H${size}M0.5 0V${size}" ${paint}/>`
+      : patternType === 'waves'
+        ? `<path d="M0 ${size / 2}Q${size / 4} ${size / 4} ${size / 2} ${size / 2}T${size} ${size / 2}" ${paint}/>`
+        : `<circle cx="${size / 2}" cy="${size / 2}" r="${Math.max(1, size * 0.1)}" fill="${patternColor}" fill-opacity="${patternOpacity / 100}"/>`
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">${shape}</svg>`
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}")`
+}
+
+export const getPatternBackground = (settings: Settings) =>
+  `${getPatternTile(settings)} 0 0 / ${settings.patternScale}px ${settings.patternScale}px repeat, ${settings.backgroundColor}`
+
+/** Blur, brightness, and scale for whichever photo backs the canvas, if any. */
+export const getBackdropImageStyle = (settings: Settings) =>
+  settings.backgroundType === 'screenshot'
+    ? {
+        blur: settings.screenshotBlur,
+        brightness: settings.screenshotBrightness,
+        scale: settings.screenshotScale,
+      }
+    : {
+        blur: settings.wallpaperBlur,
+        brightness: settings.wallpaperBrightness,
+        scale: settings.wallpaperScale,
+      }
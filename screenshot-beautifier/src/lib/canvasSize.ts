@@ -0,0 +1,58 @@
+export type CanvasSizeId = 'auto' | 'open-graph' | 'twitter' | 'instagram' | 'dribbble' | 'custom'
+
+export interface Size {
+  width: number
+  height: number
+}
+
+export const canvasSizePresets: {
+  id: CanvasSizeId
+  label: string
+  description: string
+  size?: Size
+}[] = [
+  { id: 'auto', label: 'Auto', description: 'Follows the preview width.' },
+  {
+    id: 'open-graph',
+    label: 'Open Graph',
+    description: '1200 × 630 link previews.',
+    size: { width: 1200, height: 630 },
+  },
+  {
+    id: 'twitter',
+    label: 'X / Twitter',
+    description: '1600 × 900 • 16:9 posts.',
+    size: { width: 1600, height: 900 },
+  },
+  {
+    id: 'instagram',
+    label: 'Instagram',
+    description: '1080 × 1080 • 1:1 square.',
+    size: { width: 1080, height: 1080 },
+  },
+  {
+    id: 'dribbble',
+    label: 'Dribbble',
+    description: '1600 × 1200 • 4:3 shots.',
+    size: { width: 1600, height: 1200 },
+  },
+  { id: 'custom', label: 'Custom', description: 'Any width × height.' },
+]
+
+export const CANVAS_DIMENSION_MIN = 200
+export const CANVAS_DIMENSION_MAX = 4000
+
+export const clampCanvasDimension = (value: number) => {
+  if (!Number.isFinite(value)) return CANVAS_DIMENSION_MIN
+  return Math.min(Math.max(Math.round(value), CANVAS_DIMENSION_MIN), CANVAS_DIMENSION_MAX)
+}
+
+/** Scales `content` up or down so it fits inside `bounds` without changing its aspect ratio. */
+export const fitWithin = (content: Size, bounds: Size): Size => {
+  if (content.width <= 0 || content.height <= 0) return bounds
+  const ratio = Math.min(bounds.width / content.width, bounds.height / content.height)
+  return {
+    width: Math.max(1, Math.floor(content.width * ratio)),
+    height: Math.max(1, Math.floor(content.height * ratio)),
+  }
+}
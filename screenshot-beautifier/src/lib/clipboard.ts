@@ -0,0 +1,93 @@
+const IMAGE_URL_PATTERN = /^https?:\/\/\S+\.(png|jpe?g|webp|gif|svg|avif)(\?\S*)?(#\S*)?$/i
+const DATA_URL_PATTERN = /^data:image\/[a-z0-9.+-]+;base64,/i
+
+export const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+  if (target instanceof HTMLTextAreaElement) return true
+  if (target instanceof HTMLInputElement) {
+    return !['button', 'checkbox', 'color', 'file', 'radio', 'range', 'submit'].includes(target.type)
+  }
+  return false
+}
+
+export const getClipboardImageFile = (data: DataTransfer) => {
+  const fromFiles = Array.from(data.files).find((file) => file.type.startsWith('image/'))
+  if (fromFiles) return fromFiles
+
+  for (const item of Array.from(data.items)) {
+    if (item.kind === 'file' && item.type.startsWith('image/')) {
+      const file = item.getAsFile()
+      if (file) return file
+    }
+  }
+  return null
+}
+
+/** Returns the pasted text when it looks like an image URL or an image data URL. */
+export const getClipboardImageUrl = (data: DataTransfer) => {
+  const text = data.getData('text/plain').trim()
+  if (DATA_URL_PATTERN.test(text) || IMAGE_URL_PATTERN.test(text)) {
+    return text
+  }
+  return null
+}
+
+export const nameFromUrl = (url: string) => {
+  if (url.startsWith('data:')) return 'Pasted screenshot'
+  try {
+    const lastSegment = new URL(url).pathname.split('/').filter(Boolean).pop() ?? ''
+    return decodeURIComponent(lastSegment) || 'Pasted screenshot'
+  } catch {
+    return 'Pasted screenshot'
+  }
+}
+
+export const fetchImageFile = async (url: string) => {
+  const response = await fetch(url, { mode: 'cors' })
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`)
+  }
+  const blob = await response.blob()
+  if (!blob.type.startsWith('image/')) {
+    throw new Error(`Expected an image but received ${blob.type || 'unknown content'}`)
+  }
+  return new File([blob], nameFromUrl(url), { type: blob.type })
+}
+
+export const canWriteImageToClipboard = () =>
+  typeof window !== 'undefined' &&
+  'ClipboardItem' in window &&
+  typeof navigator.clipboard?.write === 'function'
+
+/**
+ * Safari only honours clipboard writes that start synchronously inside the user gesture,
+ * so the pending blob is handed to `ClipboardItem` as a promise instead of being awaited first.
+ */
+export const writeImageToClipboard = (blob: Promise<Blob | null>) =>
+  navigator.clipboard.write([
+    new ClipboardItem({
+      'image/png': blob.then((value) => {
+        if (!value) throw new Error('Renderer returned an empty image')
+        return value
+      }),
+    }),
+  ])
+
+export const canReadClipboard = () => typeof navigator.clipboard?.read === 'function'
+
+/**
+ * Reads an image, or an image link, straight from the clipboard for commands that run
+ * without a paste event. Browsers ask for permission the first time.
+ */
+export const readClipboardImage = async (): Promise<File | string | null> => {
+  for (const item of await navigator.clipboard.read()) {
+    const type = item.types.find((candidate) => candidate.startsWith('image/'))
+    if (type) {
+      const blob = await item.getType(type)
+      return new File([blob], `Pasted screenshot.${type.split('/')[1].split('+')[0]}`, { type })
+    }
+  }
+  const text = (await navigator.clipboard.readText()).trim()
+  return DATA_URL_PATTERN.test(text) || IMAGE_URL_PATTERN.test(text) ? text : null
+}
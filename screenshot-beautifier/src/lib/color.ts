@@ -0,0 +1,86 @@
+export interface Rgb {
+  r: number
+  g: number
+  b: number
+}
+
+/** Hue in degrees (0–360), saturation and lightness as fractions (0–1). */
+export interface Hsl {
+  h: number
+  s: number
+  l: number
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.replace(/^#/, ''), 16)
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 }
+}
+
+export const rgbToHex = ({ r, g, b }: Rgb) =>
+  `#${[r, g, b]
+    .map((channel) => Math.round(clamp(channel, 0, 255)).toString(16).padStart(2, '0'))
+    .join('')}`
+
+export const rgbToHsl = ({ r, g, b }: Rgb): Hsl => {
+  const red = r / 255
+  const green = g / 255
+  const blue = b / 255
+  const max = Math.max(red, green, blue)
+  const min = Math.min(red, green, blue)
+  const l = (max + min) / 2
+  const delta = max - min
+  if (delta === 0) return { h: 0, s: 0, l }
+
+  const s = delta / (1 - Math.abs(2 * l - 1))
+  const h =
+    max === red
+      ? ((green - blue) / delta) % 6
+      : max === green
+        ? (blue - red) / delta + 2
+        : (red - green) / delta + 4
+  return { h: (h * 60 + 360) % 360, s, l }
+}
+
+export const hslToRgb = ({ h, s, l }: Hsl): Rgb => {
+  const hue = ((h % 360) + 360) % 360
+  const saturation = clamp(s, 0, 1)
+  const lightness = clamp(l, 0, 1)
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1))
+  const m = lightness - chroma / 2
+  const [red, green, blue] =
+    hue < 60
+      ? [chroma, x, 0]
+      : hue < 120
+        ? [x, chroma, 0]
+        : hue < 180
+          ? [0, chroma, x]
+          : hue < 240
+            ? [0, x, chroma]
+            : hue < 300
+              ? [x, 0, chroma]
+              : [chroma, 0, x]
+  return { r: (red + m) * 255, g: (green + m) * 255, b: (blue + m) * 255 }
+}
+
+export const hexToHsl = (hex: string) => rgbToHsl(hexToRgb(hex))
+
+export const hslToHex = (hsl: Hsl) => rgbToHex(hslToRgb(hsl))
+
+/** WCAG relative luminance. */
+export const getLuminance = (hex: string) => {
+  const linear = (channel: number) => {
+    const value = channel / 255
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+  }
+  const { r, g, b } = hexToRgb(hex)
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b)
+}
+
+/** WCAG contrast ratio, from 1 (identical) to 21 (black on white). */
+export const getContrastRatio = (a: string, b: string) => {
+  const [lighter, darker] = [getLuminance(a), getLuminance(b)].sort((x, y) => y - x)
+  return (lighter + 0.05) / (darker + 0.05)
+}
@@ -0,0 +1,84 @@
+export type PaletteGroup = 'Actions' | 'Settings' | 'Backgrounds' | 'Saved styles'
+
+export interface PaletteCommand {
+  id: string
+  label: string
+  group: PaletteGroup
+  /** Where the command lives or what it does, shown beside the label and searched too. */
+  detail?: string
+  /** Printed key labels for the command's shortcut. */
+  keys?: string[]
+  run: () => void
+}
+
+export const PALETTE_RESULT_LIMIT = 50
+
+/** How long a control jumped to from the palette stays highlighted. */
+const HIGHLIGHT_MS = 1600
+const HIGHLIGHT_CLASSES = ['ring-2', 'ring-primary-400', 'ring-offset-2', 'ring-offset-slate-950']
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+
+/**
+ * Scores `text` against `query`: a prefix beats a word start, which beats a substring,
+ * which beats the query's letters appearing in order. Returns 0 when it doesn't match.
+ */
+const scoreText = (text: string, query: string) => {
+  const haystack = normalize(text)
+  if (haystack.startsWith(query)) return 4
+  if (haystack.includes(` ${query}`)) return 3
+  if (haystack.includes(query)) return 2
+  let index = 0
+  for (const char of haystack) {
+    if (char === query[index]) index += 1
+    if (index === query.length) return 1
+  }
+  return 0
+}
+
+/** Commands matching every word of `query`, best first; all of them when it is empty. */
+export const searchCommands = (commands: PaletteCommand[], query: string) => {
+  const words = normalize(query).split(/\s+/).filter(Boolean)
+  if (words.length === 0) return commands.slice(0, PALETTE_RESULT_LIMIT)
+  return commands
+    .map((command, order) => {
+      let score = 0
+      for (const word of words) {
+        const best = Math.max(scoreText(command.label, word) * 2, scoreText(command.detail ?? '', word))
+        if (best === 0) return null
+        score += best
+      }
+      return { command, score, order }
+    })
+    .filter((result) => result !== null)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, PALETTE_RESULT_LIMIT)
+    .map((result) => result.command)
+}
+
+const FOCUSABLE = 'input, button, select, textarea, [tabindex]:not([tabindex="-1"])'
+
+/** Scrolls a control into view, focuses it, and flashes a ring around it. */
+const jumpTo = (element: HTMLElement) => {
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  const focusTarget = element.matches(FOCUSABLE) ? element : element.querySelector<HTMLElement>(FOCUSABLE)
+  focusTarget?.focus({ preventScroll: true })
+  element.classList.add(...HIGHLIGHT_CLASSES)
+  window.setTimeout(() => element.classList.remove(...HIGHLIGHT_CLASSES), HIGHLIGHT_MS)
+}
+
+/**
+ * A command for every control currently shown under `root`, read from the labels the
+ * sidebar controls carry, so the palette always matches what is on screen.
+ */
+export const collectSettingCommands = (root: ParentNode): PaletteCommand[] =>
+  Array.from(root.querySelectorAll<HTMLElement>('[data-palette-label]')).map((element, index) => {
+    const section = element.closest<HTMLElement>('[data-palette-section]')?.dataset.paletteSection
+    return {
+      id: `setting-${index}`,
+      label: element.dataset.paletteLabel ?? '',
+      group: 'Settings',
+      detail: section,
+      run: () => jumpTo(element),
+    }
+  })
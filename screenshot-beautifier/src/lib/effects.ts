@@ -0,0 +1,417 @@
+import { createCircleGradient, createLinearGradient } from './renderBackground'
+import type { Rect } from './renderLayout'
+import { createRandom, toRgba } from './renderSurface'
+import type { Painter } from './renderSurface'
+
+/**
+ * Effects are finishing layers stacked over the canvas. Each kind declares its parameters,
+ * which the sidebar turns into controls, the layer it paints on, where new ones join the
+ * stack, and how it blends; its painter serves the preview and the renderer alike.
+ */
+
+export type EffectType =
+  | 'noise'
+  | 'vignette'
+  | 'light-leak'
+  | 'glass-reflection'
+  | 'grid'
+  | 'spotlight'
+  | 'halftone'
+
+/**
+ * Where an effect paints: over the backdrop and under the frame, on the frame's glass
+ * plate, or over the whole composition under the watermark.
+ */
+export type EffectTarget = 'backdrop' | 'frame' | 'overlay'
+
+/** CSS `mix-blend-mode` names, which canvas compositing shares apart from `normal`. */
+export type EffectBlend = 'normal' | 'screen' | 'overlay' | 'soft-light' | 'multiply'
+
+export type EffectValue = number | string | boolean
+
+export type EffectParam =
+  | {
+      kind: 'slider'
+      id: string
+      label: string
+      min: number
+      max: number
+      step?: number
+      suffix?: string
+      helper?: string
+      default: number
+    }
+  | { kind: 'color'; id: string; label: string; helper?: string; default: string }
+  | { kind: 'toggle'; id: string; label: string; description?: string; default: boolean }
+
+/** One effect in the stack. `params` holds a value for every parameter its kind declares. */
+export interface EffectLayer {
+  type: EffectType
+  enabled: boolean
+  params: Record<string, EffectValue>
+}
+
+export interface EffectDefinition {
+  type: EffectType
+  label: string
+  description: string
+  target: EffectTarget
+  /** Where a new effect joins the stack: it goes after every effect with a lower order. */
+  order: number
+  blend: EffectBlend
+  params: EffectParam[]
+  /** Paints over `box` in logical pixels; the blend mode is applied by the caller. */
+  paint: (painter: Painter, box: Rect, values: Record<string, EffectValue>) => void
+}
+
+export const EFFECTS_MAX = 12
+
+export const effectTargetLabels: Record<EffectTarget, string> = {
+  backdrop: 'Backdrop',
+  frame: 'Frame',
+  overlay: 'Overlay',
+}
+
+/** Logical size of one noise tile. */
+const NOISE_TILE_SIZE = 160
+/** Each grain's alpha tops out low, so the tile reads as texture rather than static. */
+const NOISE_ALPHA_MAX = 20
+const VIGNETTE_COLOR = '#050815'
+/** Vignette alpha at full strength, reached 90% of the way to the farthest corner. */
+const VIGNETTE_ALPHA = 0.7
+const VIGNETTE_EXTENT = 0.9
+
+export const getNoiseOpacity = (noise: number) => Math.min((noise / 100) * 0.35, 0.3)
+
+export const getVignetteOpacity = (vignette: number) => Math.min((vignette / 100) * 0.9, 0.85)
+
+const toNumber = (value: EffectValue | undefined) => (typeof value === 'number' ? value : 0)
+const toColor = (value: EffectValue | undefined) => (typeof value === 'string' ? value : '#ffffff')
+
+/** A point on the box's edge along a compass direction from its center: 0° up, 90° right. */
+const getEdgePoint = (box: Rect, angle: number) => {
+  const radians = (angle * Math.PI) / 180
+  return {
+    x: box.x + box.width / 2 + (Math.sin(radians) * box.width) / 2,
+    y: box.y + box.height / 2 - (Math.cos(radians) * box.height) / 2,
+  }
+}
+
+const paintNoise: EffectDefinition['paint'] = ({ context, createSurface }, box, values) => {
+  const opacity = getNoiseOpacity(toNumber(values.amount))
+  if (opacity <= 0) return
+  const tile = createSurface(NOISE_TILE_SIZE, NOISE_TILE_SIZE)
+  const pixels = tile.context.createImageData(NOISE_TILE_SIZE, NOISE_TILE_SIZE)
+  const random = createRandom(NOISE_TILE_SIZE)
+  for (let index = 0; index < pixels.data.length; index += 4) {
+    pixels.data[index] = random() * 255
+    pixels.data[index + 1] = random() * 255
+    pixels.data[index + 2] = random() * 255
+    pixels.data[index + 3] = random() * NOISE_ALPHA_MAX
+  }
+  tile.context.putImageData(pixels, 0, 0)
+  const pattern = context.createPattern(tile.canvas, 'repeat')
+  if (!pattern) return
+
+  context.globalAlpha = opacity
+  context.translate(box.x, box.y)
+  context.fillStyle = pattern
+  context.fillRect(0, 0, box.width, box.height)
+}
+
+const paintVignette: EffectDefinition['paint'] = ({ context }, box, values) => {
+  const opacity = getVignetteOpacity(toNumber(values.amount))
+  if (opacity <= 0) return
+  const color = toColor(values.color)
+  const vignette = createCircleGradient(context, box, box.x + box.width / 2, box.y + box.height / 2)
+  vignette.addColorStop(0, toRgba(color, 0))
+  vignette.addColorStop(VIGNETTE_EXTENT, toRgba(color, VIGNETTE_ALPHA))
+  context.globalAlpha = opacity
+  context.fillStyle = vignette
+  context.fillRect(box.x, box.y, box.width, box.height)
+}
+
+/** A warm glow spilling in from one edge, as light leaking into a film camera does. */
+const paintLightLeak: EffectDefinition['paint'] = ({ context }, box, values) => {
+  const strength = toNumber(values.strength) / 100
+  const color = toColor(values.color)
+  const { x, y } = getEdgePoint(box, toNumber(values.angle))
+  const radius = (Math.hypot(box.width, box.height) * toNumber(values.size)) / 100
+  const leak = context.createRadialGradient(x, y, 0, x, y, Math.max(radius, 1))
+  leak.addColorStop(0, toRgba(color, strength))
+  leak.addColorStop(0.35, toRgba(color, strength * 0.45))
+  leak.addColorStop(1, toRgba(color, 0))
+  context.fillStyle = leak
+  context.fillRect(box.x, box.y, box.width, box.height)
+}
+
+/** A soft band of light across the plate, as if the frame were behind glass. */
+const paintGlassReflection: EffectDefinition['paint'] = ({ context }, box, values) => {
+  const strength = (toNumber(values.strength) / 100) * 0.6
+  const center = toNumber(values.position) / 100
+  const half = toNumber(values.width) / 200
+  const band = createLinearGradient(context, box, toNumber(values.angle))
+  const clamp = (stop: number) => Math.min(Math.max(stop, 0), 1)
+  band.addColorStop(clamp(center - half), 'rgba(255, 255, 255, 0)')
+  band.addColorStop(clamp(center - half / 3), `rgba(255, 255, 255, ${strength})`)
+  band.addColorStop(clamp(center), `rgba(255, 255, 255, ${strength * 0.6})`)
+  band.addColorStop(clamp(center + half), 'rgba(255, 255, 255, 0)')
+  context.fillStyle = band
+  context.fillRect(box.x, box.y, box.width, box.height)
+}
+
+const paintGrid: EffectDefinition['paint'] = ({ context }, box, values) => {
+  const color = toColor(values.color)
+  const opacity = toNumber(values.opacity) / 100
+  const size = Math.max(toNumber(values.size), 1)
+  if (values.fade) {
+    // Lines fade from full strength around the middle to nothing at the corners.
+    const fade = createCircleGradient(context, box, box.x + box.width / 2, box.y + box.height / 2)
+    fade.addColorStop(0, toRgba(color, opacity))
+    fade.addColorStop(0.35, toRgba(color, opacity))
+    fade.addColorStop(1, toRgba(color, 0))
+    context.strokeStyle = fade
+  } else {
+    context.strokeStyle = toRgba(color, opacity)
+  }
+  context.lineWidth = toNumber(values.thickness)
+  context.beginPath()
+  for (let x = box.x + size; x < box.x + box.width; x += size) {
+    context.moveTo(x, box.y)
+    context.lineTo(x, box.y + box.height)
+  }
+  for (let y = box.y + size; y < box.y + box.height; y += size) {
+    context.moveTo(box.x, y)
+    context.lineTo(box.x + box.width, y)
+  }
+  context.stroke()
+}
+
+/** Lifts one spot and lets the rest of the canvas fall into shadow. */
+const paintSpotlight: EffectDefinition['paint'] = ({ context }, box, values) => {
+  const strength = toNumber(values.strength) / 100
+  const x = box.x + (box.width * toNumber(values.x)) / 100
+  const y = box.y + (box.height * toNumber(values.y)) / 100
+  const radius = (Math.max(box.width, box.height) * toNumber(values.size)) / 100
+  const spot = context.createRadialGradient(x, y, 0, x, y, Math.max(radius, 1))
+  spot.addColorStop(0, `rgba(255, 255, 255, ${strength * 0.2})`)
+  spot.addColorStop(0.45, 'rgba(255, 255, 255, 0)')
+  spot.addColorStop(1, `rgba(0, 0, 0, ${strength * 0.6})`)
+  context.fillStyle = spot
+  context.fillRect(box.x, box.y, box.width, box.height)
+}
+
+/** Print-style dots that swell from nothing on one side to touching on the other. */
+const paintHalftone: EffectDefinition['paint'] = ({ context }, box, values) => {
+  const spacing = Math.max(toNumber(values.spacing), 2)
+  const radians = (toNumber(values.angle) * Math.PI) / 180
+  const dx = Math.sin(radians)
+  const dy = -Math.cos(radians)
+  const half = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2
+  const cx = box.x + box.width / 2
+  const cy = box.y + box.height / 2
+  context.fillStyle = toRgba(toColor(values.color), toNumber(values.opacity) / 100)
+  context.beginPath()
+  for (let y = box.y + spacing / 2; y < box.y + box.height; y += spacing) {
+    for (let x = box.x + spacing / 2; x < box.x + box.width; x += spacing) {
+      // 0 at the start of the gradient line, 1 at its end.
+      const progress = ((x - cx) * dx + (y - cy) * dy) / (half * 2) + 0.5
+      const radius = (spacing / 2) * Math.min(Math.max(progress, 0), 1) ** 1.5
+      if (radius < 0.25) continue
+      context.moveTo(x + radius, y)
+      context.arc(x, y, radius, 0, Math.PI * 2)
+    }
+  }
+  context.fill()
+}
+
+export const effectDefinitions: EffectDefinition[] = [
+  {
+    type: 'noise',
+    label: 'Grain',
+    description: 'Subtle film grain for a premium finish.',
+    target: 'backdrop',
+    order: 10,
+    blend: 'normal',
+    params: [{ kind: 'slider', id: 'amount', label: 'Amount', min: 0, max: 100, default: 12 }],
+    paint: paintNoise,
+  },
+  {
+    type: 'grid',
+    label: 'Grid overlay',
+    description: 'Blueprint lines over the backdrop.',
+    target: 'backdrop',
+    order: 20,
+    blend: 'normal',
+    params: [
+      { kind: 'slider', id: 'size', label: 'Cell size', min: 8, max: 160, suffix: 'px', default: 40 },
+      { kind: 'slider', id: 'thickness', label: 'Line width', min: 1, max: 4, suffix: 'px', default: 1 },
+      { kind: 'slider', id: 'opacity', label: 'Opacity', min: 0, max: 100, suffix: '%', default: 12 },
+      { kind: 'color', id: 'color', label: 'Line color', default: '#ffffff' },
+      {
+        kind: 'toggle',
+        id: 'fade',
+        label: 'Fade out',
+        description: 'Lines fade away toward the corners.',
+        default: true,
+      },
+    ],
+    paint: paintGrid,
+  },
+  {
+    type: 'halftone',
+    label: 'Halftone',
+    description: 'Print dots that grow across the canvas.',
+    target: 'backdrop',
+    order: 30,
+    blend: 'overlay',
+    params: [
+      { kind: 'slider', id: 'spacing', label: 'Dot spacing', min: 6, max: 40, suffix: 'px', default: 14 },
+      {
+        kind: 'slider',
+        id: 'angle',
+        label: 'Direction',
+        min: 0,
+        max: 360,
+        suffix: '°',
+        helper: 'The dots grow toward this side: 0° up, 90° right.',
+        default: 135,
+      },
+      { kind: 'slider', id: 'opacity', label: 'Opacity', min: 0, max: 100, suffix: '%', default: 35 },
+      { kind: 'color', id: 'color', label: 'Dot color', default: '#ffffff' },
+    ],
+    paint: paintHalftone,
+  },
+  {
+    type: 'spotlight',
+    label: 'Spotlight',
+    description: 'Lights one spot and dims the rest.',
+    target: 'backdrop',
+    order: 40,
+    blend: 'normal',
+    params: [
+      { kind: 'slider', id: 'x', label: 'Horizontal', min: 0, max: 100, suffix: '%', default: 50 },
+      { kind: 'slider', id: 'y', label: 'Vertical', min: 0, max: 100, suffix: '%', default: 35 },
+      { kind: 'slider', id: 'size', label: 'Size', min: 10, max: 100, suffix: '%', default: 55 },
+      { kind: 'slider', id: 'strength', label: 'Strength', min: 0, max: 100, suffix: '%', default: 60 },
+    ],
+    paint: paintSpotlight,
+  },
+  {
+    type: 'vignette',
+    label: 'Vignette',
+    description: 'Darkens the edges so the canvas stays in focus.',
+    target: 'backdrop',
+    order: 50,
+    blend: 'normal',
+    params: [
+      { kind: 'slider', id: 'amount', label: 'Amount', min: 0, max: 100, default: 40 },
+      { kind: 'color', id: 'color', label: 'Vignette color', default: VIGNETTE_COLOR },
+    ],
+    paint: paintVignette,
+  },
+  {
+    type: 'glass-reflection',
+    label: 'Glass reflection',
+    description: 'A band of light across the frame.',
+    target: 'frame',
+    order: 60,
+    blend: 'screen',
+    params: [
+      {
+        kind: 'slider',
+        id: 'angle',
+        label: 'Angle',
+        min: 0,
+        max: 360,
+        suffix: '°',
+        default: 120,
+      },
+      {
+        kind: 'slider',
+        id: 'position',
+        label: 'Position',
+        min: 0,
+        max: 100,
+        suffix: '%',
+        helper: 'Where the band crosses the frame.',
+        default: 30,
+      },
+      { kind: 'slider', id: 'width', label: 'Width', min: 5, max: 80, suffix: '%', default: 30 },
+      { kind: 'slider', id: 'strength', label: 'Strength', min: 0, max: 100, suffix: '%', default: 35 },
+    ],
+    paint: paintGlassReflection,
+  },
+  {
+    type: 'light-leak',
+    label: 'Light leak',
+    description: 'A warm glow spilling in from one edge.',
+    target: 'overlay',
+    order: 70,
+    blend: 'screen',
+    params: [
+      {
+        kind: 'slider',
+        id: 'angle',
+        label: 'Direction',
+        min: 0,
+        max: 360,
+        suffix: '°',
+        helper: 'The edge the light comes from: 0° top, 90° right.',
+        default: 315,
+      },
+      { kind: 'slider', id: 'size', label: 'Size', min: 10, max: 100, suffix: '%', default: 55 },
+      { kind: 'slider', id: 'strength', label: 'Strength', min: 0, max: 100, suffix: '%', default: 55 },
+      { kind: 'color', id: 'color', label: 'Light color', default: '#ff7a3d' },
+    ],
+    paint: paintLightLeak,
+  },
+]
+
+export const getEffectDefinition = (type: EffectType) =>
+  effectDefinitions.find((definition) => definition.type === type) ?? effectDefinitions[0]
+
+export const createEffect = (type: EffectType, params: Record<string, EffectValue> = {}): EffectLayer => ({
+  type,
+  enabled: true,
+  params: Object.fromEntries(
+    getEffectDefinition(type).params.map((param) => [param.id, params[param.id] ?? param.default]),
+  ),
+})
+
+/** Adds a new effect of `type` after every effect with a lower order, so it lands in its usual spot. */
+export const insertEffect = (effects: EffectLayer[], type: EffectType) => {
+  const { order } = getEffectDefinition(type)
+  const index = effects.findIndex((effect) => getEffectDefinition(effect.type).order > order)
+  const effect = createEffect(type)
+  return index < 0 ? [...effects, effect] : [...effects.slice(0, index), effect, ...effects.slice(index)]
+}
+
+/**
+ * The effects the old "Texture" and "Vignette" sliders (0–100) stood for, so styles saved
+ * before the effects stack look the same after migrating.
+ */
+export const getLegacyEffects = (noise: number, vignette: number): EffectLayer[] => [
+  ...(noise > 0 ? [createEffect('noise', { amount: noise })] : []),
+  ...(vignette > 0 ? [createEffect('vignette', { amount: vignette })] : []),
+]
+
+export const hasEffects = (effects: EffectLayer[], target: EffectTarget) =>
+  effects.some((effect) => effect.enabled && getEffectDefinition(effect.type).target === target)
+
+/** `normal` is the one blend mode whose canvas name differs from CSS. */
+export const toCompositeOperation = (blend: EffectBlend): GlobalCompositeOperation =>
+  blend === 'normal' ? 'source-over' : blend
+
+/** Paints the enabled effects for `target` in stack order, each with its own blend mode. */
+export const paintEffects = (painter: Painter, effects: EffectLayer[], target: EffectTarget, box: Rect) => {
+  const { context } = painter
+  for (const effect of effects) {
+    const definition = getEffectDefinition(effect.type)
+    if (!effect.enabled || definition.target !== target) continue
+    context.save()
+    context.globalCompositeOperation = toCompositeOperation(definition.blend)
+    definition.paint(painter, box, effect.params)
+    context.restore()
+  }
+}
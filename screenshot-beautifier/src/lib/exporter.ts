@@ -0,0 +1,152 @@
+import { zipSync } from 'fflate'
+import { readBlobAsDataUrl } from './images'
+import { renderImage } from './renderClient'
+import { EXPORT_MATTE } from './renderer'
+import type { RenderRequest } from './renderClient'
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp'
+
+export interface ExportOptions {
+  format: ExportFormat
+  scale: number
+  /** 0–1, only used by the lossy formats. */
+  quality: number
+  transparent: boolean
+}
+
+/** One image with the styling it renders with; everything else comes from `ExportOptions`. */
+export type ExportJob = Omit<RenderRequest, 'scale' | 'transparent' | 'matte' | 'type' | 'quality'>
+
+export const exportFormats: {
+  id: ExportFormat
+  label: string
+  description: string
+  extension: string
+  lossy: boolean
+  supportsTransparency: boolean
+}[] = [
+  {
+    id: 'png',
+    label: 'PNG',
+    description: 'Lossless, crisp text and UI.',
+    extension: 'png',
+    lossy: false,
+    supportsTransparency: true,
+  },
+  {
+    id: 'jpeg',
+    label: 'JPEG',
+    description: 'Small photos, no transparency.',
+    extension: 'jpg',
+    lossy: true,
+    supportsTransparency: false,
+  },
+  {
+    id: 'webp',
+    label: 'WebP',
+    description: 'Tiny files for docs and the web.',
+    extension: 'webp',
+    lossy: true,
+    supportsTransparency: true,
+  },
+]
+
+export const getExportFormat = (format: ExportFormat) =>
+  exportFormats.find((option) => option.id === format) ?? exportFormats[0]
+
+export const renderExportBlob = async (
+  job: ExportJob,
+  options: ExportOptions,
+  onProgress?: (progress: number) => void,
+) => {
+  const format = getExportFormat(options.format)
+  const transparent = options.transparent && format.supportsTransparency
+  const type = format.id === 'jpeg' ? 'image/jpeg' : format.id === 'webp' ? 'image/webp' : 'image/png'
+  const rendered = await renderImage(
+    {
+      ...job,
+      scale: options.scale,
+      transparent,
+      matte: format.supportsTransparency ? undefined : EXPORT_MATTE,
+      type,
+      quality: format.lossy ? options.quality : undefined,
+    },
+    onProgress,
+  )
+  // Browsers without a WebP encoder silently fall back to PNG.
+  if (rendered.blob.type !== type) {
+    throw new Error(`This browser cannot encode ${format.label} images`)
+  }
+  return rendered.blob
+}
+
+export const renderPngBlob = (job: ExportJob, options: Pick<ExportOptions, 'scale' | 'transparent'>) =>
+  renderExportBlob(job, { ...options, format: 'png', quality: 1 })
+
+/**
+ * Saves `blob` through a temporary download link. The object URL outlives the click,
+ * since Firefox and Safari can drop the download if it is revoked in the same task.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.download = fileName
+  link.href = url
+  link.click()
+  window.setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export const createExportTimestamp = () => new Date().toISOString().replace(/[:.]/g, '-')
+
+/** Lowercase words joined by dashes, falling back to "screenshot" when nothing is left. */
+export const toSafeFileName = (imageName: string) =>
+  imageName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '') || 'screenshot'
+
+export const buildExportFileName = (
+  imageName: string,
+  options: Pick<ExportOptions, 'format' | 'scale'> & { timestamp?: string },
+) => {
+  const safeName = toSafeFileName(imageName)
+  const timestamp = options.timestamp ?? createExportTimestamp()
+  const format = getExportFormat(options.format)
+  return `${safeName}-${options.scale}x-${timestamp}.${format.extension}`
+}
+
+/** Small JPEG preview for the saved-styles library; JPEG keeps localStorage usage low. */
+export const renderThumbnail = async (job: ExportJob, width = 320) => {
+  const canvasWidth = job.settings.canvasSize === 'auto' ? job.autoWidth : job.settings.canvasWidth
+  const { blob } = await renderImage({
+    ...job,
+    scale: Math.min(width / Math.max(canvasWidth, 1), 1),
+    transparent: false,
+    matte: EXPORT_MATTE,
+    type: 'image/jpeg',
+    quality: 0.72,
+  })
+  return readBlobAsDataUrl(blob)
+}
+
+const dedupeFileName = (name: string, taken: Set<string>) => {
+  if (!taken.has(name)) return name
+  const dot = name.lastIndexOf('.')
+  const base = dot > 0 ? name.slice(0, dot) : name
+  const extension = dot > 0 ? name.slice(dot) : ''
+  let index = 2
+  while (taken.has(`${base}-${index}${extension}`)) index += 1
+  return `${base}-${index}${extension}`
+}
+
+/** Images are already compressed, so entries are stored rather than deflated. */
+export const createZipBlob = (files: { name: string; bytes: Uint8Array }[]) => {
+  const taken = new Set<string>()
+  const entries: Record<string, [Uint8Array, { level: 0 }]> = {}
+  for (const file of files) {
+    const name = dedupeFileName(file.name, taken)
+    taken.add(name)
+    entries[name] = [file.bytes, { level: 0 }]
+  }
+  return new Blob([zipSync(entries)], { type: 'application/zip' })
+}
@@ -0,0 +1,157 @@
+export type TextFont = 'inter' | 'poppins' | 'space-grotesk' | 'playfair' | 'lora' | 'jetbrains-mono'
+
+export const textFonts: {
+  id: TextFont
+  label: string
+  description: string
+  /** Google Fonts family name. */
+  family: string
+  fallback: string
+}[] = [
+  {
+    id: 'inter',
+    label: 'Inter',
+    description: 'Neutral product UI.',
+    family: 'Inter',
+    fallback: 'ui-sans-serif, system-ui, sans-serif',
+  },
+  {
+    id: 'poppins',
+    label: 'Poppins',
+    description: 'Friendly, geometric.',
+    family: 'Poppins',
+    fallback: 'ui-sans-serif, system-ui, sans-serif',
+  },
+  {
+    id: 'space-grotesk',
+    label: 'Space Grotesk',
+    description: 'Techy launch posts.',
+    family: 'Space Grotesk',
+    fallback: 'ui-sans-serif, system-ui, sans-serif',
+  },
+  {
+    id: 'playfair',
+    label: 'Playfair',
+    description: 'Editorial display serif.',
+    family: 'Playfair Display',
+    fallback: 'ui-serif, Georgia, serif',
+  },
+  {
+    id: 'lora',
+    label: 'Lora',
+    description: 'Warm, readable serif.',
+    family: 'Lora',
+    fallback: 'ui-serif, Georgia, serif',
+  },
+  {
+    id: 'jetbrains-mono',
+    label: 'JetBrains Mono',
+    description: 'Developer tooling.',
+    family: 'JetBrains Mono',
+    fallback: 'ui-monospace, SFMono-Regular, monospace',
+  },
+]
+
+/** The app's own font, which frame chrome and annotation labels render in. */
+export const UI_FONT: TextFont = 'inter'
+
+export const TEXT_FONT_WEIGHTS = [400, 500, 600, 700]
+
+const getTextFont = (id: TextFont) => textFonts.find((font) => font.id === id) ?? textFonts[0]
+
+export const getFontStack = (id: TextFont) => {
+  const font = getTextFont(id)
+  return `"${font.family}", ${font.fallback}`
+}
+
+/** Matches the `<link>` in index.html for Inter, so the UI font is never requested twice. */
+const getStylesheetUrl = (id: TextFont) =>
+  `https://fonts.googleapis.com/css2?family=${getTextFont(id).family.replace(/ /g, '+')}:wght@${TEXT_FONT_WEIGHTS.join(';')}&display=swap`
+
+/** Adds the font's stylesheet once and resolves when the given weights can render. */
+export const loadTextFont = async (id: TextFont, weights: number[] = TEXT_FONT_WEIGHTS) => {
+  const href = getStylesheetUrl(id)
+  if (!document.querySelector(`link[rel="stylesheet"][href="${href}"]`)) {
+    const link = document.createElement('link')
+    link.rel = 'stylesheet'
+    link.href = href
+    document.head.append(link)
+  }
+  const { family } = getTextFont(id)
+  await Promise.all(weights.map((weight) => document.fonts.load(`${weight} 1em "${family}"`)))
+}
+
+/** A font file and the `@font-face` descriptors it was served with, ready for `new FontFace`. */
+export interface FontSource {
+  family: string
+  weight: string
+  style: string
+  unicodeRange: string | undefined
+  data: ArrayBuffer
+}
+
+const stylesheetCache = new Map<string, Promise<string>>()
+const fontFileCache = new Map<string, Promise<ArrayBuffer>>()
+
+const fetchCached = <T>(cache: Map<string, Promise<T>>, url: string, read: (response: Response) => Promise<T>) => {
+  const cached = cache.get(url)
+  if (cached) return cached
+  const pending = fetch(url).then((response) => {
+    if (!response.ok) throw new Error(`Font request failed with ${response.status}: ${url}`)
+    return read(response)
+  })
+  // Forget failures so a later export can retry once the network is back.
+  pending.catch(() => cache.delete(url))
+  cache.set(url, pending)
+  return pending
+}
+
+const readDescriptor = (block: string, name: string) =>
+  block.match(new RegExp(`${name}:\\s*([^;}]+)`, 'i'))?.[1].trim()
+
+/** Parses `unicode-range: U+0000-00FF, U+0131, U+2000-206F` into inclusive code point ranges. */
+const parseUnicodeRange = (range: string) =>
+  range.split(',').map((part) => {
+    const [start, end = start] = part.trim().replace(/^U\+/i, '').split('-')
+    if (start.includes('?')) {
+      return [parseInt(start.replace(/\?/g, '0'), 16), parseInt(start.replace(/\?/g, 'F'), 16)]
+    }
+    return [parseInt(start, 16), parseInt(end, 16)]
+  })
+
+/**
+ * The font files a render needs, fetched once and cached, so a canvas in a worker (which
+ * can't see the page's stylesheets) can register them itself. Google splits each weight
+ * into unicode-range subsets, so only the subsets that `text` actually uses are fetched.
+ */
+export const loadFontSources = async (fonts: TextFont[], text: string) => {
+  const codePoints = Array.from(new Set(text), (character) => character.codePointAt(0) ?? 0)
+  const coversText = (range: string | undefined) =>
+    !range ||
+    parseUnicodeRange(range).some(([start, end]) =>
+      codePoints.some((point) => point >= start && point <= end),
+    )
+
+  const sheets = await Promise.all(
+    Array.from(new Set(fonts), async (id) => {
+      const css = await fetchCached(stylesheetCache, getStylesheetUrl(id), (response) => response.text())
+      const faces = (css.match(/@font-face\s*{[^}]*}/g) ?? []).flatMap((face) => {
+        const url = face.match(/url\((['"]?)([^'")]+)\1\)/)?.[2]
+        const unicodeRange = readDescriptor(face, 'unicode-range')
+        return url && coversText(unicodeRange) ? [{ face, url, unicodeRange }] : []
+      })
+      return Promise.all(
+        faces.map(
+          async ({ face, url, unicodeRange }): Promise<FontSource> => ({
+            family: readDescriptor(face, 'font-family')?.replace(/['"]/g, '') ?? getTextFont(id).family,
+            weight: readDescriptor(face, 'font-weight') ?? '400',
+            style: readDescriptor(face, 'font-style') ?? 'normal',
+            unicodeRange,
+            data: await fetchCached(fontFileCache, url, (response) => response.arrayBuffer()),
+          }),
+        ),
+      )
+    }),
+  )
+  return sheets.flat()
+}
@@ -0,0 +1,133 @@
+export type FrameType =
+  | 'none'
+  | 'macos-light'
+  | 'macos-dark'
+  | 'windows-11'
+  | 'browser'
+  | 'iphone'
+  | 'android'
+  | 'ipad'
+  | 'laptop'
+
+export type FrameAppearance = 'light' | 'dark'
+
+export interface FrameInsets {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+interface FrameDefinition {
+  id: FrameType
+  label: string
+  description: string
+  /** Window frames stretch to the preview width; devices shrink-wrap the screenshot. */
+  kind: 'window' | 'device'
+  /** Space the frame adds around the screenshot, used to auto-fit fixed canvases. */
+  insets: FrameInsets
+  options: {
+    title?: boolean
+    url?: boolean
+    tabs?: boolean
+    appearance?: boolean
+    notch?: boolean
+    accent?: boolean
+  }
+}
+
+const uniform = (value: number): FrameInsets => ({
+  top: value,
+  right: value,
+  bottom: value,
+  left: value,
+})
+
+export const frameDefinitions: FrameDefinition[] = [
+  {
+    id: 'none',
+    label: 'None',
+    description: 'Just the screenshot.',
+    kind: 'window',
+    insets: uniform(1),
+    options: {},
+  },
+  {
+    id: 'macos-light',
+    label: 'macOS Light',
+    description: 'Traffic lights on a bright bar.',
+    kind: 'window',
+    insets: { ...uniform(1), top: 57 },
+    options: { title: true, accent: true },
+  },
+  {
+    id: 'macos-dark',
+    label: 'macOS Dark',
+    description: 'Glassy bar for dark UIs.',
+    kind: 'window',
+    insets: { ...uniform(1), top: 57 },
+    options: { title: true, accent: true },
+  },
+  {
+    id: 'windows-11',
+    label: 'Windows 11',
+    description: 'Mica title bar and caption buttons.',
+    kind: 'window',
+    insets: { ...uniform(1), top: 41 },
+    options: { title: true, appearance: true },
+  },
+  {
+    id: 'browser',
+    label: 'Browser',
+    description: 'Tabs and an editable URL bar.',
+    kind: 'window',
+    insets: { ...uniform(1), top: 85 },
+    options: { title: true, url: true, tabs: true, appearance: true, accent: true },
+  },
+  {
+    id: 'iphone',
+    label: 'iPhone',
+    description: 'Rounded bezel with Dynamic Island.',
+    kind: 'device',
+    insets: uniform(14),
+    options: { appearance: true, notch: true },
+  },
+  {
+    id: 'android',
+    label: 'Android',
+    description: 'Slim bezel with punch-hole camera.',
+    kind: 'device',
+    insets: uniform(10),
+    options: { appearance: true, notch: true },
+  },
+  {
+    id: 'ipad',
+    label: 'iPad',
+    description: 'Even bezels for tablet layouts.',
+    kind: 'device',
+    insets: uniform(22),
+    options: { appearance: true },
+  },
+  {
+    id: 'laptop',
+    label: 'Laptop',
+    description: 'Display bezel on a keyboard deck.',
+    kind: 'device',
+    insets: { top: 26, right: 74, bottom: 40, left: 74 },
+    options: { appearance: true, notch: true },
+  },
+]
+
+export const getFrameDefinition = (frameType: FrameType) =>
+  frameDefinitions.find((frame) => frame.id === frameType) ?? frameDefinitions[0]
+
+/** macOS frames carry their appearance in the type; the rest follow `frameAppearance`. */
+export const isFrameDark = (frameType: FrameType, appearance: FrameAppearance) =>
+  frameType === 'macos-dark' || (frameType !== 'macos-light' && appearance === 'dark')
+
+export const frameAppearanceOptions: { id: FrameAppearance; label: string; description: string }[] = [
+  { id: 'light', label: 'Light', description: 'Bright chrome and silver bezels.' },
+  { id: 'dark', label: 'Dark', description: 'Graphite chrome and black bezels.' },
+]
+
+export const BROWSER_TAB_COUNT_MAX = 4
@@ -0,0 +1,275 @@
+/**
+ * A small GIF89a encoder: each frame gets its own 256-color palette from a median cut over
+ * a 15-bit histogram, a light ordered dither against banding in gradients, and LZW data.
+ * Frames are encoded one at a time, so a long animation never holds more than one frame's
+ * pixels.
+ */
+
+const PALETTE_SIZE = 256
+const MIN_CODE_SIZE = 8
+const MAX_CODE = 4095
+/** Bits kept per channel when bucketing colors. */
+const CHANNEL_BITS = 5
+const CHANNEL_SHIFT = 8 - CHANNEL_BITS
+const BUCKETS = 1 << (CHANNEL_BITS * 3)
+/** 4×4 Bayer thresholds, spread over one bucket's width. */
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(
+  (value) => ((value + 0.5) / 16 - 0.5) * (1 << CHANNEL_SHIFT),
+)
+
+class ByteWriter {
+  private bytes: number[] = []
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff)
+  }
+
+  word(value: number) {
+    this.byte(value)
+    this.byte(value >> 8)
+  }
+
+  ascii(text: string) {
+    for (const char of text) this.byte(char.charCodeAt(0))
+  }
+
+  append(bytes: ArrayLike<number>) {
+    for (let index = 0; index < bytes.length; index += 1) this.bytes.push(bytes[index])
+  }
+
+  toArray() {
+    return Uint8Array.from(this.bytes)
+  }
+}
+
+const toBucket = (r: number, g: number, b: number) =>
+  ((r >> CHANNEL_SHIFT) << (CHANNEL_BITS * 2)) | ((g >> CHANNEL_SHIFT) << CHANNEL_BITS) | (b >> CHANNEL_SHIFT)
+
+const fromBucket = (bucket: number, channel: number) =>
+  (((bucket >> (CHANNEL_BITS * (2 - channel))) & ((1 << CHANNEL_BITS) - 1)) << CHANNEL_SHIFT) |
+  (1 << (CHANNEL_SHIFT - 1))
+
+interface ColorBox {
+  buckets: number[]
+  count: number
+}
+
+const getChannelRange = (box: ColorBox, channel: number) => {
+  let min = 255
+  let max = 0
+  for (const bucket of box.buckets) {
+    const value = fromBucket(bucket, channel)
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  return max - min
+}
+
+/** Splits the box with the most pixels across its widest channel until the palette is full. */
+const medianCut = (histogram: Uint32Array) => {
+  const buckets: number[] = []
+  let count = 0
+  histogram.forEach((pixels, bucket) => {
+    if (pixels === 0) return
+    buckets.push(bucket)
+    count += pixels
+  })
+  const boxes: ColorBox[] = [{ buckets, count }]
+
+  while (boxes.length < PALETTE_SIZE) {
+    const splittable = boxes.filter((box) => box.buckets.length > 1)
+    if (splittable.length === 0) break
+    const box = splittable.reduce((largest, candidate) =>
+      candidate.count > largest.count ? candidate : largest,
+    )
+    const ranges = [0, 1, 2].map((channel) => getChannelRange(box, channel))
+    const channel = ranges.indexOf(Math.max(...ranges))
+    box.buckets.sort((a, b) => fromBucket(a, channel) - fromBucket(b, channel))
+
+    let seen = 0
+    let split = 1
+    for (; split < box.buckets.length - 1; split += 1) {
+      seen += histogram[box.buckets[split - 1]]
+      if (seen >= box.count / 2) break
+    }
+    const low = box.buckets.slice(0, split)
+    const high = box.buckets.slice(split)
+    const sum = (part: number[]) => part.reduce((total, bucket) => total + histogram[bucket], 0)
+    boxes.splice(
+      boxes.indexOf(box),
+      1,
+      { buckets: low, count: sum(low) },
+      { buckets: high, count: sum(high) },
+    )
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3)
+  boxes.forEach((box, index) => {
+    for (let channel = 0; channel < 3; channel += 1) {
+      let total = 0
+      for (const bucket of box.buckets) total += fromBucket(bucket, channel) * histogram[bucket]
+      palette[index * 3 + channel] = Math.round(total / Math.max(box.count, 1))
+    }
+  })
+  return { palette, size: boxes.length }
+}
+
+/** Maps every pixel to its nearest palette entry, remembering the answer per bucket. */
+const mapPixels = (data: Uint8ClampedArray, width: number, palette: Uint8Array, size: number) => {
+  const cache = new Int16Array(BUCKETS).fill(-1)
+  const indices = new Uint8Array(data.length / 4)
+  const dither = (value: number, offset: number) => Math.min(Math.max(Math.round(value + offset), 0), 255)
+  for (let pixel = 0; pixel < indices.length; pixel += 1) {
+    const offset = BAYER[((Math.floor(pixel / width) & 3) << 2) | (pixel % width & 3)]
+    const start = pixel * 4
+    const bucket = toBucket(
+      dither(data[start], offset),
+      dither(data[start + 1], offset),
+      dither(data[start + 2], offset),
+    )
+    let nearest = cache[bucket]
+    if (nearest < 0) {
+      let best = Infinity
+      const r = fromBucket(bucket, 0)
+      const g = fromBucket(bucket, 1)
+      const b = fromBucket(bucket, 2)
+      for (let entry = 0; entry < size; entry += 1) {
+        const distance =
+          (palette[entry * 3] - r) ** 2 +
+          (palette[entry * 3 + 1] - g) ** 2 +
+          (palette[entry * 3 + 2] - b) ** 2
+        if (distance < best) {
+          best = distance
+          nearest = entry
+        }
+      }
+      cache[bucket] = nearest
+    }
+    indices[pixel] = nearest
+  }
+  return indices
+}
+
+/** Variable-width LZW codes, packed least significant bit first into 255-byte sub-blocks. */
+const compress = (indices: Uint8Array, writer: ByteWriter) => {
+  const clearCode = 1 << MIN_CODE_SIZE
+  const endCode = clearCode + 1
+  const packed: number[] = []
+  let buffer = 0
+  let bufferBits = 0
+  let codeSize = MIN_CODE_SIZE + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits
+    bufferBits += codeSize
+    while (bufferBits >= 8) {
+      packed.push(buffer & 0xff)
+      buffer >>>= 8
+      bufferBits -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let index = 1; index < indices.length; index += 1) {
+    const value = indices[index]
+    const key = (prefix << 8) | value
+    const existing = table.get(key)
+    if (existing !== undefined) {
+      prefix = existing
+      continue
+    }
+    emit(prefix)
+    if (nextCode <= MAX_CODE) {
+      table.set(key, nextCode)
+      if (nextCode === 1 << codeSize) codeSize += 1
+      nextCode += 1
+    } else {
+      emit(clearCode)
+      table = new Map()
+      codeSize = MIN_CODE_SIZE + 1
+      nextCode = endCode + 1
+    }
+    prefix = value
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bufferBits > 0) packed.push(buffer & 0xff)
+
+  writer.byte(MIN_CODE_SIZE)
+  for (let start = 0; start < packed.length; start += 255) {
+    const block = packed.slice(start, start + 255)
+    writer.byte(block.length)
+    writer.append(block)
+  }
+  writer.byte(0)
+}
+
+/**
+ * Encodes one frame of RGBA pixels with its own palette. Timing is added when the file is
+ * put together, so a frame can be shown more than once with different delays.
+ */
+export const encodeGifFrame = (image: ImageData) => {
+  const { data, width, height } = image
+  const histogram = new Uint32Array(BUCKETS)
+  for (let offset = 0; offset < data.length; offset += 4) {
+    histogram[toBucket(data[offset], data[offset + 1], data[offset + 2])] += 1
+  }
+  const { palette, size } = medianCut(histogram)
+  const indices = mapPixels(data, width, palette, size)
+
+  const writer = new ByteWriter()
+  // Image descriptor with a full-size local color table.
+  writer.byte(0x2c)
+  writer.word(0)
+  writer.word(0)
+  writer.word(width)
+  writer.word(height)
+  writer.byte(0x80 | (MIN_CODE_SIZE - 1))
+  writer.append(palette)
+  compress(indices, writer)
+  return writer.toArray()
+}
+
+/**
+ * Per-frame delays that add up to the exact duration, since GIF delays are whole
+ * hundredths of a second and most frame rates don't divide 100.
+ */
+export const getGifDelays = (frameCount: number, fps: number) =>
+  Array.from(
+    { length: frameCount },
+    (_, index) => Math.round(((index + 1) * 100) / fps) - Math.round((index * 100) / fps),
+  )
+
+/**
+ * Wraps encoded frames in a GIF file. Delays are in hundredths of a second, the unit GIF
+ * timing uses; `repeat` loops the file forever, otherwise it plays once.
+ */
+export const createGifBlob = (
+  size: { width: number; height: number },
+  frames: { bytes: Uint8Array<ArrayBuffer>; delay: number }[],
+  repeat: boolean,
+) => {
+  const header = new ByteWriter()
+  header.ascii('GIF89a')
+  header.word(size.width)
+  header.word(size.height)
+  // No global color table; every frame carries its own.
+  header.append([0x70, 0x00, 0x00])
+  if (repeat) {
+    header.append([0x21, 0xff, 0x0b])
+    header.ascii('NETSCAPE2.0')
+    header.append([0x03, 0x01, 0x00, 0x00, 0x00])
+  }
+  const parts = frames.flatMap(({ bytes, delay }) => {
+    // Graphic control: leave the frame in place, no transparency.
+    const control = new ByteWriter()
+    control.append([0x21, 0xf9, 0x04, 0x04])
+    control.word(delay)
+    control.append([0x00, 0x00])
+    return [control.toArray(), bytes]
+  })
+  return new Blob([header.toArray(), ...parts, Uint8Array.of(0x3b)], { type: 'image/gif' })
+}
@@ -0,0 +1,237 @@
+import { decodeImage, readBlobAsDataUrl } from './images'
+import type { Size } from './canvasSize'
+
+/** The formats every current browser decodes. */
+export const supportedImageTypes = [
+  { type: 'image/png', label: 'PNG' },
+  { type: 'image/jpeg', label: 'JPG' },
+  { type: 'image/webp', label: 'WEBP' },
+  { type: 'image/avif', label: 'AVIF' },
+  { type: 'image/gif', label: 'GIF' },
+  { type: 'image/bmp', label: 'BMP' },
+  { type: 'image/svg+xml', label: 'SVG' },
+] as const
+
+export const ACCEPTED_IMAGE_TYPES = supportedImageTypes.map(({ type }) => type).join(',')
+const SUPPORTED_LABELS = supportedImageTypes.map(({ label }) => label).join(', ')
+
+export const IMAGE_BYTES_MAX = 20 * 1024 * 1024
+/** Past these, canvases fail or exhaust memory in at least one major browser. */
+export const IMAGE_SIDE_MAX = 16384
+export const IMAGE_PIXELS_MAX = 64_000_000
+/** Captures larger than this are scaled down to it when downscaling is on. */
+export const DOWNSCALE_PIXELS = 24_000_000
+const DOWNSCALE_SIDE = 8192
+
+/** Recognised but undecodable formats, so the message can say what to convert to. */
+const unsupportedTypeLabels: Record<string, string> = {
+  'image/heic': 'HEIC',
+  'image/tiff': 'TIFF',
+}
+
+export class ImageInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImageInputError'
+  }
+}
+
+export interface PreparedImage {
+  dataUrl: string
+  /** Things changed on the way in, worth telling the user about. */
+  notices: string[]
+}
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`
+    : `${Math.ceil(bytes / 1024)} KB`
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte)
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+
+/** Reads the type from the file's first bytes; the extension and the reported MIME type can lie. */
+export const sniffImageType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif'
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp'
+  if (startsWith(bytes, ascii('BM'))) return 'image/bmp'
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) {
+    return 'image/tiff'
+  }
+  if (startsWith(bytes, ascii('ftyp'), 4)) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12))
+    if (brand.startsWith('avi')) return 'image/avif'
+    if (brand.startsWith('hei') || brand.startsWith('mif') || brand === 'msf1') return 'image/heic'
+  }
+  const head = new TextDecoder().decode(bytes.slice(0, 1024)).replace(/^\uFEFF/, '').trimStart()
+  if (head.startsWith('<') && /<svg[\s>]/i.test(new TextDecoder().decode(bytes))) return 'image/svg+xml'
+  return null
+}
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+
+/** An APNG declares its animation in an `acTL` chunk ahead of the image data. */
+const isAnimatedPng = (bytes: Uint8Array) => {
+  let offset = 8
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.slice(offset + 4, offset + 8))
+    if (type === 'acTL') return true
+    if (type === 'IDAT') return false
+    offset += readUint32(bytes, offset) + 12
+  }
+  return false
+}
+
+/** Counts image descriptors, skipping color tables, extensions, and frame data. */
+const isAnimatedGif = (bytes: Uint8Array) => {
+  const skipSubBlocks = (start: number) => {
+    let offset = start
+    while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1
+    return offset + 1
+  }
+  const colorTableSize = (flags: number) => (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0)
+
+  let offset = 13 + colorTableSize(bytes[10])
+  let frames = 0
+  while (offset < bytes.length) {
+    const block = bytes[offset]
+    if (block === 0x2c) {
+      frames += 1
+      if (frames > 1) return true
+      offset = skipSubBlocks(offset + 11 + colorTableSize(bytes[offset + 9]))
+    } else if (block === 0x21) {
+      offset = skipSubBlocks(offset + 2)
+    } else {
+      return false
+    }
+  }
+  return false
+}
+
+/** Extended WebP files carry an animation flag in their `VP8X` header. */
+const isAnimatedWebp = (bytes: Uint8Array) =>
+  startsWith(bytes, ascii('VP8X'), 12) && (bytes[20] & 0x02) !== 0
+
+export const isAnimatedImage = (type: string, bytes: Uint8Array) => {
+  switch (type) {
+    case 'image/gif':
+      return isAnimatedGif(bytes)
+    case 'image/png':
+      return isAnimatedPng(bytes)
+    case 'image/webp':
+      return isAnimatedWebp(bytes)
+    default:
+      return false
+  }
+}
+
+export const exceedsCanvasLimits = ({ width, height }: Size) =>
+  Math.max(width, height) > IMAGE_SIDE_MAX || width * height > IMAGE_PIXELS_MAX
+
+const getDownscaledSize = ({ width, height }: Size): Size | null => {
+  const scale = Math.min(
+    Math.sqrt(DOWNSCALE_PIXELS / (width * height)),
+    DOWNSCALE_SIDE / Math.max(width, height),
+  )
+  if (scale >= 1) return null
+  return { width: Math.max(Math.round(width * scale), 1), height: Math.max(Math.round(height * scale), 1) }
+}
+
+/** Draws the image once, flattening animations to the frame shown first. */
+const rasterize = (image: HTMLImageElement, size: Size, type: string) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const context = canvas.getContext('2d')
+  if (!context) throw new ImageInputError('This browser could not prepare the image. Please try again.')
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(image, 0, 0, size.width, size.height)
+  return type === 'image/jpeg' ? canvas.toDataURL('image/jpeg', 0.92) : canvas.toDataURL('image/png')
+}
+
+/** The raster size for images that must fit `maxSide`; vectors scale up to it and stay sharp. */
+const getFittedSize = ({ width, height }: Size, maxSide: number, type: string): Size => {
+  const scale = maxSide / Math.max(width, height)
+  const fitted = type === 'image/svg+xml' ? scale : Math.min(scale, 1)
+  return { width: Math.max(Math.round(width * fitted), 1), height: Math.max(Math.round(height * fitted), 1) }
+}
+
+/**
+ * Checks a file before it joins the queue: size, real format, whether it decodes, and
+ * whether its pixels fit a canvas. Throws `ImageInputError` with a message that says what
+ * to do about it. Animated images keep their first frame, and with `downscale` on, huge
+ * captures are scaled to `DOWNSCALE_PIXELS`. With `maxSide`, the result is always a raster
+ * no larger than that on either side, for small inline images such as logos.
+ */
+export const prepareImageFile = async (
+  file: File,
+  { downscale, maxSide }: { downscale: boolean; maxSide?: number },
+): Promise<PreparedImage> => {
+  const name = `“${file.name}”`
+  if (file.size === 0) throw new ImageInputError(`${name} is empty. Capture or save it again.`)
+  if (file.size > IMAGE_BYTES_MAX) {
+    throw new ImageInputError(
+      `${name} is ${formatBytes(file.size)}; the limit is ${formatBytes(IMAGE_BYTES_MAX)}. ` +
+        'Save it as JPG or WEBP, or crop it, and try again.',
+    )
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const type = sniffImageType(bytes)
+  if (type && type in unsupportedTypeLabels) {
+    throw new ImageInputError(
+      `${name} is a ${unsupportedTypeLabels[type]} image, which browsers can't open. ` +
+        'Export it as PNG or JPG first.',
+    )
+  }
+  if (!type) {
+    throw new ImageInputError(
+      file.type.startsWith('image/')
+        ? `${name} looks damaged: it isn't a valid image file. Re-save or capture it again.`
+        : `${name} isn't an image. Use a ${SUPPORTED_LABELS} file.`,
+    )
+  }
+
+  // Re-typed from the sniffed bytes, so a mislabeled file still decodes.
+  const dataUrl = await readBlobAsDataUrl(new Blob([bytes], { type }))
+  let image: HTMLImageElement
+  try {
+    image = await decodeImage(dataUrl)
+  } catch {
+    throw new ImageInputError(
+      `${name} couldn't be decoded; the file may be damaged or incomplete. Re-save it and try again.`,
+    )
+  }
+  const size = { width: image.naturalWidth, height: image.naturalHeight }
+  if (size.width === 0 || size.height === 0) {
+    throw new ImageInputError(`${name} has no size. Give the SVG a width and height, or export it as PNG.`)
+  }
+
+  const notices: string[] = []
+  const animated = isAnimatedImage(type, bytes)
+  if (animated) notices.push(`${name} is animated, so its first frame was used.`)
+  if (maxSide) return { dataUrl: rasterize(image, getFittedSize(size, maxSide, type), 'image/png'), notices }
+
+  const downscaled = downscale ? getDownscaledSize(size) : null
+  if (!downscaled && exceedsCanvasLimits(size)) {
+    throw new ImageInputError(
+      `${name} is ${size.width} × ${size.height}px, more than browsers can draw. ` +
+        'Turn on “Downscale huge captures” or crop it, and try again.',
+    )
+  }
+  if (downscaled) {
+    notices.push(
+      `${name} was scaled from ${size.width} × ${size.height} to ` +
+        `${downscaled.width} × ${downscaled.height}px to keep editing smooth. ` +
+        'Turn off “Downscale huge captures” to keep every pixel.',
+    )
+  }
+
+  if (!downscaled && !animated) return { dataUrl, notices }
+  return { dataUrl: rasterize(image, downscaled ?? size, type), notices }
+}
@@ -0,0 +1,68 @@
+import { createId } from './id'
+import type { Size } from './canvasSize'
+import type { Annotation } from './annotations'
+import type { Redaction } from './redaction'
+import { extractPalette } from './palette'
+import type { Settings } from '../settings'
+
+export interface QueuedImage {
+  id: string
+  name: string
+  dataUrl: string
+  width: number
+  height: number
+  /** Full styling for this image only; null means it follows the shared settings. */
+  overrides: Settings | null
+  /** Vector marks in the image's own pixel space, so they survive any reframing. */
+  annotations: Annotation[]
+  /** Regions baked into the pixels before framing, in the image's own pixel space. */
+  redactions: Redaction[]
+  /** Dominant colors, most common first; empty when the pixels can't be read. */
+  palette: string[]
+}
+
+export const toFriendlyName = (fileName: string) =>
+  fileName.replace(/\.[^/.]+$/, '') || 'Screenshot'
+
+export const readBlobAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read the rendered image'))
+    reader.readAsDataURL(blob)
+  })
+
+export const decodeImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('The image could not be decoded'))
+    image.src = src
+  })
+
+const readPalette = (image: HTMLImageElement, size: Size) => {
+  try {
+    return extractPalette(image, size)
+  } catch (error) {
+    // SVGs that reference external resources taint the canvas; they just get no suggestions.
+    console.warn('Could not sample screenshot colors', error)
+    return []
+  }
+}
+
+export const createQueuedImage = async (dataUrl: string, fileName: string): Promise<QueuedImage> => {
+  const image = await decodeImage(dataUrl)
+  const width = image.naturalWidth
+  const height = image.naturalHeight
+  return {
+    id: createId(),
+    name: toFriendlyName(fileName),
+    dataUrl,
+    width,
+    height,
+    overrides: null,
+    annotations: [],
+    redactions: [],
+    palette: readPalette(image, { width, height }),
+  }
+}
@@ -0,0 +1,200 @@
+import { getContrastRatio, getLuminance, hexToHsl, hslToHex, rgbToHex } from './color'
+import type { Hsl, Rgb } from './color'
+import { isFrameDark } from './frames'
+import { createTwoStopGradient } from './backgrounds'
+import type { GradientStop } from './backgrounds'
+import type { Size } from './canvasSize'
+import { areSettingsEqual } from '../settings'
+import type { Settings } from '../settings'
+
+export interface GradientSuggestion {
+  id: string
+  label: string
+  stops: GradientStop[]
+  angle: number
+}
+
+export interface SolidSuggestion {
+  id: string
+  label: string
+  color: string
+}
+
+export interface PaletteSuggestions {
+  gradients: GradientSuggestion[]
+  solids: SolidSuggestion[]
+  accent: string
+}
+
+/** Long edge of the downscaled copy that gets sampled; plenty for dominant colors. */
+const SAMPLE_EDGE = 64
+const PALETTE_SIZE = 6
+/** Minimum RGB distance between palette entries so near-duplicates don't crowd it out. */
+const MIN_COLOR_DISTANCE = 48
+/** Backdrops need at least this contrast with the frame edge so the frame doesn't dissolve. */
+const MIN_FRAME_CONTRAST = 1.6
+
+const FRAME_EDGE_DARK = '#0f172a'
+const FRAME_EDGE_LIGHT = '#f1f5f9'
+
+const createSampleCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true })
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas.getContext('2d', { willReadFrequently: true })
+}
+
+const colorDistance = (a: Rgb, b: Rgb) => Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b)
+
+/**
+ * The screenshot's most common colors, most dominant first. Pixels are bucketed at 5 bits
+ * per channel on a small offscreen copy, and each bucket reports its average color.
+ */
+export const extractPalette = (source: CanvasImageSource, size: Size, count = PALETTE_SIZE) => {
+  const scale = Math.min(1, SAMPLE_EDGE / Math.max(size.width, size.height, 1))
+  const width = Math.max(1, Math.round(size.width * scale))
+  const height = Math.max(1, Math.round(size.height * scale))
+  const context = createSampleCanvas(width, height)
+  if (!context) return []
+
+  context.drawImage(source, 0, 0, width, height)
+  const { data } = context.getImageData(0, 0, width, height)
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>()
+  for (let index = 0; index < data.length; index += 4) {
+    if (data[index + 3] < 128) continue
+    const [r, g, b] = [data[index], data[index + 1], data[index + 2]]
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 }
+    bucket.count += 1
+    bucket.r += r
+    bucket.g += g
+    bucket.b += b
+    buckets.set(key, bucket)
+  }
+
+  const palette: Rgb[] = []
+  const ranked = Array.from(buckets.values()).sort((a, b) => b.count - a.count)
+  for (const bucket of ranked) {
+    const color = { r: bucket.r / bucket.count, g: bucket.g / bucket.count, b: bucket.b / bucket.count }
+    if (palette.every((existing) => colorDistance(existing, color) > MIN_COLOR_DISTANCE)) {
+      palette.push(color)
+    }
+    if (palette.length === count) break
+  }
+  return palette.map(rgbToHex)
+}
+
+const isVivid = ({ s, l }: Hsl) => s > 0.25 && l > 0.15 && l < 0.85
+
+const hueDistance = (a: number, b: number) => {
+  const distance = Math.abs(a - b) % 360
+  return Math.min(distance, 360 - distance)
+}
+
+/** Moves a color's lightness away from the frame edge until the two are distinguishable. */
+const ensureFrameContrast = (hsl: Hsl, frameEdge: string) => {
+  const direction = getLuminance(frameEdge) > 0.5 ? -1 : 1
+  let adjusted = hsl
+  for (let step = 0; step < 25; step += 1) {
+    if (getContrastRatio(hslToHex(adjusted), frameEdge) >= MIN_FRAME_CONTRAST) break
+    adjusted = { ...adjusted, l: Math.min(Math.max(adjusted.l + direction * 0.03, 0), 1) }
+  }
+  return hslToHex(adjusted)
+}
+
+/**
+ * Turns an extracted palette into backdrop suggestions. The base hue is the most common
+ * colorful swatch, since screenshots are usually dominated by white or gray UI chrome.
+ */
+export const createPaletteSuggestions = (
+  palette: string[],
+  darkFrame: boolean,
+): PaletteSuggestions | null => {
+  if (palette.length === 0) return null
+  const colors = palette.map(hexToHsl)
+  const base = colors.find(isVivid) ?? colors[0]
+  const neutral = base.s < 0.1
+  const secondary = colors.find((color) => isVivid(color) && hueDistance(color.h, base.h) >= 30)
+  const frameEdge = darkFrame ? FRAME_EDGE_DARK : FRAME_EDGE_LIGHT
+
+  // Keep grayscale screenshots gray rather than inventing a hue.
+  const tone = (h: number, s: number, l: number) =>
+    ensureFrameContrast({ h, s: neutral ? Math.min(base.s, 0.08) : s, l }, frameEdge)
+  const vivid = Math.min(Math.max(base.s, 0.55), 0.85)
+
+  return {
+    gradients: [
+      {
+        id: 'screenshot',
+        label: 'Screenshot',
+        stops: createTwoStopGradient(
+          tone(base.h, vivid, 0.58),
+          tone(secondary?.h ?? base.h + 40, vivid, 0.46),
+        ),
+        angle: 135,
+      },
+      {
+        id: 'analogous',
+        label: 'Analogous',
+        stops: createTwoStopGradient(
+          tone(base.h - 30, vivid, 0.6),
+          tone(base.h + 30, vivid, 0.45),
+        ),
+        angle: 120,
+      },
+      {
+        id: 'complementary',
+        label: 'Complement',
+        stops: createTwoStopGradient(
+          tone(base.h + 180, vivid, 0.56),
+          tone(base.h + 210, vivid, 0.42),
+        ),
+        angle: 145,
+      },
+      {
+        id: 'deep',
+        label: 'Deep',
+        stops: createTwoStopGradient(
+          tone(base.h, 0.6, 0.32),
+          tone(base.h + 20, 0.5, 0.1),
+        ),
+        angle: 160,
+      },
+    ],
+    solids: [
+      { id: 'shade', label: 'Shade', color: tone(base.h, 0.45, 0.14) },
+      { id: 'tint', label: 'Tint', color: tone(base.h, 0.4, 0.9) },
+      { id: 'muted', label: 'Muted', color: tone(base.h, 0.22, 0.45) },
+      { id: 'complementary', label: 'Complement', color: tone(base.h + 180, 0.4, 0.24) },
+    ],
+    accent: hslToHex(
+      neutral ? { ...base, l: 0.62 } : { h: base.h, s: Math.max(base.s, 0.7), l: 0.56 },
+    ),
+  }
+}
+
+export const getPaletteSuggestions = (palette: string[], settings: Settings) =>
+  createPaletteSuggestions(palette, isFrameDark(settings.frameType, settings.frameAppearance))
+
+/**
+ * Applies the first suggestion for the current background mode plus the matching accent;
+ * gradients keep their kind, and photo backdrops only take the accent. Returns `settings`
+ * itself when nothing changes, so no-op history entries are skipped.
+ */
+export const matchSettingsToPalette = (settings: Settings, palette: string[]) => {
+  const suggestions = getPaletteSuggestions(palette, settings)
+  if (!suggestions) return settings
+  const [gradient] = suggestions.gradients
+  const [solid] = suggestions.solids
+  const next: Settings = { ...settings, windowAccent: suggestions.accent }
+  if (settings.backgroundType === 'solid' || settings.backgroundType === 'pattern') {
+    next.backgroundColor = solid.color
+  } else if (settings.backgroundType === 'gradient') {
+    next.gradientStops = gradient.stops
+    next.gradientAngle = gradient.angle
+  }
+  return areSettingsEqual(next, settings) ? settings : next
+}
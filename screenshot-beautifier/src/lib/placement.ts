@@ -0,0 +1,264 @@
+import type { Size } from './canvasSize'
+import type { Settings } from '../settings'
+
+export type CropAspect = 'free' | 'original' | '16:9' | '4:3' | '1:1' | '9:16'
+
+export type FrameAlign =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right'
+
+/** A crop region in fractions (0–1) of the screenshot, so it survives re-encoding or resizing. */
+export interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type CropHandle = 'move' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+type PlacementSettings = Pick<
+  Settings,
+  | 'cropX'
+  | 'cropY'
+  | 'cropWidth'
+  | 'cropHeight'
+  | 'zoom'
+  | 'panX'
+  | 'panY'
+  | 'frameAlign'
+  | 'frameBleed'
+  | 'tiltX'
+  | 'tiltY'
+  | 'tiltZ'
+>
+
+export const cropAspectOptions: { id: CropAspect; label: string; ratio?: number }[] = [
+  { id: 'free', label: 'Free' },
+  { id: 'original', label: 'Original' },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: '4:3', label: '4:3', ratio: 4 / 3 },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+]
+
+/** Row-major, so the options lay out as a 3 × 3 picker. */
+export const frameAlignOptions: FrameAlign[] = [
+  'top-left',
+  'top',
+  'top-right',
+  'left',
+  'center',
+  'right',
+  'bottom-left',
+  'bottom',
+  'bottom-right',
+]
+
+export const CROP_SIZE_MIN = 0.05
+export const ZOOM_MIN = 100
+export const ZOOM_MAX = 400
+export const FRAME_BLEED_MAX = 60
+export const TILT_MAX = 45
+
+export const tiltPresets: { id: string; label: string; tilt: { tiltX: number; tiltY: number; tiltZ: number } }[] = [
+  { id: 'flat', label: 'Flat', tilt: { tiltX: 0, tiltY: 0, tiltZ: 0 } },
+  { id: 'left', label: 'Turn left', tilt: { tiltX: 8, tiltY: 18, tiltZ: -3 } },
+  { id: 'right', label: 'Turn right', tilt: { tiltX: 8, tiltY: -18, tiltZ: 3 } },
+  { id: 'lay-back', label: 'Lay back', tilt: { tiltX: 28, tiltY: 0, tiltZ: 0 } },
+  { id: 'isometric', label: 'Isometric', tilt: { tiltX: 35, tiltY: 0, tiltZ: -30 } },
+]
+
+/** Camera distance for the tilt; shorter values exaggerate the foreshortening. */
+export const TILT_PERSPECTIVE = 2400
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 }
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+/** Reads the crop from settings, repairing regions that spill past the image edges. */
+export const getCropRect = (settings: PlacementSettings): CropRect => {
+  const width = clamp(settings.cropWidth, CROP_SIZE_MIN, 1)
+  const height = clamp(settings.cropHeight, CROP_SIZE_MIN, 1)
+  return {
+    x: clamp(settings.cropX, 0, 1 - width),
+    y: clamp(settings.cropY, 0, 1 - height),
+    width,
+    height,
+  }
+}
+
+export const isFullCrop = (crop: CropRect) =>
+  crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1
+
+/** Width ÷ height in pixels for an aspect lock, or null when the crop is free. */
+export const getCropAspectRatio = (aspect: CropAspect, image: Size) => {
+  if (aspect === 'free') return null
+  if (aspect === 'original') return image.width / image.height
+  return cropAspectOptions.find((option) => option.id === aspect)?.ratio ?? null
+}
+
+/** Converts a pixel aspect ratio into the matching width ÷ height in crop fractions. */
+const toFractionRatio = (ratio: number, image: Size) => (ratio * image.height) / image.width
+
+/**
+ * The largest region with the locked aspect ratio that fits in the image, kept centered
+ * on the current crop as far as the image edges allow.
+ */
+export const fitCropToAspect = (crop: CropRect, ratio: number | null, image: Size): CropRect => {
+  if (ratio === null) return crop
+  const fractionRatio = toFractionRatio(ratio, image)
+  const width = Math.min(1, fractionRatio)
+  const height = Math.min(1, 1 / fractionRatio)
+  return {
+    x: clamp(crop.x + crop.width / 2 - width / 2, 0, 1 - width),
+    y: clamp(crop.y + crop.height / 2 - height / 2, 0, 1 - height),
+    width,
+    height,
+  }
+}
+
+export const toCropSettings = (crop: CropRect) => ({
+  cropX: crop.x,
+  cropY: crop.y,
+  cropWidth: crop.width,
+  cropHeight: crop.height,
+})
+
+/**
+ * Applies a drag of (`dx`, `dy`) image fractions to the crop captured at pointer-down.
+ * Corners resize against the opposite, fixed corner and honour the aspect lock.
+ */
+export const dragCrop = (
+  start: CropRect,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  image: Size,
+): CropRect => {
+  if (handle === 'move') {
+    return {
+      ...start,
+      x: clamp(start.x + dx, 0, 1 - start.width),
+      y: clamp(start.y + dy, 0, 1 - start.height),
+    }
+  }
+
+  const fromLeft = handle === 'top-left' || handle === 'bottom-left'
+  const fromTop = handle === 'top-left' || handle === 'top-right'
+  const anchorX = fromLeft ? start.x + start.width : start.x
+  const anchorY = fromTop ? start.y + start.height : start.y
+  // The room available between the fixed corner and the image edge the handle moves toward.
+  const roomX = fromLeft ? anchorX : 1 - anchorX
+  const roomY = fromTop ? anchorY : 1 - anchorY
+
+  let width = clamp(start.width + (fromLeft ? -dx : dx), CROP_SIZE_MIN, roomX)
+  let height = clamp(start.height + (fromTop ? -dy : dy), CROP_SIZE_MIN, roomY)
+
+  if (ratio !== null) {
+    const fractionRatio = toFractionRatio(ratio, image)
+    // Follow whichever axis the pointer moved further along, then fit into the room left.
+    if (width / fractionRatio >= height) {
+      height = width / fractionRatio
+    } else {
+      width = height * fractionRatio
+    }
+    const overflow = Math.max(width / roomX, height / roomY, 1)
+    width /= overflow
+    height /= overflow
+  }
+
+  return {
+    x: fromLeft ? anchorX - width : anchorX,
+    y: fromTop ? anchorY - height : anchorY,
+    width,
+    height,
+  }
+}
+
+/** Natural pixel size of the cropped region, which sets the frame's aspect ratio. */
+export const getCroppedSize = (image: Size, crop: CropRect): Size => ({
+  width: Math.max(1, Math.round(image.width * crop.width)),
+  height: Math.max(1, Math.round(image.height * crop.height)),
+})
+
+/**
+ * Places the full-size screenshot inside the cropped viewport. Zoom magnifies the crop
+ * around its center and pan slides that window across the crop, both as fractions of
+ * the viewport so the preview and every export scale render identically.
+ */
+export const getImagePlane = (settings: PlacementSettings, crop = getCropRect(settings)) => {
+  const zoom = clamp(settings.zoom, ZOOM_MIN, ZOOM_MAX) / 100
+  const visibleWidth = crop.width / zoom
+  const visibleHeight = crop.height / zoom
+  const panX = clamp(settings.panX, -100, 100) / 100
+  const panY = clamp(settings.panY, -100, 100) / 100
+  const centerX = crop.x + crop.width / 2 + (panX * (crop.width - visibleWidth)) / 2
+  const centerY = crop.y + crop.height / 2 + (panY * (crop.height - visibleHeight)) / 2
+
+  return {
+    x: -(centerX - visibleWidth / 2) / visibleWidth,
+    y: -(centerY - visibleHeight / 2) / visibleHeight,
+    width: 1 / visibleWidth,
+    height: 1 / visibleHeight,
+  }
+}
+
+export const getImagePlaneStyle = (settings: PlacementSettings, crop = getCropRect(settings)) => {
+  const plane = getImagePlane(settings, crop)
+  return {
+    left: `${plane.x * 100}%`,
+    top: `${plane.y * 100}%`,
+    width: `${plane.width * 100}%`,
+    height: `${plane.height * 100}%`,
+  }
+}
+
+/** -1, 0, or 1 per axis: which canvas edge the frame hugs. */
+export const getFrameAlignAxes = (align: FrameAlign) => ({
+  x: align.endsWith('left') ? -1 : align.endsWith('right') ? 1 : 0,
+  y: align.startsWith('top') ? -1 : align.startsWith('bottom') ? 1 : 0,
+})
+
+/**
+ * Bleed pushes the frame past the edges it is aligned to by a share of its own size;
+ * `gutter` is the canvas inset it has to cross first to reach the edge at all.
+ */
+export const getFrameTransform = (settings: PlacementSettings, gutter: number) => {
+  const axes = getFrameAlignAxes(settings.frameAlign)
+  const bleed = clamp(settings.frameBleed, 0, FRAME_BLEED_MAX)
+  const shift = (direction: number) =>
+    direction === 0 ? '0px' : `calc(${direction * bleed}% + ${direction * gutter}px)`
+  const parts: string[] = []
+
+  if (bleed > 0 && (axes.x !== 0 || axes.y !== 0)) {
+    parts.push(`translate(${shift(axes.x)}, ${shift(axes.y)})`)
+  }
+  if (settings.tiltX !== 0 || settings.tiltY !== 0 || settings.tiltZ !== 0) {
+    parts.push(
+      `perspective(${TILT_PERSPECTIVE}px)`,
+      `rotateX(${settings.tiltX}deg)`,
+      `rotateY(${settings.tiltY}deg)`,
+      `rotateZ(${settings.tiltZ}deg)`,
+    )
+  }
+
+  return parts.length > 0 ? parts.join(' ') : undefined
+}
+
+/**
+ * A blank SVG whose intrinsic size is `size`. Laid out as an `<img>`, it lets the browser's
+ * replaced-element sizing (max-width, max-height, aspect ratio) size the crop viewport.
+ */
+export const createSizerDataUrl = (size: Size) =>
+  `data:image/svg+xml,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}"/>`,
+  )}`
@@ -0,0 +1,121 @@
+import { createId } from './id'
+import { SETTINGS_VERSION, isRecord, sanitizeSettings } from '../settings'
+import type { Settings } from '../settings'
+
+export interface StylePreset {
+  id: string
+  name: string
+  settings: Settings
+  /** Small JPEG data URL of the preview, or null when no screenshot was loaded. */
+  thumbnail: string | null
+  createdAt: string
+}
+
+interface PresetPack {
+  format: typeof PRESET_PACK_FORMAT
+  version: number
+  exportedAt: string
+  presets: StylePreset[]
+}
+
+export class PresetPackError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PresetPackError'
+  }
+}
+
+export const PRESET_PACK_FORMAT = 'canvas-studio-presets'
+const STORAGE_KEY = 'canvas-studio:style-presets'
+const MAX_NAME_LENGTH = 60
+
+export const normalizePresetName = (name: string) =>
+  name.trim().replace(/\s+/g, ' ').slice(0, MAX_NAME_LENGTH)
+
+const readPreset = (value: unknown, version: number, index: number): StylePreset => {
+  if (!isRecord(value)) {
+    throw new PresetPackError(`Preset #${index + 1} is not an object.`)
+  }
+  const name = typeof value.name === 'string' ? normalizePresetName(value.name) : ''
+  if (!name) {
+    throw new PresetPackError(`Preset #${index + 1} is missing a name.`)
+  }
+  if (!isRecord(value.settings)) {
+    throw new PresetPackError(`Preset “${name}” has no settings.`)
+  }
+  const thumbnail =
+    typeof value.thumbnail === 'string' && value.thumbnail.startsWith('data:image/')
+      ? value.thumbnail
+      : null
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : createId(),
+    name,
+    settings: sanitizeSettings(value.settings, version).settings,
+    thumbnail,
+    createdAt:
+      typeof value.createdAt === 'string' && !Number.isNaN(Date.parse(value.createdAt))
+        ? value.createdAt
+        : new Date().toISOString(),
+  }
+}
+
+/** Validates a parsed pack and migrates every preset to the current `Settings` shape. */
+export const readPresetPack = (value: unknown): StylePreset[] => {
+  if (!isRecord(value) || value.format !== PRESET_PACK_FORMAT) {
+    throw new PresetPackError('This file is not a Canvas Studio preset pack.')
+  }
+  const version = value.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new PresetPackError('The preset pack has no valid version.')
+  }
+  if (version > SETTINGS_VERSION) {
+    throw new PresetPackError(
+      `The preset pack was made by a newer version of Canvas Studio (v${version}). Update the app to import it.`,
+    )
+  }
+  if (!Array.isArray(value.presets)) {
+    throw new PresetPackError('The preset pack does not contain a preset list.')
+  }
+  return value.presets.map((preset, index) => readPreset(preset, version, index))
+}
+
+export const parsePresetPack = (text: string) => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new PresetPackError('The preset file is not valid JSON.')
+  }
+  return readPresetPack(parsed)
+}
+
+export const serializePresetPack = (presets: StylePreset[]) => {
+  const pack: PresetPack = {
+    format: PRESET_PACK_FORMAT,
+    version: SETTINGS_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets,
+  }
+  return JSON.stringify(pack, null, 2)
+}
+
+export const loadStoredPresets = (): StylePreset[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? parsePresetPack(stored) : []
+  } catch (error) {
+    console.error('Saved presets could not be read', error)
+    return []
+  }
+}
+
+export const storePresets = (presets: StylePreset[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, serializePresetPack(presets))
+    return true
+  } catch (error) {
+    console.error('Saved presets could not be written', error)
+    return false
+  }
+}
@@ -0,0 +1,135 @@
+import type { Size } from './canvasSize'
+import type { Box } from './annotations'
+import { supportsCanvasFilter } from './renderSurface'
+import type { CreateSurface, RenderSource } from './renderSurface'
+
+export type RedactionMode = 'pixelate' | 'blur' | 'block'
+
+/**
+ * A region hidden before the screenshot reaches the frame, in the image's own pixel space.
+ * New regions start unconfirmed so exports can warn until someone has checked them.
+ */
+export interface Redaction {
+  id: string
+  mode: RedactionMode
+  box: Box
+  confirmed: boolean
+}
+
+export const redactionModes: { id: RedactionMode; label: string; description: string }[] = [
+  { id: 'pixelate', label: 'Pixelate', description: 'Coarse mosaic blocks.' },
+  { id: 'blur', label: 'Blur', description: 'A heavy, smeared blur.' },
+  { id: 'block', label: 'Block', description: 'Solid black bar.' },
+]
+
+export const REDACTION_BLOCK_COLOR = '#000000'
+
+/**
+ * Mosaic cells and blur radii scale with the image, so a region is equally unreadable on
+ * an 800px capture and a 4K one. Both are large on purpose: small cells can be reversed.
+ */
+const CELL_SHARE = 1 / 60
+const CELL_MIN = 10
+
+export const getRedactionCellSize = (image: Size) =>
+  Math.max(CELL_MIN, Math.round(Math.max(image.width, image.height) * CELL_SHARE))
+
+export const countUnconfirmed = (redactions: Redaction[]) =>
+  redactions.filter((redaction) => !redaction.confirmed).length
+
+/** Regions smaller than a mosaic cell are taken as stray clicks. */
+export const isMeaningfulRedaction = (box: Box, image: Size) => {
+  const minimum = getRedactionCellSize(image) / 2
+  return box.width >= minimum && box.height >= minimum
+}
+
+/** Keeps a region inside the image, so its pixels are always covered completely. */
+export const clampRedactionBox = (box: Box, image: Size): Box => {
+  const x = Math.min(Math.max(box.x, 0), image.width)
+  const y = Math.min(Math.max(box.y, 0), image.height)
+  return {
+    x,
+    y,
+    width: Math.min(Math.max(box.width, 0), image.width - x),
+    height: Math.min(Math.max(box.height, 0), image.height - y),
+  }
+}
+
+const getPixelSize = (image: CanvasImageSource) =>
+  'naturalWidth' in image
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : 'displayWidth' in image
+      ? { width: image.displayWidth, height: image.displayHeight }
+      : { width: Number(image.width), height: Number(image.height) }
+
+/**
+ * Draws `source` onto a new surface at its decoded size with every region destroyed:
+ * mosaics and blurs are rebuilt from a downsampled copy, so the original pixels under a
+ * region never reach the frame. Returns `source` itself when there is nothing to hide.
+ */
+export const redactSource = (
+  source: RenderSource,
+  redactions: Redaction[],
+  createSurface: CreateSurface,
+): RenderSource => {
+  if (redactions.length === 0) return source
+  const pixels = getPixelSize(source.image)
+  const surface = createSurface(pixels.width, pixels.height)
+  const { context } = surface
+  context.drawImage(source.image, 0, 0, pixels.width, pixels.height)
+
+  // Regions are stored in layout pixels; the decoded bitmap may have been downscaled.
+  const scale = pixels.width / source.width
+  const cell = getRedactionCellSize(source) * scale
+
+  for (const redaction of redactions) {
+    const box = clampRedactionBox(redaction.box, source)
+    const x = Math.floor(box.x * scale)
+    const y = Math.floor(box.y * scale)
+    const width = Math.ceil((box.x + box.width) * scale) - x
+    const height = Math.ceil((box.y + box.height) * scale) - y
+    if (width <= 0 || height <= 0) continue
+
+    if (redaction.mode === 'block') {
+      context.fillStyle = REDACTION_BLOCK_COLOR
+      context.fillRect(x, y, width, height)
+      continue
+    }
+
+    // Averaging the region down to a few cells is what makes both modes irreversible. Blurs
+    // sample a margin around the region so they don't fade to transparent at its edges.
+    const margin = redaction.mode === 'blur' ? Math.ceil(cell) : 0
+    const left = Math.max(x - margin, 0)
+    const top = Math.max(y - margin, 0)
+    const sampleWidth = Math.min(x + width + margin, pixels.width) - left
+    const sampleHeight = Math.min(y + height + margin, pixels.height) - top
+    const small = createSurface(sampleWidth / cell, sampleHeight / cell)
+    small.context.imageSmoothingQuality = 'high'
+    small.context.drawImage(
+      surface.canvas,
+      left,
+      top,
+      sampleWidth,
+      sampleHeight,
+      0,
+      0,
+      small.canvas.width,
+      small.canvas.height,
+    )
+
+    context.save()
+    context.beginPath()
+    context.rect(x, y, width, height)
+    context.clip()
+    if (redaction.mode === 'pixelate') {
+      context.imageSmoothingEnabled = false
+    } else {
+      context.imageSmoothingQuality = 'high'
+      if (supportsCanvasFilter(context)) context.filter = `blur(${cell / 2}px)`
+    }
+    context.drawImage(small.canvas, left, top, sampleWidth, sampleHeight)
+    context.restore()
+  }
+
+  return { image: surface.canvas, width: source.width, height: source.height }
+}
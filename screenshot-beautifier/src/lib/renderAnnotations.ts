@@ -0,0 +1,117 @@
+import { getAnnotationUnit, getFontFamily, normalizeBox } from './annotations'
+import type { Annotation } from './annotations'
+import type { Size } from './canvasSize'
+import type { RenderContext } from './renderSurface'
+
+/** Canvas versions of the marks in `AnnotationLayer`, drawn in image pixels. */
+
+const paintArrow = (
+  context: RenderContext,
+  annotation: Extract<Annotation, { type: 'arrow' }>,
+  stroke: number,
+) => {
+  const { start, end } = annotation
+  const angle = Math.atan2(end.y - start.y, end.x - start.x)
+  const head = stroke * 4
+  const spread = Math.PI / 7
+
+  context.lineCap = 'round'
+  context.lineWidth = stroke
+  context.beginPath()
+  context.moveTo(start.x, start.y)
+  context.lineTo(end.x - head * 0.6 * Math.cos(angle), end.y - head * 0.6 * Math.sin(angle))
+  context.stroke()
+
+  context.lineJoin = 'round'
+  context.lineWidth = stroke * 0.5
+  context.beginPath()
+  context.moveTo(end.x, end.y)
+  context.lineTo(end.x - head * Math.cos(angle - spread), end.y - head * Math.sin(angle - spread))
+  context.lineTo(end.x - head * Math.cos(angle + spread), end.y - head * Math.sin(angle + spread))
+  context.closePath()
+  context.fill()
+  context.stroke()
+}
+
+const paintAnnotation = (context: RenderContext, annotation: Annotation, unit: number) => {
+  const { color, strokeWidth, fontSize, fontWeight, font } = annotation.style
+  const stroke = strokeWidth * unit
+  context.fillStyle = color
+  context.strokeStyle = color
+  context.lineWidth = stroke
+
+  switch (annotation.type) {
+    case 'arrow':
+      return paintArrow(context, annotation, stroke)
+    case 'rectangle': {
+      const box = normalizeBox(annotation.box)
+      context.beginPath()
+      context.roundRect(box.x, box.y, box.width, box.height, stroke * 1.5)
+      return context.stroke()
+    }
+    case 'ellipse': {
+      const box = normalizeBox(annotation.box)
+      context.beginPath()
+      context.ellipse(
+        box.x + box.width / 2,
+        box.y + box.height / 2,
+        box.width / 2,
+        box.height / 2,
+        0,
+        0,
+        Math.PI * 2,
+      )
+      return context.stroke()
+    }
+    case 'highlighter': {
+      const [first, ...rest] = annotation.points
+      if (!first) return
+      context.globalAlpha = 0.4
+      context.globalCompositeOperation = 'multiply'
+      context.lineWidth = stroke * 4
+      context.lineCap = 'round'
+      context.lineJoin = 'round'
+      context.beginPath()
+      context.moveTo(first.x, first.y)
+      rest.forEach((point) => context.lineTo(point.x, point.y))
+      return context.stroke()
+    }
+    case 'step': {
+      const radius = fontSize * unit * 0.9
+      const { x, y } = annotation.position
+      context.beginPath()
+      context.arc(x, y, radius, 0, Math.PI * 2)
+      context.fill()
+      context.strokeStyle = '#ffffff'
+      context.lineWidth = radius * 0.12
+      context.stroke()
+      context.fillStyle = '#ffffff'
+      context.font = `700 ${fontSize * unit}px ${getFontFamily(font)}`
+      context.textAlign = 'center'
+      context.textBaseline = 'middle'
+      return context.fillText(String(annotation.number), x, y)
+    }
+    case 'text': {
+      const { x, y } = annotation.position
+      // SVG text renders on one line, so newlines read as spaces there too.
+      const text = annotation.text.replace(/\n/g, ' ')
+      context.font = `${fontWeight} ${fontSize * unit}px ${getFontFamily(font)}`
+      context.textAlign = 'left'
+      context.textBaseline = 'alphabetic'
+      context.strokeStyle = 'rgba(2, 6, 23, 0.45)'
+      context.lineWidth = fontSize * unit * 0.08
+      context.strokeText(text, x, y)
+      return context.fillText(text, x, y)
+    }
+  }
+}
+
+/** Paints every mark in order, with the context's origin and scale set to the image's pixels. */
+export const paintAnnotations = (context: RenderContext, annotations: Annotation[], image: Size) => {
+  const unit = getAnnotationUnit(image)
+  annotations.forEach((annotation) => {
+    context.save()
+    paintAnnotation(context, annotation, unit)
+    context.restore()
+  })
+}
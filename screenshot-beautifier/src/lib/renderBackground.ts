@@ -0,0 +1,225 @@
+import { getBackdropImageStyle } from './backgrounds'
+import type { GradientStop } from './backgrounds'
+import type { Size } from './canvasSize'
+import { CANVAS_BORDER } from './renderLayout'
+import type { Rect } from './renderLayout'
+import { blurSurface, supportsCanvasFilter, toRgba } from './renderSurface'
+import type { Painter, RenderContext, RenderSource } from './renderSurface'
+import type { Settings } from '../settings'
+
+/** Backgrounds are positioned inside the canvas border, like CSS's `background-origin`. */
+export const getPaddingBox = (canvas: Size): Rect => ({
+  x: CANVAS_BORDER,
+  y: CANVAS_BORDER,
+  width: canvas.width - CANVAS_BORDER * 2,
+  height: canvas.height - CANVAS_BORDER * 2,
+})
+
+const addStops = (gradient: CanvasGradient, stops: GradientStop[]) => {
+  for (const stop of [...stops].sort((a, b) => a.position - b.position)) {
+    gradient.addColorStop(Math.min(Math.max(stop.position / 100, 0), 1), stop.color)
+  }
+  return gradient
+}
+
+const getFarthestCorner = (box: Rect, x: number, y: number) =>
+  Math.max(
+    Math.hypot(x - box.x, y - box.y),
+    Math.hypot(x - box.x - box.width, y - box.y),
+    Math.hypot(x - box.x, y - box.y - box.height),
+    Math.hypot(x - box.x - box.width, y - box.y - box.height),
+  )
+
+/**
+ * A CSS `linear-gradient(angle)`: the gradient line runs through the box center at
+ * `angle` clockwise from "up", just long enough for the corners to get the end colors.
+ */
+export const createLinearGradient = (context: RenderContext, box: Rect, angle: number) => {
+  const radians = (angle * Math.PI) / 180
+  const dx = Math.sin(radians)
+  const dy = -Math.cos(radians)
+  const half = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2
+  const cx = box.x + box.width / 2
+  const cy = box.y + box.height / 2
+  return context.createLinearGradient(cx - dx * half, cy - dy * half, cx + dx * half, cy + dy * half)
+}
+
+/** A `radial-gradient(circle farthest-corner at x y)`. */
+export const createCircleGradient = (context: RenderContext, box: Rect, x: number, y: number) =>
+  context.createRadialGradient(x, y, 0, x, y, getFarthestCorner(box, x, y))
+
+const paintGradient = (context: RenderContext, settings: Settings, box: Rect, area: Rect) => {
+  const { gradientType, gradientStops, gradientAngle } = settings
+  const cx = box.x + (box.width * settings.gradientCenterX) / 100
+  const cy = box.y + (box.height * settings.gradientCenterY) / 100
+
+  if (gradientType === 'mesh') {
+    context.fillStyle = gradientStops[0].color
+    context.fillRect(area.x, area.y, area.width, area.height)
+    // CSS stacks the first layer on top, so paint the blobs from the last one up.
+    for (let index = gradientStops.length - 1; index >= 0; index -= 1) {
+      const { color } = gradientStops[index]
+      const angle = ((gradientAngle + (index * 360) / gradientStops.length) * Math.PI) / 180
+      const x = box.x + (box.width * Math.round(50 + Math.cos(angle) * 38)) / 100
+      const y = box.y + (box.height * Math.round(50 + Math.sin(angle) * 38)) / 100
+      const blob = createCircleGradient(context, box, x, y)
+      blob.addColorStop(0, color)
+      blob.addColorStop(0.65, toRgba(color, 0))
+      context.fillStyle = blob
+      context.fillRect(area.x, area.y, area.width, area.height)
+    }
+    return
+  }
+
+  const gradient =
+    gradientType === 'radial'
+      ? createCircleGradient(context, box, cx, cy)
+      : gradientType === 'conic' && 'createConicGradient' in context
+        ? // CSS measures conic angles from "up"; canvas measures them from the positive x axis.
+          context.createConicGradient(((gradientAngle - 90) * Math.PI) / 180, cx, cy)
+        : createLinearGradient(context, box, gradientAngle)
+  context.fillStyle = addStops(gradient, gradientStops)
+  context.fillRect(area.x, area.y, area.width, area.height)
+}
+
+/** Draws one repeat of the pattern, mirroring the SVG tile the preview uses. */
+const paintPatternTile = (context: RenderContext, settings: Settings) => {
+  const size = settings.patternScale
+  const stroke = Math.max(1, Math.round(size / 28))
+  context.globalAlpha = settings.patternOpacity / 100
+  context.fillStyle = settings.patternColor
+  context.strokeStyle = settings.patternColor
+  context.lineWidth = stroke
+  context.beginPath()
+  if (settings.patternType === 'grid') {
+    context.moveTo(0, 0.5)
+    context.lineTo(size, 0.5)
+    context.moveTo(0.5, 0)
+    context.lineTo(0.5, size)
+    context.stroke()
+  } else if (settings.patternType === 'waves') {
+    context.moveTo(0, size / 2)
+    context.quadraticCurveTo(size / 4, size / 4, size / 2, size / 2)
+    context.quadraticCurveTo((size * 3) / 4, (size * 3) / 4, size, size / 2)
+    context.stroke()
+  } else {
+    context.arc(size / 2, size / 2, Math.max(1, size * 0.1), 0, Math.PI * 2)
+    context.fill()
+  }
+}
+
+const paintPattern = (painter: Painter, settings: Settings, box: Rect, area: Rect) => {
+  const { context, scale, createSurface } = painter
+  context.fillStyle = settings.backgroundColor
+  context.fillRect(area.x, area.y, area.width, area.height)
+
+  // The tile is rasterized at device resolution and laid down untransformed, so lines stay crisp.
+  const tileSize = Math.max(1, Math.round(settings.patternScale * scale))
+  const tile = createSurface(tileSize, tileSize)
+  tile.context.scale(tileSize / settings.patternScale, tileSize / settings.patternScale)
+  paintPatternTile(tile.context, settings)
+  const pattern = context.createPattern(tile.canvas, 'repeat')
+  if (!pattern) return
+
+  context.save()
+  context.setTransform(1, 0, 0, 1, box.x * scale, box.y * scale)
+  context.fillStyle = pattern
+  context.fillRect(
+    (area.x - box.x) * scale,
+    (area.y - box.y) * scale,
+    area.width * scale,
+    area.height * scale,
+  )
+  context.restore()
+}
+
+/**
+ * The wallpaper or the screenshot itself, covering the canvas. Like the preview's
+ * `CanvasBackdrop`, the photo overhangs each edge by twice the blur radius so the blur
+ * never fades into the base color along the border.
+ */
+const paintBackdropPhoto = (painter: Painter, settings: Settings, photo: RenderSource, box: Rect) => {
+  const { context, scale, createSurface } = painter
+  const { blur, brightness, scale: zoom } = getBackdropImageStyle(settings)
+  const overhang = blur * 2
+  const target = {
+    x: box.x - overhang,
+    y: box.y - overhang,
+    width: box.width + overhang * 2,
+    height: box.height + overhang * 2,
+  }
+  // `object-cover`: crop the photo's longer side to fill the box, then zoom around the center.
+  const cover = Math.max(target.width / photo.width, target.height / photo.height) * (zoom / 100)
+  const drawn = { width: photo.width * cover, height: photo.height * cover }
+  const x = target.x + (target.width - drawn.width) / 2
+  const y = target.y + (target.height - drawn.height) / 2
+
+  context.save()
+  context.beginPath()
+  context.rect(box.x, box.y, box.width, box.height)
+  context.clip()
+
+  if (supportsCanvasFilter(context)) {
+    context.filter = `blur(${blur * scale}px) brightness(${brightness}%)`
+    context.drawImage(photo.image, x, y, drawn.width, drawn.height)
+  } else {
+    // Blur in a layer the size of the overhanging box, then place it like the filtered image.
+    const layer = createSurface(target.width * scale, target.height * scale)
+    layer.context.scale(scale, scale)
+    layer.context.translate(-target.x, -target.y)
+    layer.context.beginPath()
+    layer.context.rect(target.x, target.y, target.width, target.height)
+    layer.context.clip()
+    layer.context.drawImage(photo.image, x, y, drawn.width, drawn.height)
+    const blurred = blurSurface(createSurface, layer, blur * scale, brightness)
+    context.drawImage(blurred.canvas, target.x, target.y, target.width, target.height)
+  }
+  context.restore()
+}
+
+/** The canvas backdrop: gradient, solid, pattern, or photo over the base color. */
+export const paintBackground = (
+  painter: Painter,
+  settings: Settings,
+  canvas: Size,
+  photo: RenderSource | null,
+) => {
+  const { context } = painter
+  const box = getPaddingBox(canvas)
+  const area = { x: 0, y: 0, ...canvas }
+
+  switch (settings.backgroundType) {
+    case 'gradient':
+      paintGradient(context, settings, box, area)
+      break
+    case 'pattern':
+      paintPattern(painter, settings, box, area)
+      break
+    default:
+      context.fillStyle = settings.backgroundColor
+      context.fillRect(area.x, area.y, area.width, area.height)
+      if (photo && (settings.backgroundType === 'image' || settings.backgroundType === 'screenshot')) {
+        paintBackdropPhoto(painter, settings, photo, box)
+      }
+  }
+}
+
+/**
+ * The soft diagonal gloss between the backdrop and the frame. Transparent exports skip it
+ * along with the backdrop.
+ */
+export const paintGloss = ({ context }: Painter, canvas: Size) => {
+  const box = getPaddingBox(canvas)
+
+  // Tailwind's `bg-gradient-to-br from-white/10 via-transparent to-white/10`.
+  const gloss = createLinearGradient(
+    context,
+    box,
+    (Math.atan2(box.height, -box.width) * 180) / Math.PI,
+  )
+  gloss.addColorStop(0, 'rgba(255, 255, 255, 0.1)')
+  gloss.addColorStop(0.5, 'rgba(255, 255, 255, 0)')
+  gloss.addColorStop(1, 'rgba(255, 255, 255, 0.1)')
+  context.fillStyle = gloss
+  context.fillRect(box.x, box.y, box.width, box.height)
+}
@@ -0,0 +1,332 @@
+import { UI_FONT, loadFontSources, loadTextFont } from './fonts'
+import type { FontSource } from './fonts'
+import type { FrameType } from './frames'
+import { decodeImage } from './images'
+import type { QueuedImage } from './images'
+import { redactSource } from './redaction'
+import type { Redaction } from './redaction'
+import { renderComposition } from './renderer'
+import type { PlateMotion, RenderArrangement, RenderOptions } from './renderer'
+import { createDocumentSurface, createOffscreenSurface, encodeSurface } from './renderSurface'
+import type { CreateSurface, RenderSource } from './renderSurface'
+import type { RenderWorkerRequest, RenderWorkerResponse, TransferredSource } from './renderWorker'
+import type { Settings } from '../settings'
+
+type RenderImage = Pick<QueuedImage, 'dataUrl' | 'width' | 'height' | 'annotations' | 'redactions'>
+
+export interface RenderRequestArrangement extends Omit<RenderArrangement, 'screens'> {
+  screens: { image: RenderImage; frameType: FrameType; title: string }[]
+}
+
+export interface RenderRequest {
+  settings: Settings
+  /** The screenshot, or the first screen of an arrangement. */
+  image: RenderImage
+  /** The photo behind "image" and "screenshot" backgrounds, when there is one. */
+  backdropUrl: string | null
+  title: string
+  /** Canvas width for the "auto" size: the preview's current width. */
+  autoWidth: number
+  /** Several screens in place of the single frame. */
+  arrangement?: RenderRequestArrangement | null
+  /** Where an animation frame has moved the plate. */
+  motion?: PlateMotion | null
+  scale: number
+  transparent: boolean
+  matte?: string
+  /** MIME type to encode, and 0–1 quality for the lossy ones. */
+  type: string
+  quality?: number
+}
+
+export interface RenderedImage {
+  blob: Blob
+  /** Pixel size of the encoded image. */
+  width: number
+  height: number
+  /** Lower than requested when the canvas had to be capped to stay within browser limits. */
+  scale: number
+}
+
+/**
+ * Decoded images are downscaled past this so a huge capture doesn't exhaust memory; the
+ * layout still uses their original size, so nothing moves.
+ */
+const MAX_SOURCE_SIDE = 8192
+
+/** Share of the progress bar spent fetching fonts and decoding before drawing starts. */
+const PREPARE_SHARE = 0.1
+
+const canUseWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined'
+
+let worker: Worker | null = null
+let workerFailed = false
+let nextRequestId = 0
+const pending = new Map<
+  number,
+  { resolve: (image: RenderedImage) => void; reject: (error: Error) => void; onProgress?: (progress: number) => void }
+>()
+
+/** Thrown when a render can't go through the worker, so it is retried on the main thread. */
+class WorkerUnavailableError extends Error {}
+
+const getWorker = () => {
+  if (worker) return worker
+  worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = ({ data }: MessageEvent<RenderWorkerResponse>) => {
+    const request = pending.get(data.id)
+    if (!request) return
+    if (data.type === 'progress') {
+      request.onProgress?.(data.progress)
+      return
+    }
+    pending.delete(data.id)
+    if (data.type === 'done') request.resolve(data.image)
+    else request.reject(new Error(data.message))
+  }
+  worker.onerror = (event) => {
+    console.warn('The render worker failed to start; rendering on the main thread', event.message)
+    event.preventDefault()
+    workerFailed = true
+    worker?.terminate()
+    worker = null
+    pending.forEach((request) => request.reject(new WorkerUnavailableError(event.message)))
+    pending.clear()
+  }
+  return worker
+}
+
+const getSourceText = ({ settings, image, title, arrangement }: RenderRequest) =>
+  [
+    settings.headline,
+    settings.caption,
+    title,
+    settings.browserUrl,
+    settings.watermarkText,
+    '0123456789',
+    ...[image, ...(arrangement?.screens.map((screen) => screen.image) ?? [])].flatMap((source) =>
+      source.annotations.map((annotation) => (annotation.type === 'text' ? annotation.text : '')),
+    ),
+    ...(arrangement?.screens.map((screen) => screen.title) ?? []),
+  ].join('')
+
+/** Decodes a data URL with its layout size and redactions into a source the renderer can draw. */
+type DecodeSource<Source extends RenderSource> = (
+  url: string,
+  size?: { width: number; height: number },
+  redactions?: Redaction[],
+) => Promise<Source>
+
+/** `Promise.all` that only settles once every promise has, so nothing is still decoding after a failure. */
+const waitForAll = async <T extends readonly unknown[] | []>(values: T) => {
+  await Promise.allSettled(values)
+  return Promise.all(values)
+}
+
+/**
+ * Decodes each screen's image once, however many screens show it, and pairs it with the
+ * screen.
+ */
+const loadScreens = async <Source extends RenderSource>(
+  arrangement: RenderRequestArrangement,
+  decode: DecodeSource<Source>,
+) => {
+  const sources = new Map<string, Promise<Source>>()
+  const screens = await waitForAll(
+    arrangement.screens.map(async ({ image, frameType, title }) => {
+      const key = `${JSON.stringify(image.redactions)}${image.dataUrl}`
+      const source = sources.get(key) ?? decode(image.dataUrl, image, image.redactions)
+      sources.set(key, source)
+      return { source: await source, annotations: image.annotations, frameType, title }
+    }),
+  )
+  return { ...arrangement, screens }
+}
+
+/**
+ * The regions to hide in the backdrop: a "screenshot" background is a copy of the
+ * screenshot, so it must not show what the frame hides.
+ */
+const getBackdropRedactions = (request: RenderRequest) =>
+  request.settings.backgroundType === 'screenshot' ? request.image.redactions : []
+
+/** How much `element` must shrink to stay within `MAX_SOURCE_SIDE`; 1 when it already fits. */
+const getSourceShrink = (element: HTMLImageElement) =>
+  Math.min(MAX_SOURCE_SIDE / Math.max(element.naturalWidth, element.naturalHeight), 1)
+
+/** `element` redrawn within `MAX_SOURCE_SIDE` for the main thread, or itself when it already fits. */
+const shrinkSource = (element: HTMLImageElement, createSurface: CreateSurface): CanvasImageSource => {
+  const shrink = getSourceShrink(element)
+  if (shrink === 1) return element
+  const { canvas, context } = createSurface(
+    Math.round(element.naturalWidth * shrink),
+    Math.round(element.naturalHeight * shrink),
+  )
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(element, 0, 0, canvas.width, canvas.height)
+  return canvas
+}
+
+/**
+ * Decodes `url` to a bitmap no larger than the renderer needs, keeping its layout size.
+ * Redactions are baked in here, so the worker never receives the hidden pixels.
+ */
+const decodeBitmap: DecodeSource<TransferredSource> = async (url, size, redactions = []) => {
+  const element = await decodeImage(url)
+  const width = size?.width ?? element.naturalWidth
+  const height = size?.height ?? element.naturalHeight
+  const shrink = getSourceShrink(element)
+  const image = await createImageBitmap(
+    element,
+    shrink < 1
+      ? {
+          resizeWidth: Math.round(element.naturalWidth * shrink),
+          resizeHeight: Math.round(element.naturalHeight * shrink),
+          resizeQuality: 'high',
+        }
+      : {},
+  )
+  if (redactions.length === 0) return { image, width, height }
+  const redacted = redactSource({ image, width, height }, redactions, createOffscreenSurface)
+  image.close()
+  return { image: await createImageBitmap(redacted.image), width, height }
+}
+
+const renderInWorker = async (
+  request: RenderRequest,
+  fonts: FontSource[],
+  onProgress?: (progress: number) => void,
+) => {
+  const bitmaps: ImageBitmap[] = []
+  const decode: DecodeSource<TransferredSource> = async (url, size, redactions) => {
+    const source = await decodeBitmap(url, size, redactions)
+    bitmaps.push(source.image)
+    return source
+  }
+  // Some images (SVGs without an intrinsic size, for one) decode fine but can't become bitmaps.
+  const [screenshot, backdrop, arrangement, watermark] = await waitForAll([
+    decode(request.image.dataUrl, request.image, request.image.redactions),
+    request.backdropUrl ? decode(request.backdropUrl, undefined, getBackdropRedactions(request)) : null,
+    request.arrangement ? loadScreens(request.arrangement, decode) : null,
+    request.settings.watermarkLogo ? decode(request.settings.watermarkLogo) : null,
+  ]).catch((error) => {
+    // The bitmaps that did decode never reach the worker, so they are released here.
+    bitmaps.forEach((bitmap) => bitmap.close())
+    throw new WorkerUnavailableError(error instanceof Error ? error.message : String(error))
+  })
+  onProgress?.(PREPARE_SHARE)
+
+  const id = nextRequestId++
+  const message: RenderWorkerRequest = {
+    id,
+    scene: {
+      settings: request.settings,
+      annotations: request.image.annotations,
+      title: request.title,
+      autoWidth: request.autoWidth,
+      motion: request.motion ?? null,
+    },
+    screenshot,
+    backdrop,
+    arrangement,
+    watermark,
+    fonts,
+    options: { scale: request.scale, transparent: request.transparent, matte: request.matte },
+    type: request.type,
+    quality: request.quality,
+  }
+  return new Promise<RenderedImage>((resolve, reject) => {
+    pending.set(id, {
+      resolve,
+      reject,
+      onProgress: onProgress && ((progress) => onProgress(PREPARE_SHARE + progress * (1 - PREPARE_SHARE))),
+    })
+    const bitmaps = [
+      screenshot,
+      backdrop,
+      watermark,
+      ...(arrangement?.screens.map((screen) => screen.source) ?? []),
+    ]
+    // A bitmap may only be listed once, and screens can share one.
+    const transfer = new Set(bitmaps.flatMap((source) => (source ? [source.image] : [])))
+    getWorker().postMessage(message, [...transfer])
+  })
+}
+
+const renderOnMainThread = async (request: RenderRequest, onProgress?: (progress: number) => void) => {
+  await Promise.all([loadTextFont(UI_FONT), loadTextFont(request.settings.textFont)]).catch((error) => {
+    console.warn('Could not load the canvas fonts; rendering with fallbacks', error)
+  })
+  const createSurface = typeof OffscreenCanvas !== 'undefined' ? createOffscreenSurface : createDocumentSurface
+  const toSource: DecodeSource<RenderSource> = async (url, size, redactions = []) => {
+    const element = await decodeImage(url)
+    const width = size?.width ?? element.naturalWidth
+    const height = size?.height ?? element.naturalHeight
+    const image = shrinkSource(element, createSurface)
+    return redactSource({ image, width, height }, redactions, createSurface)
+  }
+  const [screenshot, backdrop, arrangement, watermark] = await Promise.all([
+    toSource(request.image.dataUrl, request.image, request.image.redactions),
+    request.backdropUrl ? toSource(request.backdropUrl, undefined, getBackdropRedactions(request)) : null,
+    request.arrangement ? loadScreens(request.arrangement, toSource) : null,
+    request.settings.watermarkLogo ? toSource(request.settings.watermarkLogo) : null,
+  ])
+  onProgress?.(PREPARE_SHARE)
+
+  const options: RenderOptions = {
+    scale: request.scale,
+    transparent: request.transparent,
+    matte: request.matte,
+    createSurface,
+    onProgress: onProgress && ((progress) => onProgress(PREPARE_SHARE + progress * (1 - PREPARE_SHARE))),
+  }
+  const { surface, scale } = await renderComposition(
+    {
+      settings: request.settings,
+      screenshot,
+      annotations: request.image.annotations,
+      backdrop,
+      title: request.title,
+      autoWidth: request.autoWidth,
+      arrangement,
+      watermark,
+      motion: request.motion ?? null,
+    },
+    options,
+  )
+  const { width, height } = surface.canvas
+  return { blob: await encodeSurface(surface, request.type, request.quality), width, height, scale }
+}
+
+/**
+ * Renders a composition to an encoded image, in a worker when the browser supports
+ * OffscreenCanvas there and on the main thread otherwise. `onProgress` runs from 0 to 1.
+ */
+export const renderImage = async (
+  request: RenderRequest,
+  onProgress?: (progress: number) => void,
+): Promise<RenderedImage> => {
+  onProgress?.(0)
+  let result: RenderedImage
+  if (canUseWorker() && !workerFailed) {
+    try {
+      const fonts = await loadFontSources([UI_FONT, request.settings.textFont], getSourceText(request)).catch(
+        (error) => {
+          console.warn('Could not fetch the canvas fonts; rendering with fallbacks', error)
+          return []
+        },
+      )
+      result = await renderInWorker(request, fonts, onProgress)
+    } catch (error) {
+      if (!(error instanceof WorkerUnavailableError)) throw error
+      result = await renderOnMainThread(request, onProgress)
+    }
+  } else {
+    result = await renderOnMainThread(request, onProgress)
+  }
+  onProgress?.(1)
+  return result
+}
@@ -0,0 +1,429 @@
+import { UI_FONT, getFontStack } from './fonts'
+import { isFrameDark } from './frames'
+import type { Rect } from './renderLayout'
+import {
+  clipInsideBorder,
+  fillBorder,
+  fillRoundedRect,
+  fillTextCentered,
+  inflateRect,
+  truncateText,
+} from './renderSurface'
+import type { Radii, RenderContext } from './renderSurface'
+import type { Settings } from '../settings'
+
+/**
+ * Canvas versions of the chrome in `DeviceFrame`. Sizes and colors are the Tailwind
+ * classes the preview uses, spelled out in pixels and hex.
+ */
+
+interface FrameScene {
+  context: RenderContext
+  settings: Settings
+  /** The frame's border box. */
+  frame: Rect
+  /** The screen or window body the screenshot sits in. */
+  content: Rect
+  title: string
+  dark: boolean
+}
+
+const TRAFFIC_LIGHTS = ['#ff5f56', '#ffbd2e', '#27c93f']
+const TRAFFIC_LIGHTS_WIDTH = 14 * 3 + 8 * 2
+const WINDOWS_LOGO = ['#f25022', '#7fba00', '#00a4ef', '#ffb900']
+const WINDOWS_CAPTION_GLYPHS = ['—', '▢', '✕']
+const WINDOWS_CAPTION_WIDTH = 44
+const LOCK_ICON = 'M4 7V5a4 4 0 1 1 8 0v2h1v8H3V7h1Zm2 0h4V5a2 2 0 1 0-4 0v2Z'
+
+const setUiFont = (context: RenderContext, size: number, weight = 400) => {
+  context.font = `${weight} ${size}px ${getFontStack(UI_FONT)}`
+}
+
+const fillCircle = (context: RenderContext, x: number, y: number, radius: number, color: string) => {
+  context.beginPath()
+  context.arc(x, y, radius, 0, Math.PI * 2)
+  context.fillStyle = color
+  context.fill()
+}
+
+const paintTrafficLights = (context: RenderContext, x: number, centerY: number) => {
+  TRAFFIC_LIGHTS.forEach((color, index) => {
+    const cx = x + 7 + index * 22
+    fillCircle(context, cx, centerY, 7, color)
+    context.beginPath()
+    context.arc(cx, centerY, 6.5, 0, Math.PI * 2)
+    context.strokeStyle = 'rgba(255, 255, 255, 0.2)'
+    context.lineWidth = 1
+    context.stroke()
+  })
+}
+
+/** The padding box of a window, which its title bars span and its rounded corners clip. */
+const getWindowInner = (frame: Rect) => inflateRect(frame, -1)
+
+const paintWindow = (
+  scene: FrameScene,
+  colors: { background: string; border: string; body: string },
+  paintChrome: (inner: Rect) => void,
+  paintScreen: () => void,
+) => {
+  const { context, settings, frame, content } = scene
+  const radius = settings.borderRadius
+  fillRoundedRect(context, frame, radius, colors.background)
+  context.save()
+  clipInsideBorder(context, frame, radius, 1)
+  context.fillStyle = colors.body
+  context.fillRect(content.x, content.y, content.width, content.height)
+  paintScreen()
+  paintChrome(getWindowInner(frame))
+  context.restore()
+  fillBorder(context, frame, radius, 1, colors.border)
+}
+
+const paintMacWindow = (scene: FrameScene, paintScreen: () => void) => {
+  const { context, settings, title, dark } = scene
+  const border = dark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)'
+  paintWindow(
+    scene,
+    {
+      background: dark ? 'rgba(2, 6, 23, 0.75)' : 'rgba(255, 255, 255, 0.9)',
+      border,
+      body: dark ? 'rgba(2, 6, 23, 0.4)' : 'rgba(255, 255, 255, 0.6)',
+    },
+    (inner) => {
+      const barHeight = 48
+      const centerY = inner.y + barHeight / 2
+      context.fillStyle = dark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(241, 245, 249, 0.9)'
+      context.fillRect(inner.x, inner.y, inner.width, barHeight)
+      context.fillStyle = border
+      context.fillRect(inner.x, inner.y + barHeight - 1, inner.width, 1)
+
+      const left = inner.x + 24
+      const right = inner.x + inner.width - 24
+      paintTrafficLights(context, left, centerY)
+
+      const accentBar = { x: right - 46, y: centerY - 4, width: 32, height: 8 }
+      fillRoundedRect(context, accentBar, 4, settings.windowAccent)
+      context.globalAlpha = 0.75
+      fillCircle(context, right - 4, centerY, 4, settings.windowAccent)
+      context.globalAlpha = 1
+
+      // `justify-between` centers the title in whatever room the lights and accent leave.
+      setUiFont(context, 14, 500)
+      const room = Math.max(right - left - TRAFFIC_LIGHTS_WIDTH - 46, 0)
+      const text = truncateText(context, title, room)
+      const free = room - context.measureText(text).width
+      context.fillStyle = dark ? '#e2e8f0' : '#475569'
+      context.textAlign = 'left'
+      fillTextCentered(context, text, left + TRAFFIC_LIGHTS_WIDTH + free / 2, centerY)
+    },
+    paintScreen,
+  )
+}
+
+const paintWindowsWindow = (scene: FrameScene, paintScreen: () => void) => {
+  const { context, title, dark } = scene
+  paintWindow(
+    scene,
+    {
+      background: dark ? '#202020' : '#f3f3f3',
+      border: dark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)',
+      body: dark ? '#191919' : '#ffffff',
+    },
+    (inner) => {
+      const centerY = inner.y + 20
+      const logoX = inner.x + 16
+      WINDOWS_LOGO.forEach((color, index) => {
+        context.fillStyle = color
+        context.fillRect(
+          logoX + (index % 2) * 8.5,
+          centerY - 8 + Math.floor(index / 2) * 8.5,
+          7.5,
+          7.5,
+        )
+      })
+
+      const textColor = dark ? '#f3f3f3' : '#1f1f1f'
+      const captionsX = inner.x + inner.width - WINDOWS_CAPTION_WIDTH * WINDOWS_CAPTION_GLYPHS.length
+      setUiFont(context, 12, 500)
+      context.fillStyle = textColor
+      context.textAlign = 'left'
+      const titleX = logoX + 16 + 12
+      fillTextCentered(context, truncateText(context, title, captionsX - titleX), titleX, centerY)
+
+      setUiFont(context, 11)
+      context.textAlign = 'center'
+      context.globalAlpha = 0.8
+      WINDOWS_CAPTION_GLYPHS.forEach((glyph, index) => {
+        const x = captionsX + WINDOWS_CAPTION_WIDTH * (index + 0.5)
+        fillTextCentered(context, glyph, x, centerY)
+      })
+      context.globalAlpha = 1
+    },
+    paintScreen,
+  )
+}
+
+const paintBrowserWindow = (scene: FrameScene, paintScreen: () => void) => {
+  const { context, settings, title, dark } = scene
+  paintWindow(
+    scene,
+    {
+      background: dark ? '#202124' : '#dee1e6',
+      border: dark ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)',
+      body: dark ? '#202124' : '#ffffff',
+    },
+    (inner) => {
+      paintTrafficLights(context, inner.x + 16, inner.y + 20)
+
+      const tabs = [title, ...Array.from({ length: settings.browserTabCount - 1 }, () => 'New Tab')]
+      const tabsX = inner.x + 16 + TRAFFIC_LIGHTS_WIDTH + 16
+      const tabsWidth = inner.x + inner.width - 16 - tabsX
+      const tabWidth = Math.max(Math.min(200, (tabsWidth - 4 * (tabs.length - 1)) / tabs.length), 0)
+      setUiFont(context, 12)
+      context.textAlign = 'left'
+      tabs.forEach((tab, index) => {
+        const active = index === 0
+        const rect = { x: tabsX + index * (tabWidth + 4), y: inner.y + 8, width: tabWidth, height: 32 }
+        const textColor = active ? (dark ? '#e8eaed' : '#1e293b') : dark ? '#9aa0a6' : '#64748b'
+        if (active) {
+          fillRoundedRect(context, rect, [8, 8, 0, 0], dark ? '#35363a' : '#ffffff')
+        }
+        const centerY = rect.y + 16
+        context.globalAlpha = active ? 1 : 0.4
+        fillCircle(context, rect.x + 18, centerY, 6, active ? settings.windowAccent : textColor)
+        context.globalAlpha = 1
+        context.fillStyle = textColor
+        const textX = rect.x + 12 + 12 + 8
+        const label = truncateText(context, tab, rect.x + rect.width - 12 - textX)
+        fillTextCentered(context, label, textX, centerY)
+      })
+
+      const toolbar = { x: inner.x, y: inner.y + 40, width: inner.width, height: 44 }
+      const centerY = toolbar.y + toolbar.height / 2
+      context.fillStyle = dark ? '#35363a' : '#ffffff'
+      context.fillRect(toolbar.x, toolbar.y, toolbar.width, toolbar.height)
+      setUiFont(context, 14)
+      context.fillStyle = dark ? '#9aa0a6' : '#64748b'
+      let x = toolbar.x + 16
+      for (const glyph of ['←', '→', '↻']) {
+        fillTextCentered(context, glyph, x, centerY)
+        x += context.measureText(glyph).width + 12
+      }
+
+      const pill = { x, y: centerY - 14, width: Math.max(toolbar.x + toolbar.width - 16 - x, 0), height: 28 }
+      fillRoundedRect(context, pill, 14, dark ? '#202124' : '#f1f3f4')
+      const pillText = dark ? '#e8eaed' : '#334155'
+      context.save()
+      context.translate(pill.x + 12, centerY - 6)
+      context.scale(12 / 16, 12 / 16)
+      context.globalAlpha = 0.7
+      context.fillStyle = pillText
+      context.fill(new Path2D(LOCK_ICON))
+      context.restore()
+      setUiFont(context, 12)
+      context.fillStyle = pillText
+      const urlX = pill.x + 12 + 12 + 8
+      fillTextCentered(
+        context,
+        truncateText(context, settings.browserUrl, pill.x + pill.width - 12 - urlX),
+        urlX,
+        centerY,
+      )
+    },
+    paintScreen,
+  )
+}
+
+const paintPlainFrame = (scene: FrameScene, paintScreen: () => void) =>
+  paintWindow(
+    scene,
+    {
+      background: 'rgba(2, 6, 23, 0.75)',
+      border: 'rgba(255, 255, 255, 0.1)',
+      body: 'rgba(2, 6, 23, 0.4)',
+    },
+    () => {},
+    paintScreen,
+  )
+
+interface DeviceSpec {
+  radius: Radii
+  border: number
+  screenRadius: number
+  background: string
+}
+
+const paintSideButtons = ({ context, frame, dark }: FrameScene, border: number) => {
+  const inner = inflateRect(frame, -border)
+  const color = dark ? '#3f3f46' : '#d4d4d8'
+  fillRoundedRect(
+    context,
+    { x: inner.x - 6, y: inner.y + inner.height * 0.18, width: 4, height: inner.height * 0.08 },
+    [4, 0, 0, 4],
+    color,
+  )
+  fillRoundedRect(
+    context,
+    { x: inner.x + inner.width + 2, y: inner.y + inner.height * 0.24, width: 4, height: inner.height * 0.12 },
+    [0, 4, 4, 0],
+    color,
+  )
+}
+
+/** Paints a bezel and screen, then `paintOverlay` on top of the screenshot inside the screen. */
+const paintDevice = (
+  scene: FrameScene,
+  body: Rect,
+  spec: DeviceSpec,
+  paintScreen: () => void,
+  paintOverlay?: () => void,
+) => {
+  const { context, content, dark } = scene
+  fillRoundedRect(context, body, spec.radius, spec.background)
+  fillBorder(context, body, spec.radius, spec.border, dark ? '#3f3f46' : '#d4d4d8')
+  context.save()
+  context.beginPath()
+  context.roundRect(content.x, content.y, content.width, content.height, spec.screenRadius)
+  context.clip()
+  context.fillStyle = '#000000'
+  context.fillRect(content.x, content.y, content.width, content.height)
+  paintScreen()
+  paintOverlay?.()
+  context.restore()
+}
+
+const paintPhone = (scene: FrameScene, paintScreen: () => void) => {
+  const { context, settings, frame, content } = scene
+  const paintIsland = () => {
+    if (!settings.deviceNotch) return
+    const width = Math.min(content.width * 0.3, 126)
+    const height = width / 3.4
+    fillRoundedRect(
+      context,
+      { x: content.x + (content.width - width) / 2, y: content.y + content.height * 0.015, width, height },
+      height / 2,
+      '#000000',
+    )
+  }
+  paintDevice(
+    scene,
+    frame,
+    { radius: 54, border: 3, screenRadius: 40, background: '#000000' },
+    paintScreen,
+    paintIsland,
+  )
+  paintSideButtons(scene, 3)
+}
+
+const paintAndroid = (scene: FrameScene, paintScreen: () => void) => {
+  const { context, settings, frame, content } = scene
+  const paintCamera = () => {
+    if (!settings.deviceNotch) return
+    const radius = Math.min(content.width * 0.04, 18) / 2
+    const cx = content.x + content.width / 2
+    const cy = content.y + content.height * 0.016 + radius
+    fillCircle(context, cx, cy, radius + 1, 'rgba(255, 255, 255, 0.1)')
+    fillCircle(context, cx, cy, radius, '#000000')
+  }
+  paintDevice(
+    scene,
+    frame,
+    { radius: 36, border: 2, screenRadius: 28, background: '#000000' },
+    paintScreen,
+    paintCamera,
+  )
+  paintSideButtons(scene, 2)
+}
+
+const paintTablet = (scene: FrameScene, paintScreen: () => void) => {
+  const { context, frame, dark } = scene
+  paintDevice(
+    scene,
+    frame,
+    { radius: 36, border: 2, screenRadius: 16, background: dark ? '#0a0a0a' : '#f4f4f5' },
+    paintScreen,
+  )
+  fillCircle(context, frame.x + frame.width / 2, frame.y + 2 + 8 + 3, 3, dark ? '#27272a' : '#d4d4d8')
+}
+
+const LAPTOP_DECK_HEIGHT = 22
+const LAPTOP_HINGE_INSET = 56
+
+const paintLaptop = (scene: FrameScene, paintScreen: () => void) => {
+  const { context, settings, frame, dark } = scene
+  const lid = {
+    x: frame.x + LAPTOP_HINGE_INSET,
+    y: frame.y,
+    width: frame.width - LAPTOP_HINGE_INSET * 2,
+    height: frame.height - LAPTOP_DECK_HEIGHT,
+  }
+  paintDevice(
+    scene,
+    lid,
+    { radius: [18, 18, 0, 0], border: 2, screenRadius: 4, background: '#000000' },
+    paintScreen,
+  )
+  if (settings.deviceNotch) {
+    const cx = lid.x + lid.width / 2
+    const cy = lid.y + 2 + 9 + 3
+    fillCircle(context, cx, cy, 4, '#3f3f46')
+    fillCircle(context, cx, cy, 3, '#27272a')
+  }
+
+  const deck = { x: frame.x, y: lid.y + lid.height, width: frame.width, height: LAPTOP_DECK_HEIGHT }
+  const shine = context.createLinearGradient(0, deck.y, 0, deck.y + deck.height)
+  shine.addColorStop(0, dark ? '#52525b' : '#e4e4e7')
+  shine.addColorStop(1, dark ? '#18181b' : '#a1a1aa')
+  context.beginPath()
+  context.roundRect(deck.x, deck.y, deck.width, deck.height, [4, 4, 20, 20])
+  context.fillStyle = shine
+  context.fill()
+  const troughWidth = deck.width * 0.16
+  fillRoundedRect(
+    context,
+    { x: deck.x + (deck.width - troughWidth) / 2, y: deck.y, width: troughWidth, height: 6 },
+    [0, 0, 8, 8],
+    dark ? 'rgba(24, 24, 27, 0.7)' : 'rgba(161, 161, 170, 0.7)',
+  )
+}
+
+/**
+ * Paints the frame chrome around `content` and calls `paintScreen` with the context
+ * clipped to the window body or device screen, so the screenshot sits under any notch.
+ */
+export const paintFrame = (
+  context: RenderContext,
+  settings: Settings,
+  layout: { frame: Rect; content: Rect },
+  title: string,
+  paintScreen: () => void,
+) => {
+  const scene: FrameScene = {
+    context,
+    settings,
+    ...layout,
+    title,
+    dark: isFrameDark(settings.frameType, settings.frameAppearance),
+  }
+
+  switch (settings.frameType) {
+    case 'macos-light':
+    case 'macos-dark':
+      return paintMacWindow(scene, paintScreen)
+    case 'windows-11':
+      return paintWindowsWindow(scene, paintScreen)
+    case 'browser':
+      return paintBrowserWindow(scene, paintScreen)
+    case 'iphone':
+      return paintPhone(scene, paintScreen)
+    case 'android':
+      return paintAndroid(scene, paintScreen)
+    case 'ipad':
+      return paintTablet(scene, paintScreen)
+    case 'laptop':
+      return paintLaptop(scene, paintScreen)
+    default:
+      return paintPlainFrame(scene, paintScreen)
+  }
+}
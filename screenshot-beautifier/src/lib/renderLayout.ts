@@ -0,0 +1,256 @@
+import { arrangeScreens } from './arrangements'
+import type { ArrangementInput, ScreenLayout } from './arrangements'
+import { fitWithin } from './canvasSize'
+import type { Size } from './canvasSize'
+import { getFrameDefinition } from './frames'
+import { getCropRect, getCroppedSize, getFrameAlignAxes } from './placement'
+import { getPlateShadows } from './atmosphere'
+import type { Settings } from '../settings'
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Inner padding of the canvas (`p-8`) and its hairline border. */
+export const CANVAS_GUTTER = 32
+export const CANVAS_BORDER = 1
+/** The glass plate's hairline border, and how much rounder it is than the frame. */
+export const PLATE_BORDER = 1
+export const PLATE_RADIUS_OFFSET = 36
+/** Auto-sized canvases: the preview's corner radius, minimum height, and `max-w-3xl` width. */
+export const AUTO_CANVAS_RADIUS = 40
+export const AUTO_CANVAS_MIN_HEIGHT = 520
+export const AUTO_COMPOSITION_MAX_WIDTH = 768
+/** The widest the preview lays a composition out before the canvas only adds margin. */
+export const DEFAULT_AUTO_WIDTH = AUTO_COMPOSITION_MAX_WIDTH + (CANVAS_GUTTER + CANVAS_BORDER) * 2
+/** Tallest the screenshot grows on an auto-sized canvas. */
+export const AUTO_VIEWPORT_MAX_HEIGHT = 560
+/** Window frames stretch to the composition width, so their sizer is scaled up to at least this. */
+export const WINDOW_SIZER_WIDTH = 4000
+
+export interface CompositionLayout {
+  canvas: Size
+  /** The text block's box, or null without text. */
+  text: Rect | null
+  /** The glass plate before bleed and tilt are applied. */
+  plate: Rect
+  /** Bleed's shift of the plate toward the edges it is aligned to. */
+  plateOffset: { x: number; y: number }
+  frame: Rect
+  /** The frame's screen or window body, which the viewport is centered in. */
+  content: Rect
+  /** The cropped, zoomed screenshot. */
+  viewport: Rect
+  /**
+   * Each framed screen of a multi-screenshot arrangement, in paint order; `frame`,
+   * `content`, and `viewport` are then the box they are arranged in. Null for one screenshot.
+   */
+  screens: ScreenLayout[] | null
+}
+
+const CANVAS_INSET = CANVAS_BORDER + CANVAS_GUTTER
+
+const align = (direction: number, free: number) => (direction < 0 ? 0 : direction > 0 ? free : free / 2)
+
+export const hasCanvasText = (settings: Pick<Settings, 'headline' | 'caption'>) =>
+  settings.headline.trim() !== '' || settings.caption.trim() !== ''
+
+export const isTextBeside = (settings: Pick<Settings, 'textPlacement'>) =>
+  settings.textPlacement === 'left' || settings.textPlacement === 'right'
+
+/** Text below the frame sits clear of shadows cast downward. */
+export const getTextGap = (settings: Settings) =>
+  settings.textGap +
+  (settings.textPlacement === 'below'
+    ? Math.max(0, ...getPlateShadows(settings).map((shadow) => shadow.offsetY))
+    : 0)
+
+/** Width the frame and text share: the canvas inside its gutter, capped on auto-sized canvases. */
+export const getCompositionWidth = (settings: Settings, canvasWidth: number) => {
+  const inner = canvasWidth - CANVAS_INSET * 2
+  return settings.canvasSize === 'auto' ? Math.min(inner, AUTO_COMPOSITION_MAX_WIDTH) : inner
+}
+
+/**
+ * The room a fixed canvas leaves for the frame once the gutter, padding, and text block
+ * (with its gap, along the axis it shares with the frame) are reserved.
+ */
+export const getFrameBounds = (settings: Settings, canvas: Size, textBlock: Size | null): Size => {
+  const chrome = CANVAS_GUTTER * 2 + settings.padding * 2 + PLATE_BORDER * 2
+  const gap = textBlock ? getTextGap(settings) : 0
+  const textWidth = textBlock && isTextBeside(settings) ? textBlock.width + gap : 0
+  const textHeight = textBlock && !isTextBeside(settings) ? textBlock.height + gap : 0
+  return {
+    width: Math.max(canvas.width - chrome - textWidth, 1),
+    height: Math.max(canvas.height - chrome - textHeight, 1),
+  }
+}
+
+/**
+ * The screenshot's size on a fixed canvas: as large as fits in `getFrameBounds` inside
+ * the frame. Without an image, the whole remaining area.
+ */
+export const getFittedImageSize = (
+  settings: Settings,
+  canvas: Size,
+  croppedSize: Size | null,
+  textBlock: Size | null,
+) => {
+  const { insets } = getFrameDefinition(settings.frameType)
+  const frameBounds = getFrameBounds(settings, canvas, textBlock)
+  const bounds = {
+    width: Math.max(frameBounds.width - insets.left - insets.right, 1),
+    height: Math.max(frameBounds.height - insets.top - insets.bottom, 1),
+  }
+  return croppedSize ? fitWithin(croppedSize, bounds) : bounds
+}
+
+/**
+ * Where everything sits on the canvas, following the same rules as the preview's flexbox
+ * layout. `autoWidth` is the canvas width to use when the size is "auto"; `textBlock`
+ * is the measured text, laid out within `getCompositionWidth`. With an `arrangement`,
+ * its screens take the frame's place and `image` is ignored.
+ */
+export const computeCompositionLayout = (
+  settings: Settings,
+  image: Size,
+  autoWidth: number,
+  textBlock: Size | null,
+  arrangement: ArrangementInput | null = null,
+): CompositionLayout => {
+  const fixed = settings.canvasSize !== 'auto'
+  const frameDefinition = getFrameDefinition(settings.frameType)
+  const { insets } = frameDefinition
+  const isWindow = frameDefinition.kind === 'window'
+  const cropped = getCroppedSize(image, getCropRect(settings))
+  const aspect = cropped.width / cropped.height
+  const canvasWidth = fixed ? settings.canvasWidth : autoWidth
+  const compositionWidth = getCompositionWidth(settings, canvasWidth)
+  const beside = textBlock !== null && isTextBeside(settings)
+  const gap = textBlock ? getTextGap(settings) : 0
+  const plateChrome = settings.padding * 2 + PLATE_BORDER * 2
+
+  let viewportSize: Size
+  let contentWidth: number
+  let arranged: ReturnType<typeof arrangeScreens> | null = null
+  if (arrangement) {
+    const bounds = fixed
+      ? getFrameBounds(settings, { width: settings.canvasWidth, height: settings.canvasHeight }, textBlock)
+      : {
+          width: Math.max(
+            compositionWidth - (beside && textBlock ? textBlock.width + gap : 0) - plateChrome,
+            1,
+          ),
+          height: AUTO_VIEWPORT_MAX_HEIGHT,
+        }
+    arranged = arrangeScreens(arrangement, bounds)
+    viewportSize = arranged.size
+    contentWidth = arranged.size.width
+  } else if (fixed) {
+    viewportSize = getFittedImageSize(
+      settings,
+      { width: settings.canvasWidth, height: settings.canvasHeight },
+      cropped,
+      textBlock,
+    )
+    contentWidth = viewportSize.width
+  } else {
+    const available = compositionWidth - (beside && textBlock ? textBlock.width + gap : 0)
+    const maxWidth = Math.max(available - plateChrome - insets.left - insets.right, 1)
+    const naturalWidth = isWindow ? Math.max(cropped.width, WINDOW_SIZER_WIDTH) : cropped.width
+    const width = Math.min(naturalWidth, maxWidth, AUTO_VIEWPORT_MAX_HEIGHT * aspect)
+    viewportSize = { width, height: width / aspect }
+    contentWidth = isWindow ? maxWidth : width
+  }
+
+  const frameSize = arranged
+    ? arranged.size
+    : {
+        width: contentWidth + insets.left + insets.right,
+        height: viewportSize.height + insets.top + insets.bottom,
+      }
+  const plateSize = { width: frameSize.width + plateChrome, height: frameSize.height + plateChrome }
+  const textSize = textBlock ?? { width: 0, height: 0 }
+  const compositionHeight = beside
+    ? Math.max(textSize.height, plateSize.height)
+    : plateSize.height + (textBlock ? textSize.height + gap : 0)
+
+  const canvas = {
+    width: canvasWidth,
+    height: fixed
+      ? settings.canvasHeight
+      : Math.max(AUTO_CANVAS_MIN_HEIGHT, compositionHeight + CANVAS_INSET * 2),
+  }
+  const axes = getFrameAlignAxes(settings.frameAlign)
+  const innerWidth = canvas.width - CANVAS_INSET * 2
+  const innerHeight = canvas.height - CANVAS_INSET * 2
+  const compositionX = CANVAS_INSET + (innerWidth - compositionWidth) / 2
+  // Auto canvases grow to fit, so only fixed ones have room to align vertically.
+  const compositionY = CANVAS_INSET + align(fixed ? axes.y : 0, innerHeight - compositionHeight)
+
+  let plateX: number
+  let plateY: number
+  let text: Rect | null = null
+  if (beside && textBlock) {
+    const total = textSize.width + gap + plateSize.width
+    // `flex-row-reverse` puts the text on the right and flips which end "start" packs toward.
+    const reversed = settings.textPlacement === 'right'
+    const start = compositionX + align(reversed ? -axes.x : axes.x, compositionWidth - total)
+    const textX = reversed ? start + plateSize.width + gap : start
+    plateX = reversed ? start : start + textSize.width + gap
+    plateY = compositionY + (compositionHeight - plateSize.height) / 2
+    text = { x: textX, y: compositionY + (compositionHeight - textSize.height) / 2, ...textSize }
+  } else {
+    plateX = compositionX + align(axes.x, compositionWidth - plateSize.width)
+    const above = settings.textPlacement !== 'below'
+    plateY = compositionY + (textBlock && above ? textSize.height + gap : 0)
+    if (textBlock) {
+      text = {
+        x: compositionX + align(axes.x, compositionWidth - textSize.width),
+        y: above ? compositionY : compositionY + plateSize.height + gap,
+        ...textSize,
+      }
+    }
+  }
+
+  const bleed = settings.frameBleed / 100
+  const shift = (direction: number, size: number) =>
+    bleed > 0 && direction !== 0 ? direction * (bleed * size + CANVAS_GUTTER) : 0
+  const plate = { x: plateX, y: plateY, ...plateSize }
+  const frame = {
+    x: plate.x + PLATE_BORDER + settings.padding,
+    y: plate.y + PLATE_BORDER + settings.padding,
+    ...frameSize,
+  }
+  const content = arranged
+    ? frame
+    : {
+        x: frame.x + insets.left,
+        y: frame.y + insets.top,
+        width: contentWidth,
+        height: viewportSize.height,
+      }
+
+  return {
+    canvas,
+    text,
+    plate,
+    plateOffset: { x: shift(axes.x, plate.width), y: shift(axes.y, plate.height) },
+    frame,
+    content,
+    viewport: {
+      x: content.x + (contentWidth - viewportSize.width) / 2,
+      y: content.y,
+      ...viewportSize,
+    },
+    screens:
+      arranged?.screens.map(({ frame: screenFrame, content: screenContent, viewport }) => ({
+        frame: { ...screenFrame, x: screenFrame.x + frame.x, y: screenFrame.y + frame.y },
+        content: { ...screenContent, x: screenContent.x + frame.x, y: screenContent.y + frame.y },
+        viewport: { ...viewport, x: viewport.x + frame.x, y: viewport.y + frame.y },
+      })) ?? null,
+  }
+}
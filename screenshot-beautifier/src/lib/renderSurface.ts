@@ -0,0 +1,206 @@
+import { hexToRgb } from './color'
+import type { Rect } from './renderLayout'
+
+export type RenderCanvas = OffscreenCanvas | HTMLCanvasElement
+export type RenderContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D
+
+export interface RenderSurface {
+  canvas: RenderCanvas
+  context: RenderContext
+}
+
+/** A decoded image and its layout size; the bitmap itself may have been downscaled. */
+export interface RenderSource {
+  image: CanvasImageSource
+  width: number
+  height: number
+}
+
+/** Makes a blank bitmap of `width` × `height` device pixels. */
+export type CreateSurface = (width: number, height: number) => RenderSurface
+
+/** What every painter draws with: a context already scaled to logical (CSS) pixels. */
+export interface Painter {
+  context: RenderContext
+  /** Device pixels per logical pixel. */
+  scale: number
+  createSurface: CreateSurface
+}
+
+const toSurfaceSize = (value: number) => Math.max(1, Math.ceil(value))
+
+export const createOffscreenSurface: CreateSurface = (width, height) => {
+  const canvas = new OffscreenCanvas(toSurfaceSize(width), toSurfaceSize(height))
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('This browser cannot draw on an OffscreenCanvas')
+  return { canvas, context }
+}
+
+export const createDocumentSurface: CreateSurface = (width, height) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = toSurfaceSize(width)
+  canvas.height = toSurfaceSize(height)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('This browser cannot draw on a canvas')
+  return { canvas, context }
+}
+
+export const encodeSurface = async ({ canvas }: RenderSurface, type: string, quality?: number) => {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality })
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality))
+  if (!blob) throw new Error('The canvas could not be encoded')
+  return blob
+}
+
+/** `transparent` in CSS gradients interpolates like the neighbouring color at zero alpha. */
+export const toRgba = (hex: string, alpha: number) => {
+  const { r, g, b } = hexToRgb(hex)
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`
+}
+
+/** One radius for every corner, or CSS order: top-left, top-right, bottom-right, bottom-left. */
+export type Radii = number | number[]
+
+export const inflateRect = (rect: Rect, amount: number): Rect => ({
+  x: rect.x - amount,
+  y: rect.y - amount,
+  width: rect.width + amount * 2,
+  height: rect.height + amount * 2,
+})
+
+export const traceRoundedRect = (context: RenderContext, rect: Rect, radii: Radii) => {
+  context.roundRect(rect.x, rect.y, rect.width, rect.height, radii)
+}
+
+const shrinkRadii = (radii: Radii, amount: number) =>
+  Array.isArray(radii)
+    ? radii.map((radius) => Math.max(radius - amount, 0))
+    : Math.max(radii - amount, 0)
+
+export const fillRoundedRect = (context: RenderContext, rect: Rect, radii: Radii, color: string) => {
+  context.beginPath()
+  traceRoundedRect(context, rect, radii)
+  context.fillStyle = color
+  context.fill()
+}
+
+/** A CSS border: a ring of `width` inside the box, its inner corners `width` less round. */
+export const fillBorder = (
+  context: RenderContext,
+  rect: Rect,
+  radii: Radii,
+  width: number,
+  color: string,
+) => {
+  context.beginPath()
+  traceRoundedRect(context, rect, radii)
+  traceRoundedRect(context, inflateRect(rect, -width), shrinkRadii(radii, width))
+  context.fillStyle = color
+  context.fill('evenodd')
+}
+
+/** Clips to the box's padding edge, where `overflow: hidden` cuts off its children. */
+export const clipInsideBorder = (context: RenderContext, rect: Rect, radii: Radii, width: number) => {
+  context.beginPath()
+  traceRoundedRect(context, inflateRect(rect, -width), shrinkRadii(radii, width))
+  context.clip()
+}
+
+/**
+ * Fills a single line of text vertically centered on `centerY`, the way a CSS line box
+ * centers the font's ascent and descent, rather than canvas's em-box "middle".
+ */
+export const fillTextCentered = (context: RenderContext, text: string, x: number, centerY: number) => {
+  const metrics = context.measureText(text)
+  const ascent = metrics.fontBoundingBoxAscent
+  const descent = metrics.fontBoundingBoxDescent
+  if (Number.isFinite(ascent) && Number.isFinite(descent)) {
+    context.textBaseline = 'alphabetic'
+    context.fillText(text, x, centerY + (ascent - descent) / 2)
+  } else {
+    context.textBaseline = 'middle'
+    context.fillText(text, x, centerY)
+  }
+}
+
+/** Shortens `text` with an ellipsis until it fits in `maxWidth`, like CSS `truncate`. */
+export const truncateText = (context: RenderContext, text: string, maxWidth: number) => {
+  if (context.measureText(text).width <= maxWidth) return text
+  let end = text.length
+  while (end > 0 && context.measureText(`${text.slice(0, end).trimEnd()}…`).width > maxWidth) {
+    end -= 1
+  }
+  return end > 0 ? `${text.slice(0, end).trimEnd()}…` : ''
+}
+
+const filterSupport = new WeakMap<object, boolean>()
+
+/** Safari long exposed `filter` on 2D contexts without applying it, so probe whether it sticks. */
+export const supportsCanvasFilter = (context: RenderContext) => {
+  const known = filterSupport.get(context)
+  if (known !== undefined) return known
+  let supported = false
+  if ('filter' in context) {
+    context.filter = 'blur(1px)'
+    supported = context.filter === 'blur(1px)'
+    context.filter = 'none'
+  }
+  filterSupport.set(context, supported)
+  return supported
+}
+
+/**
+ * Gaussian-blurs `source` into a new surface of the same size. Contexts without filters
+ * get an approximation instead: shrinking the image and smoothing it back up.
+ */
+export const blurSurface = (
+  createSurface: CreateSurface,
+  source: RenderSurface,
+  radius: number,
+  brightness = 100,
+): RenderSurface => {
+  const { width, height } = source.canvas
+  const target = createSurface(width, height)
+  const { context } = target
+
+  if (supportsCanvasFilter(context)) {
+    context.filter = `blur(${radius}px) brightness(${brightness}%)`
+    context.drawImage(source.canvas, 0, 0)
+    context.filter = 'none'
+    return target
+  }
+
+  const factor = Math.max(1, radius / 2)
+  const small = createSurface(width / factor, height / factor)
+  small.context.imageSmoothingQuality = 'high'
+  small.context.drawImage(source.canvas, 0, 0, small.canvas.width, small.canvas.height)
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(small.canvas, 0, 0, width, height)
+  if (brightness < 100) {
+    context.globalCompositeOperation = 'source-atop'
+    context.fillStyle = `rgba(0, 0, 0, ${1 - brightness / 100})`
+    context.fillRect(0, 0, width, height)
+  } else if (brightness > 100) {
+    context.globalCompositeOperation = 'lighter'
+    context.globalAlpha = Math.min((brightness - 100) / 100, 1)
+    context.drawImage(target.canvas, 0, 0)
+  }
+  context.globalCompositeOperation = 'source-over'
+  context.globalAlpha = 1
+  return target
+}
+
+/** Seeded, so the same seed always produces the same sequence, e.g. the same grain. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = state
+    value = Math.imul(value ^ (value >>> 15), value | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Lets long renders hand the thread back between stages, so progress can paint. */
+export const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
@@ -0,0 +1,144 @@
+import { getFontStack } from './fonts'
+import type { Size } from './canvasSize'
+import type { Rect } from './renderLayout'
+import { fillTextCentered } from './renderSurface'
+import type { RenderContext } from './renderSurface'
+import type { Settings } from '../settings'
+
+/**
+ * Canvas layout for `CanvasText`: `white-space: pre-line` paragraphs wrapped at word
+ * boundaries, with `break-words` splitting anything too long to fit on a line.
+ */
+
+interface TextRun {
+  font: string
+  letterSpacing: number
+  color: string
+  lineHeight: number
+  marginTop: number
+  lines: { text: string; width: number }[]
+}
+
+export interface TextBlock extends Size {
+  align: Settings['textAlign']
+  runs: TextRun[]
+}
+
+const setRunFont = (context: RenderContext, run: Pick<TextRun, 'font' | 'letterSpacing'>) => {
+  context.font = run.font
+  if ('letterSpacing' in context) context.letterSpacing = `${run.letterSpacing}px`
+}
+
+/** `pre-line` keeps line breaks but collapses runs of spaces and trims around each break. */
+const toParagraphs = (text: string) =>
+  text.split('\n').map((paragraph) => paragraph.replace(/[ \t]+/g, ' ').trim())
+
+const breakWord = (context: RenderContext, word: string, maxWidth: number) => {
+  const pieces: string[] = []
+  let piece = ''
+  for (const character of word) {
+    if (piece && context.measureText(piece + character).width > maxWidth) {
+      pieces.push(piece)
+      piece = character
+    } else {
+      piece += character
+    }
+  }
+  return [...pieces, piece]
+}
+
+const wrapParagraph = (context: RenderContext, paragraph: string, maxWidth: number) => {
+  const lines: string[] = []
+  let line = ''
+  for (const word of paragraph.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word
+    if (context.measureText(candidate).width <= maxWidth) {
+      line = candidate
+      continue
+    }
+    if (line) lines.push(line)
+    if (context.measureText(word).width <= maxWidth) {
+      line = word
+    } else {
+      const pieces = breakWord(context, word, maxWidth)
+      line = pieces.pop() ?? ''
+      lines.push(...pieces)
+    }
+  }
+  return [...lines, line]
+}
+
+/**
+ * Measures the headline and caption the way the preview lays them out: as wide as their
+ * longest line, up to `maxWidth`. Returns null when there is no text to place.
+ */
+export const layoutTextBlock = (
+  context: RenderContext,
+  settings: Settings,
+  maxWidth: number,
+): TextBlock | null => {
+  const family = getFontStack(settings.textFont)
+  const headline = settings.headline.trim()
+  const caption = settings.caption.trim()
+  const blocks = [
+    headline && {
+      text: headline,
+      font: `${settings.headlineWeight} ${settings.headlineSize}px ${family}`,
+      letterSpacing: settings.headlineSize * -0.02,
+      color: settings.headlineColor,
+      lineHeight: settings.headlineSize * 1.1,
+      marginTop: 0,
+    },
+    caption && {
+      text: caption,
+      font: `${settings.captionWeight} ${settings.captionSize}px ${family}`,
+      letterSpacing: 0,
+      color: settings.captionColor,
+      lineHeight: settings.captionSize * 1.4,
+      marginTop: headline ? Math.round(settings.captionSize * 0.6) : 0,
+    },
+  ].filter((block) => block !== '')
+  if (blocks.length === 0) return null
+
+  context.save()
+  const widest = Math.max(
+    ...blocks.flatMap((block) => {
+      setRunFont(context, block)
+      return toParagraphs(block.text).map((paragraph) => context.measureText(paragraph).width)
+    }),
+  )
+  const width = Math.min(Math.ceil(widest), maxWidth)
+  const runs = blocks.map(({ text, ...block }) => {
+    setRunFont(context, block)
+    const lines = toParagraphs(text)
+      .flatMap((paragraph) => wrapParagraph(context, paragraph, width))
+      .map((line) => ({ text: line, width: context.measureText(line).width }))
+    return { ...block, lines }
+  })
+  context.restore()
+
+  return {
+    width,
+    height: runs.reduce((total, run) => total + run.marginTop + run.lines.length * run.lineHeight, 0),
+    align: settings.textAlign,
+    runs,
+  }
+}
+
+export const paintTextBlock = (context: RenderContext, block: TextBlock, box: Rect) => {
+  context.save()
+  context.textAlign = 'left'
+  let top = box.y
+  block.runs.forEach((run) => {
+    setRunFont(context, run)
+    context.fillStyle = run.color
+    top += run.marginTop
+    run.lines.forEach((line) => {
+      const free = box.width - line.width
+      const offset = block.align === 'left' ? 0 : block.align === 'right' ? free : free / 2
+      fillTextCentered(context, line.text, box.x + offset, top + run.lineHeight / 2)
+      top += run.lineHeight
+    })
+  })
+  context.restore()
+}
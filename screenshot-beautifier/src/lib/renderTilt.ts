@@ -0,0 +1,137 @@
+import { TILT_PERSPECTIVE } from './placement'
+import type { Rect } from './renderLayout'
+import type { RenderContext, RenderSurface } from './renderSurface'
+import type { Settings } from '../settings'
+
+/**
+ * Canvas has no 3D transforms, so a tilted frame is painted flat onto a layer and then
+ * warped into place: the layer is cut into a grid of triangles, each projected the way
+ * `getFrameTransform`'s CSS would and drawn with the affine transform that fits it.
+ */
+
+type Point = { x: number; y: number }
+type Projection = (point: Point) => Point
+
+/** Fine enough that the straight triangle edges can't be told from the true perspective. */
+const WARP_GRID = 24
+/** Each triangle is clipped slightly oversized so antialiased seams between them close up. */
+const SEAM_OVERLAP = 0.6
+
+export const hasTilt = (settings: Settings) =>
+  settings.tiltX !== 0 || settings.tiltY !== 0 || settings.tiltZ !== 0
+
+/**
+ * Maps a point through `translate(offset) perspective() rotateX() rotateY() rotateZ()`
+ * about `origin`, in the same logical pixels it came from.
+ */
+export const createTiltProjection = (settings: Settings, origin: Point, offset: Point): Projection => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const [ax, ay, az] = [settings.tiltX, settings.tiltY, settings.tiltZ].map(toRadians)
+
+  return ({ x, y }) => {
+    let px = x - origin.x
+    let py = y - origin.y
+    let pz = 0
+    ;[px, py] = [px * Math.cos(az) - py * Math.sin(az), px * Math.sin(az) + py * Math.cos(az)]
+    ;[px, pz] = [px * Math.cos(ay) + pz * Math.sin(ay), -px * Math.sin(ay) + pz * Math.cos(ay)]
+    ;[py, pz] = [py * Math.cos(ax) - pz * Math.sin(ax), py * Math.sin(ax) + pz * Math.cos(ax)]
+    const w = 1 - pz / TILT_PERSPECTIVE
+    return { x: origin.x + offset.x + px / w, y: origin.y + offset.y + py / w }
+  }
+}
+
+const expandFromCentroid = (points: Point[], amount: number) => {
+  const cx = (points[0].x + points[1].x + points[2].x) / 3
+  const cy = (points[0].y + points[1].y + points[2].y) / 3
+  return points.map(({ x, y }) => {
+    const length = Math.hypot(x - cx, y - cy) || 1
+    return { x: x + ((x - cx) / length) * amount, y: y + ((y - cy) / length) * amount }
+  })
+}
+
+const drawTriangle = (
+  context: RenderContext,
+  layer: RenderSurface,
+  [s0, s1, s2]: Point[],
+  target: Point[],
+) => {
+  const [d0, d1, d2] = target
+  const determinant = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y)
+  if (Math.abs(determinant) < 1e-9) return
+  const a = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / determinant
+  const b = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / determinant
+  const c = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / determinant
+  const d = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / determinant
+  const e = d0.x - a * s0.x - c * s0.y
+  const f = d0.y - b * s0.x - d * s0.y
+
+  const [c0, c1, c2] = expandFromCentroid(target, SEAM_OVERLAP)
+  context.save()
+  context.beginPath()
+  context.moveTo(c0.x, c0.y)
+  context.lineTo(c1.x, c1.y)
+  context.lineTo(c2.x, c2.y)
+  context.closePath()
+  context.clip()
+  context.setTransform(a, b, c, d, e, f)
+  // Only the triangle's neighbourhood of the layer is sampled, not the whole bitmap.
+  const { width, height } = layer.canvas
+  const left = Math.max(Math.floor(Math.min(s0.x, s1.x, s2.x)) - 2, 0)
+  const top = Math.max(Math.floor(Math.min(s0.y, s1.y, s2.y)) - 2, 0)
+  const right = Math.min(Math.ceil(Math.max(s0.x, s1.x, s2.x)) + 2, width)
+  const bottom = Math.min(Math.ceil(Math.max(s0.y, s1.y, s2.y)) + 2, height)
+  if (right > left && bottom > top) {
+    context.drawImage(layer.canvas, left, top, right - left, bottom - top, left, top, right - left, bottom - top)
+  }
+  context.restore()
+}
+
+/**
+ * Draws `layer`, a bitmap of the logical `bounds` at `scale`, onto `context` through
+ * `project`. The context's own transform is ignored; the target is addressed in device pixels.
+ */
+export const warpLayer = (
+  context: RenderContext,
+  layer: RenderSurface,
+  bounds: Rect,
+  project: Projection,
+  scale: number,
+) => {
+  const grid = Array.from({ length: WARP_GRID + 1 }, (_, row) =>
+    Array.from({ length: WARP_GRID + 1 }, (_, column) => {
+      const logical = {
+        x: bounds.x + (bounds.width * column) / WARP_GRID,
+        y: bounds.y + (bounds.height * row) / WARP_GRID,
+      }
+      const projected = project(logical)
+      return {
+        source: { x: (logical.x - bounds.x) * scale, y: (logical.y - bounds.y) * scale },
+        target: { x: projected.x * scale, y: projected.y * scale },
+      }
+    }),
+  )
+
+  context.save()
+  context.setTransform(1, 0, 0, 1, 0, 0)
+  context.imageSmoothingQuality = 'high'
+  for (let row = 0; row < WARP_GRID; row += 1) {
+    for (let column = 0; column < WARP_GRID; column += 1) {
+      const topLeft = grid[row][column]
+      const topRight = grid[row][column + 1]
+      const bottomRight = grid[row + 1][column + 1]
+      const bottomLeft = grid[row + 1][column]
+      for (const triangle of [
+        [topLeft, topRight, bottomRight],
+        [topLeft, bottomRight, bottomLeft],
+      ]) {
+        drawTriangle(
+          context,
+          layer,
+          triangle.map((vertex) => vertex.source),
+          triangle.map((vertex) => vertex.target),
+        )
+      }
+    }
+  }
+  context.restore()
+}
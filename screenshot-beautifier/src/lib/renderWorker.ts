@@ -0,0 +1,93 @@
+import type { FontSource } from './fonts'
+import type { RenderedImage } from './renderClient'
+import { renderComposition } from './renderer'
+import type { RenderArrangement, RenderOptions, RenderScene, RenderScreen } from './renderer'
+import { createOffscreenSurface, encodeSurface } from './renderSurface'
+import type { RenderSource } from './renderSurface'
+
+/** Renders compositions off the main thread so the editor stays responsive during exports. */
+
+export interface TransferredSource extends RenderSource {
+  image: ImageBitmap
+}
+
+export interface TransferredArrangement extends Omit<RenderArrangement, 'screens'> {
+  screens: (RenderScreen & { source: TransferredSource })[]
+}
+
+export interface RenderWorkerRequest {
+  id: number
+  scene: Omit<RenderScene, 'screenshot' | 'backdrop' | 'arrangement' | 'watermark'>
+  screenshot: TransferredSource
+  backdrop: TransferredSource | null
+  arrangement: TransferredArrangement | null
+  watermark: TransferredSource | null
+  fonts: FontSource[]
+  options: Pick<RenderOptions, 'scale' | 'transparent' | 'matte'>
+  type: string
+  quality?: number
+}
+
+export type RenderWorkerResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; image: RenderedImage }
+  | { id: number; type: 'error'; message: string }
+
+/** The parts of `DedicatedWorkerGlobalScope` used here; the app's TS lib is the DOM one. */
+interface RenderWorkerScope {
+  fonts?: FontFaceSet
+  onmessage: ((event: MessageEvent<RenderWorkerRequest>) => void) | null
+  postMessage: (message: RenderWorkerResponse) => void
+}
+
+const scope = self as unknown as RenderWorkerScope
+const registeredFonts = new Set<string>()
+
+/** Workers don't share the page's fonts, so each subset is added to the worker's own set once. */
+const registerFonts = async (fonts: FontSource[]) => {
+  const { fonts: fontSet } = scope
+  if (!fontSet) return
+  await Promise.all(
+    fonts.map(async ({ family, weight, style, unicodeRange, data }) => {
+      const key = [family, weight, style, unicodeRange].join('|')
+      if (registeredFonts.has(key)) return
+      const face = new FontFace(family, data, { weight, style, unicodeRange })
+      fontSet.add(await face.load())
+      // Only a face that loaded counts, so one that failed is tried again on the next render.
+      registeredFonts.add(key)
+    }),
+  )
+}
+
+scope.onmessage = async ({ data: request }) => {
+  const { id } = request
+  try {
+    await registerFonts(request.fonts).catch((error) => {
+      console.warn('Could not register fonts in the render worker', error)
+    })
+    const { surface, scale } = await renderComposition(
+      {
+        ...request.scene,
+        screenshot: request.screenshot,
+        backdrop: request.backdrop,
+        arrangement: request.arrangement,
+        watermark: request.watermark,
+      },
+      {
+        ...request.options,
+        createSurface: createOffscreenSurface,
+        onProgress: (progress) => scope.postMessage({ id, type: 'progress', progress }),
+      },
+    )
+    const { width, height } = surface.canvas
+    const blob = await encodeSurface(surface, request.type, request.quality)
+    scope.postMessage({ id, type: 'done', image: { blob, width, height, scale } })
+  } catch (error) {
+    scope.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) })
+  } finally {
+    request.screenshot.image.close()
+    request.backdrop?.image.close()
+    request.watermark?.image.close()
+    request.arrangement?.screens.forEach(({ source }) => source.image.close())
+  }
+}
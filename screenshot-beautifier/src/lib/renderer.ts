@@ -0,0 +1,452 @@
+import { getCoverPlane } from './arrangements'
+import type { Arrangement, ArrangementInput, ScreenLayout } from './arrangements'
+import { getPlateShadows, getScreenShadows, getShadowColor, getShadowReach } from './atmosphere'
+import type { DropShadow } from './atmosphere'
+import type { Annotation } from './annotations'
+import { paintEffects } from './effects'
+import type { FrameType } from './frames'
+import { getImagePlane } from './placement'
+import { paintAnnotations } from './renderAnnotations'
+import { getPaddingBox, paintBackground, paintGloss } from './renderBackground'
+import { paintFrame } from './renderFrames'
+import {
+  AUTO_CANVAS_RADIUS,
+  CANVAS_BORDER,
+  PLATE_BORDER,
+  PLATE_RADIUS_OFFSET,
+  computeCompositionLayout,
+  getCompositionWidth,
+  hasCanvasText,
+} from './renderLayout'
+import type { CompositionLayout, Rect } from './renderLayout'
+import {
+  blurSurface,
+  fillBorder,
+  fillRoundedRect,
+  inflateRect,
+  traceRoundedRect,
+  yieldToEventLoop,
+} from './renderSurface'
+import type { CreateSurface, Painter, RenderContext, RenderSource, RenderSurface } from './renderSurface'
+import { layoutTextBlock, paintTextBlock } from './renderText'
+import { createTiltProjection, hasTilt, warpLayer } from './renderTilt'
+import { paintWatermark } from './watermark'
+import type { Settings } from '../settings'
+
+/**
+ * Draws a composition from its settings alone, so exports match the preview pixel for
+ * pixel at any scale without depending on the live DOM. Works the same on the main
+ * thread and in a worker; `createSurface` decides which kind of canvas it draws on.
+ */
+
+/** One screen of a multi-screenshot arrangement. */
+export interface RenderScreen {
+  source: RenderSource
+  annotations: Annotation[]
+  frameType: FrameType
+  title: string
+}
+
+export interface RenderArrangement
+  extends Pick<Arrangement, 'id' | 'spacing' | 'align' | 'overlap' | 'split'> {
+  screens: RenderScreen[]
+}
+
+/** How far an animation has moved the frame and its plate from where the layout puts them. */
+export interface PlateMotion {
+  /** Pixels the plate sits below its place. */
+  offsetY: number
+  /** 0–1, applied to the plate, its shadows, and the frame together. */
+  opacity: number
+}
+
+export interface RenderScene {
+  settings: Settings
+  /** The screenshot, or the first screen of an arrangement. */
+  screenshot: RenderSource
+  annotations: Annotation[]
+  /** The photo behind "image" and "screenshot" backgrounds, when there is one. */
+  backdrop: RenderSource | null
+  title: string
+  /** Canvas width for the "auto" size, which follows the preview's width. */
+  autoWidth: number
+  /** Several screens in place of the single frame, or null. */
+  arrangement: RenderArrangement | null
+  /** The decoded watermark logo, when the settings have one. */
+  watermark: RenderSource | null
+  /** Set while rendering the frames of an animation, null for stills. */
+  motion: PlateMotion | null
+}
+
+export interface RenderOptions {
+  scale: number
+  /** Leaves out the canvas background so only the frame, shadow, text, and watermark are painted. */
+  transparent: boolean
+  /** Solid color under everything, for formats without alpha. */
+  matte?: string
+  createSurface: CreateSurface
+  onProgress?: (progress: number) => void
+}
+
+export interface RenderResult {
+  surface: RenderSurface
+  /** The scale actually rendered at, lower than requested when the canvas would be too large. */
+  scale: number
+}
+
+/** Browsers refuse canvases past these limits, or silently return blank ones. */
+export const MAX_RENDER_SIDE = 16384
+export const MAX_RENDER_PIXELS = 8192 * 8192
+
+/** The page background, under formats without alpha and around auto canvases' rounded corners. */
+export const EXPORT_MATTE = '#020617'
+
+const PLATE_FILL = 'rgba(255, 255, 255, 0.05)'
+const HAIRLINE = 'rgba(255, 255, 255, 0.1)'
+/** The plate's `backdrop-blur-[64px]`. */
+const PLATE_BACKDROP_BLUR = 64
+/** Where a shadow's caster is drawn so that only the shadow lands on the canvas. */
+const SHADOW_CASTER_OFFSET = 20000
+/** Room around a screen's layer for device side buttons, which sit just outside the frame. */
+const SCREEN_LAYER_MARGIN = 8
+const FULL_PLANE: Rect = { x: 0, y: 0, width: 1, height: 1 }
+/** The before/after divider's line width and handle radius. */
+const SPLIT_LINE_WIDTH = 2
+const SPLIT_HANDLE_RADIUS = 14
+
+export const getRenderScale = (canvas: { width: number; height: number }, requested: number) =>
+  Math.min(
+    requested,
+    MAX_RENDER_SIDE / canvas.width,
+    MAX_RENDER_SIDE / canvas.height,
+    Math.sqrt(MAX_RENDER_PIXELS / (canvas.width * canvas.height)),
+  )
+
+const getPlateRadius = (settings: Settings) => settings.borderRadius + PLATE_RADIUS_OFFSET
+
+/**
+ * A box shadow only shows outside its box, so the plate itself is clipped out. The last
+ * shadow is painted first, so the first ends up on top as in CSS.
+ */
+const paintPlateShadows = ({ context, scale }: Painter, plate: Rect, radius: number, shadows: DropShadow[]) => {
+  context.save()
+  context.beginPath()
+  context.rect(
+    -SHADOW_CASTER_OFFSET * 2,
+    -SHADOW_CASTER_OFFSET * 2,
+    SHADOW_CASTER_OFFSET * 4,
+    SHADOW_CASTER_OFFSET * 4,
+  )
+  traceRoundedRect(context, plate, radius)
+  context.clip('evenodd')
+  for (const shadow of [...shadows].reverse()) {
+    context.shadowColor = getShadowColor(shadow)
+    context.shadowBlur = shadow.blur * scale
+    context.shadowOffsetX = (SHADOW_CASTER_OFFSET + shadow.offsetX) * scale
+    context.shadowOffsetY = shadow.offsetY * scale
+    const caster = inflateRect({ ...plate, x: plate.x - SHADOW_CASTER_OFFSET }, shadow.spread)
+    fillRoundedRect(context, caster, Math.max(radius + shadow.spread, 0), '#000000')
+  }
+  context.restore()
+}
+
+/**
+ * Draws `source` over `plane`, given in fractions of `viewport`, with its annotations in
+ * the screenshot's own pixel space, clipped to the viewport.
+ */
+const paintScreenshot = (
+  context: RenderContext,
+  source: RenderSource,
+  annotations: Annotation[],
+  viewport: Rect,
+  plane: Rect,
+) => {
+  const image = {
+    x: viewport.x + plane.x * viewport.width,
+    y: viewport.y + plane.y * viewport.height,
+    width: plane.width * viewport.width,
+    height: plane.height * viewport.height,
+  }
+  context.save()
+  context.beginPath()
+  context.rect(viewport.x, viewport.y, viewport.width, viewport.height)
+  context.clip()
+  context.drawImage(source.image, image.x, image.y, image.width, image.height)
+  if (annotations.length > 0) {
+    context.translate(image.x, image.y)
+    context.scale(image.width / source.width, image.height / source.height)
+    paintAnnotations(context, annotations, source)
+  }
+  context.restore()
+}
+
+/** The "after" screenshot covers the viewport right of the divider, which gets a grip handle. */
+const paintAfterHalf = (context: RenderContext, after: RenderScreen, viewport: Rect, split: number) => {
+  const splitX = viewport.x + (viewport.width * split) / 100
+  context.save()
+  context.beginPath()
+  context.rect(splitX, viewport.y, viewport.x + viewport.width - splitX, viewport.height)
+  context.clip()
+  paintScreenshot(context, after.source, after.annotations, viewport, getCoverPlane(after.source, viewport))
+  context.restore()
+
+  const centerY = viewport.y + viewport.height / 2
+  context.fillStyle = 'rgba(255, 255, 255, 0.9)'
+  context.fillRect(splitX - SPLIT_LINE_WIDTH / 2, viewport.y, SPLIT_LINE_WIDTH, viewport.height)
+  context.beginPath()
+  context.arc(splitX, centerY, SPLIT_HANDLE_RADIUS, 0, Math.PI * 2)
+  context.fill()
+  context.fillStyle = 'rgba(15, 23, 42, 0.6)'
+  context.fillRect(splitX - 4, centerY - 6, 2, 12)
+  context.fillRect(splitX + 2, centerY - 6, 2, 12)
+}
+
+/**
+ * Paints on a layer of its own so the shadows follow the frame's shape, as CSS `drop-shadow`
+ * does. Like a chain of CSS filters, each shadow is cast by the layer with the ones before it.
+ */
+const paintWithDropShadows = (
+  painter: Painter,
+  frame: Rect,
+  shadows: DropShadow[],
+  paint: (context: RenderContext) => void,
+) => {
+  const { context, scale, createSurface } = painter
+  const bounds = inflateRect(frame, SCREEN_LAYER_MARGIN + getShadowReach(shadows) * shadows.length)
+  const createLayer = () => createSurface(bounds.width * scale, bounds.height * scale)
+  let layer = createLayer()
+  layer.context.scale(scale, scale)
+  layer.context.translate(-bounds.x, -bounds.y)
+  layer.context.imageSmoothingQuality = 'high'
+  paint(layer.context)
+  for (const shadow of shadows) {
+    const next = createLayer()
+    next.context.shadowColor = getShadowColor(shadow)
+    next.context.shadowBlur = shadow.blur * scale
+    next.context.shadowOffsetX = shadow.offsetX * scale
+    next.context.shadowOffsetY = shadow.offsetY * scale
+    next.context.drawImage(layer.canvas, 0, 0)
+    layer = next
+  }
+  context.drawImage(layer.canvas, bounds.x, bounds.y, layer.canvas.width / scale, layer.canvas.height / scale)
+}
+
+/** Each screen of an arrangement in its own frame and shadow, later ones on top. */
+const paintScreens = (
+  painter: Painter,
+  settings: Settings,
+  screens: ScreenLayout[],
+  arrangement: RenderArrangement,
+) => {
+  const shadows = getScreenShadows(settings)
+  screens.forEach((screen, index) => {
+    const { source, annotations, frameType, title } = arrangement.screens[index]
+    const paint = (context: RenderContext) =>
+      paintFrame(context, { ...settings, frameType }, screen, title, () => {
+        paintScreenshot(context, source, annotations, screen.viewport, FULL_PLANE)
+        const after = arrangement.id === 'before-after' ? arrangement.screens[1] : null
+        if (after) paintAfterHalf(context, after, screen.viewport, arrangement.split)
+      })
+    if (shadows.length > 0) paintWithDropShadows(painter, screen.frame, shadows, paint)
+    else paint(painter.context)
+  })
+}
+
+/**
+ * The frame inside its glass plate, painted at the plate's untranslated position: the
+ * shadow, the plate, the chrome, then the cropped screenshot with its annotations, and last
+ * the frame effects, clipped to the plate.
+ */
+const paintPlateGroup = (painter: Painter, scene: RenderScene, layout: CompositionLayout) => {
+  const { context } = painter
+  const { settings } = scene
+  const radius = getPlateRadius(settings)
+  const shadows = getPlateShadows(settings)
+
+  if (shadows.length > 0) paintPlateShadows(painter, layout.plate, radius, shadows)
+  fillRoundedRect(context, layout.plate, radius, PLATE_FILL)
+  fillBorder(context, layout.plate, radius, PLATE_BORDER, HAIRLINE)
+
+  if (layout.screens && scene.arrangement) {
+    paintScreens(painter, settings, layout.screens, scene.arrangement)
+  } else {
+    paintFrame(context, settings, layout, scene.title, () =>
+      paintScreenshot(context, scene.screenshot, scene.annotations, layout.viewport, getImagePlane(settings)),
+    )
+  }
+
+  context.save()
+  context.beginPath()
+  traceRoundedRect(context, layout.plate, radius)
+  context.clip()
+  paintEffects(painter, settings.effects, 'frame', layout.plate)
+  context.restore()
+}
+
+/** Moving the plate offset moves everything drawn with the plate, tilted or not, but not the text. */
+const applyMotion = (layout: CompositionLayout, motion: PlateMotion | null): CompositionLayout =>
+  motion && motion.offsetY !== 0
+    ? { ...layout, plateOffset: { ...layout.plateOffset, y: layout.plateOffset.y + motion.offsetY } }
+    : layout
+
+/** The geometry `computeCompositionLayout` needs from an arrangement. */
+const toArrangementInput = (arrangement: RenderArrangement): ArrangementInput => ({
+  ...arrangement,
+  slots: arrangement.screens.map(({ source, frameType }) => ({ image: source, frameType })),
+})
+
+/** Everything the plate group can paint on, including how far its shadows reach. */
+const getPlateGroupBounds = (plate: Rect, shadows: DropShadow[]) => inflateRect(plate, getShadowReach(shadows))
+
+/**
+ * Frosts what is already on the canvas beneath `plate`, as the plate's `backdrop-filter`
+ * does. Only the neighbourhood the blur reaches into is copied out and blurred.
+ */
+const paintPlateBackdrop = (painter: Painter, surface: RenderSurface, plate: Rect, radius: number) => {
+  const { context, scale, createSurface } = painter
+  const { width, height } = surface.canvas
+  const reach = PLATE_BACKDROP_BLUR * 2
+  const left = Math.max(Math.floor((plate.x - reach) * scale), 0)
+  const top = Math.max(Math.floor((plate.y - reach) * scale), 0)
+  const right = Math.min(Math.ceil((plate.x + plate.width + reach) * scale), width)
+  const bottom = Math.min(Math.ceil((plate.y + plate.height + reach) * scale), height)
+  if (right <= left || bottom <= top) return
+
+  const region = createSurface(right - left, bottom - top)
+  region.context.drawImage(surface.canvas, left, top, right - left, bottom - top, 0, 0, right - left, bottom - top)
+  const blurred = blurSurface(createSurface, region, PLATE_BACKDROP_BLUR * scale)
+
+  context.save()
+  context.beginPath()
+  traceRoundedRect(context, plate, radius)
+  context.clip()
+  context.drawImage(blurred.canvas, left / scale, top / scale, (right - left) / scale, (bottom - top) / scale)
+  context.restore()
+}
+
+/**
+ * A tilted plate is painted flat on its own layer and warped into place. Its frosted
+ * backdrop is the whole canvas blurred, masked by the plate's shape warped the same way.
+ */
+const paintTiltedPlate = (
+  painter: Painter,
+  surface: RenderSurface,
+  scene: RenderScene,
+  layout: CompositionLayout,
+  frosted: boolean,
+) => {
+  const { context, scale, createSurface } = painter
+  const { settings } = scene
+  const { plate, plateOffset } = layout
+  const bounds = getPlateGroupBounds(plate, getPlateShadows(settings))
+  const project = createTiltProjection(
+    settings,
+    { x: plate.x + plate.width / 2, y: plate.y + plate.height / 2 },
+    plateOffset,
+  )
+  const createLayer = () => {
+    const layer = createSurface(bounds.width * scale, bounds.height * scale)
+    layer.context.scale(scale, scale)
+    layer.context.translate(-bounds.x, -bounds.y)
+    return layer
+  }
+
+  if (frosted) {
+    const mask = createLayer()
+    fillRoundedRect(mask.context, plate, getPlateRadius(settings), '#000000')
+    const blurred = blurSurface(createSurface, surface, PLATE_BACKDROP_BLUR * scale)
+    blurred.context.globalCompositeOperation = 'destination-in'
+    const warpedMask = createSurface(surface.canvas.width, surface.canvas.height)
+    warpLayer(warpedMask.context, mask, bounds, project, scale)
+    blurred.context.drawImage(warpedMask.canvas, 0, 0)
+    context.save()
+    context.setTransform(1, 0, 0, 1, 0, 0)
+    context.drawImage(blurred.canvas, 0, 0)
+    context.restore()
+  }
+
+  const layer = createLayer()
+  layer.context.imageSmoothingQuality = 'high'
+  paintPlateGroup({ ...painter, context: layer.context }, scene, layout)
+  warpLayer(context, layer, bounds, project, scale)
+}
+
+/** Paints the composition onto a fresh surface, reporting progress from 0 to 1. */
+export const renderComposition = async (
+  scene: RenderScene,
+  { scale: requestedScale, transparent, matte, createSurface, onProgress }: RenderOptions,
+): Promise<RenderResult> => {
+  const { settings } = scene
+  const report = async (progress: number) => {
+    onProgress?.(progress)
+    await yieldToEventLoop()
+  }
+
+  const canvasWidth = settings.canvasSize === 'auto' ? scene.autoWidth : settings.canvasWidth
+  const measure = createSurface(1, 1).context
+  const text = hasCanvasText(settings)
+    ? layoutTextBlock(measure, settings, (getCompositionWidth(settings, canvasWidth) * settings.textMaxWidth) / 100)
+    : null
+  const layout = applyMotion(
+    computeCompositionLayout(
+      settings,
+      scene.screenshot,
+      scene.autoWidth,
+      text,
+      scene.arrangement ? toArrangementInput(scene.arrangement) : null,
+    ),
+    scene.motion,
+  )
+  const { canvas } = layout
+  const scale = getRenderScale(canvas, requestedScale)
+  const surface = createSurface(Math.round(canvas.width * scale), Math.round(canvas.height * scale))
+  const { context } = surface
+  const painter: Painter = { context, scale, createSurface }
+  context.scale(scale, scale)
+  context.imageSmoothingQuality = 'high'
+  await report(0.1)
+
+  const canvasRect = { x: 0, y: 0, ...canvas }
+  const canvasRadius = settings.canvasSize === 'auto' ? AUTO_CANVAS_RADIUS : 0
+  if (matte) {
+    context.fillStyle = matte
+    context.fillRect(0, 0, canvas.width, canvas.height)
+  }
+  context.save()
+  context.beginPath()
+  traceRoundedRect(context, canvasRect, canvasRadius)
+  context.clip()
+
+  if (!transparent) {
+    paintBackground(painter, settings, canvas, scene.backdrop)
+    await report(0.3)
+    paintGloss(painter, canvas)
+    paintEffects(painter, settings.effects, 'backdrop', getPaddingBox(canvas))
+    fillBorder(context, canvasRect, canvasRadius, CANVAS_BORDER, HAIRLINE)
+    await report(0.5)
+  }
+
+  context.save()
+  context.globalAlpha = scene.motion?.opacity ?? 1
+  if (hasTilt(settings)) {
+    paintTiltedPlate(painter, surface, scene, layout, !transparent)
+  } else {
+    const { plate, plateOffset } = layout
+    if (!transparent) {
+      const shifted = { ...plate, x: plate.x + plateOffset.x, y: plate.y + plateOffset.y }
+      paintPlateBackdrop(painter, surface, shifted, getPlateRadius(settings))
+    }
+    context.translate(plateOffset.x, plateOffset.y)
+    paintPlateGroup(painter, scene, layout)
+  }
+  context.restore()
+  await report(0.85)
+
+  if (text && layout.text) paintTextBlock(context, text, layout.text)
+  if (!transparent) paintEffects(painter, settings.effects, 'overlay', getPaddingBox(canvas))
+  paintWatermark(context, settings, canvas, scene.watermark)
+  context.restore()
+  await report(0.9)
+
+  return { surface, scale }
+}
@@ -0,0 +1,119 @@
+import type { Settings } from '../settings'
+
+export type GlowSource = 'color' | 'gradient'
+
+/** One shadow cast by the frame. Directions are compass degrees: 0 up, 90 right, 180 down. */
+export interface ShadowLayer {
+  angle: number
+  distance: number
+  blur: number
+  spread: number
+  color: string
+  /** Percent, 0–100. */
+  opacity: number
+}
+
+export type ShadowSettings = Pick<
+  Settings,
+  'shadowLayers' | 'glowStrength' | 'glowSize' | 'glowColor' | 'glowSource'
+>
+
+export const SHADOW_LAYERS_MAX = 6
+export const SHADOW_DISTANCE_MAX = 240
+export const SHADOW_BLUR_MAX = 240
+export const SHADOW_SPREAD_MAX = 120
+export const GLOW_SIZE_MIN = 8
+export const GLOW_SIZE_MAX = 200
+
+/** An inky navy that reads on light and dark backdrops alike. */
+export const SHADOW_COLOR = '#080f23'
+
+export const glowSourceOptions: { id: GlowSource; label: string; description: string }[] = [
+  { id: 'color', label: 'Single color', description: 'One even halo in the color you pick.' },
+  { id: 'gradient', label: 'Gradient colors', description: 'Each background stop bleeds from its side.' },
+]
+
+export const createShadowLayer = (patch: Partial<ShadowLayer> = {}): ShadowLayer => ({
+  angle: 180,
+  distance: 32,
+  blur: 80,
+  spread: -24,
+  color: SHADOW_COLOR,
+  opacity: 40,
+  ...patch,
+})
+
+/**
+ * The layer the old single "shadow intensity" slider (0–100) stood for, so styles saved
+ * before the layered editor look the same after migrating.
+ */
+export const getLegacyShadowLayers = (intensity: number): ShadowLayer[] => {
+  if (intensity <= 1) return []
+  const strength = intensity / 100
+  return [
+    createShadowLayer({
+      distance: Math.round(24 + strength * 48),
+      blur: Math.round(40 + strength * 140),
+      spread: Math.round(-40 - strength * 25),
+      opacity: Math.round(Math.min(0.25 + strength * 0.4, 0.6) * 100),
+    }),
+  ]
+}
+
+const NO_GLOW = { glowStrength: 0, glowSize: 64, glowColor: '#a855f7', glowSource: 'gradient' } as const
+
+export const shadowPresets: { id: string; label: string; settings: ShadowSettings }[] = [
+  {
+    id: 'soft-float',
+    label: 'Soft float',
+    settings: {
+      ...NO_GLOW,
+      shadowLayers: [
+        createShadowLayer({ distance: 6, blur: 16, spread: -4, opacity: 25 }),
+        createShadowLayer({ distance: 55, blur: 131, spread: -56, opacity: 51 }),
+      ],
+    },
+  },
+  {
+    id: 'hard-offset',
+    label: 'Hard offset',
+    settings: {
+      ...NO_GLOW,
+      shadowLayers: [createShadowLayer({ angle: 135, distance: 24, blur: 0, spread: 0, opacity: 90 })],
+    },
+  },
+  {
+    id: 'long-shadow',
+    label: 'Long shadow',
+    settings: {
+      ...NO_GLOW,
+      // Stacked hard layers at one angle read as a single shadow stretching toward a corner.
+      shadowLayers: [16, 40, 72, 112, 160].map((distance, index) =>
+        createShadowLayer({ angle: 135, distance, blur: 8 + index * 12, spread: 0, opacity: 30 - index * 5 }),
+      ),
+    },
+  },
+  {
+    id: 'neon-glow',
+    label: 'Neon glow',
+    settings: {
+      ...NO_GLOW,
+      shadowLayers: [createShadowLayer({ distance: 12, blur: 32, spread: -12, opacity: 35 })],
+      glowStrength: 85,
+      glowSize: 72,
+    },
+  },
+]
+
+/** The fields that change how the shadow looks; the glow's other fields don't while it is off. */
+const getVisibleShadow = (settings: ShadowSettings) =>
+  JSON.stringify([
+    settings.shadowLayers,
+    settings.glowStrength,
+    ...(settings.glowStrength > 0
+      ? [settings.glowSize, settings.glowSource, settings.glowSource === 'color' ? settings.glowColor : null]
+      : []),
+  ])
+
+export const isShadowPresetActive = (settings: ShadowSettings, preset: ShadowSettings) =>
+  getVisibleShadow(settings) === getVisibleShadow(preset)
@@ -0,0 +1,165 @@
+import { DEFAULT_SETTINGS, SETTINGS_VERSION, sanitizeSettings } from '../settings'
+import type { Settings } from '../settings'
+
+const VERSION_PARAM = 'v'
+
+/** Fields too large for a URL; links leave them out and the recipient gets the default. */
+type LocalOnlyKey = 'watermarkLogo'
+
+/**
+ * Stable short names keep links compact. Never reuse or rename an entry: old links
+ * depend on them. New fields need a new key here.
+ */
+const shortKeys: Record<Exclude<keyof Settings, LocalOnlyKey>, string> = {
+  borderRadius: 'r',
+  padding: 'p',
+  shadowLayers: 'sh',
+  glowStrength: 'gl',
+  glowSize: 'glz',
+  glowColor: 'glc',
+  glowSource: 'gls',
+  backgroundType: 'bt',
+  gradientType: 'gk',
+  gradientStops: 'gs',
+  gradientAngle: 'ga',
+  gradientCenterX: 'gx',
+  gradientCenterY: 'gy',
+  backgroundColor: 'bc',
+  patternType: 'pt',
+  patternColor: 'pc',
+  patternScale: 'psc',
+  patternOpacity: 'po',
+  wallpaperBlur: 'wb',
+  wallpaperBrightness: 'wbr',
+  wallpaperScale: 'wsc',
+  screenshotBlur: 'sb',
+  screenshotBrightness: 'sbr',
+  screenshotScale: 'ssc',
+  matchScreenshot: 'ms',
+  frameType: 'f',
+  frameTitle: 'ft',
+  browserUrl: 'u',
+  browserTabCount: 'tc',
+  frameAppearance: 'fa',
+  deviceNotch: 'dn',
+  windowAccent: 'wa',
+  cropX: 'kx',
+  cropY: 'ky',
+  cropWidth: 'kw',
+  cropHeight: 'kh',
+  cropAspect: 'ka',
+  zoom: 'z',
+  panX: 'px',
+  panY: 'py',
+  frameAlign: 'al',
+  frameBleed: 'bl',
+  tiltX: 'rx',
+  tiltY: 'ry',
+  tiltZ: 'rz',
+  headline: 'h',
+  caption: 'c',
+  textPlacement: 'tp',
+  textAlign: 'ta',
+  textFont: 'tf',
+  headlineSize: 'hs',
+  headlineWeight: 'hw',
+  headlineColor: 'hc',
+  captionSize: 'cps',
+  captionWeight: 'cpw',
+  captionColor: 'cpc',
+  textMaxWidth: 'tw',
+  textGap: 'tg',
+  watermarkText: 'wmt',
+  watermarkPosition: 'wmp',
+  watermarkX: 'wmx',
+  watermarkY: 'wmy',
+  watermarkSize: 'wms',
+  watermarkTextSize: 'wmts',
+  watermarkOpacity: 'wmo',
+  watermarkMargin: 'wmm',
+  watermarkColor: 'wmc',
+  effects: 'fx',
+  canvasSize: 'cs',
+  canvasWidth: 'cw',
+  canvasHeight: 'ch',
+}
+
+/** Keys of fields that were since replaced; they are still decoded so migrations can run. */
+const legacyShortKeys: Record<string, { key: string; fallback: unknown }> = {
+  wc: { key: 'showWindowChrome', fallback: true },
+  gf: { key: 'gradientFrom', fallback: '#60a5fa' },
+  gt: { key: 'gradientTo', fallback: '#a855f7' },
+  d: { key: 'dropShadow', fallback: 65 },
+  n: { key: 'noise', fallback: 12 },
+  vg: { key: 'vignette', fallback: 40 },
+}
+
+const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value)
+
+const encodeValue = (value: unknown) => {
+  if (typeof value === 'boolean') return value ? '1' : '0'
+  if (typeof value === 'string') return isHexColor(value) ? value.slice(1) : value
+  if (typeof value === 'number') return String(value)
+  return JSON.stringify(value)
+}
+
+/** Parses a raw param back into the type of the matching default so validation can run. */
+const decodeValue = (raw: string, fallback: unknown): unknown => {
+  if (typeof fallback === 'boolean') return raw === '1' ? true : raw === '0' ? false : raw
+  if (typeof fallback === 'number') return raw.trim() === '' ? raw : Number(raw)
+  if (typeof fallback === 'string') return isHexColor(fallback) ? `#${raw}` : raw
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return undefined
+  }
+}
+
+/** Serializes only the fields that differ from `DEFAULT_SETTINGS`, leaving out local-only ones. */
+export const encodeSettingsHash = (settings: Settings) => {
+  const params = new URLSearchParams({ [VERSION_PARAM]: String(SETTINGS_VERSION) })
+  for (const key of Object.keys(shortKeys) as (keyof typeof shortKeys)[]) {
+    const value = settings[key]
+    if (encodeValue(value) !== encodeValue(DEFAULT_SETTINGS[key])) {
+      params.set(shortKeys[key], encodeValue(value))
+    }
+  }
+  return params.toString()
+}
+
+/** Returns null when the hash is not a settings link at all. */
+export const decodeSettingsHash = (hash: string) => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const version = Number(params.get(VERSION_PARAM))
+  if (!Number.isInteger(version) || version < 1) return null
+
+  const raw: Record<string, unknown> = {}
+  for (const [shortKey, legacy] of Object.entries(legacyShortKeys)) {
+    const value = params.get(shortKey)
+    if (value !== null) {
+      raw[legacy.key] = decodeValue(value, legacy.fallback)
+    }
+  }
+  for (const key of Object.keys(shortKeys) as (keyof typeof shortKeys)[]) {
+    const value = params.get(shortKeys[key])
+    if (value !== null) {
+      raw[key] = decodeValue(value, DEFAULT_SETTINGS[key])
+    }
+  }
+  return sanitizeSettings(raw, Math.min(version, SETTINGS_VERSION))
+}
+
+export const readSettingsFromLocation = () => {
+  if (typeof window === 'undefined' || !window.location.hash) return null
+  const decoded = decodeSettingsHash(window.location.hash)
+  if (decoded && decoded.invalidKeys.length > 0) {
+    console.warn('Ignored invalid settings in the shared link:', decoded.invalidKeys.join(', '))
+  }
+  return decoded?.settings ?? null
+}
+
+export const buildShareUrl = (settings: Settings) => {
+  const url = new URL(window.location.href)
+  url.hash = encodeSettingsHash(settings)
+  return url.toString()
+}
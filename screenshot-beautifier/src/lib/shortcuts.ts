@@ -0,0 +1,144 @@
+import { isEditableTarget } from './clipboard'
+
+export type ShortcutId =
+  | 'upload'
+  | 'paste'
+  | 'export'
+  | 'copy'
+  | 'clear'
+  | 'reset'
+  | 'undo'
+  | 'redo'
+  | 'previous-background'
+  | 'next-background'
+  | 'previous-style'
+  | 'next-style'
+  | 'nudge-fine'
+  | 'nudge-coarse'
+  | 'palette'
+  | 'help'
+
+export type ShortcutGroup = 'File' | 'Edit' | 'Style' | 'Help'
+
+/**
+ * A key binding. Combos are `+`-joined modifiers (`mod` is ⌘ on Apple devices, else Ctrl)
+ * and a key; letters, digits, and punctuation name the physical key, so Shift and Option
+ * don't change what they match.
+ */
+export interface Shortcut {
+  id: ShortcutId
+  label: string
+  group: ShortcutGroup
+  combos: string[]
+}
+
+export const shortcuts: Shortcut[] = [
+  { id: 'upload', label: 'Upload screenshots', group: 'File', combos: ['mod+o'] },
+  { id: 'paste', label: 'Paste a screenshot or image link', group: 'File', combos: ['mod+v'] },
+  { id: 'export', label: 'Export', group: 'File', combos: ['mod+s'] },
+  { id: 'copy', label: 'Copy PNG', group: 'File', combos: ['mod+c'] },
+  { id: 'clear', label: 'Clear all screenshots', group: 'File', combos: ['mod+shift+backspace'] },
+  { id: 'undo', label: 'Undo', group: 'Edit', combos: ['mod+z'] },
+  { id: 'redo', label: 'Redo', group: 'Edit', combos: ['mod+shift+z', 'mod+y'] },
+  {
+    id: 'nudge-fine',
+    label: 'Nudge the focused slider',
+    group: 'Edit',
+    combos: ['arrowleft', 'arrowright'],
+  },
+  {
+    id: 'nudge-coarse',
+    label: 'Nudge the focused slider in big steps',
+    group: 'Edit',
+    combos: ['shift+arrowleft', 'shift+arrowright'],
+  },
+  { id: 'reset', label: 'Reset styling', group: 'Style', combos: ['alt+shift+r'] },
+  { id: 'previous-background', label: 'Previous background preset', group: 'Style', combos: ['['] },
+  { id: 'next-background', label: 'Next background preset', group: 'Style', combos: [']'] },
+  { id: 'previous-style', label: 'Previous saved style', group: 'Style', combos: ['shift+['] },
+  { id: 'next-style', label: 'Next saved style', group: 'Style', combos: ['shift+]'] },
+  { id: 'palette', label: 'Command palette', group: 'Help', combos: ['mod+k'] },
+  { id: 'help', label: 'Keyboard shortcuts', group: 'Help', combos: ['shift+/'] },
+]
+
+/** Coarse slider nudges move this many steps at a time. */
+export const COARSE_NUDGE_STEPS = 10
+
+const CODE_KEYS: Record<string, string> = {
+  BracketLeft: '[',
+  BracketRight: ']',
+  Slash: '/',
+  Comma: ',',
+  Period: '.',
+  Minus: '-',
+  Equal: '=',
+}
+
+export const isApplePlatform = () =>
+  typeof navigator !== 'undefined' && /mac|iphone|ipad/i.test(navigator.platform || navigator.userAgent)
+
+/** The key an event stands for, independent of the modifiers and keyboard layout shifts. */
+const getEventKey = (event: KeyboardEvent) => {
+  const letter = /^Key([A-Z])$/.exec(event.code)
+  if (letter) return letter[1].toLowerCase()
+  const digit = /^Digit(\d)$/.exec(event.code)
+  if (digit) return digit[1]
+  return CODE_KEYS[event.code] ?? event.key.toLowerCase()
+}
+
+export const matchesCombo = (event: KeyboardEvent, combo: string) => {
+  const parts = combo.split('+')
+  const key = parts[parts.length - 1]
+  return (
+    getEventKey(event) === key &&
+    (event.metaKey || event.ctrlKey) === parts.includes('mod') &&
+    event.shiftKey === parts.includes('shift') &&
+    event.altKey === parts.includes('alt')
+  )
+}
+
+export const findShortcut = (event: KeyboardEvent) =>
+  shortcuts.find((shortcut) => shortcut.combos.some((combo) => matchesCombo(event, combo))) ?? null
+
+/** Text fields, color pickers, and selects keep their keys; shortcuts never fire inside them. */
+export const blocksShortcuts = (target: EventTarget | null) =>
+  isEditableTarget(target) ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLInputElement && target.type === 'color')
+
+const KEY_LABELS: Record<string, [apple: string, other: string]> = {
+  mod: ['⌘', 'Ctrl'],
+  shift: ['⇧', 'Shift'],
+  alt: ['⌥', 'Alt'],
+  backspace: ['⌫', 'Backspace'],
+  arrowleft: ['←', '←'],
+  arrowright: ['→', '→'],
+}
+
+/** The keys of a combo as they are printed on the user's keyboard, one label per key. */
+export const formatCombo = (combo: string, apple = isApplePlatform()) =>
+  combo.split('+').map((key) => KEY_LABELS[key]?.[apple ? 0 : 1] ?? key.toUpperCase())
+
+export const getShortcut = (id: ShortcutId) => shortcuts.find((shortcut) => shortcut.id === id)
+
+/** A short hint like “Ctrl+S” for buttons and tooltips. */
+export const getShortcutHint = (id: ShortcutId, apple = isApplePlatform()) => {
+  const combo = getShortcut(id)?.combos[0]
+  return combo ? formatCombo(combo, apple).join(apple ? '' : '+') : ''
+}
+
+/** Which way an arrow key nudges a slider, or null for other keys. */
+export const getNudgeDirection = (key: string): -1 | 1 | null =>
+  key === 'ArrowLeft' || key === 'ArrowDown' ? -1 : key === 'ArrowRight' || key === 'ArrowUp' ? 1 : null
+
+/** The value a slider moves to when nudged one fine or coarse step toward `direction`. */
+export const nudgeValue = (
+  value: number,
+  { min, max, step }: { min: number; max: number; step: number },
+  direction: -1 | 1,
+  coarse: boolean,
+) => Math.min(max, Math.max(min, value + direction * step * (coarse ? COARSE_NUDGE_STEPS : 1)))
+
+/** Steps through a list of `count` presets from `index`, wrapping; -1 starts from either end. */
+export const cycleIndex = (index: number, step: -1 | 1, count: number) =>
+  index < 0 ? (step > 0 ? 0 : count - 1) : (index + step + count) % count
@@ -0,0 +1,310 @@
+import type { Size } from './canvasSize'
+import { IMAGE_PIXELS_MAX, IMAGE_SIDE_MAX } from './imageInput'
+import { createDocumentSurface, createRandom, yieldToEventLoop } from './renderSurface'
+import type { RenderContext, RenderSource } from './renderSurface'
+
+/**
+ * Stitching joins overlapping captures of a scrolling page into one long image. Every capture
+ * is scaled to the first one's width (or height, side by side), so lengths and overlaps are
+ * all measured in the stitched image's pixels.
+ */
+
+export type StitchDirection = 'vertical' | 'horizontal'
+export type StitchEnding = 'full' | 'torn' | 'fade'
+
+export interface StitchOptions {
+  direction: StitchDirection
+  /** How far each capture overlaps the one before it, one per seam. */
+  overlaps: number[]
+  ending: StitchEnding
+  /** How long the result may run before the ending cuts it, as a percentage of its width. */
+  maxLength: number
+}
+
+export const stitchDirectionOptions: { id: StitchDirection; label: string; description: string }[] = [
+  { id: 'vertical', label: 'Top to bottom', description: 'For pages captured while scrolling down.' },
+  { id: 'horizontal', label: 'Left to right', description: 'For wide tables, timelines, and boards.' },
+]
+
+export const stitchEndingOptions: { id: StitchEnding; label: string; description: string }[] = [
+  { id: 'full', label: 'Full length', description: 'Keeps every pixel, however long it runs.' },
+  { id: 'torn', label: 'Torn edge', description: 'Cuts it short along a ripped-paper edge.' },
+  { id: 'fade', label: 'Fade out', description: 'Cuts it short and fades the end away.' },
+]
+
+export const STITCH_LENGTH_MIN = 100
+export const STITCH_LENGTH_MAX = 600
+/** Shorter overlaps are too easy to match by accident. */
+export const STITCH_OVERLAP_MIN = 8
+
+/** Each line of a capture is squeezed to this many averaged samples for matching. */
+const SIGNATURE_SAMPLES = 64
+const LINE_SIZE = SIGNATURE_SAMPLES * 3
+/** Lines compared per candidate overlap, spread evenly across it. */
+const SAMPLE_LINES = 48
+/** Mean difference per channel, out of 255, past which lines don't count as the same. */
+const MATCH_THRESHOLD = 10
+/** Scores this close to the best are a tie, settled in favor of the longer overlap. */
+const MATCH_TOLERANCE = 0.5
+/** Overlaps with less contrast than this are blank margins that match anywhere. */
+const DETAIL_MIN = 24
+const TEAR_TOOTH = 14
+const TEAR_DEPTH = 0.02
+const TEAR_DEPTH_MIN = 10
+/** Length of the fade, as a share of the width. */
+const FADE_SHARE = 0.3
+
+const getLength = (size: Size, direction: StitchDirection) =>
+  direction === 'vertical' ? size.height : size.width
+
+const getCross = (size: Size, direction: StitchDirection) =>
+  direction === 'vertical' ? size.width : size.height
+
+const getScaledLength = (source: RenderSource, cross: number, direction: StitchDirection) =>
+  Math.max(Math.round((getLength(source, direction) * cross) / getCross(source, direction)), 1)
+
+/** RGB samples for every line of a capture across the stitch direction, at its scaled length. */
+const readSignature = (source: RenderSource, length: number, direction: StitchDirection) => {
+  const width = direction === 'vertical' ? SIGNATURE_SAMPLES : length
+  const height = direction === 'vertical' ? length : SIGNATURE_SAMPLES
+  const { context } = createDocumentSurface(width, height)
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(source.image, 0, 0, width, height)
+  const { data } = context.getImageData(0, 0, width, height)
+  const lines = new Uint8Array(length * LINE_SIZE)
+  for (let line = 0; line < length; line += 1) {
+    for (let sample = 0; sample < SIGNATURE_SAMPLES; sample += 1) {
+      const pixel =
+        (direction === 'vertical' ? line * SIGNATURE_SAMPLES + sample : sample * length + line) * 4
+      const target = line * LINE_SIZE + sample * 3
+      lines[target] = data[pixel]
+      lines[target + 1] = data[pixel + 1]
+      lines[target + 2] = data[pixel + 2]
+    }
+  }
+  return lines
+}
+
+/**
+ * Slides the start of `next` over the end of `previous` and scores each overlap by how much
+ * the lines differ. Returns the best overlap, or null when nothing matches well enough.
+ */
+const findOverlap = (previous: Uint8Array, previousLength: number, next: Uint8Array, nextLength: number) => {
+  const longest = Math.min(previousLength, nextLength) - 1
+  if (longest < STITCH_OVERLAP_MIN) return null
+  const scores = new Float32Array(longest + 1).fill(Infinity)
+  let best = Infinity
+
+  for (let overlap = STITCH_OVERLAP_MIN; overlap <= longest; overlap += 1) {
+    const samples = Math.min(overlap, SAMPLE_LINES)
+    let difference = 0
+    let low = 255
+    let high = 0
+    for (let index = 0; index < samples; index += 1) {
+      const line = Math.round((index * (overlap - 1)) / Math.max(samples - 1, 1))
+      const previousStart = (previousLength - overlap + line) * LINE_SIZE
+      const nextStart = line * LINE_SIZE
+      for (let offset = 0; offset < LINE_SIZE; offset += 1) {
+        const value = next[nextStart + offset]
+        difference += Math.abs(previous[previousStart + offset] - value)
+        if (value < low) low = value
+        if (value > high) high = value
+      }
+    }
+    if (high - low < DETAIL_MIN) continue
+    scores[overlap] = difference / (samples * LINE_SIZE)
+    if (scores[overlap] < best) best = scores[overlap]
+  }
+
+  if (best > MATCH_THRESHOLD) return null
+  for (let overlap = longest; overlap >= STITCH_OVERLAP_MIN; overlap -= 1) {
+    if (scores[overlap] <= best + MATCH_TOLERANCE) return overlap
+  }
+  return null
+}
+
+/**
+ * How far each capture overlaps the one before it, found by comparing lines of pixels; null
+ * for seams where no overlap stands out. Yields between seams to keep the page responsive.
+ */
+export const detectOverlaps = async (sources: RenderSource[], direction: StitchDirection) => {
+  if (sources.length < 2) return []
+  const cross = getCross(sources[0], direction)
+  const lengths = sources.map((source) => getScaledLength(source, cross, direction))
+  const overlaps: (number | null)[] = []
+  let previous = readSignature(sources[0], lengths[0], direction)
+  for (let index = 1; index < sources.length; index += 1) {
+    await yieldToEventLoop()
+    const next = readSignature(sources[index], lengths[index], direction)
+    overlaps.push(findOverlap(previous, lengths[index - 1], next, lengths[index]))
+    previous = next
+  }
+  return overlaps
+}
+
+export interface StitchPiece {
+  source: RenderSource
+  /** Where the capture starts in the stitched image. */
+  offset: number
+  /** The stretch of the capture that shows, from its own start. */
+  start: number
+  end: number
+  /** The capture's whole length once scaled. */
+  length: number
+}
+
+export interface StitchLayout {
+  direction: StitchDirection
+  ending: StitchEnding
+  pieces: StitchPiece[]
+  /** The width of a vertical stitch, or the height of a horizontal one. */
+  cross: number
+  length: number
+  /** True when the ending cut the result short of its full length. */
+  cut: boolean
+  /** Where one capture takes over from the next. */
+  seams: number[]
+  /** Below 1 when the result is larger than browsers can draw and must be scaled down. */
+  scale: number
+}
+
+/** The longest overlap a seam can take: all of the shorter capture but one line. */
+export const getOverlapMax = (sources: RenderSource[], direction: StitchDirection, seam: number) => {
+  const cross = getCross(sources[0], direction)
+  return Math.max(
+    Math.min(
+      getScaledLength(sources[seam], cross, direction),
+      getScaledLength(sources[seam + 1], cross, direction),
+    ) - 1,
+    0,
+  )
+}
+
+/**
+ * Lines the captures up by their overlaps. Each seam sits halfway through its overlap, which
+ * keeps sticky headers and footers from either capture out of the join.
+ */
+export const getStitchLayout = (sources: RenderSource[], options: StitchOptions): StitchLayout => {
+  const { direction } = options
+  const cross = getCross(sources[0], direction)
+  const pieces: StitchPiece[] = []
+  const seams: number[] = []
+
+  sources.forEach((source, index) => {
+    const length = getScaledLength(source, cross, direction)
+    const previous = pieces[index - 1]
+    if (!previous) {
+      pieces.push({ source, offset: 0, start: 0, end: length, length })
+      return
+    }
+    const overlap = Math.min(
+      Math.max(Math.round(options.overlaps[index - 1] ?? 0), 0),
+      length - 1,
+      previous.length - 1,
+    )
+    const offset = previous.offset + previous.length - overlap
+    const start = Math.ceil(overlap / 2)
+    previous.end = previous.length - (overlap - start)
+    pieces.push({ source, offset, start, end: length, length })
+    seams.push(offset + start)
+  })
+
+  const last = pieces[pieces.length - 1]
+  const fullLength = last.offset + last.length
+  const limit = options.ending === 'full' ? Infinity : Math.round((cross * options.maxLength) / 100)
+  const length = Math.min(fullLength, limit)
+  const visible = pieces
+    .filter((piece) => piece.offset + piece.start < length)
+    .map((piece) => ({ ...piece, end: Math.min(piece.end, length - piece.offset) }))
+    .filter((piece) => piece.end > piece.start)
+
+  return {
+    direction,
+    ending: options.ending,
+    pieces: visible,
+    cross,
+    length,
+    cut: length < fullLength,
+    seams: seams.filter((seam) => seam < length),
+    scale: Math.min(
+      IMAGE_SIDE_MAX / Math.max(cross, length),
+      Math.sqrt(IMAGE_PIXELS_MAX / (cross * length)),
+      1,
+    ),
+  }
+}
+
+export const getStitchSize = (layout: StitchLayout, scale: number): Size => {
+  const cross = Math.max(Math.round(layout.cross * scale), 1)
+  const length = Math.max(Math.round(layout.length * scale), 1)
+  return layout.direction === 'vertical' ? { width: cross, height: length } : { width: length, height: cross }
+}
+
+/** Erases the cut end past a ripped-paper line, or fades it out toward the edge. */
+const paintEnding = (context: RenderContext, layout: StitchLayout, scale: number) => {
+  const vertical = layout.direction === 'vertical'
+  const cross = layout.cross * scale
+  const end = layout.length * scale
+  const point = (across: number, inset: number) =>
+    vertical ? ([across, end - inset] as const) : ([end - inset, across] as const)
+
+  context.save()
+  context.globalCompositeOperation = 'destination-out'
+  if (layout.ending === 'fade') {
+    const fade = Math.min(layout.cross * FADE_SHARE, layout.length / 2) * scale
+    const gradient = context.createLinearGradient(...point(0, fade), ...point(0, 0))
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)')
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 1)')
+    context.fillStyle = gradient
+    if (vertical) context.fillRect(0, end - fade, cross, fade)
+    else context.fillRect(end - fade, 0, fade, cross)
+  } else {
+    // Seeded, and sized in unscaled pixels, so the preview tears exactly like the result.
+    const random = createRandom(layout.cross)
+    const depth = Math.max(layout.cross * TEAR_DEPTH, TEAR_DEPTH_MIN) * scale
+    const teeth = Math.max(Math.round(layout.cross / TEAR_TOOTH), 8)
+    context.beginPath()
+    context.moveTo(...point(0, 0))
+    for (let tooth = 0; tooth <= teeth; tooth += 1) {
+      const reach = tooth % 2 === 0 ? 0.1 + random() * 0.35 : 0.55 + random() * 0.45
+      context.lineTo(...point((tooth / teeth) * cross, depth * reach))
+    }
+    context.lineTo(...point(cross, 0))
+    context.closePath()
+    context.fill()
+  }
+  context.restore()
+}
+
+/** Draws the stitched image at `scale` with its top-left corner at the origin. */
+export const paintStitch = (context: RenderContext, layout: StitchLayout, scale: number) => {
+  context.imageSmoothingQuality = 'high'
+  for (const piece of layout.pieces) {
+    const { source } = piece
+    const ratio = getLength(source, layout.direction) / piece.length
+    const from = piece.start * ratio
+    const span = (piece.end - piece.start) * ratio
+    const position = (piece.offset + piece.start) * scale
+    const drawn = (piece.end - piece.start) * scale
+    // Smoothing blurs even same-size copies in some browsers, so pixels that map 1:1 are copied.
+    context.imageSmoothingEnabled = ratio !== scale
+    if (layout.direction === 'vertical') {
+      context.drawImage(source.image, 0, from, source.width, span, 0, position, layout.cross * scale, drawn)
+    } else {
+      context.drawImage(source.image, from, 0, span, source.height, position, 0, drawn, layout.cross * scale)
+    }
+  }
+  if (layout.cut && layout.ending !== 'full') paintEnding(context, layout, scale)
+}
+
+/** The stitched image as a PNG data URL, so a torn or faded end keeps its transparency. */
+export const stitchImages = (layout: StitchLayout) => {
+  const size = getStitchSize(layout, layout.scale)
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('This browser could not create a canvas for stitching')
+  paintStitch(context, layout, layout.scale)
+  return canvas.toDataURL('image/png')
+}
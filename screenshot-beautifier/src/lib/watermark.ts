@@ -0,0 +1,193 @@
+import type { Size } from './canvasSize'
+import { getFontStack } from './fonts'
+import type { RenderContext, RenderSource } from './renderSurface'
+import type { Settings } from '../settings'
+
+/**
+ * A logo and/or text credit stamped over the finished canvas, in a corner, at a custom
+ * point, or tiled diagonally across the whole image. The preview and the renderer both
+ * paint it with `paintWatermark`, so the two never drift apart.
+ */
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'custom' | 'tiled'
+
+export type WatermarkSettings = Pick<
+  Settings,
+  | 'watermarkLogo'
+  | 'watermarkText'
+  | 'watermarkPosition'
+  | 'watermarkX'
+  | 'watermarkY'
+  | 'watermarkSize'
+  | 'watermarkTextSize'
+  | 'watermarkOpacity'
+  | 'watermarkMargin'
+  | 'watermarkColor'
+>
+
+export const watermarkKeys: (keyof WatermarkSettings)[] = [
+  'watermarkLogo',
+  'watermarkText',
+  'watermarkPosition',
+  'watermarkX',
+  'watermarkY',
+  'watermarkSize',
+  'watermarkTextSize',
+  'watermarkOpacity',
+  'watermarkMargin',
+  'watermarkColor',
+]
+
+export const watermarkPositionOptions: { id: WatermarkPosition; label: string; description: string }[] = [
+  { id: 'top-left', label: 'Top left', description: 'Pinned to the top-left corner.' },
+  { id: 'top-right', label: 'Top right', description: 'Pinned to the top-right corner.' },
+  { id: 'bottom-left', label: 'Bottom left', description: 'Pinned to the bottom-left corner.' },
+  { id: 'bottom-right', label: 'Bottom right', description: 'Pinned to the bottom-right corner.' },
+  { id: 'custom', label: 'Custom', description: 'Centered on any point of the canvas.' },
+  { id: 'tiled', label: 'Tiled', description: 'Repeated diagonally across everything, for drafts.' },
+]
+
+export const WATERMARK_TEXT_MAX_LENGTH = 80
+export const WATERMARK_SIZE_MIN = 12
+export const WATERMARK_SIZE_MAX = 240
+export const WATERMARK_TEXT_SIZE_MIN = 10
+export const WATERMARK_TEXT_SIZE_MAX = 96
+export const WATERMARK_OPACITY_MIN = 5
+export const WATERMARK_MARGIN_MAX = 200
+/** Logos are rasterized to this on their longer side, enough for the largest size at 2×. */
+export const WATERMARK_LOGO_SIDE = 512
+/** A data URL of a `WATERMARK_LOGO_SIDE` PNG stays well under this. */
+export const WATERMARK_LOGO_LENGTH_MAX = 2_000_000
+
+const WATERMARK_FONT_WEIGHT = 600
+/** Tiled marks run up from left to right, like a stamp. */
+const TILE_ANGLE = -30
+
+export const hasWatermark = (settings: WatermarkSettings) =>
+  settings.watermarkLogo !== '' || settings.watermarkText.trim() !== ''
+
+export const pickWatermarkSettings = (settings: Settings): WatermarkSettings =>
+  Object.fromEntries(watermarkKeys.map((key) => [key, settings[key]])) as WatermarkSettings
+
+/** `next` with the watermark of `current`: resets and saved styles restyle the image but keep its mark. */
+export const keepWatermark = (next: Settings, current: Settings): Settings => ({
+  ...next,
+  ...pickWatermarkSettings(current),
+})
+
+export const getWatermarkFont = (settings: Pick<Settings, 'watermarkTextSize' | 'textFont'>) =>
+  `${WATERMARK_FONT_WEIGHT} ${settings.watermarkTextSize}px ${getFontStack(settings.textFont)}`
+
+interface WatermarkMark extends Size {
+  logo: (Size & { source: RenderSource }) | null
+  text: { value: string; width: number } | null
+  gap: number
+}
+
+/** The logo sits left of the text, both centered on one line. */
+const measureMark = (
+  context: RenderContext,
+  settings: Settings,
+  logo: RenderSource | null,
+): WatermarkMark | null => {
+  const value = settings.watermarkText.trim()
+  const logoSize =
+    logo && logo.width > 0 && logo.height > 0
+      ? { width: (logo.width / logo.height) * settings.watermarkSize, height: settings.watermarkSize }
+      : null
+  if (!logoSize && !value) return null
+
+  context.font = getWatermarkFont(settings)
+  const text = value ? { value, width: context.measureText(value).width } : null
+  const gap = logoSize && text ? settings.watermarkTextSize * 0.5 : 0
+  return {
+    logo: logo && logoSize ? { ...logoSize, source: logo } : null,
+    text,
+    gap,
+    width: (logoSize?.width ?? 0) + gap + (text?.width ?? 0),
+    height: Math.max(logoSize?.height ?? 0, text ? settings.watermarkTextSize * 1.2 : 0),
+  }
+}
+
+/** Draws the mark with its top-left corner at the origin. */
+const drawMark = (context: RenderContext, mark: WatermarkMark, color: string) => {
+  if (mark.logo) {
+    const { source, width, height } = mark.logo
+    context.drawImage(source.image, 0, (mark.height - height) / 2, width, height)
+  }
+  if (mark.text) {
+    context.fillStyle = color
+    context.textBaseline = 'middle'
+    context.textAlign = 'left'
+    context.fillText(mark.text.value, (mark.logo?.width ?? 0) + mark.gap, mark.height / 2)
+  }
+}
+
+/** Where the mark's top-left corner goes for the single-mark positions. */
+const getMarkOrigin = (settings: Settings, canvas: Size, mark: Size) => {
+  const margin = settings.watermarkMargin
+  switch (settings.watermarkPosition) {
+    case 'top-left':
+      return { x: margin, y: margin }
+    case 'top-right':
+      return { x: canvas.width - margin - mark.width, y: margin }
+    case 'bottom-left':
+      return { x: margin, y: canvas.height - margin - mark.height }
+    case 'bottom-right':
+      return { x: canvas.width - margin - mark.width, y: canvas.height - margin - mark.height }
+    default:
+      return {
+        x: (canvas.width * settings.watermarkX) / 100 - mark.width / 2,
+        y: (canvas.height * settings.watermarkY) / 100 - mark.height / 2,
+      }
+  }
+}
+
+/**
+ * Repeats the mark on a rotated lattice that covers the canvas whatever the angle. The
+ * margin is the space between marks; odd rows shift by half a step so columns don't line up.
+ */
+const paintTiles = (context: RenderContext, settings: Settings, canvas: Size, mark: WatermarkMark) => {
+  const stepX = mark.width + Math.max(settings.watermarkMargin, mark.height)
+  const stepY = mark.height + Math.max(settings.watermarkMargin, mark.height)
+  const reach = Math.hypot(canvas.width, canvas.height) / 2
+  const columns = Math.ceil(reach / stepX) + 1
+  const rows = Math.ceil(reach / stepY) + 1
+
+  context.translate(canvas.width / 2, canvas.height / 2)
+  context.rotate((TILE_ANGLE * Math.PI) / 180)
+  for (let row = -rows; row <= rows; row += 1) {
+    const shift = row % 2 === 0 ? 0 : stepX / 2
+    for (let column = -columns; column <= columns; column += 1) {
+      context.save()
+      context.translate(column * stepX + shift - mark.width / 2, row * stepY - mark.height / 2)
+      drawMark(context, mark, settings.watermarkColor)
+      context.restore()
+    }
+  }
+}
+
+/** Paints the watermark over a canvas of `canvas` size; does nothing when there is none. */
+export const paintWatermark = (
+  context: RenderContext,
+  settings: Settings,
+  canvas: Size,
+  logo: RenderSource | null,
+) => {
+  context.save()
+  const mark = measureMark(context, settings, settings.watermarkLogo ? logo : null)
+  if (!mark) {
+    context.restore()
+    return
+  }
+
+  context.globalAlpha = settings.watermarkOpacity / 100
+  if (settings.watermarkPosition === 'tiled') {
+    paintTiles(context, settings, canvas, mark)
+  } else {
+    const origin = getMarkOrigin(settings, canvas, mark)
+    context.translate(origin.x, origin.y)
+    drawMark(context, mark, settings.watermarkColor)
+  }
+  context.restore()
+}
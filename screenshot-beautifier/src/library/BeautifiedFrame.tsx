@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { CSSProperties, ReactNode } from 'react'
+import clsx from 'clsx'
+import { buildExportJob, loadImageSource } from './exportImage'
+import type { ImageSource, LoadedImage } from './exportImage'
+import { resolveSettings } from '../core/styles'
+import { useElementSize } from '../hooks/useElementSize'
+import type { Annotation } from '../lib/annotations'
+import { renderImage } from '../lib/renderClient'
+import type { Settings } from '../settings'
+
+export interface BeautifiedFrameProps {
+  image: ImageSource | null
+  /** Partial settings are filled in from the defaults. */
+  settings: Partial<Settings>
+  /** Window title; defaults to the frame title in the settings, else "Screenshot". */
+  title?: string
+  annotations?: Annotation[]
+  /** URL of the wallpaper for "image" backgrounds. */
+  wallpaper?: string | null
+  /** Leaves out the canvas background, as a transparent export does. */
+  transparent?: boolean
+  /** Shown until there is an image to frame. */
+  placeholder?: ReactNode
+  onError?: (error: unknown) => void
+  className?: string
+  style?: CSSProperties
+}
+
+/** Settings changes this close together render once, so dragging a slider doesn't queue a render per step. */
+const RENDER_DELAY_MS = 60
+
+const NO_ANNOTATIONS: Annotation[] = []
+
+/**
+ * The composition as the exporter draws it, without any editing. It renders at the
+ * screen's pixel ratio and, on "auto" canvases, at the width it is given, so it is
+ * exactly what `exportImage()` produces at that size.
+ */
+export const BeautifiedFrame = ({
+  image,
+  settings,
+  title,
+  annotations = NO_ANNOTATIONS,
+  wallpaper = null,
+  transparent = false,
+  placeholder = null,
+  onError,
+  className,
+  style,
+}: BeautifiedFrameProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const { width } = useElementSize(containerRef)
+  const [loaded, setLoaded] = useState<{ source: ImageSource; image: LoadedImage } | null>(null)
+  const [preview, setPreview] = useState<{ url: string; width: number; height: number } | null>(null)
+  const resolved = useMemo(() => resolveSettings(settings).settings, [settings])
+  const current = loaded?.source === image ? loaded.image : null
+
+  // Errors go to the latest handler without rerunning the effects that report them.
+  const onErrorRef = useRef(onError)
+  useEffect(() => {
+    onErrorRef.current = onError
+  })
+
+  useEffect(() => {
+    if (!image) return
+    let cancelled = false
+    loadImageSource(image)
+      .then((decoded) => {
+        if (!cancelled) setLoaded({ source: image, image: decoded })
+      })
+      .catch((error) => (onErrorRef.current ?? console.error)(error))
+    return () => {
+      cancelled = true
+    }
+  }, [image])
+
+  useEffect(() => {
+    if (!current || width === 0) return
+    let cancelled = false
+    const timeout = window.setTimeout(() => {
+      const job = buildExportJob(current, resolved, {
+        width: Math.round(width),
+        title,
+        annotations,
+        wallpaperUrl: wallpaper,
+      })
+      renderImage({ ...job, scale: window.devicePixelRatio || 1, transparent, type: 'image/png' })
+        .then((rendered) => {
+          if (cancelled) return
+          setPreview({
+            url: URL.createObjectURL(rendered.blob),
+            width: rendered.width / rendered.scale,
+            height: rendered.height / rendered.scale,
+          })
+        })
+        .catch((error) => {
+          if (!cancelled) (onErrorRef.current ?? console.error)(error)
+        })
+    }, RENDER_DELAY_MS)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timeout)
+    }
+  }, [current, resolved, width, title, annotations, wallpaper, transparent])
+
+  useEffect(() => {
+    if (!preview) return
+    return () => URL.revokeObjectURL(preview.url)
+  }, [preview])
+
+  return (
+    <div className={clsx('screenshot-beautifier', className)} style={style}>
+      <div ref={containerRef} className="w-full">
+        {image && preview ? (
+          <img
+            src={preview.url}
+            alt=""
+            width={preview.width}
+            height={preview.height}
+            className="mx-auto block h-auto max-w-full"
+          />
+        ) : image ? null : (
+          placeholder
+        )}
+      </div>
+    </div>
+  )
+}
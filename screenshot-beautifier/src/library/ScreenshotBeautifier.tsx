@@ -0,0 +1,181 @@
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react'
+import type { CSSProperties, ReactNode } from 'react'
+import clsx from 'clsx'
+import { BeautifiedFrame } from './BeautifiedFrame'
+import { loadImageSource } from './exportImage'
+import type { ImageSource } from './exportImage'
+import { BackgroundPanel } from '../components/BackgroundPanel'
+import { CanvasPanel } from '../components/CanvasPanel'
+import { EffectsPanel } from '../components/EffectsPanel'
+import { FramePanel } from '../components/FramePanel'
+import { LayoutPanel } from '../components/LayoutPanel'
+import { PlacementPanel } from '../components/PlacementPanel'
+import { ShadowPanel } from '../components/ShadowPanel'
+import { TextPanel } from '../components/TextPanel'
+import { WatermarkPanel } from '../components/WatermarkPanel'
+import { prepareImageFile } from '../lib/imageInput'
+import { createQueuedImage } from '../lib/images'
+import type { QueuedImage } from '../lib/images'
+import { getPaletteSuggestions, matchSettingsToPalette } from '../lib/palette'
+import { WATERMARK_LOGO_SIDE } from '../lib/watermark'
+import type { Settings } from '../settings'
+
+export type BeautifierSection =
+  | 'frame'
+  | 'placement'
+  | 'text'
+  | 'watermark'
+  | 'canvas'
+  | 'layout'
+  | 'shadow'
+  | 'background'
+  | 'effects'
+
+export interface ScreenshotBeautifierProps {
+  image: ImageSource | null
+  value: Settings
+  /** `coalesceKey` is set while a control is dragged, so hosts with undo can merge the steps. */
+  onChange: (settings: Settings, coalesceKey?: string) => void
+  /** Per sidebar section: `false` hides it, and any other node takes its place. */
+  slots?: Partial<Record<BeautifierSection, ReactNode>>
+  /** Window title; defaults to the frame title in the settings, else "Screenshot". */
+  title?: string
+  /** URL of the wallpaper for "image" backgrounds. Uploads only show once the host passes them back. */
+  wallpaper?: string | null
+  onWallpaperChange?: (wallpaper: string | null) => void
+  /** Files that can't be used, and renders that fail. Defaults to `console.error`. */
+  onError?: (error: unknown) => void
+  className?: string
+  style?: CSSProperties
+}
+
+/**
+ * The beautifier's preview and styling sidebar as one controlled component: the host owns
+ * the settings, and every control reports a whole new settings object.
+ */
+export const ScreenshotBeautifier = ({
+  image,
+  value,
+  onChange,
+  slots = {},
+  title,
+  wallpaper = null,
+  onWallpaperChange,
+  onError,
+  className,
+  style,
+}: ScreenshotBeautifierProps) => {
+  const [queued, setQueued] = useState<{ source: ImageSource; image: QueuedImage } | null>(null)
+  const current = queued?.source === image ? queued.image : null
+  const reportError = (error: unknown) => (onError ?? console.error)(error)
+
+  const update = (patch: Partial<Settings>, coalesceKey?: string) =>
+    onChange({ ...value, ...patch }, coalesceKey)
+
+  // A new image re-matches "Match screenshot" backgrounds with the latest settings.
+  const latestRef = useRef({ value, onChange, onError })
+  useEffect(() => {
+    latestRef.current = { value, onChange, onError }
+  })
+
+  useEffect(() => {
+    if (!image) return
+    let cancelled = false
+    loadImageSource(image)
+      .then(({ dataUrl }) => createQueuedImage(dataUrl, 'Screenshot'))
+      .then((next) => {
+        if (cancelled) return
+        setQueued({ source: image, image: next })
+        const latest = latestRef.current
+        if (latest.value.matchScreenshot) latest.onChange(matchSettingsToPalette(latest.value, next.palette))
+      })
+      .catch((error) => (latestRef.current.onError ?? console.error)(error))
+    return () => {
+      cancelled = true
+    }
+  }, [image])
+
+  const suggestions = useMemo(
+    () => (current ? getPaletteSuggestions(current.palette, value) : null),
+    [current, value],
+  )
+
+  const uploadWallpaper = async (file: File) => {
+    try {
+      const { dataUrl } = await prepareImageFile(file, { downscale: true })
+      onWallpaperChange?.(dataUrl)
+    } catch (error) {
+      reportError(error)
+    }
+  }
+
+  const uploadWatermarkLogo = async (file: File) => {
+    try {
+      const { dataUrl } = await prepareImageFile(file, {
+        downscale: false,
+        maxSide: WATERMARK_LOGO_SIDE,
+      })
+      update({ watermarkLogo: dataUrl })
+    } catch (error) {
+      reportError(error)
+    }
+  }
+
+  const sections: Record<BeautifierSection, ReactNode> = {
+    frame: <FramePanel settings={value} onChange={update} titlePlaceholder={title ?? 'Screenshot'} />,
+    placement: <PlacementPanel settings={value} image={current} isCropping={false} onChange={update} />,
+    text: <TextPanel settings={value} onChange={update} />,
+    watermark: (
+      <WatermarkPanel
+        settings={value}
+        onChange={update}
+        onLogoUpload={(file) => void uploadWatermarkLogo(file)}
+      />
+    ),
+    canvas: <CanvasPanel settings={value} onChange={update} />,
+    layout: <LayoutPanel settings={value} onChange={update} />,
+    shadow: <ShadowPanel settings={value} onChange={update} />,
+    background: (
+      <BackgroundPanel
+        settings={value}
+        onChange={update}
+        palette={current?.palette ?? null}
+        suggestions={suggestions}
+        onMatchScreenshotChange={(matchScreenshot) => {
+          const next = { ...value, matchScreenshot }
+          onChange(matchScreenshot && current ? matchSettingsToPalette(next, current.palette) : next)
+        }}
+        wallpaper={wallpaper ? { name: 'Wallpaper', dataUrl: wallpaper } : null}
+        onWallpaperUpload={(file) => void uploadWallpaper(file)}
+        onWallpaperRemove={() => onWallpaperChange?.(null)}
+      />
+    ),
+    effects: <EffectsPanel settings={value} onChange={update} />,
+  }
+
+  return (
+    <div className={clsx('screenshot-beautifier', className)} style={style}>
+      <div className="grid gap-8 xl:grid-cols-[minmax(0,1.5fr)_minmax(0,1fr)]">
+        <section>
+          <BeautifiedFrame
+            image={image}
+            settings={value}
+            title={title}
+            wallpaper={wallpaper}
+            onError={onError}
+            placeholder={
+              <div className="flex min-h-[320px] items-center justify-center rounded-[30px] border-2 border-dashed border-white/20 bg-slate-950/80 px-10 text-center text-sm text-slate-400">
+                No screenshot yet.
+              </div>
+            }
+          />
+        </section>
+        <aside className="flex flex-col gap-6">
+          {(Object.keys(sections) as BeautifierSection[]).map((id) =>
+            slots[id] === false ? null : <Fragment key={id}>{slots[id] ?? sections[id]}</Fragment>,
+          )}
+        </aside>
+      </div>
+    </div>
+  )
+}
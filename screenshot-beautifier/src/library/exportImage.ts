@@ -0,0 +1,86 @@
+import { resolveSettings } from '../core/styles'
+import type { Annotation } from '../lib/annotations'
+import { renderExportBlob } from '../lib/exporter'
+import type { ExportFormat, ExportJob } from '../lib/exporter'
+import { decodeImage, readBlobAsDataUrl } from '../lib/images'
+import { DEFAULT_AUTO_WIDTH } from '../lib/renderLayout'
+import type { Settings } from '../settings'
+
+/** A URL the page may read the pixels of (a data URL, or same-origin or CORS-enabled), or the file itself. */
+export type ImageSource = string | Blob
+
+export interface ExportImageOptions {
+  /** Defaults to PNG. */
+  format?: ExportFormat
+  /** Device pixels per canvas pixel. Defaults to 2. */
+  scale?: number
+  /** 0–1, only used by the lossy formats. Defaults to 0.92. */
+  quality?: number
+  /** Leaves out the canvas background so only the frame, shadow, text, and watermark are painted. */
+  transparent?: boolean
+  /** Canvas width when the size is "auto"; fixed sizes use their own. */
+  width?: number
+  /** Window title; defaults to the frame title in the settings, else "Screenshot". */
+  title?: string
+  annotations?: Annotation[]
+  /** Wallpaper for "image" backgrounds. */
+  wallpaper?: ImageSource | null
+  onProgress?: (progress: number) => void
+}
+
+export interface LoadedImage {
+  dataUrl: string
+  width: number
+  height: number
+}
+
+const toImageUrl = (source: ImageSource) =>
+  typeof source === 'string' ? Promise.resolve(source) : readBlobAsDataUrl(source)
+
+/** Reads `source` once into a URL the renderer can decode, with its size for the layout. */
+export const loadImageSource = async (source: ImageSource): Promise<LoadedImage> => {
+  const dataUrl = await toImageUrl(source)
+  const image = await decodeImage(dataUrl)
+  return { dataUrl, width: image.naturalWidth, height: image.naturalHeight }
+}
+
+/** Everything the renderer needs for `image`, the way `exportImage()` draws it. */
+export const buildExportJob = (
+  image: LoadedImage,
+  settings: Settings,
+  {
+    width,
+    title,
+    annotations = [],
+    wallpaperUrl = null,
+  }: Pick<ExportImageOptions, 'width' | 'title' | 'annotations'> & { wallpaperUrl?: string | null },
+): ExportJob => ({
+  settings,
+  image: { ...image, annotations, redactions: [] },
+  backdropUrl:
+    settings.backgroundType === 'screenshot'
+      ? image.dataUrl
+      : settings.backgroundType === 'image'
+        ? wallpaperUrl
+        : null,
+  title: title ?? (settings.frameTitle.trim() || 'Screenshot'),
+  autoWidth: width ?? DEFAULT_AUTO_WIDTH,
+})
+
+/**
+ * Renders `image` with `settings` (partial settings are filled in from the defaults) and
+ * resolves with the encoded file, drawn exactly as the app exports it.
+ */
+export const exportImage = async (
+  image: ImageSource,
+  settings: Partial<Settings> = {},
+  options: ExportImageOptions = {},
+) => {
+  const { format = 'png', scale = 2, quality = 0.92, transparent = false, wallpaper, onProgress } = options
+  const [loaded, wallpaperUrl] = await Promise.all([
+    loadImageSource(image),
+    wallpaper ? toImageUrl(wallpaper) : null,
+  ])
+  const job = buildExportJob(loaded, resolveSettings(settings).settings, { ...options, wallpaperUrl })
+  return renderExportBlob(job, { format, scale, quality, transparent }, onProgress)
+}
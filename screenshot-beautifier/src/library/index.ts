@@ -0,0 +1,16 @@
+/**
+ * The embeddable beautifier: the controlled editor, a preview-only frame, the sidebar
+ * controls, and `exportImage()`, on top of the framework-free core. Styles ship separately
+ * in `style.css` and only apply inside the library's components.
+ */
+
+export { ScreenshotBeautifier } from './ScreenshotBeautifier'
+export type { BeautifierSection, ScreenshotBeautifierProps } from './ScreenshotBeautifier'
+export { BeautifiedFrame } from './BeautifiedFrame'
+export type { BeautifiedFrameProps } from './BeautifiedFrame'
+export { exportImage } from './exportImage'
+export type { ExportImageOptions, ImageSource } from './exportImage'
+export { PresetSwatch, SectionCard, SegmentedControl, SliderControl } from '../components/controls'
+export type { SegmentedControlOption } from '../components/controls'
+export type { ExportFormat } from '../lib/exporter'
+export * from '../core'
@@ -0,0 +1,4 @@
+// Bundle entry: the public API plus the stylesheet, which Vite emits as style.css.
+import './styles.css'
+
+export * from './index'
@@ -0,0 +1,483 @@
+import { CANVAS_DIMENSION_MAX, CANVAS_DIMENSION_MIN, canvasSizePresets } from './lib/canvasSize'
+import type { CanvasSizeId } from './lib/canvasSize'
+import { BROWSER_TAB_COUNT_MAX, frameAppearanceOptions, frameDefinitions } from './lib/frames'
+import type { FrameAppearance, FrameType } from './lib/frames'
+import {
+  CROP_SIZE_MIN,
+  FRAME_BLEED_MAX,
+  TILT_MAX,
+  ZOOM_MAX,
+  ZOOM_MIN,
+  cropAspectOptions,
+  frameAlignOptions,
+} from './lib/placement'
+import type { CropAspect, FrameAlign } from './lib/placement'
+import { TEXT_FONT_WEIGHTS, textFonts } from './lib/fonts'
+import type { TextFont } from './lib/fonts'
+import {
+  GRADIENT_STOPS_MAX,
+  GRADIENT_STOPS_MIN,
+  getGradientBackground,
+  getPatternBackground,
+  gradientKindOptions,
+  patternKindOptions,
+} from './lib/backgrounds'
+import type { GradientKind, GradientStop, PatternKind } from './lib/backgrounds'
+import {
+  GLOW_SIZE_MAX,
+  GLOW_SIZE_MIN,
+  SHADOW_BLUR_MAX,
+  SHADOW_DISTANCE_MAX,
+  SHADOW_LAYERS_MAX,
+  SHADOW_SPREAD_MAX,
+  getLegacyShadowLayers,
+  glowSourceOptions,
+} from './lib/shadows'
+import type { GlowSource, ShadowLayer } from './lib/shadows'
+import {
+  WATERMARK_LOGO_LENGTH_MAX,
+  WATERMARK_MARGIN_MAX,
+  WATERMARK_OPACITY_MIN,
+  WATERMARK_SIZE_MAX,
+  WATERMARK_SIZE_MIN,
+  WATERMARK_TEXT_MAX_LENGTH,
+  WATERMARK_TEXT_SIZE_MAX,
+  WATERMARK_TEXT_SIZE_MIN,
+  watermarkPositionOptions,
+} from './lib/watermark'
+import type { WatermarkPosition } from './lib/watermark'
+import { EFFECTS_MAX, effectDefinitions, getEffectDefinition, getLegacyEffects } from './lib/effects'
+import type { EffectLayer, EffectParam } from './lib/effects'
+
+export type BackgroundType = 'gradient' | 'solid' | 'pattern' | 'image' | 'screenshot'
+
+export type TextPlacement = 'above' | 'below' | 'left' | 'right'
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+export interface Settings {
+  borderRadius: number
+  padding: number
+  /** Shadows cast by the frame, topmost first; empty for none. */
+  shadowLayers: ShadowLayer[]
+  /** Outer glow opacity in percent; 0 turns it off. */
+  glowStrength: number
+  /** Glow blur radius in pixels. */
+  glowSize: number
+  glowColor: string
+  glowSource: GlowSource
+  backgroundType: BackgroundType
+  gradientType: GradientKind
+  gradientStops: GradientStop[]
+  /** Direction of linear gradients and the start of conic ones; rotates mesh blobs. */
+  gradientAngle: number
+  /** Center of radial and conic gradients, in percent of the canvas. */
+  gradientCenterX: number
+  gradientCenterY: number
+  /** Solid backdrop, and the base color under patterns and photos. */
+  backgroundColor: string
+  patternType: PatternKind
+  patternColor: string
+  /** Tile size in pixels. */
+  patternScale: number
+  patternOpacity: number
+  /** Uploaded wallpaper filters: blur in pixels, brightness and scale in percent. */
+  wallpaperBlur: number
+  wallpaperBrightness: number
+  wallpaperScale: number
+  /** The same filters for the blurred copy of the screenshot. */
+  screenshotBlur: number
+  screenshotBrightness: number
+  screenshotScale: number
+  /** Re-derives the backdrop and accent from each screenshot's colors as images change. */
+  matchScreenshot: boolean
+  frameType: FrameType
+  /** Overrides the title bar text; empty uses the image name. */
+  frameTitle: string
+  browserUrl: string
+  browserTabCount: number
+  frameAppearance: FrameAppearance
+  deviceNotch: boolean
+  windowAccent: string
+  /** Crop region as fractions of the screenshot; the defaults keep the whole image. */
+  cropX: number
+  cropY: number
+  cropWidth: number
+  cropHeight: number
+  cropAspect: CropAspect
+  /** Percent magnification of the crop; pan slides the view from -100 (left/top) to 100. */
+  zoom: number
+  panX: number
+  panY: number
+  frameAlign: FrameAlign
+  /** Percent of the frame pushed past the canvas edges it is aligned to. */
+  frameBleed: number
+  /** Perspective rotation in degrees around each axis. */
+  tiltX: number
+  tiltY: number
+  tiltZ: number
+  /** Marketing copy drawn on the canvas; empty strings hide the text block. */
+  headline: string
+  caption: string
+  textPlacement: TextPlacement
+  textAlign: TextAlign
+  textFont: TextFont
+  headlineSize: number
+  headlineWeight: number
+  headlineColor: string
+  captionSize: number
+  captionWeight: number
+  captionColor: string
+  /** Widest the text block may grow, as a percent of the canvas. */
+  textMaxWidth: number
+  /** Space between the text block and the frame, in pixels. */
+  textGap: number
+  /** Logo stamped over the canvas as a PNG data URL; empty for none. */
+  watermarkLogo: string
+  /** Credit line beside the logo; empty hides it. */
+  watermarkText: string
+  watermarkPosition: WatermarkPosition
+  /** Center of a "custom" watermark, in percent of the canvas. */
+  watermarkX: number
+  watermarkY: number
+  /** Logo height and text size, in pixels. */
+  watermarkSize: number
+  watermarkTextSize: number
+  watermarkOpacity: number
+  /** Inset from the canvas edges in a corner, and the space between marks when tiled. */
+  watermarkMargin: number
+  watermarkColor: string
+  /** Finishing effects in paint order; later ones paint over earlier ones on the same layer. */
+  effects: EffectLayer[]
+  canvasSize: CanvasSizeId
+  canvasWidth: number
+  canvasHeight: number
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  borderRadius: 36,
+  padding: 72,
+  shadowLayers: getLegacyShadowLayers(65),
+  glowStrength: 0,
+  glowSize: 64,
+  glowColor: '#a855f7',
+  glowSource: 'gradient',
+  backgroundType: 'gradient',
+  gradientType: 'linear',
+  gradientStops: [
+    { color: '#60a5fa', position: 0 },
+    { color: '#a855f7', position: 100 },
+  ],
+  gradientAngle: 135,
+  gradientCenterX: 50,
+  gradientCenterY: 50,
+  backgroundColor: '#0f172a',
+  patternType: 'dots',
+  patternColor: '#ffffff',
+  patternScale: 28,
+  patternOpacity: 30,
+  wallpaperBlur: 0,
+  wallpaperBrightness: 100,
+  wallpaperScale: 100,
+  screenshotBlur: 48,
+  screenshotBrightness: 80,
+  screenshotScale: 130,
+  matchScreenshot: false,
+  frameType: 'macos-dark',
+  frameTitle: '',
+  browserUrl: 'https://example.com',
+  browserTabCount: 2,
+  frameAppearance: 'dark',
+  deviceNotch: true,
+  windowAccent: '#22d3ee',
+  cropX: 0,
+  cropY: 0,
+  cropWidth: 1,
+  cropHeight: 1,
+  cropAspect: 'free',
+  zoom: 100,
+  panX: 0,
+  panY: 0,
+  frameAlign: 'center',
+  frameBleed: 0,
+  tiltX: 0,
+  tiltY: 0,
+  tiltZ: 0,
+  headline: '',
+  caption: '',
+  textPlacement: 'above',
+  textAlign: 'center',
+  textFont: 'inter',
+  headlineSize: 64,
+  headlineWeight: 700,
+  headlineColor: '#ffffff',
+  captionSize: 28,
+  captionWeight: 400,
+  captionColor: '#e2e8f0',
+  textMaxWidth: 75,
+  textGap: 48,
+  watermarkLogo: '',
+  watermarkText: '',
+  watermarkPosition: 'bottom-right',
+  watermarkX: 50,
+  watermarkY: 50,
+  watermarkSize: 48,
+  watermarkTextSize: 20,
+  watermarkOpacity: 70,
+  watermarkMargin: 32,
+  watermarkColor: '#ffffff',
+  effects: getLegacyEffects(12, 40),
+  canvasSize: 'auto',
+  canvasWidth: 1600,
+  canvasHeight: 900,
+}
+
+/**
+ * Bumped whenever a stored `Settings` shape needs more than default-filling to be read,
+ * e.g. a field is renamed or changes meaning. Add the matching step to `settingsMigrations`.
+ */
+export const SETTINGS_VERSION = 5
+
+type Validator = (value: unknown) => boolean
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isHexColor: Validator = (value) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)
+
+const isNumberBetween =
+  (min: number, max: number): Validator =>
+  (value) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+
+const isOneOf =
+  (values: readonly string[]): Validator =>
+  (value) =>
+    typeof value === 'string' && values.includes(value)
+
+const isBoolean: Validator = (value) => typeof value === 'boolean'
+
+const isStringUpTo =
+  (maxLength: number): Validator =>
+  (value) =>
+    typeof value === 'string' && value.length <= maxLength
+
+const isGradientStops: Validator = (value) =>
+  Array.isArray(value) &&
+  value.length >= GRADIENT_STOPS_MIN &&
+  value.length <= GRADIENT_STOPS_MAX &&
+  value.every(
+    (stop) =>
+      isRecord(stop) &&
+      Object.keys(stop).length === 2 &&
+      isHexColor(stop.color) &&
+      isNumberBetween(0, 100)(stop.position),
+  )
+
+const isShadowLayers: Validator = (value) =>
+  Array.isArray(value) &&
+  value.length <= SHADOW_LAYERS_MAX &&
+  value.every(
+    (layer) =>
+      isRecord(layer) &&
+      Object.keys(layer).length === 6 &&
+      isNumberBetween(0, 360)(layer.angle) &&
+      isNumberBetween(0, SHADOW_DISTANCE_MAX)(layer.distance) &&
+      isNumberBetween(0, SHADOW_BLUR_MAX)(layer.blur) &&
+      isNumberBetween(-SHADOW_SPREAD_MAX, SHADOW_SPREAD_MAX)(layer.spread) &&
+      isHexColor(layer.color) &&
+      isNumberBetween(0, 100)(layer.opacity),
+  )
+
+const isEffectValue = (param: EffectParam, value: unknown) =>
+  param.kind === 'slider'
+    ? isNumberBetween(param.min, param.max)(value)
+    : param.kind === 'color'
+      ? isHexColor(value)
+      : isBoolean(value)
+
+/** Each effect must carry exactly the parameters its kind declares, each in range. */
+const isEffectLayers: Validator = (value) =>
+  Array.isArray(value) &&
+  value.length <= EFFECTS_MAX &&
+  value.every((effect) => {
+    if (!isRecord(effect) || Object.keys(effect).length !== 3) return false
+    if (!effectDefinitions.some((definition) => definition.type === effect.type)) return false
+    if (!isBoolean(effect.enabled) || !isRecord(effect.params)) return false
+    const { params } = getEffectDefinition(effect.type as EffectLayer['type'])
+    const values = effect.params
+    return (
+      Object.keys(values).length === params.length &&
+      params.every((param) => param.id in values && isEffectValue(param, values[param.id]))
+    )
+  })
+
+/** Logos are stored inline, so only image data URLs of a bounded size are accepted. */
+const isLogoDataUrl: Validator = (value) =>
+  value === '' ||
+  (typeof value === 'string' && value.startsWith('data:image/') && value.length <= WATERMARK_LOGO_LENGTH_MAX)
+
+const isFontWeight: Validator = (value) =>
+  typeof value === 'number' && TEXT_FONT_WEIGHTS.includes(value)
+
+const settingsSchema: Record<keyof Settings, Validator> = {
+  borderRadius: isNumberBetween(0, 72),
+  padding: isNumberBetween(36, 140),
+  shadowLayers: isShadowLayers,
+  glowStrength: isNumberBetween(0, 100),
+  glowSize: isNumberBetween(GLOW_SIZE_MIN, GLOW_SIZE_MAX),
+  glowColor: isHexColor,
+  glowSource: isOneOf(glowSourceOptions.map((option) => option.id)),
+  backgroundType: isOneOf(['gradient', 'solid', 'pattern', 'image', 'screenshot']),
+  gradientType: isOneOf(gradientKindOptions.map((option) => option.id)),
+  gradientStops: isGradientStops,
+  gradientAngle: isNumberBetween(0, 360),
+  gradientCenterX: isNumberBetween(0, 100),
+  gradientCenterY: isNumberBetween(0, 100),
+  backgroundColor: isHexColor,
+  patternType: isOneOf(patternKindOptions.map((option) => option.id)),
+  patternColor: isHexColor,
+  patternScale: isNumberBetween(8, 96),
+  patternOpacity: isNumberBetween(5, 100),
+  wallpaperBlur: isNumberBetween(0, 40),
+  wallpaperBrightness: isNumberBetween(20, 160),
+  wallpaperScale: isNumberBetween(100, 300),
+  screenshotBlur: isNumberBetween(0, 96),
+  screenshotBrightness: isNumberBetween(20, 160),
+  screenshotScale: isNumberBetween(100, 300),
+  matchScreenshot: isBoolean,
+  frameType: isOneOf(frameDefinitions.map((frame) => frame.id)),
+  frameTitle: isStringUpTo(80),
+  browserUrl: isStringUpTo(200),
+  browserTabCount: isNumberBetween(1, BROWSER_TAB_COUNT_MAX),
+  frameAppearance: isOneOf(frameAppearanceOptions.map((option) => option.id)),
+  deviceNotch: isBoolean,
+  windowAccent: isHexColor,
+  cropX: isNumberBetween(0, 1 - CROP_SIZE_MIN),
+  cropY: isNumberBetween(0, 1 - CROP_SIZE_MIN),
+  cropWidth: isNumberBetween(CROP_SIZE_MIN, 1),
+  cropHeight: isNumberBetween(CROP_SIZE_MIN, 1),
+  cropAspect: isOneOf(cropAspectOptions.map((option) => option.id)),
+  zoom: isNumberBetween(ZOOM_MIN, ZOOM_MAX),
+  panX: isNumberBetween(-100, 100),
+  panY: isNumberBetween(-100, 100),
+  frameAlign: isOneOf(frameAlignOptions),
+  frameBleed: isNumberBetween(0, FRAME_BLEED_MAX),
+  tiltX: isNumberBetween(-TILT_MAX, TILT_MAX),
+  tiltY: isNumberBetween(-TILT_MAX, TILT_MAX),
+  tiltZ: isNumberBetween(-TILT_MAX, TILT_MAX),
+  headline: isStringUpTo(120),
+  caption: isStringUpTo(240),
+  textPlacement: isOneOf(['above', 'below', 'left', 'right']),
+  textAlign: isOneOf(['left', 'center', 'right']),
+  textFont: isOneOf(textFonts.map((font) => font.id)),
+  headlineSize: isNumberBetween(24, 160),
+  headlineWeight: isFontWeight,
+  headlineColor: isHexColor,
+  captionSize: isNumberBetween(12, 72),
+  captionWeight: isFontWeight,
+  captionColor: isHexColor,
+  textMaxWidth: isNumberBetween(20, 100),
+  textGap: isNumberBetween(0, 160),
+  watermarkLogo: isLogoDataUrl,
+  watermarkText: isStringUpTo(WATERMARK_TEXT_MAX_LENGTH),
+  watermarkPosition: isOneOf(watermarkPositionOptions.map((option) => option.id)),
+  watermarkX: isNumberBetween(0, 100),
+  watermarkY: isNumberBetween(0, 100),
+  watermarkSize: isNumberBetween(WATERMARK_SIZE_MIN, WATERMARK_SIZE_MAX),
+  watermarkTextSize: isNumberBetween(WATERMARK_TEXT_SIZE_MIN, WATERMARK_TEXT_SIZE_MAX),
+  watermarkOpacity: isNumberBetween(WATERMARK_OPACITY_MIN, 100),
+  watermarkMargin: isNumberBetween(0, WATERMARK_MARGIN_MAX),
+  watermarkColor: isHexColor,
+  effects: isEffectLayers,
+  canvasSize: isOneOf(canvasSizePresets.map((preset) => preset.id)),
+  canvasWidth: isNumberBetween(CANVAS_DIMENSION_MIN, CANVAS_DIMENSION_MAX),
+  canvasHeight: isNumberBetween(CANVAS_DIMENSION_MIN, CANVAS_DIMENSION_MAX),
+}
+
+/** Step `n` upgrades a settings object written at version `n` to version `n + 1`. */
+const settingsMigrations: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> =
+  {
+    // v2 replaced the single window-chrome toggle with the frame library.
+    1: ({ showWindowChrome, ...rest }) => ({
+      ...rest,
+      frameType: showWindowChrome === false ? 'none' : 'macos-dark',
+    }),
+    // v3 replaced the two gradient colors with a list of stops.
+    2: ({ gradientFrom, gradientTo, ...rest }) =>
+      gradientFrom === undefined && gradientTo === undefined
+        ? rest
+        : {
+            ...rest,
+            gradientStops: [
+              { color: gradientFrom ?? '#60a5fa', position: 0 },
+              { color: gradientTo ?? '#a855f7', position: 100 },
+            ],
+          },
+    // v4 replaced the single shadow intensity with shadow layers.
+    3: ({ dropShadow, ...rest }) =>
+      typeof dropShadow === 'number' ? { ...rest, shadowLayers: getLegacyShadowLayers(dropShadow) } : rest,
+    // v5 replaced the texture and vignette sliders with the effects stack.
+    4: ({ noise, vignette, ...rest }) =>
+      noise === undefined && vignette === undefined
+        ? rest
+        : {
+            ...rest,
+            effects: getLegacyEffects(
+              typeof noise === 'number' ? noise : 12,
+              typeof vignette === 'number' ? vignette : 40,
+            ),
+          },
+  }
+
+export const migrateSettings = (value: Record<string, unknown>, fromVersion: number) => {
+  let migrated = value
+  for (let version = fromVersion; version < SETTINGS_VERSION; version += 1) {
+    migrated = settingsMigrations[version]?.(migrated) ?? migrated
+  }
+  return migrated
+}
+
+/**
+ * Reads an untrusted settings object field by field. Unknown keys are dropped and any
+ * missing or invalid field falls back to `DEFAULT_SETTINGS`, so older files keep loading
+ * as new fields are added.
+ */
+export const sanitizeSettings = (value: unknown, fromVersion = SETTINGS_VERSION) => {
+  const source = isRecord(value) ? migrateSettings(value, fromVersion) : {}
+  const result: Record<string, unknown> = { ...DEFAULT_SETTINGS }
+  const invalidKeys: (keyof Settings)[] = []
+
+  for (const key of Object.keys(settingsSchema) as (keyof Settings)[]) {
+    if (!(key in source)) continue
+    if (settingsSchema[key](source[key])) {
+      result[key] = source[key]
+    } else {
+      invalidKeys.push(key)
+    }
+  }
+
+  return { settings: result as unknown as Settings, invalidKeys }
+}
+
+/** Fields are primitives or small JSON values such as gradient stops, compared by content. */
+const isSameValue = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b))
+
+export const areSettingsEqual = (a: Settings, b: Settings) =>
+  (Object.keys(settingsSchema) as (keyof Settings)[]).every((key) => isSameValue(a[key], b[key]))
+
+/**
+ * The CSS background of the canvas itself. Photo backdrops are drawn by a separate layer,
+ * so here they only contribute the base color that shows through at the edges.
+ */
+export const getCanvasBackground = (settings: Settings) => {
+  switch (settings.backgroundType) {
+    case 'gradient':
+      return getGradientBackground(settings)
+    case 'pattern':
+      return getPatternBackground(settings)
+    default:
+      return settings.backgroundColor
+  }
+}
@@ -0,0 +1,7 @@
+import config from './tailwind.config.js'
+
+/** The app's theme, built for the library bundle from the sources the components use. */
+export default {
+  ...config,
+  content: ['./src/**/*.{js,ts,jsx,tsx}'],
+}
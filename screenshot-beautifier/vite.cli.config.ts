@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite'
+
+// Bundles the Node API and the `ssbeautify` CLI; dependencies stay external.
+export default defineConfig({
+  // public/ holds the app's static files, which have no place in the package.
+  publicDir: false,
+  build: {
+    ssr: true,
+    target: 'node18',
+    outDir: 'dist-cli',
+    rollupOptions: {
+      input: { ssbeautify: 'node/cli.ts', index: 'node/index.ts' },
+      output: {
+        entryFileNames: '[name].js',
+        banner: (chunk) => (chunk.name === 'ssbeautify' ? '#!/usr/bin/env node' : ''),
+      },
+    },
+  },
+})
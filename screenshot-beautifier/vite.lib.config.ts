@@ -0,0 +1,54 @@
+import { defineConfig } from 'vite'
+import type { AtRule, Plugin } from 'postcss'
+import react from '@vitejs/plugin-react'
+import autoprefixer from 'autoprefixer'
+import tailwindcss from 'tailwindcss'
+
+/** The class on the root of every library component; see src/library/styles.css. */
+const SCOPE = '.screenshot-beautifier'
+
+/** Selectors that style the page itself, which the library's root stands in for. */
+const PAGE_SELECTORS = new Set(['html', 'body', ':root', ':host'])
+
+/**
+ * Nests every rule under `SCOPE`, so Tailwind's reset and utilities only reach elements
+ * inside the library's components and never the host app around them.
+ */
+const scopeStyles = (): Plugin => ({
+  postcssPlugin: 'scope-styles',
+  OnceExit(root) {
+    root.walkRules((rule) => {
+      if (rule.parent?.type === 'atrule' && (rule.parent as AtRule).name.endsWith('keyframes')) return
+      rule.selectors = rule.selectors.map((selector) =>
+        selector.startsWith(SCOPE) ? selector : PAGE_SELECTORS.has(selector) ? SCOPE : `${SCOPE} ${selector}`,
+      )
+    })
+  },
+})
+
+// Bundles the embeddable components into dist-lib/; React stays with the host app.
+export default defineConfig({
+  plugins: [react()],
+  // public/ holds the app's static files, which have no place in the package.
+  publicDir: false,
+  // Keeps the render worker's URL relative to the bundle wherever the host serves it from.
+  base: './',
+  css: {
+    postcss: {
+      plugins: [tailwindcss({ config: './tailwind.lib.config.js' }), scopeStyles(), autoprefixer()],
+    },
+  },
+  worker: { format: 'es' },
+  build: {
+    outDir: 'dist-lib',
+    lib: {
+      entry: 'src/library/main.ts',
+      formats: ['es'],
+      fileName: 'screenshot-beautifier',
+      cssFileName: 'style',
+    },
+    rollupOptions: {
+      external: ['react', 'react-dom', 'react/jsx-runtime', 'fflate'],
+    },
+  },
+})